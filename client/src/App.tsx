@@ -9,6 +9,10 @@ import Dashboard from "@/pages/dashboard";
 import Quiz from "@/pages/quiz";
 import Admin from "@/pages/admin";
 import Profile from "@/pages/profile";
+import Multiplayer from "@/pages/multiplayer";
+import Review from "@/pages/review";
+import Session from "@/pages/session";
+import Contribute from "@/pages/contribute";
 import NotFound from "@/pages/not-found";
 
 function Router() {
@@ -19,6 +23,10 @@ function Router() {
       <Route path="/quiz/:themeId" component={Quiz} />
       <Route path="/admin" component={Admin} />
       <Route path="/profile" component={Profile} />
+      <Route path="/multiplayer" component={Multiplayer} />
+      <Route path="/review" component={Review} />
+      <Route path="/sessions/:id" component={Session} />
+      <Route path="/contribute" component={Contribute} />
       <Route component={NotFound} />
     </Switch>
   );
@@ -0,0 +1,134 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { apiRequest } from "@/lib/queryClient";
+import { useAuth } from "@/lib/auth";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useToast } from "@/hooks/use-toast";
+import { LogOut, Monitor, Smartphone } from "lucide-react";
+import type { ActiveSession } from "@shared/sessions";
+
+// Navigateur et système lisibles à partir du User-Agent (approximation suffisante pour reconnaître un appareil)
+function describeDevice(userAgent: string | null): { label: string; mobile: boolean } {
+  if (!userAgent) return { label: "Appareil inconnu", mobile: false };
+
+  const browser =
+    /Edg\//.test(userAgent) ? "Edge" :
+    /OPR\//.test(userAgent) ? "Opera" :
+    /Firefox\//.test(userAgent) ? "Firefox" :
+    /Chrome\//.test(userAgent) ? "Chrome" :
+    /Safari\//.test(userAgent) ? "Safari" :
+    "Navigateur";
+  const os =
+    /Android/.test(userAgent) ? "Android" :
+    /iPhone|iPad/.test(userAgent) ? "iOS" :
+    /Windows/.test(userAgent) ? "Windows" :
+    /Mac OS X/.test(userAgent) ? "macOS" :
+    /Linux/.test(userAgent) ? "Linux" :
+    null;
+
+  return { label: os ? `${browser} sur ${os}` : browser, mobile: /Mobile|Android|iPhone/.test(userAgent) };
+}
+
+const formatDateTime = (iso: string | null) =>
+  iso
+    ? `${new Date(iso).toLocaleDateString("fr-FR")} à ${new Date(iso).toLocaleTimeString("fr-FR", { hour: "2-digit", minute: "2-digit" })}`
+    : "inconnue";
+
+export default function ActiveSessionsCard() {
+  const [, setLocation] = useLocation();
+  const { logout } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: sessions, isLoading } = useQuery<ActiveSession[]>({
+    queryKey: ["/api/auth/sessions"],
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("DELETE", `/api/auth/sessions/${id}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/sessions"] });
+      toast({ title: "Session révoquée" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Erreur", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const revokeAllMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("DELETE", "/api/auth/sessions");
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Déconnecté de toutes les sessions" });
+      logout();
+      setLocation("/login");
+    },
+    onError: (error: any) => {
+      toast({ title: "Erreur", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Monitor className="w-5 h-5" />
+          <span>Sessions actives</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {isLoading ? (
+          <Skeleton className="h-16 w-full" />
+        ) : (
+          sessions?.map((session) => {
+            const device = describeDevice(session.userAgent);
+            const DeviceIcon = device.mobile ? Smartphone : Monitor;
+            return (
+              <div key={session.id} className="flex items-start justify-between gap-2 p-3 bg-gray-50 rounded-lg">
+                <div className="flex items-start space-x-2">
+                  <DeviceIcon className="w-4 h-4 mt-0.5 text-gray-500 shrink-0" />
+                  <div className="text-sm">
+                    <div className="font-medium text-gray-900 flex items-center gap-2">
+                      {device.label}
+                      {session.current && <Badge variant="secondary">Cet appareil</Badge>}
+                    </div>
+                    <div className="text-gray-500">{session.ip ?? "Adresse inconnue"}</div>
+                    <div className="text-gray-500">Dernière activité : {formatDateTime(session.lastSeenAt)}</div>
+                  </div>
+                </div>
+                {!session.current && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={revokeMutation.isPending}
+                    onClick={() => revokeMutation.mutate(session.id)}
+                  >
+                    Révoquer
+                  </Button>
+                )}
+              </div>
+            );
+          })
+        )}
+
+        <Button
+          variant="outline"
+          className="w-full"
+          disabled={revokeAllMutation.isPending}
+          onClick={() => revokeAllMutation.mutate()}
+        >
+          <LogOut className="w-4 h-4 mr-2" />
+          Se déconnecter partout
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,215 @@
+import { useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowDown, ArrowUp, Check } from "lucide-react";
+import type { AnswerValue } from "@shared/schema";
+import type { PublicQuestion } from "@shared/questions";
+
+interface AnswerInputProps {
+  question: PublicQuestion;
+  value?: AnswerValue;
+  onChange: (value: AnswerValue) => void;
+  disabled?: boolean;
+  // Options écartées par le joker 50/50 (positions affichées)
+  eliminated?: number[];
+}
+
+// Types de question pour lesquels un clic sur une option vaut réponse
+export const isSingleClickQuestion = (question: PublicQuestion) =>
+  question.type === "single_choice" || question.type === "true_false";
+
+// Ordre initial d'une remise en ordre : celui, mélangé, reçu du serveur
+const initialOrder = (question: PublicQuestion) => (question.choices ?? []).map((choice) => choice.id);
+
+// Texte lisible d'une réponse (utilisé pour afficher la bonne réponse)
+export function describeAnswer(question: PublicQuestion, answer: AnswerValue): string {
+  const choiceLabel = (id: number) => question.choices?.find((choice) => choice.id === id)?.label ?? "?";
+
+  switch (question.type) {
+    case "multiple_choice":
+      return (Array.isArray(answer) ? answer : [])
+        .map((index) => `${String.fromCharCode(65 + index)}. ${question.options[index]}`)
+        .join(", ");
+    case "free_text":
+      return String(answer);
+    case "numeric":
+      return question.unit ? `${answer} ${question.unit}` : String(answer);
+    case "ordering":
+      return (Array.isArray(answer) ? answer : []).map(choiceLabel).join(" → ");
+    case "matching":
+      return (Array.isArray(answer) ? answer : [])
+        .map((id, index) => `${question.options[index]} → ${choiceLabel(id)}`)
+        .join(", ");
+    default:
+      return typeof answer === "number"
+        ? `${String.fromCharCode(65 + answer)}. ${question.options[answer]}`
+        : String(answer);
+  }
+}
+
+export default function AnswerInput({ question, value, onChange, disabled, eliminated = [] }: AnswerInputProps) {
+  // La remise en ordre a toujours une réponse : l'ordre affiché
+  useEffect(() => {
+    if (question.type === "ordering" && value === undefined) {
+      onChange(initialOrder(question));
+    }
+  }, [question, value, onChange]);
+
+  const optionButton = (label: string, index: number, selected: boolean, onClick: () => void) => (
+    <Button
+      key={index}
+      variant="outline"
+      disabled={disabled || eliminated.includes(index)}
+      className={`w-full p-4 text-left justify-start border-2 transition-all duration-200 ${
+        eliminated.includes(index)
+          ? 'border-gray-100 text-gray-400 line-through'
+          : selected
+          ? 'border-indigo-600 bg-indigo-50 text-indigo-900'
+          : 'border-gray-200 hover:border-indigo-300 hover:bg-indigo-50'
+      }`}
+      onClick={onClick}
+    >
+      <div className="flex items-center space-x-3">
+        <div className={`w-8 h-8 border-2 ${question.type === "multiple_choice" ? 'rounded-md' : 'rounded-full'} flex items-center justify-center font-semibold ${
+          selected
+            ? 'border-indigo-600 bg-indigo-600 text-white'
+            : 'border-gray-300 text-gray-500'
+        }`}>
+          {question.type === "multiple_choice" && selected ? <Check className="w-4 h-4" /> : String.fromCharCode(65 + index)}
+        </div>
+        <span className="text-lg font-medium">{label}</span>
+      </div>
+    </Button>
+  );
+
+  switch (question.type) {
+    case "multiple_choice": {
+      const selected = Array.isArray(value) ? value : [];
+      const toggle = (index: number) =>
+        onChange(selected.includes(index) ? selected.filter((i) => i !== index) : [...selected, index].sort((a, b) => a - b));
+      return (
+        <div className="space-y-4">
+          <p className="text-sm text-gray-500">Plusieurs réponses possibles</p>
+          {question.options.map((option, index) => optionButton(option, index, selected.includes(index), () => toggle(index)))}
+        </div>
+      );
+    }
+
+    case "free_text":
+      return (
+        <Input
+          placeholder="Votre réponse"
+          value={typeof value === "string" ? value : ""}
+          onChange={(e) => onChange(e.target.value)}
+          disabled={disabled}
+          className="text-lg p-4 h-auto"
+        />
+      );
+
+    case "numeric":
+      return (
+        <div className="flex items-center space-x-3">
+          <Input
+            inputMode="decimal"
+            placeholder="Votre réponse"
+            value={value === undefined || Array.isArray(value) ? "" : String(value)}
+            onChange={(e) => onChange(e.target.value)}
+            disabled={disabled}
+            className="text-lg p-4 h-auto"
+          />
+          {question.unit && <span className="text-lg text-gray-600">{question.unit}</span>}
+        </div>
+      );
+
+    case "ordering": {
+      const order = Array.isArray(value) ? value : initialOrder(question);
+      const move = (position: number, offset: number) => {
+        const next = [...order];
+        [next[position], next[position + offset]] = [next[position + offset], next[position]];
+        onChange(next);
+      };
+      return (
+        <div className="space-y-3">
+          <p className="text-sm text-gray-500">Remettez les éléments dans le bon ordre</p>
+          {order.map((id, position) => (
+            <div key={id} className="flex items-center justify-between p-4 border-2 border-gray-200 rounded-lg">
+              <div className="flex items-center space-x-3">
+                <span className="w-8 h-8 rounded-full bg-indigo-100 text-indigo-700 flex items-center justify-center font-semibold">
+                  {position + 1}
+                </span>
+                <span className="text-lg font-medium">{question.choices?.find((choice) => choice.id === id)?.label}</span>
+              </div>
+              <div className="flex space-x-1">
+                <Button variant="ghost" size="sm" disabled={disabled || position === 0} onClick={() => move(position, -1)}>
+                  <ArrowUp className="w-4 h-4" />
+                </Button>
+                <Button variant="ghost" size="sm" disabled={disabled || position === order.length - 1} onClick={() => move(position, 1)}>
+                  <ArrowDown className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      );
+    }
+
+    case "matching": {
+      // Index de l'élément associé pour chaque élément de gauche (-1 tant qu'aucun n'est choisi)
+      const matches = Array.isArray(value) ? value : question.options.map(() => -1);
+      const setMatch = (index: number, choiceId: number) =>
+        onChange(matches.map((current, i) => (i === index ? choiceId : current)));
+      return (
+        <div className="space-y-3">
+          <p className="text-sm text-gray-500">Associez chaque élément à sa correspondance</p>
+          {question.options.map((left, index) => (
+            <div key={index} className="grid grid-cols-2 gap-4 items-center">
+              <span className="text-lg font-medium">{left}</span>
+              <Select
+                value={matches[index] >= 0 ? String(matches[index]) : ""}
+                onValueChange={(choiceId) => setMatch(index, parseInt(choiceId))}
+                disabled={disabled}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Choisir..." />
+                </SelectTrigger>
+                <SelectContent>
+                  {question.choices?.map((choice) => (
+                    <SelectItem key={choice.id} value={String(choice.id)}>
+                      {choice.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ))}
+        </div>
+      );
+    }
+
+    default: {
+      // Choix unique et vrai / faux
+      return (
+        <div className="space-y-4">
+          {question.options.map((option, index) => optionButton(option, index, value === index, () => onChange(index)))}
+        </div>
+      );
+    }
+  }
+}
+
+// Une réponse est complète lorsqu'elle peut être envoyée au serveur
+export function isAnswerComplete(question: PublicQuestion, value?: AnswerValue): boolean {
+  if (value === undefined) return false;
+  switch (question.type) {
+    case "multiple_choice":
+      return Array.isArray(value) && value.length > 0;
+    case "free_text":
+    case "numeric":
+      return String(value).trim() !== "";
+    case "matching":
+      return Array.isArray(value) && value.every((id) => id >= 0);
+    default:
+      return true;
+  }
+}
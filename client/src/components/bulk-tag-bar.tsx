@@ -0,0 +1,100 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { Plus, X } from "lucide-react";
+import type { TagSummary } from "@shared/tags";
+
+interface BulkTagBarProps {
+  questionIds: number[];
+  // Listes à recharger après l'étiquetage
+  invalidateKeys: string[];
+  onClear: () => void;
+}
+
+// Ajout ou retrait d'une étiquette sur toutes les questions sélectionnées
+export default function BulkTagBar({ questionIds, invalidateKeys, onClear }: BulkTagBarProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [addName, setAddName] = useState("");
+  const [removeId, setRemoveId] = useState("");
+
+  const { data: tags } = useQuery<TagSummary[]>({
+    queryKey: ["/api/tags"],
+  });
+
+  const bulkMutation = useMutation({
+    mutationFn: async (change: { add?: string[]; remove?: number[] }) => {
+      const response = await apiRequest("POST", "/api/questions/bulk-tags", { questionIds, ...change });
+      return response.json() as Promise<{ updated: number }>;
+    },
+    onSuccess: ({ updated }, change) => {
+      setAddName("");
+      setRemoveId("");
+      queryClient.invalidateQueries({ queryKey: ["/api/tags"] });
+      for (const key of invalidateKeys) {
+        queryClient.invalidateQueries({ queryKey: [key] });
+      }
+      toast({ title: change.add ? "Étiquette ajoutée" : "Étiquette retirée", description: `${updated} question(s) mise(s) à jour` });
+    },
+    onError: (error: any) => {
+      toast({ title: "Erreur", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 rounded-lg border border-indigo-200 bg-indigo-50 p-3">
+      <span className="text-sm font-medium text-indigo-900">{questionIds.length} question(s) sélectionnée(s)</span>
+      <form
+        className="flex items-center space-x-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          bulkMutation.mutate({ add: [addName] });
+        }}
+      >
+        <Input
+          className="w-44 bg-white"
+          value={addName}
+          onChange={(e) => setAddName(e.target.value)}
+          placeholder="Étiquette à ajouter"
+          maxLength={40}
+          list="bulk-tag-names"
+        />
+        <datalist id="bulk-tag-names">
+          {tags?.map((tag) => <option key={tag.id} value={tag.name} />)}
+        </datalist>
+        <Button type="submit" size="sm" disabled={!addName.trim() || bulkMutation.isPending}>
+          <Plus className="w-4 h-4 mr-1" />
+          Ajouter
+        </Button>
+      </form>
+      <div className="flex items-center space-x-2">
+        <Select value={removeId} onValueChange={setRemoveId}>
+          <SelectTrigger className="w-44 bg-white">
+            <SelectValue placeholder="Étiquette à retirer" />
+          </SelectTrigger>
+          <SelectContent>
+            {tags?.map((tag) => (
+              <SelectItem key={tag.id} value={tag.id.toString()}>{tag.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          size="sm"
+          variant="outline"
+          disabled={!removeId || bulkMutation.isPending}
+          onClick={() => bulkMutation.mutate({ remove: [parseInt(removeId)] })}
+        >
+          Retirer
+        </Button>
+      </div>
+      <Button size="sm" variant="ghost" className="ml-auto" onClick={onClear}>
+        <X className="w-4 h-4 mr-1" />
+        Désélectionner
+      </Button>
+    </div>
+  );
+}
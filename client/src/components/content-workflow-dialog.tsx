@@ -0,0 +1,146 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useAuth } from "@/lib/auth";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import type { ContentKind, ContentStatus } from "@shared/schema";
+import {
+  availableContentActions,
+  contentActionLabels,
+  contentStatusLabels,
+  contentTransitions,
+  type ContentAction,
+  type ContentReviewEntry,
+} from "@shared/workflow";
+
+const statusVariants: Record<ContentStatus, "default" | "secondary" | "outline" | "destructive"> = {
+  draft: "outline",
+  in_review: "secondary",
+  published: "default",
+  archived: "destructive",
+};
+
+export function ContentStatusBadge({ status }: { status: ContentStatus }) {
+  return <Badge variant={statusVariants[status]}>{contentStatusLabels[status]}</Badge>;
+}
+
+interface ContentWorkflowDialogProps {
+  kind: ContentKind;
+  content: { id: number; status: ContentStatus; title: string };
+  // Listes à recharger après un changement d'état
+  invalidateKeys: string[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const formatDateTime = (iso: string) =>
+  `${new Date(iso).toLocaleDateString("fr-FR")} à ${new Date(iso).toLocaleTimeString("fr-FR", { hour: "2-digit", minute: "2-digit" })}`;
+
+export default function ContentWorkflowDialog({ kind, content, invalidateKeys, open, onOpenChange }: ContentWorkflowDialogProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [comment, setComment] = useState("");
+  const basePath = kind === "theme" ? `/api/themes/${content.id}` : `/api/questions/${content.id}`;
+
+  const { data: reviews, isLoading } = useQuery<ContentReviewEntry[]>({
+    queryKey: [`${basePath}/reviews`],
+    enabled: open,
+  });
+
+  const transitionMutation = useMutation({
+    mutationFn: async (action: ContentAction) => {
+      const response = await apiRequest("POST", `${basePath}/status`, { action, comment: comment.trim() || undefined });
+      return response.json();
+    },
+    onSuccess: (_data, action) => {
+      setComment("");
+      queryClient.invalidateQueries({ queryKey: [`${basePath}/reviews`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/stats"] });
+      for (const key of invalidateKeys) {
+        queryClient.invalidateQueries({ queryKey: [key] });
+      }
+      toast({ title: contentStatusLabels[contentTransitions[action].to], description: contentActionLabels[action] });
+      onOpenChange(false);
+    },
+    onError: (error: any) => {
+      toast({ title: "Erreur", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const actions = availableContentActions(user?.role, kind, content.status);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{kind === "theme" ? "Publication du thème" : "Publication de la question"}</DialogTitle>
+        </DialogHeader>
+        <div className="flex items-center gap-2">
+          <ContentStatusBadge status={content.status} />
+          <p className="text-sm text-gray-600 line-clamp-2">{content.title}</p>
+        </div>
+
+        {actions.length > 0 ? (
+          <div className="space-y-3">
+            <div className="space-y-1">
+              <Label htmlFor="reviewComment">Commentaire</Label>
+              <Textarea
+                id="reviewComment"
+                value={comment}
+                onChange={(e) => setComment(e.target.value)}
+                placeholder="Obligatoire pour demander des modifications"
+                rows={3}
+              />
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {actions.map((action) => (
+                <Button
+                  key={action}
+                  size="sm"
+                  variant={action === "approve" ? "default" : "outline"}
+                  disabled={transitionMutation.isPending || (contentTransitions[action].commentRequired && !comment.trim())}
+                  onClick={() => transitionMutation.mutate(action)}
+                >
+                  {contentActionLabels[action]}
+                </Button>
+              ))}
+            </div>
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500">Aucune action disponible pour vous dans cet état.</p>
+        )}
+
+        <div className="space-y-2">
+          <h4 className="text-sm font-medium text-gray-900">Suivi de relecture</h4>
+          {isLoading ? (
+            <Skeleton className="h-20 w-full" />
+          ) : !reviews?.length ? (
+            <p className="text-sm text-gray-500">Aucune décision enregistrée.</p>
+          ) : (
+            reviews.map((entry) => (
+              <div key={entry.id} className="border rounded-lg p-3 text-sm space-y-1">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-medium text-gray-900">{contentActionLabels[entry.action]}</span>
+                  <span className="text-gray-500">
+                    {formatDateTime(entry.createdAt)} · {entry.automatic ? "automatique" : entry.author ? `@${entry.author.username}` : "compte supprimé"}
+                  </span>
+                </div>
+                <div className="text-gray-500">
+                  {contentStatusLabels[entry.fromStatus]} → {contentStatusLabels[entry.toStatus]}
+                </div>
+                {entry.comment && <p className="text-gray-700 whitespace-pre-wrap">{entry.comment}</p>}
+              </div>
+            ))
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,129 @@
+import { useState } from "react";
+import { useInfiniteQuery, useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import {
+  leaderboardWindows,
+  leaderboardWindowLabels,
+  type LeaderboardEntry,
+  type LeaderboardPage,
+  type LeaderboardPosition,
+  type LeaderboardWindow,
+} from "@shared/leaderboard";
+
+const PAGE_SIZE = 5;
+
+function rankClasses(rank: number) {
+  return rank === 1 ? "bg-yellow-500 text-white" :
+    rank === 2 ? "bg-gray-400 text-white" :
+    rank === 3 ? "bg-orange-500 text-white" :
+    "bg-gray-300 text-gray-700";
+}
+
+function LeaderboardRow({ entry, isMe }: { entry: LeaderboardEntry; isMe: boolean }) {
+  return (
+    <div
+      className={`flex items-center justify-between p-3 rounded-lg ${
+        isMe
+          ? "bg-indigo-50 border border-indigo-200"
+          : entry.rank === 1
+            ? "bg-yellow-50 border border-yellow-200"
+            : "bg-gray-50"
+      }`}
+    >
+      <div className="flex items-center space-x-3">
+        <div className={`w-8 h-8 rounded-full flex items-center justify-center font-bold text-sm ${rankClasses(entry.rank)}`}>
+          {entry.rank}
+        </div>
+        <Avatar className="w-8 h-8">
+          {entry.avatarUrl && <AvatarImage src={entry.avatarUrl} alt={entry.displayName} />}
+          <AvatarFallback className="bg-indigo-600 text-white text-xs">
+            {entry.displayName.charAt(0)}
+          </AvatarFallback>
+        </Avatar>
+        <div>
+          <span className={`font-medium ${isMe ? "text-indigo-700" : "text-gray-900"}`}>
+            {isMe ? "Vous" : entry.displayName}
+          </span>
+          <span className="text-xs text-gray-500 ml-2">@{entry.username}</span>
+        </div>
+      </div>
+      <span className={`font-bold ${isMe ? "text-indigo-600" : "text-gray-600"}`}>
+        {entry.score} pts
+      </span>
+    </div>
+  );
+}
+
+export default function LeaderboardCard({ username }: { username?: string }) {
+  const [period, setPeriod] = useState<LeaderboardWindow>("weekly");
+
+  const { data, fetchNextPage, hasNextPage, isFetchingNextPage } = useInfiniteQuery({
+    queryKey: ["/api/leaderboard/global", { window: period, limit: PAGE_SIZE }],
+    queryFn: async ({ pageParam }) => {
+      const params = new URLSearchParams({ window: period, limit: String(PAGE_SIZE) });
+      if (pageParam) params.set("cursor", pageParam);
+      const response = await apiRequest("GET", `/api/leaderboard/global?${params}`);
+      return response.json() as Promise<LeaderboardPage>;
+    },
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+  });
+
+  const { data: position } = useQuery<LeaderboardPosition>({
+    queryKey: ["/api/leaderboard/me", { window: period, neighbours: 1 }],
+  });
+
+  const entries = data?.pages.flatMap((page) => page.entries) ?? [];
+  const meShown = entries.some((entry) => entry.username === username);
+
+  return (
+    <Card>
+      <CardContent className="p-6">
+        <h3 className="text-xl font-semibold text-gray-900 mb-4">Top joueurs</h3>
+        <div className="flex flex-wrap gap-2 mb-4">
+          {leaderboardWindows.map((value) => (
+            <Button
+              key={value}
+              size="sm"
+              variant={value === period ? "default" : "outline"}
+              onClick={() => setPeriod(value)}
+            >
+              {leaderboardWindowLabels[value]}
+            </Button>
+          ))}
+        </div>
+
+        <div className="space-y-3">
+          {entries.length === 0 && (
+            <p className="text-gray-500 text-center py-8">Aucun joueur classé sur cette période.</p>
+          )}
+          {entries.map((entry) => (
+            <LeaderboardRow key={entry.username} entry={entry} isMe={entry.username === username} />
+          ))}
+          {hasNextPage && (
+            <Button variant="ghost" className="w-full" onClick={() => fetchNextPage()} disabled={isFetchingNextPage}>
+              {isFetchingNextPage ? "Chargement..." : "Voir plus"}
+            </Button>
+          )}
+        </div>
+
+        {/* Position du joueur et ses voisins, s'il n'apparaît pas déjà dans la liste */}
+        {position?.me && !meShown && (
+          <div className="mt-4 pt-4 border-t space-y-2">
+            {[...position.above, position.me, ...position.below].map((entry) => (
+              <LeaderboardRow key={entry.username} entry={entry} isMe={entry.username === username} />
+            ))}
+          </div>
+        )}
+        {position?.optedOut && (
+          <p className="mt-4 text-sm text-gray-500">
+            Vous êtes masqué des classements publics (modifiable depuis votre profil).
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,141 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useToast } from "@/hooks/use-toast";
+import { Lock, ShieldAlert } from "lucide-react";
+import type { LoginAttempt, LoginFailureReason, LoginThrottle } from "@shared/schema";
+
+const reasonLabels: Record<LoginFailureReason, string> = {
+  invalid_credentials: "Identifiants incorrects",
+  invalid_second_factor: "Code de double authentification incorrect",
+  throttled: "Refusée (blocage en cours)",
+};
+
+// "ip:<adresse>" ou "account:<email>"
+function describeKey(key: string): { kind: string; value: string } {
+  const [prefix, ...rest] = key.split(":");
+  return { kind: prefix === "ip" ? "Adresse IP" : "Compte", value: rest.join(":") };
+}
+
+const formatDateTime = (value: string | Date | null) =>
+  value
+    ? `${new Date(value).toLocaleDateString("fr-FR")} à ${new Date(value).toLocaleTimeString("fr-FR", { hour: "2-digit", minute: "2-digit", second: "2-digit" })}`
+    : "—";
+
+export default function LoginSecurityPanel() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data, isLoading } = useQuery<{ attempts: LoginAttempt[]; blocked: LoginThrottle[] }>({
+    queryKey: ["/api/admin/login-security"],
+    refetchInterval: 30000,
+  });
+
+  const unblockMutation = useMutation({
+    mutationFn: async (key: string) => {
+      const response = await apiRequest("DELETE", `/api/admin/login-throttles/${encodeURIComponent(key)}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/login-security"] });
+      toast({ title: "Blocage levé" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Erreur", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (isLoading) {
+    return <Skeleton className="h-48 w-full" />;
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            <Lock className="w-5 h-5" />
+            <span>Blocages en cours</span>
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {data?.blocked.length ? (
+            data.blocked.map((throttle) => {
+              const { kind, value } = describeKey(throttle.key);
+              return (
+                <div key={throttle.key} className="flex items-center justify-between gap-2 p-3 bg-gray-50 rounded-lg">
+                  <div className="text-sm">
+                    <div className="font-medium text-gray-900 flex items-center gap-2">
+                      <Badge variant="secondary">{kind}</Badge>
+                      {value}
+                    </div>
+                    <div className="text-gray-500">
+                      {throttle.failures} échec{throttle.failures > 1 ? "s" : ""} · bloqué jusqu'au {formatDateTime(throttle.blockedUntil)}
+                    </div>
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={unblockMutation.isPending}
+                    onClick={() => unblockMutation.mutate(throttle.key)}
+                  >
+                    Débloquer
+                  </Button>
+                </div>
+              );
+            })
+          ) : (
+            <p className="text-sm text-gray-500">Aucune adresse ni aucun compte bloqué.</p>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            <ShieldAlert className="w-5 h-5" />
+            <span>Connexions refusées récentes</span>
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {data?.attempts.length ? (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-gray-200">
+                    <th className="text-left py-2 px-3 font-medium text-gray-700">Date</th>
+                    <th className="text-left py-2 px-3 font-medium text-gray-700">Email saisi</th>
+                    <th className="text-left py-2 px-3 font-medium text-gray-700">Adresse IP</th>
+                    <th className="text-left py-2 px-3 font-medium text-gray-700">Motif</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {data.attempts.map((attempt) => (
+                    <tr key={attempt.id} className="border-b border-gray-100">
+                      <td className="py-2 px-3 text-gray-600 whitespace-nowrap">{formatDateTime(attempt.createdAt)}</td>
+                      <td className="py-2 px-3">
+                        <span className="text-gray-900">{attempt.email}</span>
+                        {attempt.userId === null && <span className="text-gray-400 ml-2">(aucun compte)</span>}
+                      </td>
+                      <td className="py-2 px-3 text-gray-600">{attempt.ip ?? "inconnue"}</td>
+                      <td className="py-2 px-3">
+                        <Badge variant={attempt.reason === "throttled" ? "destructive" : "secondary"}>
+                          {reasonLabels[attempt.reason]}
+                        </Badge>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <p className="text-sm text-gray-500">Aucune connexion refusée récemment.</p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
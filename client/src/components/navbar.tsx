@@ -5,7 +5,8 @@ import { Button } from "@/components/ui/button";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import { Badge } from "@/components/ui/badge";
-import { Brain, ChevronDown, User, Shield, LogOut, Coins, Trophy } from "lucide-react";
+import { Brain, ChevronDown, User, Shield, LogOut, Coins, Trophy, Users, Lightbulb } from "lucide-react";
+import { canAccessAdmin, roleLabels } from "@shared/permissions";
 
 export default function Navbar() {
   const { user, logout, isAuthenticated } = useAuth();
@@ -24,6 +25,14 @@ export default function Navbar() {
     setLocation("/profile");
   };
 
+  const goToMultiplayer = () => {
+    setLocation("/multiplayer");
+  };
+
+  const goToContribute = () => {
+    setLocation("/contribute");
+  };
+
   const goToAdmin = () => {
     setLocation("/admin");
   };
@@ -47,10 +56,18 @@ export default function Navbar() {
             <Button variant="ghost" onClick={goHome}>
               Accueil
             </Button>
+            <Button variant="ghost" onClick={goToMultiplayer}>
+              <Users className="w-4 h-4 mr-2" />
+              Multijoueur
+            </Button>
+            <Button variant="ghost" onClick={goToContribute}>
+              <Lightbulb className="w-4 h-4 mr-2" />
+              Proposer
+            </Button>
             <Button variant="ghost" onClick={goToProfile}>
               Profil
             </Button>
-            {user.role === "admin" && (
+            {canAccessAdmin(user.role) && (
               <Button variant="ghost" onClick={goToAdmin}>
                 <Shield className="w-4 h-4 mr-2" />
                 Administration
@@ -88,10 +105,10 @@ export default function Navbar() {
                       <Coins className="w-3 h-3 mr-1" />
                       {user.points} pts
                     </Badge>
-                    {user.role === "admin" && (
+                    {user.role !== "user" && (
                       <Badge variant="destructive" className="text-xs">
                         <Shield className="w-3 h-3 mr-1" />
-                        Admin
+                        {roleLabels[user.role]}
                       </Badge>
                     )}
                   </div>
@@ -103,8 +120,13 @@ export default function Navbar() {
                   <User className="w-4 h-4 mr-2" />
                   Mon profil
                 </DropdownMenuItem>
+
+                <DropdownMenuItem onClick={goToContribute}>
+                  <Lightbulb className="w-4 h-4 mr-2" />
+                  Proposer une question
+                </DropdownMenuItem>
                 
-                {user.role === "admin" && (
+                {canAccessAdmin(user.role) && (
                   <DropdownMenuItem onClick={goToAdmin}>
                     <Shield className="w-4 h-4 mr-2" />
                     Administration
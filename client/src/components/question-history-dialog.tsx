@@ -0,0 +1,137 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { RotateCcw } from "lucide-react";
+import type { Question } from "@shared/schema";
+import {
+  questionFieldLabels,
+  questionTypeLabels,
+  type QuestionFieldKey,
+  type QuestionRevisionEntry,
+} from "@shared/questions";
+
+interface QuestionHistoryDialogProps {
+  question: Question;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const difficultyLabels: Record<string, string> = { easy: "Facile", medium: "Moyen", hard: "Difficile" };
+
+// Valeur d'un champ lisible dans le comparatif
+function formatFieldValue(field: QuestionFieldKey, value: unknown): string {
+  if (value === null || value === undefined || value === "") return "—";
+  switch (field) {
+    case "type":
+      return questionTypeLabels[value as keyof typeof questionTypeLabels] ?? String(value);
+    case "difficulty":
+      return difficultyLabels[value as string] ?? String(value);
+    case "options":
+      return (value as string[]).map((option, index) => `${index + 1}. ${option}`).join("  ");
+    case "correctAnswer":
+      return `option ${(value as number) + 1}`;
+    case "timeLimit":
+      return `${value} s`;
+    case "answerKey":
+      return JSON.stringify(value);
+    default:
+      return String(value);
+  }
+}
+
+const formatDateTime = (iso: string) =>
+  `${new Date(iso).toLocaleDateString("fr-FR")} à ${new Date(iso).toLocaleTimeString("fr-FR", { hour: "2-digit", minute: "2-digit" })}`;
+
+export default function QuestionHistoryDialog({ question, open, onOpenChange }: QuestionHistoryDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: revisions, isLoading } = useQuery<QuestionRevisionEntry[]>({
+    queryKey: [`/api/questions/${question.id}/revisions`],
+    enabled: open,
+  });
+
+  const revertMutation = useMutation({
+    mutationFn: async (revision: number) => {
+      const response = await apiRequest("POST", `/api/questions/${question.id}/revisions/${revision}/revert`);
+      return response.json();
+    },
+    onSuccess: (_data, revision) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/questions/${question.id}/revisions`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/themes/${question.themeId}/questions`] });
+      toast({ title: "Révision restaurée", description: `La version ${revision} est de nouveau en vigueur.` });
+    },
+    onError: (error: any) => {
+      toast({ title: "Erreur", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Historique de la question</DialogTitle>
+        </DialogHeader>
+        <p className="text-sm text-gray-600 line-clamp-2">{question.question}</p>
+
+        {isLoading ? (
+          <Skeleton className="h-32 w-full" />
+        ) : !revisions?.length ? (
+          <p className="text-sm text-gray-500">Aucune révision enregistrée pour cette question.</p>
+        ) : (
+          <div className="space-y-3">
+            {revisions.map((entry) => (
+              <div key={entry.revision} className="border rounded-lg p-4 space-y-2">
+                <div className="flex items-start justify-between gap-2">
+                  <div className="text-sm">
+                    <div className="font-medium text-gray-900 flex items-center gap-2">
+                      Révision {entry.revision}
+                      {entry.current && <Badge>En vigueur</Badge>}
+                      {entry.revertedFrom !== null && (
+                        <Badge variant="secondary">Restauration de la révision {entry.revertedFrom}</Badge>
+                      )}
+                    </div>
+                    <div className="text-gray-500">
+                      {formatDateTime(entry.createdAt)} · {entry.author ? `@${entry.author.username}` : "import initial"}
+                    </div>
+                  </div>
+                  {!entry.current && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={revertMutation.isPending}
+                      onClick={() => revertMutation.mutate(entry.revision)}
+                    >
+                      <RotateCcw className="w-4 h-4 mr-1" />
+                      Restaurer
+                    </Button>
+                  )}
+                </div>
+
+                {entry.changes.length > 0 ? (
+                  <table className="w-full text-sm">
+                    <tbody>
+                      {entry.changes.map((change) => (
+                        <tr key={change.field} className="border-t border-gray-100 align-top">
+                          <td className="py-1 pr-3 text-gray-500 whitespace-nowrap">{questionFieldLabels[change.field]}</td>
+                          <td className="py-1 pr-3 text-red-700 line-through break-words">{formatFieldValue(change.field, change.before)}</td>
+                          <td className="py-1 text-green-700 break-words">{formatFieldValue(change.field, change.after)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                ) : (
+                  <p className="text-xs text-gray-400">Version initiale</p>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
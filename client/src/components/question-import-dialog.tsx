@@ -0,0 +1,194 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiUpload } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { Upload, Eye } from "lucide-react";
+import {
+  questionFileFormats,
+  questionFileFormatLabels,
+  type ImportReport,
+  type ImportRowReport,
+  type QuestionFileFormat,
+} from "@shared/questions";
+
+interface QuestionImportDialogProps {
+  themeId: number;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Format déduit de l'extension du fichier choisi
+function formatFromFileName(name: string): QuestionFileFormat | undefined {
+  const lower = name.toLowerCase();
+  if (lower.endsWith(".json")) return "json";
+  if (lower.endsWith(".csv")) return "csv";
+  if (lower.endsWith(".xml")) return "xml";
+  if (lower.endsWith(".gift") || lower.endsWith(".txt")) return "gift";
+  return undefined;
+}
+
+const statusBadges: Record<ImportRowReport["status"], { label: string; className: string }> = {
+  created: { label: "Importée", className: "bg-green-100 text-green-800" },
+  valid: { label: "Valide", className: "bg-blue-100 text-blue-800" },
+  duplicate: { label: "Doublon", className: "bg-yellow-100 text-yellow-800" },
+  invalid: { label: "Erreur", className: "bg-red-100 text-red-800" },
+};
+
+export default function QuestionImportDialog({ themeId, open, onOpenChange }: QuestionImportDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [format, setFormat] = useState<QuestionFileFormat>("csv");
+  const [file, setFile] = useState<{ name: string; content: string } | null>(null);
+  const [report, setReport] = useState<ImportReport | null>(null);
+
+  const importMutation = useMutation({
+    mutationFn: async (dryRun: boolean) => {
+      const response = await apiUpload(
+        `/api/themes/${themeId}/questions/import?format=${format}&dryRun=${dryRun}`,
+        file!.content,
+      );
+      return response.json() as Promise<ImportReport>;
+    },
+    onSuccess: (data) => {
+      setReport(data);
+      if (!data.dryRun) {
+        queryClient.invalidateQueries({ queryKey: [`/api/themes/${themeId}/questions`] });
+        toast({ title: `${data.created} question(s) importée(s)`, description: "Les questions importées sont en brouillon." });
+      }
+    },
+    onError: (error: any) => {
+      toast({ title: "Erreur", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = event.target.files?.[0];
+    setReport(null);
+    if (!selected) {
+      setFile(null);
+      return;
+    }
+    setFile({ name: selected.name, content: await selected.text() });
+    const detected = formatFromFileName(selected.name);
+    if (detected) setFormat(detected);
+  };
+
+  const handleOpenChange = (isOpen: boolean) => {
+    if (!isOpen) {
+      setFile(null);
+      setReport(null);
+    }
+    onOpenChange(isOpen);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Importer des questions</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="importFile">Fichier</Label>
+              <Input id="importFile" type="file" accept=".csv,.json,.xml,.gift,.txt" onChange={handleFileChange} />
+            </div>
+            <div>
+              <Label>Format</Label>
+              <Select
+                value={format}
+                onValueChange={(value) => {
+                  setFormat(value as QuestionFileFormat);
+                  setReport(null);
+                }}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {questionFileFormats.map((value) => (
+                    <SelectItem key={value} value={value}>{questionFileFormatLabels[value]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {format === "csv" && (
+            <p className="text-sm text-gray-500">
+              Colonnes : type, question, options, answer, tolerance, unit, difficulty, explanation. Les listes sont séparées par « | ».
+            </p>
+          )}
+
+          {report && (
+            <div className="space-y-3">
+              <div className="flex flex-wrap gap-2">
+                <Badge variant="outline">{report.total} question(s)</Badge>
+                {report.dryRun ? (
+                  <Badge className={statusBadges.valid.className}>{report.valid} valide(s)</Badge>
+                ) : (
+                  <Badge className={statusBadges.created.className}>{report.created} importée(s)</Badge>
+                )}
+                <Badge className={statusBadges.duplicate.className}>{report.duplicates} doublon(s)</Badge>
+                <Badge className={statusBadges.invalid.className}>{report.invalid} erreur(s)</Badge>
+              </div>
+
+              <div className="border rounded-lg divide-y max-h-80 overflow-y-auto">
+                {report.rows.map((row) => (
+                  <div key={row.row} className="p-3 text-sm">
+                    <div className="flex items-center justify-between">
+                      <span className="text-gray-500 w-20">#{row.row}</span>
+                      <span className="flex-1 truncate text-gray-900">{row.question ?? "—"}</span>
+                      <Badge className={statusBadges[row.status].className}>{statusBadges[row.status].label}</Badge>
+                    </div>
+                    {row.errors?.map((error, i) => (
+                      <p key={i} className="text-red-600 mt-1 ml-20">{error}</p>
+                    ))}
+                    {row.status === "duplicate" && (
+                      <p className="text-yellow-700 mt-1 ml-20">
+                        {row.duplicateOf !== undefined
+                          ? `Déjà présente dans le thème (question #${row.duplicateOf})`
+                          : `Doublon de l'entrée #${row.duplicateOfRow} du fichier`}
+                      </p>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="flex justify-end space-x-2">
+            <Button type="button" variant="outline" onClick={() => handleOpenChange(false)}>
+              Fermer
+            </Button>
+            <Button
+              type="button"
+              variant="outline"
+              disabled={!file || importMutation.isPending}
+              onClick={() => importMutation.mutate(true)}
+            >
+              <Eye className="w-4 h-4 mr-2" />
+              Aperçu
+            </Button>
+            <Button
+              type="button"
+              disabled={!report?.dryRun || report.valid === 0 || importMutation.isPending}
+              onClick={() => importMutation.mutate(false)}
+            >
+              <Upload className="w-4 h-4 mr-2" />
+              {report?.dryRun ? `Importer ${report.valid} question(s)` : "Importer"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
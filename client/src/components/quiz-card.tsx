@@ -8,9 +8,11 @@ import type { Theme, UserStats } from "@shared/schema";
 interface QuizCardProps {
   theme: Theme;
   stats?: UserStats;
+  // Sous-thèmes jouables séparément ; le quiz du thème inclut déjà leurs questions
+  subThemes?: Theme[];
 }
 
-export default function QuizCard({ theme, stats }: QuizCardProps) {
+export default function QuizCard({ theme, stats, subThemes = [] }: QuizCardProps) {
   const [, setLocation] = useLocation();
 
   const startQuiz = () => {
@@ -71,6 +73,21 @@ export default function QuizCard({ theme, stats }: QuizCardProps) {
         
         <h3 className="text-lg font-semibold text-gray-900 mb-2">{theme.name}</h3>
         <p className="text-gray-600 text-sm mb-4 line-clamp-2">{theme.description}</p>
+
+        {subThemes.length > 0 && (
+          <div className="flex flex-wrap gap-2 mb-4">
+            {subThemes.map((subTheme) => (
+              <Badge
+                key={subTheme.id}
+                variant="outline"
+                className="cursor-pointer hover:bg-indigo-50"
+                onClick={() => setLocation(`/quiz/${subTheme.id}`)}
+              >
+                {subTheme.name}
+              </Badge>
+            ))}
+          </div>
+        )}
         
         <div className="flex items-center justify-between">
           <div className="flex items-center space-x-2 flex-1 mr-4">
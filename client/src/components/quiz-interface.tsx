@@ -1,59 +1,114 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback, useMemo, useRef } from "react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
-import { ArrowLeft, Clock, Lightbulb, X } from "lucide-react";
-import type { Theme, Question } from "@shared/schema";
+import { ArrowLeft, CheckCircle, Clock, Divide, FastForward, Flag, Lightbulb, X, XCircle } from "lucide-react";
+import AnswerInput, { describeAnswer, isAnswerComplete } from "@/components/answer-input";
+import ReportQuestionDialog from "@/components/report-question-dialog";
+import type { Theme, AnswerValue, LifelineType, QuestionResult } from "@shared/schema";
+import type { PublicQuestion } from "@shared/questions";
 
 interface QuizInterfaceProps {
-  theme: Theme;
-  questions: Question[];
+  theme: Pick<Theme, "name" | "icon" | "color">;
+  // Titre affiché dans l'en-tête, « Quiz <thème> » par défaut
+  title?: string;
+  questions: PublicQuestion[];
+  // Nombre total de questions, si toutes ne sont pas encore connues (mode adaptatif)
+  totalQuestions?: number;
   currentQuestionIndex: number;
-  selectedAnswer?: number;
-  onAnswerSelect: (questionId: number, answerIndex: number) => void;
+  // Délai de la question en cours (secondes) et fin du quiz (horodatage ms) ; absents : pas de chrono
+  timeLimit?: number | null;
+  expiresAt?: number | null;
+  // Appelé à l'expiration de la limite globale ; un délai de question expiré passe à la suite
+  onTimeout?: () => void;
+  selectedAnswer?: AnswerValue;
+  onAnswerSelect: (questionId: number, answer: AnswerValue) => void;
   onNext: () => void;
   onBack: () => void;
   isSubmitting: boolean;
+  // Jokers proposés (absents : aucun), ceux déjà utilisés sur la tentative et leurs effets sur la question en cours
+  lifelines?: { type: LifelineType; cost: number }[];
+  usedLifelines?: LifelineType[];
+  onLifeline?: (type: LifelineType) => void;
+  hint?: string;
+  eliminatedOptions?: number[];
+  // Entraînement : correction de la question en cours, affichée jusqu'au passage à la suivante
+  feedback?: QuestionResult | null;
+}
+
+const lifelineLabels: Record<LifelineType, { label: string; icon: typeof Lightbulb }> = {
+  hint: { label: "Indice", icon: Lightbulb },
+  fifty_fifty: { label: "50/50", icon: Divide },
+  skip: { label: "Passer sans pénalité", icon: FastForward },
+};
+
+// Disponibilité d'un joker pour la question affichée (le serveur la vérifie de nouveau)
+function isLifelineAvailable(type: LifelineType, question: PublicQuestion): boolean {
+  switch (type) {
+    case "hint":
+      return !!question.hasHint;
+    case "fifty_fifty":
+      return question.type === "single_choice" && question.options.length > 2;
+    case "skip":
+      return true;
+  }
 }
 
 export default function QuizInterface({
   theme,
+  title = `Quiz ${theme.name}`,
   questions,
+  totalQuestions = questions.length,
   currentQuestionIndex,
+  timeLimit = null,
+  expiresAt = null,
+  onTimeout,
   selectedAnswer,
   onAnswerSelect,
   onNext,
   onBack,
   isSubmitting,
+  lifelines = [],
+  usedLifelines = [],
+  onLifeline,
+  hint,
+  eliminatedOptions,
+  feedback = null,
 }: QuizInterfaceProps) {
-  const [timeRemaining, setTimeRemaining] = useState(30);
-  const [showHint, setShowHint] = useState(false);
+  const [now, setNow] = useState(() => Date.now());
+  const [reportOpen, setReportOpen] = useState(false);
+  // Question pour laquelle l'expiration a déjà été signalée
+  const expiredIndex = useRef<number | null>(null);
 
   const currentQuestion = questions[currentQuestionIndex];
-  const progress = ((currentQuestionIndex + 1) / questions.length) * 100;
+  const progress = ((currentQuestionIndex + 1) / totalQuestions) * 100;
 
-  useEffect(() => {
-    setTimeRemaining(30);
-    setShowHint(false);
-  }, [currentQuestionIndex]);
+  const questionStartedAt = useMemo(() => Date.now(), [currentQuestionIndex]);
+  const questionDeadline = timeLimit ? questionStartedAt + timeLimit * 1000 : null;
+  const deadline = questionDeadline !== null && expiresAt !== null
+    ? Math.min(questionDeadline, expiresAt)
+    : questionDeadline ?? expiresAt;
+  const timeRemaining = deadline !== null ? Math.max(0, Math.ceil((deadline - now) / 1000)) : null;
 
   useEffect(() => {
-    const timer = setInterval(() => {
-      setTimeRemaining((prev) => {
-        if (prev <= 1) {
-          onNext();
-          return 30;
-        }
-        return prev - 1;
-      });
-    }, 1000);
-
+    if (deadline === null) return;
+    const timer = setInterval(() => setNow(Date.now()), 250);
     return () => clearInterval(timer);
-  }, [currentQuestionIndex, onNext]);
+  }, [deadline]);
 
-  const handleAnswerSelect = (answerIndex: number) => {
-    onAnswerSelect(currentQuestion.id, answerIndex);
-  };
+  useEffect(() => {
+    if (deadline === null || now < deadline || expiredIndex.current === currentQuestionIndex) return;
+    expiredIndex.current = currentQuestionIndex;
+    if (expiresAt !== null && now >= expiresAt && onTimeout) {
+      onTimeout();
+    } else {
+      onNext();
+    }
+  }, [now, deadline, expiresAt, currentQuestionIndex, onNext, onTimeout]);
+
+  const handleAnswerSelect = useCallback((answer: AnswerValue) => {
+    onAnswerSelect(currentQuestion.id, answer);
+  }, [currentQuestion.id, onAnswerSelect]);
 
   const formatTime = (seconds: number) => {
     const mins = Math.floor(seconds / 60);
@@ -79,7 +134,7 @@ export default function QuizInterface({
     return colorMap[theme.color] || "text-gray-600";
   };
 
-  const isLastQuestion = currentQuestionIndex === questions.length - 1;
+  const isLastQuestion = currentQuestionIndex === totalQuestions - 1;
 
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
@@ -92,9 +147,9 @@ export default function QuizInterface({
                 <i className={`${theme.icon} text-xl`}></i>
               </div>
               <div>
-                <h2 className="text-xl font-bold">Quiz {theme.name}</h2>
+                <h2 className="text-xl font-bold">{title}</h2>
                 <p className="text-indigo-100">
-                  Question {currentQuestionIndex + 1} sur {questions.length}
+                  Question {currentQuestionIndex + 1} sur {totalQuestions}
                 </p>
               </div>
             </div>
@@ -120,7 +175,9 @@ export default function QuizInterface({
           <div className="flex items-center justify-center">
             <div className="bg-white/20 rounded-full px-4 py-2 flex items-center space-x-2">
               <Clock className="w-4 h-4" />
-              <span className="font-bold text-lg">{formatTime(timeRemaining)}</span>
+              <span className="font-bold text-lg">
+                {timeRemaining !== null ? formatTime(timeRemaining) : "Sans chrono"}
+              </span>
             </div>
           </div>
         </div>
@@ -128,84 +185,114 @@ export default function QuizInterface({
         {/* Quiz Content */}
         <CardContent className="p-8">
           <div className="mb-8">
-            <h3 className="text-2xl font-semibold text-gray-900 mb-4">
-              {currentQuestion.question}
-            </h3>
-            
-            {showHint && currentQuestion.explanation && (
-              <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 mb-4">
-                <div className="flex items-center space-x-2 mb-2">
-                  <Lightbulb className="w-4 h-4 text-blue-600" />
-                  <span className="font-medium text-blue-800">Indice</span>
-                </div>
-                <p className="text-blue-700 text-sm">{currentQuestion.explanation}</p>
+            <div className="flex items-start justify-between gap-4 mb-4">
+              <h3 className="text-2xl font-semibold text-gray-900">
+                {currentQuestion.question}
+              </h3>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="text-gray-400 hover:text-red-600 shrink-0"
+                title="Signaler un problème"
+                onClick={() => setReportOpen(true)}
+              >
+                <Flag className="w-4 h-4" />
+              </Button>
+            </div>
+            {currentQuestion.contributor && (
+              <p className="text-sm text-gray-500 -mt-2 mb-4">Question proposée par @{currentQuestion.contributor}</p>
+            )}
+            {hint && (
+              <div className="flex items-start space-x-2 bg-yellow-50 border border-yellow-200 rounded-lg p-3 text-yellow-800">
+                <Lightbulb className="w-4 h-4 mt-0.5 shrink-0" />
+                <span>{hint}</span>
               </div>
             )}
           </div>
           
           {/* Answer Options */}
-          <div className="space-y-4 mb-8">
-            {currentQuestion.options.map((option, index) => (
-              <Button
-                key={index}
-                variant="outline"
-                className={`w-full p-4 text-left justify-start border-2 transition-all duration-200 ${
-                  selectedAnswer === index
-                    ? 'border-indigo-600 bg-indigo-50 text-indigo-900'
-                    : 'border-gray-200 hover:border-indigo-300 hover:bg-indigo-50'
-                }`}
-                onClick={() => handleAnswerSelect(index)}
-              >
-                <div className="flex items-center space-x-3">
-                  <div className={`w-8 h-8 border-2 rounded-full flex items-center justify-center font-semibold ${
-                    selectedAnswer === index
-                      ? 'border-indigo-600 bg-indigo-600 text-white'
-                      : 'border-gray-300 text-gray-500'
-                  }`}>
-                    {String.fromCharCode(65 + index)}
-                  </div>
-                  <span className="text-lg font-medium">{option}</span>
-                </div>
-              </Button>
-            ))}
+          <div className="mb-8">
+            <AnswerInput
+              question={currentQuestion}
+              value={selectedAnswer}
+              onChange={handleAnswerSelect}
+              eliminated={eliminatedOptions}
+              disabled={!!feedback}
+            />
           </div>
+
+          {feedback && (
+            <div className={`mb-8 rounded-lg border p-4 ${feedback.correct ? 'border-green-200 bg-green-50' : 'border-red-200 bg-red-50'}`}>
+              <div className={`flex items-center space-x-2 font-semibold mb-2 ${feedback.correct ? 'text-green-700' : 'text-red-700'}`}>
+                {feedback.correct ? <CheckCircle className="w-5 h-5" /> : <XCircle className="w-5 h-5" />}
+                <span>{feedback.correct ? "Bonne réponse !" : "Mauvaise réponse"}</span>
+              </div>
+              {!feedback.correct && (
+                <p className="text-gray-800 mb-1">
+                  Réponse attendue : <span className="font-medium">{describeAnswer(currentQuestion, feedback.correctAnswer)}</span>
+                </p>
+              )}
+              {feedback.explanation && <p className="text-gray-700">{feedback.explanation}</p>}
+            </div>
+          )}
           
           {/* Quiz Actions */}
           <div className="flex items-center justify-between">
-            <Button 
-              variant="ghost"
-              onClick={() => setShowHint(!showHint)}
-              className="flex items-center space-x-2 text-gray-600 hover:text-gray-800"
-              disabled={!currentQuestion.explanation}
-            >
-              <Lightbulb className="w-4 h-4" />
-              <span>Indice</span>
-            </Button>
+            <div className="flex flex-wrap items-center gap-2">
+              {lifelines.map(({ type, cost }) => {
+                const { label, icon: Icon } = lifelineLabels[type];
+                return (
+                  <Button
+                    key={type}
+                    variant="ghost"
+                    className="flex items-center space-x-2 text-gray-600 hover:text-gray-800"
+                    disabled={!onLifeline || !!feedback || usedLifelines.includes(type) || !isLifelineAvailable(type, currentQuestion) || isSubmitting}
+                    onClick={() => onLifeline?.(type)}
+                    title={`Coûte ${cost} points`}
+                  >
+                    <Icon className="w-4 h-4" />
+                    <span>{label}</span>
+                    <span className="text-xs text-gray-400">-{cost}</span>
+                  </Button>
+                );
+              })}
+            </div>
             
             <div className="flex items-center space-x-4">
-              <Button 
-                variant="outline"
-                onClick={onNext}
-                disabled={isSubmitting}
-              >
-                Passer
-              </Button>
+              {!feedback && (
+                <Button 
+                  variant="outline"
+                  onClick={onNext}
+                  disabled={isSubmitting}
+                >
+                  Passer
+                </Button>
+              )}
               <Button 
                 onClick={onNext}
-                disabled={selectedAnswer === undefined || isSubmitting}
+                disabled={(!feedback && !isAnswerComplete(currentQuestion, selectedAnswer)) || isSubmitting}
                 className="bg-indigo-600 hover:bg-indigo-700"
               >
                 {isSubmitting 
                   ? "Soumission..." 
-                  : isLastQuestion 
-                    ? "Terminer" 
-                    : "Suivant"
+                  : feedback
+                    ? isLastQuestion ? "Voir les résultats" : "Continuer"
+                    : isLastQuestion 
+                      ? "Terminer" 
+                      : "Suivant"
                 }
               </Button>
             </div>
           </div>
         </CardContent>
       </Card>
+
+      <ReportQuestionDialog
+        key={currentQuestion.id}
+        question={currentQuestion}
+        open={reportOpen}
+        onOpenChange={setReportOpen}
+      />
     </div>
   );
 }
@@ -0,0 +1,89 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { reportReasons, type ReportReason } from "@shared/schema";
+import { reportReasonLabels } from "@shared/reports";
+
+interface ReportQuestionDialogProps {
+  question: { id: number; question: string };
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Signalement d'un problème sur une question, examiné ensuite par la modération
+export default function ReportQuestionDialog({ question, open, onOpenChange }: ReportQuestionDialogProps) {
+  const { toast } = useToast();
+  const [reason, setReason] = useState<ReportReason | "">("");
+  const [comment, setComment] = useState("");
+
+  const reportMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/questions/${question.id}/reports`, {
+        reason,
+        comment: comment.trim() || undefined,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      setReason("");
+      setComment("");
+      onOpenChange(false);
+      toast({ title: "Merci pour votre signalement", description: "Vous serez prévenu par email une fois qu'il aura été traité." });
+    },
+    onError: (error: any) => {
+      toast({ title: "Erreur", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Signaler un problème</DialogTitle>
+          <DialogDescription className="line-clamp-2">{question.question}</DialogDescription>
+        </DialogHeader>
+        <form
+          className="space-y-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            reportMutation.mutate();
+          }}
+        >
+          <RadioGroup value={reason} onValueChange={(value) => setReason(value as ReportReason)}>
+            {reportReasons.map((value) => (
+              <div key={value} className="flex items-center space-x-2">
+                <RadioGroupItem value={value} id={`reportReason-${value}`} />
+                <Label htmlFor={`reportReason-${value}`}>{reportReasonLabels[value]}</Label>
+              </div>
+            ))}
+          </RadioGroup>
+          <div className="space-y-1">
+            <Label htmlFor="reportComment">Commentaire (facultatif)</Label>
+            <Textarea
+              id="reportComment"
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              placeholder="Précisez le problème, par exemple la bonne réponse et sa source"
+              maxLength={1000}
+              rows={3}
+            />
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="ghost" onClick={() => onOpenChange(false)}>
+              Annuler
+            </Button>
+            <Button type="submit" disabled={!reason || reportMutation.isPending}>
+              Envoyer le signalement
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
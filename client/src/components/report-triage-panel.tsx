@@ -0,0 +1,184 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { Check, ClipboardCheck, Flag, X } from "lucide-react";
+import ContentWorkflowDialog, { ContentStatusBadge } from "@/components/content-workflow-dialog";
+import { reportReasons, reportStatuses, type ReportStatus } from "@shared/schema";
+import { reportReasonLabels, reportStatusLabels, type ReportedQuestion } from "@shared/reports";
+
+// Vue de tri des signalements des joueurs, regroupés par question
+export default function ReportTriagePanel() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [status, setStatus] = useState<ReportStatus>("open");
+  const [resolving, setResolving] = useState<number | null>(null);
+  const [resolution, setResolution] = useState("");
+  const [workflowQuestion, setWorkflowQuestion] = useState<ReportedQuestion | null>(null);
+
+  const { data: reported, isLoading } = useQuery<ReportedQuestion[]>({
+    queryKey: ["/api/admin/reports", { status }],
+  });
+
+  const resolveMutation = useMutation({
+    mutationFn: async ({ questionId, status }: { questionId: number; status: Exclude<ReportStatus, "open"> }) => {
+      const response = await apiRequest("POST", `/api/admin/reports/${questionId}/resolve`, {
+        status,
+        resolution: resolution.trim() || undefined,
+      });
+      return response.json();
+    },
+    onSuccess: (_data, { status }) => {
+      setResolving(null);
+      setResolution("");
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/reports"] });
+      toast({ title: reportStatusLabels[status], description: "Les joueurs concernés ont été prévenus par email." });
+    },
+    onError: (error: any) => {
+      toast({ title: "Erreur", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-xl font-semibold text-gray-900">Signalements des joueurs</h3>
+          <p className="text-sm text-gray-500">Une question signalée par plusieurs joueurs est dépubliée automatiquement en attendant son traitement.</p>
+        </div>
+        <Select value={status} onValueChange={(value) => setStatus(value as ReportStatus)}>
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {reportStatuses.map((value) => (
+              <SelectItem key={value} value={value}>{reportStatusLabels[value]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {isLoading ? (
+        <Skeleton className="h-24 w-full" />
+      ) : !reported?.length ? (
+        <p className="text-sm text-gray-500">Aucun signalement.</p>
+      ) : (
+        reported.map((item) => (
+          <Card key={item.questionId}>
+            <CardContent className="p-4 space-y-3">
+              <div className="flex items-start justify-between gap-4">
+                <div className="flex-1 space-y-1">
+                  <div className="flex items-center gap-2">
+                    <Flag className="w-4 h-4 text-red-500" />
+                    <span className="font-semibold text-red-600">{item.reports.length}</span>
+                    <h4 className="font-medium text-gray-900">{item.question?.question ?? "Question supprimée"}</h4>
+                  </div>
+                  <div className="flex flex-wrap items-center gap-2 text-sm text-gray-500">
+                    {item.question && <ContentStatusBadge status={item.question.status} />}
+                    <span>{item.theme?.name ?? "Thème supprimé"}</span>
+                    {reportReasons.filter((reason) => item.reasons[reason] > 0).map((reason) => (
+                      <Badge key={reason} variant="outline">
+                        {reportReasonLabels[reason]} × {item.reasons[reason]}
+                      </Badge>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="flex items-center space-x-2">
+                  {item.question && (
+                    <Button variant="ghost" size="sm" title="Publication" onClick={() => setWorkflowQuestion(item)}>
+                      <ClipboardCheck className="w-4 h-4" />
+                    </Button>
+                  )}
+                  {status === "open" && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => {
+                        setResolving(item.questionId);
+                        setResolution("");
+                      }}
+                    >
+                      Traiter
+                    </Button>
+                  )}
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                {item.reports.map((report) => (
+                  <div key={report.id} className="border rounded-lg p-3 text-sm space-y-1">
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="font-medium text-gray-900">{reportReasonLabels[report.reason]}</span>
+                      <span className="text-gray-500">
+                        @{report.reporter?.username ?? "compte supprimé"} · {new Date(report.createdAt).toLocaleDateString("fr-FR")}
+                        {item.question && report.questionRevision !== item.question.revision && ` · révision ${report.questionRevision}`}
+                      </span>
+                    </div>
+                    {report.comment && <p className="text-gray-700 whitespace-pre-wrap">{report.comment}</p>}
+                    {report.status !== "open" && (
+                      <p className={report.status === "resolved" ? "text-green-700" : "text-gray-500"}>
+                        {reportStatusLabels[report.status]} par @{report.resolvedBy?.username ?? "?"}
+                        {report.resolution && ` : ${report.resolution}`}
+                      </p>
+                    )}
+                  </div>
+                ))}
+              </div>
+
+              {resolving === item.questionId && (
+                <div className="space-y-2">
+                  <Textarea
+                    value={resolution}
+                    onChange={(e) => setResolution(e.target.value)}
+                    placeholder="Note transmise aux joueurs (facultative)"
+                    rows={2}
+                    autoFocus
+                  />
+                  <div className="flex gap-2">
+                    <Button
+                      size="sm"
+                      disabled={resolveMutation.isPending}
+                      onClick={() => resolveMutation.mutate({ questionId: item.questionId, status: "resolved" })}
+                    >
+                      <Check className="w-4 h-4 mr-1" />
+                      Question corrigée
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={resolveMutation.isPending}
+                      onClick={() => resolveMutation.mutate({ questionId: item.questionId, status: "dismissed" })}
+                    >
+                      <X className="w-4 h-4 mr-1" />
+                      Classer sans suite
+                    </Button>
+                    <Button size="sm" variant="ghost" onClick={() => setResolving(null)}>
+                      Annuler
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        ))
+      )}
+
+      {workflowQuestion?.question && (
+        <ContentWorkflowDialog
+          kind="question"
+          content={{ id: workflowQuestion.question.id, status: workflowQuestion.question.status, title: workflowQuestion.question.question }}
+          invalidateKeys={["/api/admin/reports", ...(workflowQuestion.theme ? [`/api/themes/${workflowQuestion.theme.id}/questions`] : [])]}
+          open={!!workflowQuestion}
+          onOpenChange={(open) => !open && setWorkflowQuestion(null)}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,188 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { Check, Edit, X } from "lucide-react";
+import { submissionStatuses, type SubmissionStatus } from "@shared/schema";
+import { describeCorrectAnswer, questionTypeLabels } from "@shared/questions";
+import { submissionStatusLabels, type SubmissionEntry } from "@shared/submissions";
+
+interface SubmissionQueuePanelProps {
+  // Ouvre l'éditeur de questions de l'administration sur la proposition
+  onEdit: (submission: SubmissionEntry) => void;
+}
+
+// File de modération des questions proposées par les joueurs
+export default function SubmissionQueuePanel({ onEdit }: SubmissionQueuePanelProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [status, setStatus] = useState<SubmissionStatus>("pending");
+  const [rejecting, setRejecting] = useState<number | null>(null);
+  const [reason, setReason] = useState("");
+
+  const { data: submissions, isLoading } = useQuery<SubmissionEntry[]>({
+    queryKey: ["/api/admin/submissions", { status }],
+  });
+
+  const onError = (error: any) => {
+    toast({ title: "Erreur", description: error.message, variant: "destructive" });
+  };
+
+  const acceptMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest("POST", `/api/admin/submissions/${id}/accept`);
+      return response.json() as Promise<SubmissionEntry>;
+    },
+    onSuccess: (entry) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/submissions"] });
+      if (entry.theme) {
+        queryClient.invalidateQueries({ queryKey: [`/api/themes/${entry.theme.id}/questions`] });
+      }
+      toast({
+        title: "Proposition acceptée",
+        description: `La question rejoint le thème en relecture ; @${entry.submitter?.username ?? "?"} gagne ${entry.pointsAwarded} points.`,
+      });
+    },
+    onError,
+  });
+
+  const rejectMutation = useMutation({
+    mutationFn: async ({ id, reason }: { id: number; reason: string }) => {
+      const response = await apiRequest("POST", `/api/admin/submissions/${id}/reject`, { reason });
+      return response.json() as Promise<SubmissionEntry>;
+    },
+    onSuccess: () => {
+      setRejecting(null);
+      setReason("");
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/submissions"] });
+      toast({ title: "Proposition refusée" });
+    },
+    onError,
+  });
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-xl font-semibold text-gray-900">Propositions des joueurs</h3>
+          <p className="text-sm text-gray-500">Une question acceptée rejoint son thème en relecture, avec le pseudo de son auteur, et sera publiée une fois approuvée.</p>
+        </div>
+        <Select value={status} onValueChange={(value) => setStatus(value as SubmissionStatus)}>
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {submissionStatuses.map((value) => (
+              <SelectItem key={value} value={value}>{submissionStatusLabels[value]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {isLoading ? (
+        <Skeleton className="h-24 w-full" />
+      ) : !submissions?.length ? (
+        <p className="text-sm text-gray-500">Aucune proposition.</p>
+      ) : (
+        submissions.map((submission) => (
+          <Card key={submission.id}>
+            <CardContent className="p-4 space-y-2">
+              <div className="flex items-start justify-between gap-4">
+                <div className="flex-1 space-y-1">
+                  <h4 className="font-medium text-gray-900">{submission.content.question}</h4>
+                  {"options" in submission.content && (
+                    <p className="text-sm text-gray-600">
+                      {submission.content.options.map((option, index) => `${String.fromCharCode(65 + index)}. ${option}`).join("  ")}
+                    </p>
+                  )}
+                  <div className="flex flex-wrap items-center gap-2 text-sm text-gray-500">
+                    <Badge variant="secondary">{questionTypeLabels[submission.content.type]}</Badge>
+                    <span>Réponse correcte : {describeCorrectAnswer(submission.content)}</span>
+                    <span>
+                      · {submission.theme?.name ?? "Thème supprimé"} · @{submission.submitter?.username ?? "compte supprimé"} ·{" "}
+                      {new Date(submission.createdAt).toLocaleDateString("fr-FR")}
+                    </span>
+                  </div>
+                  {submission.content.explanation && (
+                    <p className="text-sm text-gray-500">Explication : {submission.content.explanation}</p>
+                  )}
+                  {submission.status === "accepted" && (
+                    <p className="text-sm text-green-700">
+                      Acceptée par @{submission.reviewer?.username ?? "?"} · {submission.pointsAwarded} points attribués
+                    </p>
+                  )}
+                  {submission.status === "rejected" && (
+                    <p className="text-sm text-red-700">
+                      Refusée par @{submission.reviewer?.username ?? "?"} : {submission.rejectionReason}
+                    </p>
+                  )}
+                </div>
+
+                {submission.status === "pending" && (
+                  <div className="flex items-center space-x-2">
+                    <Button variant="ghost" size="sm" title="Modifier" onClick={() => onEdit(submission)}>
+                      <Edit className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={acceptMutation.isPending}
+                      onClick={() => acceptMutation.mutate(submission.id)}
+                    >
+                      <Check className="w-4 h-4 mr-1" />
+                      Accepter
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="text-red-600"
+                      onClick={() => {
+                        setRejecting(submission.id);
+                        setReason("");
+                      }}
+                    >
+                      <X className="w-4 h-4 mr-1" />
+                      Refuser
+                    </Button>
+                  </div>
+                )}
+              </div>
+
+              {rejecting === submission.id && (
+                <form
+                  className="space-y-2"
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    rejectMutation.mutate({ id: submission.id, reason });
+                  }}
+                >
+                  <Textarea
+                    value={reason}
+                    onChange={(e) => setReason(e.target.value)}
+                    placeholder="Motif du refus, communiqué au joueur"
+                    rows={2}
+                    autoFocus
+                  />
+                  <div className="flex gap-2">
+                    <Button type="submit" size="sm" variant="destructive" disabled={reason.trim().length < 3 || rejectMutation.isPending}>
+                      Confirmer le refus
+                    </Button>
+                    <Button type="button" size="sm" variant="ghost" onClick={() => setRejecting(null)}>
+                      Annuler
+                    </Button>
+                  </div>
+                </form>
+              )}
+            </CardContent>
+          </Card>
+        ))
+      )}
+    </div>
+  );
+}
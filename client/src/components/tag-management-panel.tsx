@@ -0,0 +1,158 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useToast } from "@/hooks/use-toast";
+import { Check, Edit, Plus, Trash2, X } from "lucide-react";
+import type { TagSummary } from "@shared/tags";
+
+// Étiquettes des questions : création, renommage et suppression
+export default function TagManagementPanel() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [newName, setNewName] = useState("");
+  const [renaming, setRenaming] = useState<number | null>(null);
+  const [name, setName] = useState("");
+
+  const { data: tags, isLoading } = useQuery<TagSummary[]>({
+    queryKey: ["/api/tags"],
+  });
+
+  // Les étiquettes apparaissent aussi sur les questions et dans les filtres des quiz
+  const onSuccess = (title: string) => () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/tags"] });
+    queryClient.invalidateQueries({
+      predicate: (query) => typeof query.queryKey[0] === "string" && /^\/api\/themes\/\d+\/(questions|tags)$/.test(query.queryKey[0]),
+    });
+    toast({ title });
+  };
+
+  const onError = (error: any) => {
+    toast({ title: "Erreur", description: error.message, variant: "destructive" });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (name: string) => {
+      const response = await apiRequest("POST", "/api/tags", { name });
+      return response.json();
+    },
+    onSuccess: () => {
+      setNewName("");
+      onSuccess("Étiquette créée")();
+    },
+    onError,
+  });
+
+  const renameMutation = useMutation({
+    mutationFn: async ({ id, name }: { id: number; name: string }) => {
+      const response = await apiRequest("PUT", `/api/tags/${id}`, { name });
+      return response.json();
+    },
+    onSuccess: () => {
+      setRenaming(null);
+      onSuccess("Étiquette renommée")();
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest("DELETE", `/api/tags/${id}`);
+      return response.json();
+    },
+    onSuccess: onSuccess("Étiquette supprimée"),
+    onError,
+  });
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <h3 className="text-xl font-semibold text-gray-900">Étiquettes</h3>
+          <p className="text-sm text-gray-500">
+            Les joueurs peuvent restreindre un quiz aux questions qui portent certaines étiquettes.
+          </p>
+        </div>
+        <form
+          className="flex items-center space-x-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            createMutation.mutate(newName);
+          }}
+        >
+          <Input value={newName} onChange={(e) => setNewName(e.target.value)} placeholder="Nouvelle étiquette" maxLength={40} />
+          <Button type="submit" disabled={!newName.trim() || createMutation.isPending}>
+            <Plus className="w-4 h-4 mr-1" />
+            Créer
+          </Button>
+        </form>
+      </div>
+
+      {isLoading ? (
+        <Skeleton className="h-24 w-full" />
+      ) : !tags?.length ? (
+        <p className="text-sm text-gray-500">Aucune étiquette.</p>
+      ) : (
+        <Card>
+          <CardContent className="p-0 divide-y">
+            {tags.map((tag) => (
+              <div key={tag.id} className="flex items-center justify-between gap-4 px-4 py-3">
+                {renaming === tag.id ? (
+                  <form
+                    className="flex flex-1 items-center space-x-2"
+                    onSubmit={(e) => {
+                      e.preventDefault();
+                      renameMutation.mutate({ id: tag.id, name });
+                    }}
+                  >
+                    <Input value={name} onChange={(e) => setName(e.target.value)} maxLength={40} autoFocus />
+                    <Button type="submit" size="sm" disabled={!name.trim() || renameMutation.isPending}>
+                      <Check className="w-4 h-4" />
+                    </Button>
+                    <Button type="button" size="sm" variant="ghost" onClick={() => setRenaming(null)}>
+                      <X className="w-4 h-4" />
+                    </Button>
+                  </form>
+                ) : (
+                  <div className="flex items-center space-x-3">
+                    <Badge variant="outline">{tag.name}</Badge>
+                    <span className="text-sm text-gray-500">{tag.questionCount} question(s)</span>
+                  </div>
+                )}
+                {renaming !== tag.id && (
+                  <div className="flex items-center space-x-2">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      title="Renommer"
+                      onClick={() => {
+                        setRenaming(tag.id);
+                        setName(tag.name);
+                      }}
+                    >
+                      <Edit className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      title="Supprimer"
+                      className="text-red-600 hover:text-red-800"
+                      disabled={deleteMutation.isPending}
+                      onClick={() => deleteMutation.mutate(tag.id)}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
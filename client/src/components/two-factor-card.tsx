@@ -0,0 +1,198 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import TotpCodeInput from "@/components/totp-code-input";
+import { useToast } from "@/hooks/use-toast";
+import { KeyRound } from "lucide-react";
+import type { TwoFactorSetup, TwoFactorStatus } from "@shared/two-factor";
+
+// Actions confirmées par le mot de passe
+type PasswordAction = "disable" | "regenerate";
+
+export default function TwoFactorCard() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [code, setCode] = useState("");
+  // Codes de secours, affichés une seule fois après activation ou régénération
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [passwordAction, setPasswordAction] = useState<PasswordAction | null>(null);
+  const [password, setPassword] = useState("");
+
+  const { data: status, isLoading } = useQuery<TwoFactorStatus>({
+    queryKey: ["/api/auth/2fa"],
+  });
+
+  const onError = (error: any) => {
+    toast({ title: "Erreur", description: error.message, variant: "destructive" });
+  };
+
+  const setupMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/auth/2fa/setup");
+      return response.json() as Promise<TwoFactorSetup>;
+    },
+    onSuccess: (data) => {
+      setSetup(data);
+      setCode("");
+    },
+    onError,
+  });
+
+  const enableMutation = useMutation({
+    mutationFn: async (value: string) => {
+      const response = await apiRequest("POST", "/api/auth/2fa/enable", { code: value });
+      return response.json() as Promise<{ recoveryCodes: string[] }>;
+    },
+    onSuccess: (data) => {
+      setSetup(null);
+      setRecoveryCodes(data.recoveryCodes);
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/2fa"] });
+      toast({ title: "Double authentification activée" });
+    },
+    onError: (error: any) => {
+      setCode("");
+      onError(error);
+    },
+  });
+
+  const passwordMutation = useMutation({
+    mutationFn: async ({ action, password }: { action: PasswordAction; password: string }) => {
+      const path = action === "disable" ? "/api/auth/2fa/disable" : "/api/auth/2fa/recovery-codes";
+      const response = await apiRequest("POST", path, { password });
+      return response.json() as Promise<{ recoveryCodes?: string[] }>;
+    },
+    onSuccess: (data, { action }) => {
+      setPasswordAction(null);
+      setPassword("");
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/2fa"] });
+      if (action === "regenerate") {
+        setRecoveryCodes(data.recoveryCodes ?? null);
+        toast({ title: "Nouveaux codes de secours générés" });
+      } else {
+        toast({ title: "Double authentification désactivée" });
+      }
+    },
+    onError,
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <KeyRound className="w-5 h-5" />
+          <span>Double authentification</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading || !status ? (
+          <Skeleton className="h-16 w-full" />
+        ) : recoveryCodes ? (
+          <div className="space-y-3">
+            <p className="text-sm text-gray-600">
+              Conservez ces codes de secours en lieu sûr : chacun permet une connexion si vous n'avez pas accès à votre
+              application. Ils ne seront plus affichés.
+            </p>
+            <div className="grid grid-cols-2 gap-2 font-mono text-sm bg-gray-50 p-3 rounded-lg">
+              {recoveryCodes.map((recoveryCode) => (
+                <span key={recoveryCode}>{recoveryCode}</span>
+              ))}
+            </div>
+            <Button className="w-full" onClick={() => setRecoveryCodes(null)}>
+              J'ai noté ces codes
+            </Button>
+          </div>
+        ) : setup ? (
+          <div className="space-y-3">
+            <p className="text-sm text-gray-600">
+              Scannez ce QR code avec votre application d'authentification, puis saisissez le code affiché.
+            </p>
+            <img src={setup.qrCodeDataUrl} alt="QR code de double authentification" className="mx-auto w-44 h-44" />
+            <p className="text-xs text-gray-500 text-center">
+              Saisie manuelle : <span className="font-mono break-all">{setup.secret}</span>
+            </p>
+            <TotpCodeInput
+              value={code}
+              onChange={setCode}
+              onComplete={(value) => enableMutation.mutate(value)}
+              disabled={enableMutation.isPending}
+            />
+            <Button variant="ghost" className="w-full" onClick={() => setSetup(null)}>
+              Annuler
+            </Button>
+          </div>
+        ) : status.enabled ? (
+          <div className="space-y-3">
+            <div className="flex items-center gap-2 text-sm">
+              <Badge>Activée</Badge>
+              {status.required && <Badge variant="secondary">Obligatoire pour votre rôle</Badge>}
+            </div>
+            <p className="text-sm text-gray-600">
+              {status.recoveryCodesRemaining} code{status.recoveryCodesRemaining > 1 ? "s" : ""} de secours restant
+              {status.recoveryCodesRemaining > 1 ? "s" : ""}.
+            </p>
+
+            {passwordAction ? (
+              <form
+                className="space-y-2"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  passwordMutation.mutate({ action: passwordAction, password });
+                }}
+              >
+                <Label htmlFor="twoFactorPassword">Confirmez avec votre mot de passe</Label>
+                <Input
+                  id="twoFactorPassword"
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  autoFocus
+                />
+                <div className="flex gap-2">
+                  <Button
+                    type="submit"
+                    variant={passwordAction === "disable" ? "destructive" : "default"}
+                    disabled={!password || passwordMutation.isPending}
+                  >
+                    {passwordAction === "disable" ? "Désactiver" : "Générer"}
+                  </Button>
+                  <Button type="button" variant="ghost" onClick={() => setPasswordAction(null)}>
+                    Annuler
+                  </Button>
+                </div>
+              </form>
+            ) : (
+              <div className="flex flex-wrap gap-2">
+                <Button variant="outline" size="sm" onClick={() => setPasswordAction("regenerate")}>
+                  Nouveaux codes de secours
+                </Button>
+                {!status.required && (
+                  <Button variant="outline" size="sm" onClick={() => setPasswordAction("disable")}>
+                    Désactiver
+                  </Button>
+                )}
+              </div>
+            )}
+          </div>
+        ) : (
+          <div className="space-y-3">
+            <p className="text-sm text-gray-600">
+              {status.required
+                ? "La double authentification est obligatoire pour votre rôle : activez-la pour accéder à l'administration."
+                : "Protégez votre compte avec un code à usage unique généré par une application d'authentification."}
+            </p>
+            <Button className="w-full" disabled={setupMutation.isPending} onClick={() => setupMutation.mutate()}>
+              Activer la double authentification
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
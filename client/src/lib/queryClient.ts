@@ -23,13 +23,40 @@ export async function apiRequest(
   return res;
 }
 
+// Envoi d'un fichier tel quel (import de questions), sans encodage JSON
+export async function apiUpload(url: string, content: string, contentType = "text/plain"): Promise<Response> {
+  const res = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": contentType },
+    body: content,
+    credentials: "include",
+  });
+
+  await throwIfResNotOk(res);
+  return res;
+}
+
+// Clé de requête : [url] ou [url, paramètres] ; les paramètres deviennent la query string,
+// ce qui permet d'invalider toutes les variantes d'une ressource via [url]
+function queryKeyToUrl(queryKey: readonly unknown[]): string {
+  const [url, params] = queryKey;
+  if (!params || typeof params !== "object") return url as string;
+
+  const search = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined && value !== null) search.set(key, String(value));
+  }
+  const query = search.toString();
+  return query ? `${url}?${query}` : (url as string);
+}
+
 type UnauthorizedBehavior = "returnNull" | "throw";
 export const getQueryFn: <T>(options: {
   on401: UnauthorizedBehavior;
 }) => QueryFunction<T> =
   ({ on401: unauthorizedBehavior }) =>
   async ({ queryKey }) => {
-    const res = await fetch(queryKey[0] as string, {
+    const res = await fetch(queryKeyToUrl(queryKey), {
       credentials: "include",
     });
 
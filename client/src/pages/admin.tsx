@@ -18,8 +18,25 @@ import { useToast } from "@/hooks/use-toast";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { Users, Brain, Play, Tags, Plus, Edit, Trash2, Shield, BarChart3 } from "lucide-react";
-import type { Theme, Question, User } from "@shared/schema";
+import { Checkbox } from "@/components/ui/checkbox";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import QuestionImportDialog from "@/components/question-import-dialog";
+import QuestionHistoryDialog from "@/components/question-history-dialog";
+import ContentWorkflowDialog, { ContentStatusBadge } from "@/components/content-workflow-dialog";
+import LoginSecurityPanel from "@/components/login-security-panel";
+import SubmissionQueuePanel from "@/components/submission-queue-panel";
+import ReportTriagePanel from "@/components/report-triage-panel";
+import TagManagementPanel from "@/components/tag-management-panel";
+import BulkTagBar from "@/components/bulk-tag-bar";
+import { Users, Brain, Play, Tags, Plus, Edit, Trash2, Shield, BarChart3, X, Upload, Download, AlertTriangle, History, ClipboardCheck } from "lucide-react";
+import { questionInputSchema, questionTypes, userRoles, type Theme, type Question, type User, type UserRole, type QuestionInput, type QuestionType, type Tag } from "@shared/schema";
+import { flattenThemeTree, indentedThemeName, type ThemeNode } from "@shared/themes";
+import { canAccessAdmin, hasPermission, roleLabels } from "@shared/permissions";
+import type { LeaderboardPage } from "@shared/leaderboard";
+import type { TwoFactorStatus } from "@shared/two-factor";
+import type { SubmissionEntry } from "@shared/submissions";
+import { contentStatusFilters, contentStatusLabels, type ContentStatusFilter } from "@shared/workflow";
+import { describeCorrectAnswer, questionToInput, questionTypeLabels, questionFileFormats, questionFileFormatLabels, observedDifficulty } from "@shared/questions";
 
 const themeSchema = z.object({
   name: z.string().min(1, "Le nom est requis"),
@@ -27,19 +44,166 @@ const themeSchema = z.object({
   icon: z.string().min(1, "L'icône est requise"),
   color: z.string().min(1, "La couleur est requise"),
   isActive: z.boolean().optional(),
+  // "none" : thème racine ; sinon l'id du thème parent
+  parentId: z.string(),
+  // Vide : toutes les questions du thème
+  questionCount: z.string(),
+  // Secondes ; vide : pas de limite
+  questionTimeLimit: z.string(),
+  quizTimeLimit: z.string(),
+  allowUntimed: z.boolean(),
 });
 
+// Le formulaire regroupe les champs de tous les types ; seuls ceux du type choisi sont envoyés
 const questionSchema = z.object({
+  type: z.enum(questionTypes),
   question: z.string().min(1, "La question est requise"),
-  options: z.array(z.string()).length(4, "4 options sont requises"),
-  correctAnswer: z.number().min(0).max(3, "La réponse correcte doit être entre 0 et 3"),
+  options: z.array(z.string()),
+  correctAnswer: z.number().min(0),
+  correctAnswers: z.array(z.number()),
+  trueFalseAnswer: z.boolean(),
+  acceptedAnswers: z.string(),
+  fuzzy: z.boolean(),
+  numericValue: z.string(),
+  tolerance: z.string(),
+  unit: z.string(),
+  items: z.string(),
+  pairs: z.array(z.object({ left: z.string(), right: z.string() })),
   difficulty: z.enum(["easy", "medium", "hard"]),
   explanation: z.string().optional(),
+  hint: z.string().optional(),
+  timeLimit: z.string(),
 });
 
 type ThemeFormData = z.infer<typeof themeSchema>;
 type QuestionFormData = z.infer<typeof questionSchema>;
 
+const emptyQuestionForm: QuestionFormData = {
+  type: "single_choice",
+  question: "",
+  options: ["", "", "", ""],
+  correctAnswer: 0,
+  correctAnswers: [],
+  trueFalseAnswer: true,
+  acceptedAnswers: "",
+  fuzzy: true,
+  numericValue: "",
+  tolerance: "0",
+  unit: "",
+  items: "",
+  pairs: [{ left: "", right: "" }, { left: "", right: "" }],
+  difficulty: "medium",
+  explanation: "",
+  hint: "",
+  timeLimit: "",
+};
+
+const emptyThemeForm: ThemeFormData = {
+  name: "",
+  description: "",
+  icon: "fas fa-brain",
+  color: "blue",
+  isActive: true,
+  parentId: "none",
+  questionCount: "",
+  questionTimeLimit: "30",
+  quizTimeLimit: "",
+  allowUntimed: true,
+};
+
+const parseOptionalInt = (text: string) => (text.trim() ? parseInt(text, 10) : null);
+
+function toThemeInput({ parentId, questionCount, questionTimeLimit, quizTimeLimit, ...data }: ThemeFormData) {
+  return {
+    ...data,
+    parentId: parentId === "none" ? null : parseInt(parentId, 10),
+    questionCount: parseOptionalInt(questionCount),
+    questionTimeLimit: parseOptionalInt(questionTimeLimit),
+    quizTimeLimit: parseOptionalInt(quizTimeLimit),
+  };
+}
+
+function toThemeForm(theme: Theme): ThemeFormData {
+  return {
+    name: theme.name,
+    description: theme.description,
+    icon: theme.icon,
+    color: theme.color,
+    isActive: theme.isActive,
+    parentId: theme.parentId?.toString() ?? "none",
+    questionCount: theme.questionCount?.toString() ?? "",
+    questionTimeLimit: theme.questionTimeLimit?.toString() ?? "",
+    quizTimeLimit: theme.quizTimeLimit?.toString() ?? "",
+    allowUntimed: theme.allowUntimed,
+  };
+}
+
+const splitLines = (text: string) => text.split("\n").map((line) => line.trim()).filter(Boolean);
+
+function toQuestionInput(data: QuestionFormData): unknown {
+  const base = {
+    question: data.question,
+    difficulty: data.difficulty,
+    explanation: data.explanation,
+    hint: data.hint,
+    timeLimit: parseOptionalInt(data.timeLimit),
+  };
+
+  switch (data.type) {
+    case "single_choice":
+      return { ...base, type: data.type, options: data.options, correctAnswer: data.correctAnswer };
+    case "multiple_choice":
+      return { ...base, type: data.type, options: data.options, correctAnswers: data.correctAnswers };
+    case "true_false":
+      return { ...base, type: data.type, correctAnswer: data.trueFalseAnswer };
+    case "free_text":
+      return { ...base, type: data.type, acceptedAnswers: splitLines(data.acceptedAnswers), fuzzy: data.fuzzy };
+    case "numeric":
+      return {
+        ...base,
+        type: data.type,
+        value: parseFloat(data.numericValue.replace(",", ".")),
+        tolerance: parseFloat(data.tolerance.replace(",", ".")) || 0,
+        unit: data.unit.trim() || undefined,
+      };
+    case "ordering":
+      return { ...base, type: data.type, items: splitLines(data.items) };
+    case "matching":
+      return { ...base, type: data.type, pairs: data.pairs };
+  }
+}
+
+function toQuestionForm(input: QuestionInput): QuestionFormData {
+  const form: QuestionFormData = {
+    ...emptyQuestionForm,
+    type: input.type,
+    question: input.question,
+    difficulty: input.difficulty,
+    explanation: input.explanation ?? "",
+    hint: input.hint ?? "",
+    timeLimit: input.timeLimit?.toString() ?? "",
+  };
+
+  switch (input.type) {
+    case "single_choice":
+      return { ...form, options: input.options, correctAnswer: input.correctAnswer };
+    case "multiple_choice":
+      return { ...form, options: input.options, correctAnswers: input.correctAnswers };
+    case "true_false":
+      return { ...form, trueFalseAnswer: input.correctAnswer };
+    case "free_text":
+      return { ...form, acceptedAnswers: input.acceptedAnswers.join("\n"), fuzzy: input.fuzzy };
+    case "numeric":
+      return { ...form, numericValue: String(input.value), tolerance: String(input.tolerance), unit: input.unit ?? "" };
+    case "ordering":
+      return { ...form, items: input.items.join("\n") };
+    case "matching":
+      return { ...form, pairs: input.pairs };
+  }
+}
+
+const difficultyLabels: Record<string, string> = { easy: "Facile", medium: "Moyen", hard: "Difficile" };
+
 export default function Admin() {
   const { user, isAuthenticated } = useAuth();
   const [, setLocation] = useLocation();
@@ -49,20 +213,44 @@ export default function Admin() {
   const [selectedThemeId, setSelectedThemeId] = useState<number | null>(null);
   const [isThemeDialogOpen, setIsThemeDialogOpen] = useState(false);
   const [isQuestionDialogOpen, setIsQuestionDialogOpen] = useState(false);
+  const [isImportDialogOpen, setIsImportDialogOpen] = useState(false);
+  const [historyQuestion, setHistoryQuestion] = useState<Question | null>(null);
+  const [questionStatusFilter, setQuestionStatusFilter] = useState<ContentStatusFilter>("all");
+  // Contenu dont on affiche le suivi de relecture
+  const [workflowTheme, setWorkflowTheme] = useState<Theme | null>(null);
+  const [workflowQuestion, setWorkflowQuestion] = useState<Question | null>(null);
   const [editingTheme, setEditingTheme] = useState<Theme | null>(null);
   const [editingQuestion, setEditingQuestion] = useState<Question | null>(null);
+  // Proposition de joueur retouchée dans l'éditeur de questions avant acceptation
+  const [editingSubmission, setEditingSubmission] = useState<SubmissionEntry | null>(null);
+  // Étiquettes de la question éditée, séparées par des virgules
+  const [questionTags, setQuestionTags] = useState("");
+  // Questions cochées pour l'étiquetage en masse
+  const [selectedQuestionIds, setSelectedQuestionIds] = useState<number[]>([]);
 
-  // Redirect if not authenticated or not admin
+  // Redirect if not authenticated or without any staff permission
   if (!isAuthenticated) {
     setLocation("/login");
     return null;
   }
 
-  if (user?.role !== "admin") {
+  if (!canAccessAdmin(user?.role)) {
     setLocation("/");
     return null;
   }
 
+  const canWriteThemes = hasPermission(user?.role, "theme:write");
+  const canWriteQuestions = hasPermission(user?.role, "question:write");
+  const canManageUsers = hasPermission(user?.role, "user:manage");
+  const canReviewContent = hasPermission(user?.role, "content:review");
+  const canModerate = hasPermission(user?.role, "question:moderate");
+
+  // Sans double authentification, un rôle qui l'exige n'a pas accès aux routes d'administration
+  const { data: twoFactor } = useQuery<TwoFactorStatus>({
+    queryKey: ["/api/auth/2fa"],
+  });
+  const twoFactorSetupRequired = !!twoFactor?.required && !twoFactor.enabled;
+
   const { data: adminStats, isLoading: statsLoading } = useQuery<{
     totalUsers: number;
     totalThemes: number;
@@ -72,46 +260,56 @@ export default function Admin() {
     queryKey: ["/api/admin/stats"],
   });
 
-  const { data: themes, isLoading: themesLoading } = useQuery<Theme[]>({
-    queryKey: ["/api/themes"],
+  // Tous les états : brouillons et contenus en relecture compris ; l'arbre est aplati pour les listes
+  const { data: themeTree, isLoading: themesLoading } = useQuery<ThemeNode[]>({
+    queryKey: ["/api/themes", { status: "all" }],
   });
+  const themes = themeTree && flattenThemeTree(themeTree);
+
+  // Un thème ne peut pas être rattaché à lui-même ni à l'un de ses sous-thèmes, qui le suivent dans la liste aplatie
+  const parentCandidates = (() => {
+    if (!themes || !editingTheme) return themes;
+    const index = themes.findIndex((theme) => theme.id === editingTheme.id);
+    if (index === -1) return themes;
+    let end = index + 1;
+    while (end < themes.length && themes[end].depth > themes[index].depth) end++;
+    return [...themes.slice(0, index), ...themes.slice(end)];
+  })();
 
-  const { data: questions, isLoading: questionsLoading } = useQuery<Question[]>({
-    queryKey: [`/api/themes/${selectedThemeId}/questions`],
+  const { data: questions, isLoading: questionsLoading } = useQuery<(Question & { tags: Tag[] })[]>({
+    queryKey: [`/api/themes/${selectedThemeId}/questions`, { status: questionStatusFilter }],
     enabled: !!selectedThemeId,
   });
 
-  const { data: globalLeaderboard } = useQuery<Array<User & { totalScore: number }>>({
-    queryKey: ["/api/leaderboard/global"],
+  const miscalibratedCount = questions?.filter((q) => {
+    const observed = observedDifficulty(q);
+    return observed !== null && observed !== q.difficulty;
+  }).length ?? 0;
+
+  const { data: globalLeaderboard } = useQuery<LeaderboardPage>({
+    queryKey: ["/api/leaderboard/global", { window: "all", limit: 100 }],
+  });
+
+  const { data: allUsers } = useQuery<Array<Omit<User, "password">>>({
+    queryKey: ["/api/admin/users"],
+    enabled: canManageUsers,
   });
 
   // Theme form
   const themeForm = useForm<ThemeFormData>({
     resolver: zodResolver(themeSchema),
-    defaultValues: {
-      name: "",
-      description: "",
-      icon: "fas fa-brain",
-      color: "blue",
-      isActive: true,
-    },
+    defaultValues: emptyThemeForm,
   });
 
   // Question form
   const questionForm = useForm<QuestionFormData>({
     resolver: zodResolver(questionSchema),
-    defaultValues: {
-      question: "",
-      options: ["", "", "", ""],
-      correctAnswer: 0,
-      difficulty: "medium",
-      explanation: "",
-    },
+    defaultValues: emptyQuestionForm,
   });
 
   // Theme mutations
   const createThemeMutation = useMutation({
-    mutationFn: async (data: ThemeFormData) => {
+    mutationFn: async (data: ReturnType<typeof toThemeInput>) => {
       const response = await apiRequest("POST", "/api/themes", data);
       return response.json();
     },
@@ -120,7 +318,7 @@ export default function Admin() {
       queryClient.invalidateQueries({ queryKey: ["/api/admin/stats"] });
       setIsThemeDialogOpen(false);
       themeForm.reset();
-      toast({ title: "Thème créé avec succès" });
+      toast({ title: "Thème créé avec succès", description: "Il reste en brouillon jusqu'à sa publication." });
     },
     onError: (error: any) => {
       toast({ title: "Erreur", description: error.message, variant: "destructive" });
@@ -128,7 +326,7 @@ export default function Admin() {
   });
 
   const updateThemeMutation = useMutation({
-    mutationFn: async ({ id, data }: { id: number; data: ThemeFormData }) => {
+    mutationFn: async ({ id, data }: { id: number; data: ReturnType<typeof toThemeInput> }) => {
       const response = await apiRequest("PUT", `/api/themes/${id}`, data);
       return response.json();
     },
@@ -161,15 +359,20 @@ export default function Admin() {
 
   // Question mutations
   const createQuestionMutation = useMutation({
-    mutationFn: async (data: QuestionFormData) => {
+    mutationFn: async ({ data, tags }: { data: QuestionInput; tags: string[] }) => {
       const response = await apiRequest("POST", `/api/themes/${selectedThemeId}/questions`, data);
-      return response.json();
+      const question: Question = await response.json();
+      if (tags.length > 0) {
+        await apiRequest("PUT", `/api/questions/${question.id}/tags`, { tags });
+      }
+      return question;
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: [`/api/themes/${selectedThemeId}/questions`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tags"] });
       setIsQuestionDialogOpen(false);
       questionForm.reset();
-      toast({ title: "Question créée avec succès" });
+      toast({ title: "Question créée avec succès", description: "Elle reste en brouillon jusqu'à sa publication." });
     },
     onError: (error: any) => {
       toast({ title: "Erreur", description: error.message, variant: "destructive" });
@@ -177,16 +380,45 @@ export default function Admin() {
   });
 
   const updateQuestionMutation = useMutation({
-    mutationFn: async ({ id, data }: { id: number; data: QuestionFormData }) => {
+    // Sans tags, les étiquettes de la question ne changent pas
+    mutationFn: async ({ id, data, tags }: { id: number; data: QuestionInput; tags?: string[] }) => {
       const response = await apiRequest("PUT", `/api/questions/${id}`, data);
-      return response.json();
+      const question = await response.json();
+      if (tags) {
+        await apiRequest("PUT", `/api/questions/${id}/tags`, { tags });
+      }
+      return question;
     },
-    onSuccess: () => {
+    onSuccess: (question: Question, { id }) => {
       queryClient.invalidateQueries({ queryKey: [`/api/themes/${selectedThemeId}/questions`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tags"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/questions/${id}/revisions`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/questions/${id}/reviews`] });
+      // Sans droit de relecture, une question publiée modifiée repasse en brouillon
+      const unpublished = editingQuestion?.status === "published" && question.status !== "published";
       setIsQuestionDialogOpen(false);
       setEditingQuestion(null);
       questionForm.reset();
-      toast({ title: "Question modifiée avec succès" });
+      toast(unpublished
+        ? { title: "Question modifiée", description: "Elle repasse en brouillon et devra être relue avant d'être republiée" }
+        : { title: "Question modifiée avec succès" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Erreur", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const updateSubmissionMutation = useMutation({
+    mutationFn: async ({ id, data }: { id: number; data: QuestionInput }) => {
+      const response = await apiRequest("PUT", `/api/admin/submissions/${id}`, data);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/submissions"] });
+      setIsQuestionDialogOpen(false);
+      setEditingSubmission(null);
+      questionForm.reset();
+      toast({ title: "Proposition modifiée" });
     },
     onError: (error: any) => {
       toast({ title: "Erreur", description: error.message, variant: "destructive" });
@@ -207,50 +439,118 @@ export default function Admin() {
     },
   });
 
+  const updateRoleMutation = useMutation({
+    mutationFn: async ({ id, role }: { id: number; role: UserRole }) => {
+      const response = await apiRequest("PUT", `/api/admin/users/${id}/role`, { role });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/users"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/leaderboard/global"] });
+      toast({ title: "Rôle mis à jour" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Erreur", description: error.message, variant: "destructive" });
+    },
+  });
+
   const handleThemeSubmit = (data: ThemeFormData) => {
     if (editingTheme) {
-      updateThemeMutation.mutate({ id: editingTheme.id, data });
+      updateThemeMutation.mutate({ id: editingTheme.id, data: toThemeInput(data) });
     } else {
-      createThemeMutation.mutate(data);
+      createThemeMutation.mutate(toThemeInput(data));
     }
   };
 
-  const handleQuestionSubmit = (data: QuestionFormData) => {
-    if (editingQuestion) {
-      updateQuestionMutation.mutate({ id: editingQuestion.id, data });
+  const handleQuestionSubmit = (formData: QuestionFormData) => {
+    const parsed = questionInputSchema.safeParse(toQuestionInput(formData));
+    if (!parsed.success) {
+      toast({ title: "Question invalide", description: parsed.error.errors[0]?.message, variant: "destructive" });
+      return;
+    }
+
+    const data = parsed.data;
+    const tags = questionTags.split(",").map((tag) => tag.trim()).filter(Boolean);
+    if (editingSubmission) {
+      updateSubmissionMutation.mutate({ id: editingSubmission.id, data });
+    } else if (editingQuestion) {
+      updateQuestionMutation.mutate({ id: editingQuestion.id, data, tags });
     } else {
-      createQuestionMutation.mutate(data);
+      createQuestionMutation.mutate({ data, tags });
     }
   };
 
   const openThemeDialog = (theme?: Theme) => {
     if (theme) {
       setEditingTheme(theme);
-      themeForm.reset(theme);
+      themeForm.reset(toThemeForm(theme));
     } else {
       setEditingTheme(null);
-      themeForm.reset();
+      themeForm.reset(emptyThemeForm);
     }
     setIsThemeDialogOpen(true);
   };
 
-  const openQuestionDialog = (question?: Question) => {
+  const openQuestionDialog = (question?: Question & { tags: Tag[] }) => {
+    setEditingSubmission(null);
     if (question) {
       setEditingQuestion(question);
-      questionForm.reset({
-        question: question.question,
-        options: question.options,
-        correctAnswer: question.correctAnswer,
-        difficulty: question.difficulty,
-        explanation: question.explanation || "",
-      });
+      questionForm.reset(toQuestionForm(questionToInput(question)));
+      setQuestionTags(question.tags.map((tag) => tag.name).join(", "));
     } else {
       setEditingQuestion(null);
       questionForm.reset();
+      setQuestionTags("");
     }
     setIsQuestionDialogOpen(true);
   };
 
+  const openSubmissionDialog = (submission: SubmissionEntry) => {
+    setEditingQuestion(null);
+    setEditingSubmission(submission);
+    questionForm.reset(toQuestionForm(submission.content));
+    setIsQuestionDialogOpen(true);
+  };
+
+  const questionType = questionForm.watch("type");
+  const questionOptions = questionForm.watch("options");
+  const questionPairs = questionForm.watch("pairs");
+  const correctAnswers = questionForm.watch("correctAnswers");
+
+  const removeOption = (index: number) => {
+    questionForm.setValue("options", questionOptions.filter((_, i) => i !== index));
+    // Les index des bonnes réponses suivant l'option supprimée sont décalés
+    questionForm.setValue("correctAnswer", 0);
+    questionForm.setValue("correctAnswers", correctAnswers.filter((i) => i !== index).map((i) => (i > index ? i - 1 : i)));
+  };
+
+  const toggleCorrectAnswer = (index: number) => {
+    questionForm.setValue(
+      "correctAnswers",
+      correctAnswers.includes(index) ? correctAnswers.filter((i) => i !== index) : [...correctAnswers, index].sort((a, b) => a - b),
+    );
+  };
+
+  if (twoFactorSetupRequired) {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <Navbar />
+        <main className="max-w-xl mx-auto px-4 sm:px-6 lg:px-8 py-16">
+          <Card>
+            <CardContent className="p-6 text-center space-y-4">
+              <Shield className="w-10 h-10 text-red-600 mx-auto" />
+              <h1 className="text-xl font-semibold text-gray-900">Double authentification requise</h1>
+              <p className="text-gray-600">
+                Activez la double authentification depuis votre profil pour accéder au panneau d'administration.
+              </p>
+              <Button onClick={() => setLocation("/profile")}>Aller au profil</Button>
+            </CardContent>
+          </Card>
+        </main>
+      </div>
+    );
+  }
+
   if (statsLoading || themesLoading) {
     return (
       <div className="min-h-screen bg-gray-50">
@@ -350,21 +650,28 @@ export default function Admin() {
         {/* Admin Tabs */}
         <Card>
           <CardContent className="p-6">
-            <Tabs defaultValue="themes">
-              <TabsList className="grid w-full grid-cols-3">
-                <TabsTrigger value="themes">Gestion des Thèmes</TabsTrigger>
-                <TabsTrigger value="questions">Gestion des Questions</TabsTrigger>
-                <TabsTrigger value="users">Utilisateurs</TabsTrigger>
+            <Tabs defaultValue={canWriteThemes || canReviewContent ? "themes" : canWriteQuestions ? "questions" : "users"}>
+              <TabsList className="flex w-full">
+                {(canWriteThemes || canReviewContent) && <TabsTrigger value="themes" className="flex-1">Gestion des Thèmes</TabsTrigger>}
+                {canWriteQuestions && <TabsTrigger value="questions" className="flex-1">Gestion des Questions</TabsTrigger>}
+                {canModerate && <TabsTrigger value="submissions" className="flex-1">Propositions</TabsTrigger>}
+                {canModerate && <TabsTrigger value="reports" className="flex-1">Signalements</TabsTrigger>}
+                {canWriteQuestions && <TabsTrigger value="tags" className="flex-1">Étiquettes</TabsTrigger>}
+                <TabsTrigger value="users" className="flex-1">Utilisateurs</TabsTrigger>
+                {canManageUsers && <TabsTrigger value="roles" className="flex-1">Rôles</TabsTrigger>}
+                {canManageUsers && <TabsTrigger value="security" className="flex-1">Sécurité</TabsTrigger>}
               </TabsList>
 
               {/* Themes Tab */}
               <TabsContent value="themes" className="space-y-6">
                 <div className="flex items-center justify-between">
                   <h3 className="text-xl font-semibold text-gray-900">Gestion des Thèmes</h3>
-                  <Button onClick={() => openThemeDialog()}>
-                    <Plus className="w-4 h-4 mr-2" />
-                    Nouveau Thème
-                  </Button>
+                  {canWriteThemes && (
+                    <Button onClick={() => openThemeDialog()}>
+                      <Plus className="w-4 h-4 mr-2" />
+                      Nouveau Thème
+                    </Button>
+                  )}
                 </div>
 
                 <div className="overflow-x-auto">
@@ -381,7 +688,7 @@ export default function Admin() {
                       {themes?.map((theme) => (
                         <tr key={theme.id} className="border-b border-gray-100 hover:bg-gray-50">
                           <td className="py-4 px-4">
-                            <div className="flex items-center space-x-3">
+                            <div className="flex items-center space-x-3" style={{ paddingLeft: `${theme.depth * 1.5}rem` }}>
                               <div className={`p-2 rounded-lg ${
                                 theme.color === 'blue' ? 'bg-blue-100 text-blue-600' :
                                 theme.color === 'green' ? 'bg-green-100 text-green-600' :
@@ -400,27 +707,40 @@ export default function Admin() {
                             {theme.description}
                           </td>
                           <td className="py-4 px-4">
-                            <Badge variant={theme.isActive ? "default" : "secondary"}>
-                              {theme.isActive ? "Actif" : "Inactif"}
-                            </Badge>
+                            <div className="flex items-center gap-2">
+                              <ContentStatusBadge status={theme.status} />
+                              {!theme.isActive && <Badge variant="secondary">Inactif</Badge>}
+                            </div>
                           </td>
                           <td className="py-4 px-4">
                             <div className="flex items-center space-x-2">
-                              <Button 
-                                variant="ghost" 
-                                size="sm"
-                                onClick={() => openThemeDialog(theme)}
-                              >
-                                <Edit className="w-4 h-4" />
-                              </Button>
-                              <Button 
-                                variant="ghost" 
+                              <Button
+                                variant="ghost"
                                 size="sm"
-                                onClick={() => deleteThemeMutation.mutate(theme.id)}
-                                className="text-red-600 hover:text-red-800"
+                                title="Publication"
+                                onClick={() => setWorkflowTheme(theme)}
                               >
-                                <Trash2 className="w-4 h-4" />
+                                <ClipboardCheck className="w-4 h-4" />
                               </Button>
+                              {canWriteThemes && (
+                                <>
+                                  <Button 
+                                    variant="ghost" 
+                                    size="sm"
+                                    onClick={() => openThemeDialog(theme)}
+                                  >
+                                    <Edit className="w-4 h-4" />
+                                  </Button>
+                                  <Button 
+                                    variant="ghost" 
+                                    size="sm"
+                                    onClick={() => deleteThemeMutation.mutate(theme.id)}
+                                    className="text-red-600 hover:text-red-800"
+                                  >
+                                    <Trash2 className="w-4 h-4" />
+                                  </Button>
+                                </>
+                              )}
                             </div>
                           </td>
                         </tr>
@@ -436,20 +756,68 @@ export default function Admin() {
                   <div>
                     <h3 className="text-xl font-semibold text-gray-900">Gestion des Questions</h3>
                     <p className="text-gray-600">Sélectionnez un thème pour voir ses questions</p>
+                    {miscalibratedCount > 0 && (
+                      <p className="text-sm text-amber-700 mt-1">
+                        {miscalibratedCount} question(s) dont la difficulté observée ne correspond pas au libellé
+                      </p>
+                    )}
                   </div>
                   <div className="flex items-center space-x-4">
-                    <Select value={selectedThemeId?.toString()} onValueChange={(value) => setSelectedThemeId(parseInt(value))}>
+                    <Select
+                      value={selectedThemeId?.toString()}
+                      onValueChange={(value) => {
+                        setSelectedThemeId(parseInt(value));
+                        setSelectedQuestionIds([]);
+                      }}
+                    >
                       <SelectTrigger className="w-48">
                         <SelectValue placeholder="Choisir un thème" />
                       </SelectTrigger>
                       <SelectContent>
                         {themes?.map((theme) => (
                           <SelectItem key={theme.id} value={theme.id.toString()}>
-                            {theme.name}
+                            {indentedThemeName(theme)}
                           </SelectItem>
                         ))}
                       </SelectContent>
                     </Select>
+                    <Select value={questionStatusFilter} onValueChange={(value) => setQuestionStatusFilter(value as ContentStatusFilter)}>
+                      <SelectTrigger className="w-40">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {contentStatusFilters.map((status) => (
+                          <SelectItem key={status} value={status}>
+                            {status === "all" ? "Tous les états" : contentStatusLabels[status]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      variant="outline"
+                      onClick={() => setIsImportDialogOpen(true)}
+                      disabled={!selectedThemeId}
+                    >
+                      <Upload className="w-4 h-4 mr-2" />
+                      Importer
+                    </Button>
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button variant="outline" disabled={!selectedThemeId}>
+                          <Download className="w-4 h-4 mr-2" />
+                          Exporter
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent>
+                        {questionFileFormats.map((format) => (
+                          <DropdownMenuItem key={format} asChild>
+                            <a href={`/api/themes/${selectedThemeId}/questions/export?format=${format}`} download>
+                              {questionFileFormatLabels[format]}
+                            </a>
+                          </DropdownMenuItem>
+                        ))}
+                      </DropdownMenuContent>
+                    </DropdownMenu>
                     <Button 
                       onClick={() => openQuestionDialog()}
                       disabled={!selectedThemeId}
@@ -462,6 +830,13 @@ export default function Admin() {
 
                 {selectedThemeId && (
                   <div className="space-y-4">
+                    {selectedQuestionIds.length > 0 && (
+                      <BulkTagBar
+                        questionIds={selectedQuestionIds}
+                        invalidateKeys={[`/api/themes/${selectedThemeId}/questions`]}
+                        onClear={() => setSelectedQuestionIds([])}
+                      />
+                    )}
                     {questionsLoading ? (
                       <div className="space-y-4">
                         {[...Array(3)].map((_, i) => (
@@ -477,28 +852,80 @@ export default function Admin() {
                         <Card key={question.id}>
                           <CardContent className="p-4">
                             <div className="flex items-start justify-between">
+                              <Checkbox
+                                className="mt-1 mr-3"
+                                checked={selectedQuestionIds.includes(question.id)}
+                                onCheckedChange={(checked) => setSelectedQuestionIds(
+                                  checked
+                                    ? [...selectedQuestionIds, question.id]
+                                    : selectedQuestionIds.filter((id) => id !== question.id),
+                                )}
+                              />
                               <div className="flex-1">
                                 <h4 className="font-medium text-gray-900 mb-2">{question.question}</h4>
-                                <div className="grid grid-cols-2 gap-2 mb-2">
-                                  {question.options.map((option, index) => (
-                                    <div 
-                                      key={index}
-                                      className={`text-sm p-2 rounded ${
-                                        index === question.correctAnswer 
-                                          ? 'bg-green-100 text-green-800 font-medium' 
-                                          : 'bg-gray-100 text-gray-700'
-                                      }`}
-                                    >
-                                      {String.fromCharCode(65 + index)}. {option}
-                                    </div>
-                                  ))}
-                                </div>
+                                {(question.type === "single_choice" || question.type === "multiple_choice") && (
+                                  <div className="grid grid-cols-2 gap-2 mb-2">
+                                    {question.options.map((option, index) => {
+                                      const correct = question.type === "multiple_choice" && question.answerKey?.type === "multiple_choice"
+                                        ? question.answerKey.correctAnswers.includes(index)
+                                        : index === question.correctAnswer;
+                                      return (
+                                        <div 
+                                          key={index}
+                                          className={`text-sm p-2 rounded ${
+                                            correct 
+                                              ? 'bg-green-100 text-green-800 font-medium' 
+                                              : 'bg-gray-100 text-gray-700'
+                                          }`}
+                                        >
+                                          {String.fromCharCode(65 + index)}. {option}
+                                        </div>
+                                      );
+                                    })}
+                                  </div>
+                                )}
                                 <div className="flex items-center space-x-4">
+                                  <ContentStatusBadge status={question.status} />
+                                  {question.contributorId !== null && <Badge variant="outline">Proposée par un joueur</Badge>}
+                                  <Badge variant="secondary">{questionTypeLabels[question.type]}</Badge>
                                   <Badge variant="outline">{question.difficulty}</Badge>
                                   <span className="text-sm text-gray-500">
-                                    Réponse correcte: {String.fromCharCode(65 + question.correctAnswer)}
+                                    Réponse correcte: {describeCorrectAnswer(questionToInput(question))}
                                   </span>
                                 </div>
+                                {question.tags.length > 0 && (
+                                  <div className="flex flex-wrap items-center gap-1 mt-2">
+                                    <Tags className="w-4 h-4 text-gray-400" />
+                                    {question.tags.map((tag) => (
+                                      <Badge key={tag.id} variant="outline" className="font-normal">{tag.name}</Badge>
+                                    ))}
+                                  </div>
+                                )}
+                                {(() => {
+                                  // Difficulté observée différente du libellé : on propose de la corriger
+                                  const observed = observedDifficulty(question);
+                                  if (!observed || observed === question.difficulty) return null;
+                                  return (
+                                    <div className="flex items-center space-x-3 mt-2 text-sm text-amber-700">
+                                      <AlertTriangle className="w-4 h-4" />
+                                      <span>
+                                        Difficulté observée : {difficultyLabels[observed]} ({question.answerCount} réponses,{" "}
+                                        {Math.round((question.correctCount / question.answerCount) * 100)}% de réussite)
+                                      </span>
+                                      <Button
+                                        variant="outline"
+                                        size="sm"
+                                        disabled={updateQuestionMutation.isPending}
+                                        onClick={() => updateQuestionMutation.mutate({
+                                          id: question.id,
+                                          data: { ...questionToInput(question), difficulty: observed },
+                                        })}
+                                      >
+                                        Appliquer
+                                      </Button>
+                                    </div>
+                                  );
+                                })()}
                               </div>
                               <div className="flex items-center space-x-2 ml-4">
                                 <Button 
@@ -508,6 +935,22 @@ export default function Admin() {
                                 >
                                   <Edit className="w-4 h-4" />
                                 </Button>
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  title="Historique"
+                                  onClick={() => setHistoryQuestion(question)}
+                                >
+                                  <History className="w-4 h-4" />
+                                </Button>
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  title="Publication"
+                                  onClick={() => setWorkflowQuestion(question)}
+                                >
+                                  <ClipboardCheck className="w-4 h-4" />
+                                </Button>
                                 <Button 
                                   variant="ghost" 
                                   size="sm"
@@ -526,45 +969,106 @@ export default function Admin() {
                 )}
               </TabsContent>
 
+              {/* Submissions Tab */}
+              {canModerate && (
+                <TabsContent value="submissions" className="space-y-6">
+                  <SubmissionQueuePanel onEdit={openSubmissionDialog} />
+                </TabsContent>
+              )}
+
+              {/* Reports Tab */}
+              {canModerate && (
+                <TabsContent value="reports" className="space-y-6">
+                  <ReportTriagePanel />
+                </TabsContent>
+              )}
+
+              {/* Tags Tab */}
+              {canWriteQuestions && (
+                <TabsContent value="tags" className="space-y-6">
+                  <TagManagementPanel />
+                </TabsContent>
+              )}
+
               {/* Users Tab */}
               <TabsContent value="users" className="space-y-6">
                 <h3 className="text-xl font-semibold text-gray-900">Top Utilisateurs</h3>
                 <div className="space-y-3">
-                  {globalLeaderboard?.map((user, index) => (
-                    <Card key={user.id}>
+                  {globalLeaderboard?.entries.map((entry) => (
+                    <Card key={entry.username}>
                       <CardContent className="p-4">
                         <div className="flex items-center justify-between">
                           <div className="flex items-center space-x-3">
                             <div className={`w-8 h-8 rounded-full flex items-center justify-center font-bold text-sm ${
-                              index === 0 ? 'bg-yellow-500 text-white' :
-                              index === 1 ? 'bg-gray-400 text-white' :
-                              index === 2 ? 'bg-orange-500 text-white' :
+                              entry.rank === 1 ? 'bg-yellow-500 text-white' :
+                              entry.rank === 2 ? 'bg-gray-400 text-white' :
+                              entry.rank === 3 ? 'bg-orange-500 text-white' :
                               'bg-gray-300 text-gray-700'
                             }`}>
-                              {index + 1}
+                              {entry.rank}
                             </div>
                             <div>
-                              <div className="font-medium text-gray-900">
-                                {user.firstName} {user.lastName}
-                              </div>
-                              <div className="text-sm text-gray-500">{user.email}</div>
-                            </div>
-                            {user.role === "admin" && (
-                              <Badge variant="destructive">Admin</Badge>
-                            )}
-                          </div>
-                          <div className="text-right">
-                            <div className="font-bold text-gray-900">{user.totalScore} pts</div>
-                            <div className="text-sm text-gray-500">
-                              Série: {user.streak} jours
+                              <div className="font-medium text-gray-900">{entry.displayName}</div>
+                              <div className="text-sm text-gray-500">@{entry.username}</div>
                             </div>
                           </div>
+                          <div className="font-bold text-gray-900">{entry.score} pts</div>
                         </div>
                       </CardContent>
                     </Card>
                   ))}
                 </div>
               </TabsContent>
+
+              {/* Roles Tab */}
+              {canManageUsers && (
+                <TabsContent value="roles" className="space-y-6">
+                  <div>
+                    <h3 className="text-xl font-semibold text-gray-900">Rôles et permissions</h3>
+                    <p className="text-sm text-gray-500">
+                      Éditeur : thèmes et questions. Modérateur : questions et modération. Administrateur : tous les droits.
+                    </p>
+                  </div>
+                  <div className="space-y-3">
+                    {allUsers?.map((member) => (
+                      <Card key={member.id}>
+                        <CardContent className="p-4">
+                          <div className="flex items-center justify-between">
+                            <div>
+                              <div className="font-medium text-gray-900">
+                                {member.firstName} {member.lastName}
+                                <span className="text-sm text-gray-500 ml-2">@{member.username}</span>
+                              </div>
+                              <div className="text-sm text-gray-500">{member.email}</div>
+                            </div>
+                            <Select
+                              value={member.role}
+                              disabled={member.id === user?.id || updateRoleMutation.isPending}
+                              onValueChange={(role) => updateRoleMutation.mutate({ id: member.id, role: role as UserRole })}
+                            >
+                              <SelectTrigger className="w-44">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {userRoles.map((role) => (
+                                  <SelectItem key={role} value={role}>{roleLabels[role]}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </div>
+                        </CardContent>
+                      </Card>
+                    ))}
+                  </div>
+                </TabsContent>
+              )}
+
+              {/* Security Tab */}
+              {canManageUsers && (
+                <TabsContent value="security" className="space-y-6">
+                  <LoginSecurityPanel />
+                </TabsContent>
+              )}
             </Tabs>
           </CardContent>
         </Card>
@@ -620,6 +1124,26 @@ export default function Admin() {
                 )}
               </div>
 
+              <div>
+                <Label>Thème parent</Label>
+                <Select
+                  value={themeForm.watch("parentId")}
+                  onValueChange={(value) => themeForm.setValue("parentId", value)}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Aucun (thème principal)</SelectItem>
+                    {parentCandidates?.map((theme) => (
+                      <SelectItem key={theme.id} value={theme.id.toString()}>
+                        {indentedThemeName(theme)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
               <div>
                 <Label htmlFor="color">Couleur</Label>
                 <Select 
@@ -642,6 +1166,49 @@ export default function Admin() {
                 </Select>
               </div>
 
+              <div>
+                <Label htmlFor="questionCount">Questions par quiz</Label>
+                <Input
+                  id="questionCount"
+                  type="number"
+                  min={1}
+                  {...themeForm.register("questionCount")}
+                  placeholder="Toutes les questions du thème"
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="questionTimeLimit">Délai par question (s)</Label>
+                  <Input
+                    id="questionTimeLimit"
+                    type="number"
+                    min={5}
+                    {...themeForm.register("questionTimeLimit")}
+                    placeholder="Sans limite"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="quizTimeLimit">Durée maximale du quiz (s)</Label>
+                  <Input
+                    id="quizTimeLimit"
+                    type="number"
+                    min={10}
+                    {...themeForm.register("quizTimeLimit")}
+                    placeholder="Sans limite"
+                  />
+                </div>
+              </div>
+
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="allowUntimed"
+                  checked={themeForm.watch("allowUntimed")}
+                  onCheckedChange={(checked) => themeForm.setValue("allowUntimed", checked === true)}
+                />
+                <Label htmlFor="allowUntimed">Autoriser l'entraînement sans chrono</Label>
+              </div>
+
               <div className="flex justify-end space-x-2">
                 <Button 
                   type="button" 
@@ -661,12 +1228,51 @@ export default function Admin() {
           </DialogContent>
         </Dialog>
 
+        {/* Import Dialog */}
+        {selectedThemeId && (
+          <QuestionImportDialog
+            themeId={selectedThemeId}
+            open={isImportDialogOpen}
+            onOpenChange={setIsImportDialogOpen}
+          />
+        )}
+
+        {historyQuestion && (
+          <QuestionHistoryDialog
+            question={historyQuestion}
+            open={!!historyQuestion}
+            onOpenChange={(open) => !open && setHistoryQuestion(null)}
+          />
+        )}
+
+        {workflowTheme && (
+          <ContentWorkflowDialog
+            kind="theme"
+            content={{ id: workflowTheme.id, status: workflowTheme.status, title: workflowTheme.name }}
+            invalidateKeys={["/api/themes"]}
+            open={!!workflowTheme}
+            onOpenChange={(open) => !open && setWorkflowTheme(null)}
+          />
+        )}
+
+        {workflowQuestion && (
+          <ContentWorkflowDialog
+            kind="question"
+            content={{ id: workflowQuestion.id, status: workflowQuestion.status, title: workflowQuestion.question }}
+            invalidateKeys={[`/api/themes/${workflowQuestion.themeId}/questions`]}
+            open={!!workflowQuestion}
+            onOpenChange={(open) => !open && setWorkflowQuestion(null)}
+          />
+        )}
+
         {/* Question Dialog */}
         <Dialog open={isQuestionDialogOpen} onOpenChange={setIsQuestionDialogOpen}>
-          <DialogContent className="max-w-2xl">
+          <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
             <DialogHeader>
               <DialogTitle>
-                {editingQuestion ? "Modifier la question" : "Créer une nouvelle question"}
+                {editingSubmission
+                  ? `Modifier la proposition de @${editingSubmission.submitter?.username ?? "?"}`
+                  : editingQuestion ? "Modifier la question" : "Créer une nouvelle question"}
               </DialogTitle>
             </DialogHeader>
             <form onSubmit={questionForm.handleSubmit(handleQuestionSubmit)} className="space-y-4">
@@ -685,38 +1291,185 @@ export default function Admin() {
               </div>
 
               <div>
-                <Label>Options de réponse</Label>
-                {[0, 1, 2, 3].map((index) => (
-                  <div key={index} className="flex items-center space-x-2 mt-2">
-                    <span className="w-8 h-8 bg-gray-100 rounded-full flex items-center justify-center text-sm font-medium">
-                      {String.fromCharCode(65 + index)}
-                    </span>
-                    <Input
-                      {...questionForm.register(`options.${index}` as const)}
-                      placeholder={`Option ${String.fromCharCode(65 + index)}`}
-                    />
-                  </div>
-                ))}
-              </div>
-
-              <div>
-                <Label>Réponse correcte</Label>
+                <Label>Type de question</Label>
                 <Select 
-                  value={questionForm.watch("correctAnswer").toString()} 
-                  onValueChange={(value) => questionForm.setValue("correctAnswer", parseInt(value))}
+                  value={questionType} 
+                  onValueChange={(value) => questionForm.setValue("type", value as QuestionType)}
                 >
                   <SelectTrigger>
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="0">A</SelectItem>
-                    <SelectItem value="1">B</SelectItem>
-                    <SelectItem value="2">C</SelectItem>
-                    <SelectItem value="3">D</SelectItem>
+                    {questionTypes.map((type) => (
+                      <SelectItem key={type} value={type}>{questionTypeLabels[type]}</SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
               </div>
 
+              {(questionType === "single_choice" || questionType === "multiple_choice") && (
+                <div>
+                  <Label>Options de réponse</Label>
+                  {questionOptions.map((_, index) => (
+                    <div key={index} className="flex items-center space-x-2 mt-2">
+                      {questionType === "multiple_choice" ? (
+                        <Checkbox
+                          checked={correctAnswers.includes(index)}
+                          onCheckedChange={() => toggleCorrectAnswer(index)}
+                          aria-label="Bonne réponse"
+                        />
+                      ) : null}
+                      <span className="w-8 h-8 bg-gray-100 rounded-full flex items-center justify-center text-sm font-medium">
+                        {String.fromCharCode(65 + index)}
+                      </span>
+                      <Input
+                        {...questionForm.register(`options.${index}` as const)}
+                        placeholder={`Option ${String.fromCharCode(65 + index)}`}
+                      />
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        disabled={questionOptions.length <= 2}
+                        onClick={() => removeOption(index)}
+                      >
+                        <X className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  ))}
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    className="mt-2"
+                    disabled={questionOptions.length >= 8}
+                    onClick={() => questionForm.setValue("options", [...questionOptions, ""])}
+                  >
+                    <Plus className="w-4 h-4 mr-2" />
+                    Ajouter une option
+                  </Button>
+                  {questionType === "multiple_choice" && (
+                    <p className="text-sm text-gray-500 mt-2">Cochez toutes les bonnes réponses</p>
+                  )}
+                </div>
+              )}
+
+              {questionType === "single_choice" && (
+                <div>
+                  <Label>Réponse correcte</Label>
+                  <Select 
+                    value={questionForm.watch("correctAnswer").toString()} 
+                    onValueChange={(value) => questionForm.setValue("correctAnswer", parseInt(value))}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {questionOptions.map((_, index) => (
+                        <SelectItem key={index} value={index.toString()}>{String.fromCharCode(65 + index)}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
+              {questionType === "true_false" && (
+                <div>
+                  <Label>Réponse correcte</Label>
+                  <Select 
+                    value={questionForm.watch("trueFalseAnswer") ? "true" : "false"} 
+                    onValueChange={(value) => questionForm.setValue("trueFalseAnswer", value === "true")}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="true">Vrai</SelectItem>
+                      <SelectItem value="false">Faux</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
+              {questionType === "free_text" && (
+                <div>
+                  <Label htmlFor="acceptedAnswers">Réponses acceptées (une par ligne)</Label>
+                  <Textarea
+                    id="acceptedAnswers"
+                    {...questionForm.register("acceptedAnswers")}
+                    placeholder="Paris"
+                  />
+                  <div className="flex items-center space-x-2 mt-2">
+                    <Checkbox
+                      id="fuzzy"
+                      checked={questionForm.watch("fuzzy")}
+                      onCheckedChange={(checked) => questionForm.setValue("fuzzy", checked === true)}
+                    />
+                    <Label htmlFor="fuzzy">Tolérer les fautes de frappe</Label>
+                  </div>
+                </div>
+              )}
+
+              {questionType === "numeric" && (
+                <div className="grid grid-cols-3 gap-4">
+                  <div>
+                    <Label htmlFor="numericValue">Valeur</Label>
+                    <Input id="numericValue" inputMode="decimal" {...questionForm.register("numericValue")} />
+                  </div>
+                  <div>
+                    <Label htmlFor="tolerance">Tolérance (±)</Label>
+                    <Input id="tolerance" inputMode="decimal" {...questionForm.register("tolerance")} />
+                  </div>
+                  <div>
+                    <Label htmlFor="unit">Unité (optionnel)</Label>
+                    <Input id="unit" {...questionForm.register("unit")} placeholder="km" />
+                  </div>
+                </div>
+              )}
+
+              {questionType === "ordering" && (
+                <div>
+                  <Label htmlFor="items">Éléments dans le bon ordre (un par ligne)</Label>
+                  <Textarea
+                    id="items"
+                    {...questionForm.register("items")}
+                    rows={5}
+                  />
+                </div>
+              )}
+
+              {questionType === "matching" && (
+                <div>
+                  <Label>Paires à associer</Label>
+                  {questionPairs.map((_, index) => (
+                    <div key={index} className="flex items-center space-x-2 mt-2">
+                      <Input {...questionForm.register(`pairs.${index}.left` as const)} placeholder="Élément" />
+                      <span className="text-gray-400">→</span>
+                      <Input {...questionForm.register(`pairs.${index}.right` as const)} placeholder="Correspondance" />
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        disabled={questionPairs.length <= 2}
+                        onClick={() => questionForm.setValue("pairs", questionPairs.filter((_, i) => i !== index))}
+                      >
+                        <X className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  ))}
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    className="mt-2"
+                    onClick={() => questionForm.setValue("pairs", [...questionPairs, { left: "", right: "" }])}
+                  >
+                    <Plus className="w-4 h-4 mr-2" />
+                    Ajouter une paire
+                  </Button>
+                </div>
+              )}
+
               <div>
                 <Label>Difficulté</Label>
                 <Select 
@@ -734,6 +1487,17 @@ export default function Admin() {
                 </Select>
               </div>
 
+              <div>
+                <Label htmlFor="timeLimit">Délai de réponse (s, optionnel)</Label>
+                <Input
+                  id="timeLimit"
+                  type="number"
+                  min={5}
+                  {...questionForm.register("timeLimit")}
+                  placeholder="Délai du thème"
+                />
+              </div>
+
               <div>
                 <Label htmlFor="explanation">Explication (optionnel)</Label>
                 <Textarea
@@ -743,6 +1507,28 @@ export default function Admin() {
                 />
               </div>
 
+              <div>
+                <Label htmlFor="hint">Indice (optionnel)</Label>
+                <Input
+                  id="hint"
+                  {...questionForm.register("hint")}
+                  placeholder="Révélé par le joker « Indice »"
+                />
+              </div>
+
+              {/* Les étiquettes d'une proposition sont posées après son acceptation */}
+              {!editingSubmission && (
+                <div>
+                  <Label htmlFor="questionTags">Étiquettes (séparées par des virgules)</Label>
+                  <Input
+                    id="questionTags"
+                    value={questionTags}
+                    onChange={(e) => setQuestionTags(e.target.value)}
+                    placeholder="histoire, xxe siècle"
+                  />
+                </div>
+              )}
+
               <div className="flex justify-end space-x-2">
                 <Button 
                   type="button" 
@@ -753,9 +1539,9 @@ export default function Admin() {
                 </Button>
                 <Button 
                   type="submit" 
-                  disabled={createQuestionMutation.isPending || updateQuestionMutation.isPending}
+                  disabled={createQuestionMutation.isPending || updateQuestionMutation.isPending || updateSubmissionMutation.isPending}
                 >
-                  {editingQuestion ? "Modifier" : "Créer"}
+                  {editingQuestion || editingSubmission ? "Modifier" : "Créer"}
                 </Button>
               </div>
             </form>
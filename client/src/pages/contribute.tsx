@@ -0,0 +1,269 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useAuth } from "@/lib/auth";
+import { useLocation } from "wouter";
+import Navbar from "@/components/navbar";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { Lightbulb, Plus, X } from "lucide-react";
+import { questionInputSchema, type SubmissionStatus } from "@shared/schema";
+import { flattenThemeTree, indentedThemeName, type ThemeNode } from "@shared/themes";
+import { submissionStatusLabels, type SubmissionEntry } from "@shared/submissions";
+
+// Les joueurs proposent des questions à choix simple ou vrai/faux ; la modération peut ensuite les retoucher
+type ContributionType = "single_choice" | "true_false";
+
+const emptyOptions = ["", "", "", ""];
+
+const statusVariants: Record<SubmissionStatus, "default" | "secondary" | "destructive"> = {
+  pending: "secondary",
+  accepted: "default",
+  rejected: "destructive",
+};
+
+export default function Contribute() {
+  const { isAuthenticated } = useAuth();
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [themeId, setThemeId] = useState<string>("");
+  const [type, setType] = useState<ContributionType>("single_choice");
+  const [question, setQuestion] = useState("");
+  const [options, setOptions] = useState<string[]>(emptyOptions);
+  const [correctAnswer, setCorrectAnswer] = useState(0);
+  const [trueFalseAnswer, setTrueFalseAnswer] = useState(true);
+  const [difficulty, setDifficulty] = useState<"easy" | "medium" | "hard">("medium");
+  const [explanation, setExplanation] = useState("");
+
+  // Redirect to login if not authenticated
+  if (!isAuthenticated) {
+    setLocation("/login");
+    return null;
+  }
+
+  const { data: themeTree } = useQuery<ThemeNode[]>({
+    queryKey: ["/api/themes"],
+  });
+  const themes = themeTree && flattenThemeTree(themeTree);
+
+  const { data: submissions, isLoading: submissionsLoading } = useQuery<SubmissionEntry[]>({
+    queryKey: ["/api/submissions"],
+  });
+
+  const resetForm = () => {
+    setQuestion("");
+    setOptions(emptyOptions);
+    setCorrectAnswer(0);
+    setTrueFalseAnswer(true);
+    setExplanation("");
+  };
+
+  const submitMutation = useMutation({
+    mutationFn: async (data: unknown) => {
+      const response = await apiRequest("POST", `/api/themes/${themeId}/submissions`, data);
+      return response.json() as Promise<SubmissionEntry>;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/submissions"] });
+      resetForm();
+      toast({ title: "Proposition envoyée", description: "Elle sera examinée par l'équipe de modération." });
+    },
+    onError: (error: any) => {
+      toast({ title: "Erreur", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const base = { question, difficulty, explanation: explanation.trim() || undefined };
+    const parsed = questionInputSchema.safeParse(
+      type === "single_choice"
+        ? { ...base, type, options: options.map((option) => option.trim()), correctAnswer }
+        : { ...base, type, correctAnswer: trueFalseAnswer },
+    );
+    if (!parsed.success) {
+      toast({ title: "Question incomplète", description: parsed.error.errors[0]?.message, variant: "destructive" });
+      return;
+    }
+    submitMutation.mutate(parsed.data);
+  };
+
+  const removeOption = (index: number) => {
+    setOptions(options.filter((_, i) => i !== index));
+    setCorrectAnswer(correctAnswer === index ? 0 : correctAnswer > index ? correctAnswer - 1 : correctAnswer);
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Navbar />
+
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-8">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Proposer une question</h1>
+          <p className="text-gray-600 mt-1">
+            Chaque question acceptée par la modération rejoint le thème avec votre pseudo et vous rapporte des points.
+          </p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2">
+              <Lightbulb className="w-5 h-5" />
+              <span>Nouvelle proposition</span>
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <form className="space-y-4" onSubmit={handleSubmit}>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div className="space-y-1">
+                  <Label>Thème</Label>
+                  <Select value={themeId} onValueChange={setThemeId}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Choisir un thème" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {themes?.map((theme) => (
+                        <SelectItem key={theme.id} value={theme.id.toString()}>
+                          {indentedThemeName(theme)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label>Type</Label>
+                  <Select value={type} onValueChange={(value) => setType(value as ContributionType)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="single_choice">Choix simple</SelectItem>
+                      <SelectItem value="true_false">Vrai / Faux</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label>Difficulté</Label>
+                  <Select value={difficulty} onValueChange={(value) => setDifficulty(value as typeof difficulty)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="easy">Facile</SelectItem>
+                      <SelectItem value="medium">Moyen</SelectItem>
+                      <SelectItem value="hard">Difficile</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="space-y-1">
+                <Label htmlFor="contributionQuestion">Question</Label>
+                <Textarea id="contributionQuestion" value={question} onChange={(e) => setQuestion(e.target.value)} rows={2} />
+              </div>
+
+              {type === "single_choice" ? (
+                <div className="space-y-2">
+                  <Label>Réponses (cochez la bonne)</Label>
+                  {options.map((option, index) => (
+                    <div key={index} className="flex items-center space-x-2">
+                      <input
+                        type="radio"
+                        name="correctAnswer"
+                        checked={correctAnswer === index}
+                        onChange={() => setCorrectAnswer(index)}
+                      />
+                      <Input
+                        value={option}
+                        onChange={(e) => setOptions(options.map((o, i) => (i === index ? e.target.value : o)))}
+                        placeholder={`Option ${String.fromCharCode(65 + index)}`}
+                      />
+                      {options.length > 2 && (
+                        <Button type="button" variant="ghost" size="sm" onClick={() => removeOption(index)}>
+                          <X className="w-4 h-4" />
+                        </Button>
+                      )}
+                    </div>
+                  ))}
+                  {options.length < 6 && (
+                    <Button type="button" variant="outline" size="sm" onClick={() => setOptions([...options, ""])}>
+                      <Plus className="w-4 h-4 mr-1" />
+                      Ajouter une option
+                    </Button>
+                  )}
+                </div>
+              ) : (
+                <div className="space-y-1">
+                  <Label>Bonne réponse</Label>
+                  <Select value={trueFalseAnswer ? "true" : "false"} onValueChange={(value) => setTrueFalseAnswer(value === "true")}>
+                    <SelectTrigger className="w-40">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="true">Vrai</SelectItem>
+                      <SelectItem value="false">Faux</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
+              <div className="space-y-1">
+                <Label htmlFor="contributionExplanation">Explication (facultative)</Label>
+                <Textarea
+                  id="contributionExplanation"
+                  value={explanation}
+                  onChange={(e) => setExplanation(e.target.value)}
+                  rows={2}
+                />
+              </div>
+
+              <Button type="submit" disabled={!themeId || submitMutation.isPending}>
+                Envoyer la proposition
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Mes propositions</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {submissionsLoading ? (
+              <Skeleton className="h-20 w-full" />
+            ) : !submissions?.length ? (
+              <p className="text-sm text-gray-500">Vous n'avez encore proposé aucune question.</p>
+            ) : (
+              submissions.map((submission) => (
+                <div key={submission.id} className="border rounded-lg p-4 space-y-1">
+                  <div className="flex items-start justify-between gap-2">
+                    <p className="font-medium text-gray-900">{submission.content.question}</p>
+                    <Badge variant={statusVariants[submission.status]}>{submissionStatusLabels[submission.status]}</Badge>
+                  </div>
+                  <p className="text-sm text-gray-500">
+                    {submission.theme?.name ?? "Thème supprimé"} · {new Date(submission.createdAt).toLocaleDateString("fr-FR")}
+                  </p>
+                  {submission.status === "accepted" && submission.pointsAwarded > 0 && (
+                    <p className="text-sm text-green-700">+{submission.pointsAwarded} points</p>
+                  )}
+                  {submission.rejectionReason && (
+                    <p className="text-sm text-red-700">Motif du refus : {submission.rejectionReason}</p>
+                  )}
+                </div>
+              ))
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
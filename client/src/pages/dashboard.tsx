@@ -3,10 +3,15 @@ import { useAuth } from "@/lib/auth";
 import { useLocation } from "wouter";
 import Navbar from "@/components/navbar";
 import QuizCard from "@/components/quiz-card";
+import LeaderboardCard from "@/components/leaderboard-card";
 import { Card, CardContent } from "@/components/ui/card";
 import { Skeleton } from "@/components/ui/skeleton";
-import { Play, TrendingUp, Award, Clock, Flame, Trophy } from "lucide-react";
-import type { Theme, UserStats } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Play, TrendingUp, Award, Clock, Flame, Trophy, Brain } from "lucide-react";
+import type { UserStats } from "@shared/schema";
+import { flattenThemeTree, type ThemeNode } from "@shared/themes";
+import type { ReviewDeck } from "@shared/questions";
+import type { LeaderboardPosition } from "@shared/leaderboard";
 
 export default function Dashboard() {
   const { user, isAuthenticated } = useAuth();
@@ -18,9 +23,10 @@ export default function Dashboard() {
     return null;
   }
 
-  const { data: themes, isLoading: themesLoading } = useQuery<Theme[]>({
+  const { data: themeTree, isLoading: themesLoading } = useQuery<ThemeNode[]>({
     queryKey: ["/api/themes"],
   });
+  const themes = themeTree && flattenThemeTree(themeTree);
 
   const { data: userStatsData, isLoading: statsLoading } = useQuery<{
     stats: UserStats[];
@@ -30,8 +36,12 @@ export default function Dashboard() {
     queryKey: ["/api/users/me/stats"],
   });
 
-  const { data: globalLeaderboard } = useQuery<Array<any>>({
-    queryKey: ["/api/leaderboard/global"],
+  const { data: leaderboardPosition } = useQuery<LeaderboardPosition>({
+    queryKey: ["/api/leaderboard/me", { window: "all", neighbours: 0 }],
+  });
+
+  const { data: reviewDeck } = useQuery<ReviewDeck>({
+    queryKey: ["/api/review/deck"],
   });
 
   if (themesLoading || statsLoading) {
@@ -71,8 +81,7 @@ export default function Dashboard() {
   const totalTimeSpent = userStats.reduce((sum, stat) => sum + stat.totalTimeSpent, 0);
   const totalTimeHours = Math.round(totalTimeSpent / 3600);
 
-  // Find user rank in global leaderboard
-  const userRank = globalLeaderboard?.findIndex(u => u.id === user?.id) + 1 || 0;
+  const userRank = leaderboardPosition?.me?.rank ?? 0;
 
   return (
     <div className="min-h-screen bg-gray-50">
@@ -166,6 +175,30 @@ export default function Dashboard() {
           </Card>
         </div>
 
+        {/* Review Deck */}
+        {!!reviewDeck?.dueCount && (
+          <Card className="mb-8 border-indigo-200 bg-indigo-50">
+            <CardContent className="p-6">
+              <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+                <div className="flex items-center space-x-4">
+                  <div className="bg-indigo-100 p-3 rounded-lg">
+                    <Brain className="w-6 h-6 text-indigo-600" />
+                  </div>
+                  <div>
+                    <h2 className="text-lg font-semibold text-gray-900">Révision</h2>
+                    <p className="text-sm text-gray-600">
+                      {reviewDeck.dueCount} question{reviewDeck.dueCount > 1 ? "s" : ""} manquée{reviewDeck.dueCount > 1 ? "s" : ""} à revoir aujourd'hui
+                    </p>
+                  </div>
+                </div>
+                <Button onClick={() => setLocation("/review")} className="bg-indigo-600 hover:bg-indigo-700">
+                  Réviser maintenant
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Quiz Themes */}
         <div className="mb-8">
           <div className="flex items-center justify-between mb-6">
@@ -173,13 +206,14 @@ export default function Dashboard() {
           </div>
           
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-            {themes?.map((theme) => {
+            {themeTree?.map((theme) => {
               const themeStats = userStats.find(s => s.themeId === theme.id);
               return (
                 <QuizCard
                   key={theme.id}
                   theme={theme}
                   stats={themeStats}
+                  subThemes={flattenThemeTree(theme.children)}
                 />
               );
             })}
@@ -222,50 +256,7 @@ export default function Dashboard() {
           </Card>
 
           {/* Top Players */}
-          <Card>
-            <CardContent className="p-6">
-              <h3 className="text-xl font-semibold text-gray-900 mb-4">Top joueurs</h3>
-              <div className="space-y-3">
-                {globalLeaderboard?.slice(0, 5).map((player, index) => (
-                  <div
-                    key={player.id}
-                    className={`flex items-center justify-between p-3 rounded-lg ${
-                      player.id === user?.id 
-                        ? 'bg-indigo-50 border border-indigo-200' 
-                        : index === 0 
-                          ? 'bg-yellow-50 border border-yellow-200'
-                          : 'bg-gray-50'
-                    }`}
-                  >
-                    <div className="flex items-center space-x-3">
-                      <div className={`w-8 h-8 rounded-full flex items-center justify-center font-bold text-sm ${
-                        index === 0 ? 'bg-yellow-500 text-white' :
-                        index === 1 ? 'bg-gray-400 text-white' :
-                        index === 2 ? 'bg-orange-500 text-white' :
-                        'bg-gray-300 text-gray-700'
-                      }`}>
-                        {index + 1}
-                      </div>
-                      <span className={`font-medium ${
-                        player.id === user?.id ? 'text-indigo-700' : 'text-gray-900'
-                      }`}>
-                        {player.id === user?.id ? 'Vous' : `${player.firstName} ${player.lastName}`}
-                      </span>
-                    </div>
-                    <span className={`font-bold ${
-                      player.id === user?.id ? 'text-indigo-600' :
-                      index === 0 ? 'text-yellow-600' :
-                      index === 1 ? 'text-gray-600' :
-                      index === 2 ? 'text-orange-600' :
-                      'text-gray-600'
-                    }`}>
-                      {player.totalScore} pts
-                    </span>
-                  </div>
-                ))}
-              </div>
-            </CardContent>
-          </Card>
+          <LeaderboardCard username={user?.username} />
         </div>
       </main>
     </div>
@@ -1,25 +1,56 @@
-import { useState } from "react";
-import { useLocation } from "wouter";
-import { useMutation } from "@tanstack/react-query";
+import { useEffect, useRef, useState } from "react";
+import { useLocation, useSearch } from "wouter";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { loginSchema, registerSchema, type LoginData, type RegisterData } from "@shared/schema";
+import {
+  loginSchema,
+  registerSchema,
+  requestPasswordResetSchema,
+  resetPasswordSchema,
+  type LoginData,
+  type RegisterData,
+  type RequestPasswordResetData,
+  type ResetPasswordData,
+  type User,
+} from "@shared/schema";
 import { apiRequest } from "@/lib/queryClient";
 import { useAuth } from "@/lib/auth";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import TotpCodeInput from "@/components/totp-code-input";
 import { useToast } from "@/hooks/use-toast";
 import { Eye, EyeOff, Brain } from "lucide-react";
 
+type LoginView = "login" | "register" | "forgot" | "reset" | "two_factor";
+
+const viewTitles: Record<LoginView, { title: string; subtitle: string }> = {
+  login: { title: "Connexion", subtitle: "Connectez-vous pour commencer à jouer" },
+  register: { title: "Inscription", subtitle: "Créez votre compte pour commencer à jouer" },
+  forgot: { title: "Mot de passe oublié", subtitle: "Recevez par email un lien pour choisir un nouveau mot de passe" },
+  reset: { title: "Nouveau mot de passe", subtitle: "Choisissez le nouveau mot de passe de votre compte" },
+  two_factor: { title: "Double authentification", subtitle: "Saisissez le code affiché par votre application d'authentification" },
+};
+
 export default function Login() {
   const [, setLocation] = useLocation();
-  const [isRegister, setIsRegister] = useState(false);
+  // Liens reçus par email : /login?verify=<jeton> ou /login?reset=<jeton>
+  const params = new URLSearchParams(useSearch());
+  const verifyToken = params.get("verify");
+  const resetToken = params.get("reset");
+  const [view, setView] = useState<LoginView>(resetToken ? "reset" : "login");
+  const isRegister = view === "register";
   const [showPassword, setShowPassword] = useState(false);
   const [showConfirmPassword, setShowConfirmPassword] = useState(false);
   const { toast } = useToast();
-  const { login } = useAuth();
+  const { login, isAuthenticated } = useAuth();
+  const queryClient = useQueryClient();
+  // Le lien de vérification n'est envoyé qu'une fois, même si la page est rendue plusieurs fois
+  const verifySent = useRef(false);
+  const [twoFactorCode, setTwoFactorCode] = useState("");
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
 
   const loginForm = useForm<LoginData>({
     resolver: zodResolver(loginSchema),
@@ -38,7 +69,22 @@ export default function Login() {
       confirmPassword: "",
       firstName: "",
       lastName: "",
-      role: "user",
+    },
+  });
+
+  const forgotForm = useForm<RequestPasswordResetData>({
+    resolver: zodResolver(requestPasswordResetSchema),
+    defaultValues: {
+      email: "",
+    },
+  });
+
+  const resetForm = useForm<ResetPasswordData>({
+    resolver: zodResolver(resetPasswordSchema),
+    defaultValues: {
+      token: resetToken ?? "",
+      password: "",
+      confirmPassword: "",
     },
   });
 
@@ -48,17 +94,56 @@ export default function Login() {
       return response.json();
     },
     onSuccess: (data) => {
-      login(data.user);
+      if (data.twoFactorRequired) {
+        setTwoFactorCode("");
+        setUseRecoveryCode(false);
+        setView("two_factor");
+        return;
+      }
+      completeLogin(data);
+    },
+    onError: (error: any) => {
       toast({
-        title: "Connexion réussie",
-        description: "Bienvenue sur QuizMaster !",
+        title: "Erreur de connexion",
+        description: error.message || "Email ou mot de passe incorrect",
+        variant: "destructive",
       });
-      setLocation("/");
     },
+  });
+
+  // Rôles pour lesquels la double authentification est obligatoire : le profil permet de l'activer
+  const completeLogin = (data: { user: User; twoFactorSetupRequired?: boolean }) => {
+    login(data.user);
+    if (data.twoFactorSetupRequired) {
+      toast({
+        title: "Double authentification requise",
+        description: "Activez-la depuis votre profil pour accéder à l'administration.",
+      });
+      setLocation("/profile");
+      return;
+    }
+    toast({
+      title: "Connexion réussie",
+      description: "Bienvenue sur QuizMaster !",
+    });
+    setLocation("/");
+  };
+
+  const twoFactorMutation = useMutation({
+    mutationFn: async (code: string) => {
+      const response = await apiRequest("POST", "/api/auth/login/2fa", { code });
+      return response.json();
+    },
+    onSuccess: (data) => completeLogin(data),
     onError: (error: any) => {
+      setTwoFactorCode("");
+      // 401 : délai dépassé ou trop d'essais, le mot de passe doit être ressaisi
+      if (String(error.message).startsWith("401")) {
+        setView("login");
+      }
       toast({
         title: "Erreur de connexion",
-        description: error.message || "Email ou mot de passe incorrect",
+        description: error.message || "Code incorrect",
         variant: "destructive",
       });
     },
@@ -86,6 +171,79 @@ export default function Login() {
     },
   });
 
+  const verifyEmailMutation = useMutation({
+    mutationFn: async (token: string) => {
+      const response = await apiRequest("POST", "/api/auth/verify-email", { token });
+      return response.json();
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/me"] });
+      toast({
+        title: "Email confirmé",
+        description: data.message,
+      });
+      setLocation(isAuthenticated ? "/" : "/login");
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Vérification impossible",
+        description: error.message || "Lien de vérification invalide ou expiré",
+        variant: "destructive",
+      });
+      setLocation("/login");
+    },
+  });
+
+  const forgotPasswordMutation = useMutation({
+    mutationFn: async (data: RequestPasswordResetData) => {
+      const response = await apiRequest("POST", "/api/auth/password-reset", data);
+      return response.json();
+    },
+    onSuccess: (data) => {
+      toast({
+        title: "Email envoyé",
+        description: data.message,
+      });
+      setView("login");
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Erreur",
+        description: error.message || "Erreur lors de l'envoi de l'email",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const resetPasswordMutation = useMutation({
+    mutationFn: async (data: ResetPasswordData) => {
+      const response = await apiRequest("POST", "/api/auth/password-reset/confirm", data);
+      return response.json();
+    },
+    onSuccess: (data) => {
+      toast({
+        title: "Mot de passe modifié",
+        description: data.message,
+      });
+      setView("login");
+      setLocation("/login");
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Réinitialisation impossible",
+        description: error.message || "Lien de réinitialisation invalide ou expiré",
+        variant: "destructive",
+      });
+    },
+  });
+
+  useEffect(() => {
+    if (verifyToken && !verifySent.current) {
+      verifySent.current = true;
+      verifyEmailMutation.mutate(verifyToken);
+    }
+  }, [verifyToken]);
+
   const onLoginSubmit = (data: LoginData) => {
     loginMutation.mutate(data);
   };
@@ -103,19 +261,140 @@ export default function Login() {
           </div>
           <div>
             <CardTitle className="text-2xl font-bold text-gray-900">
-              {isRegister ? "Inscription" : "Connexion"}
+              {viewTitles[view].title}
             </CardTitle>
             <p className="text-gray-600 mt-2">
-              {isRegister 
-                ? "Créez votre compte pour commencer à jouer"
-                : "Connectez-vous pour commencer à jouer"
-              }
+              {viewTitles[view].subtitle}
             </p>
           </div>
         </CardHeader>
 
         <CardContent className="space-y-6">
-          {isRegister ? (
+          {verifyEmailMutation.isPending && (
+            <p className="text-center text-gray-600">Vérification de votre adresse email...</p>
+          )}
+
+          {view === "two_factor" ? (
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                twoFactorMutation.mutate(twoFactorCode);
+              }}
+              className="space-y-4"
+            >
+              {useRecoveryCode ? (
+                <div>
+                  <Label htmlFor="recoveryCode">Code de secours</Label>
+                  <Input
+                    id="recoveryCode"
+                    value={twoFactorCode}
+                    onChange={(e) => setTwoFactorCode(e.target.value)}
+                    placeholder="XXXXX-XXXXX"
+                    autoComplete="off"
+                    autoFocus
+                    className="mt-1 font-mono"
+                  />
+                </div>
+              ) : (
+                <TotpCodeInput
+                  value={twoFactorCode}
+                  onChange={setTwoFactorCode}
+                  onComplete={(code) => twoFactorMutation.mutate(code)}
+                  disabled={twoFactorMutation.isPending}
+                />
+              )}
+
+              <Button
+                type="submit"
+                className="w-full bg-indigo-600 hover:bg-indigo-700"
+                disabled={!twoFactorCode || twoFactorMutation.isPending}
+              >
+                {twoFactorMutation.isPending ? "Vérification..." : "Valider"}
+              </Button>
+
+              <div className="text-center">
+                <Button
+                  type="button"
+                  variant="link"
+                  className="p-0 h-auto text-sm text-indigo-600"
+                  onClick={() => {
+                    setTwoFactorCode("");
+                    setUseRecoveryCode(!useRecoveryCode);
+                  }}
+                >
+                  {useRecoveryCode ? "Utiliser l'application d'authentification" : "Utiliser un code de secours"}
+                </Button>
+              </div>
+            </form>
+          ) : view === "forgot" ? (
+            <form onSubmit={forgotForm.handleSubmit((data) => forgotPasswordMutation.mutate(data))} className="space-y-4">
+              <div>
+                <Label htmlFor="forgotEmail">Email</Label>
+                <Input
+                  id="forgotEmail"
+                  type="email"
+                  {...forgotForm.register("email")}
+                  placeholder="votre@email.com"
+                  className="mt-1"
+                />
+                {forgotForm.formState.errors.email && (
+                  <p className="text-red-500 text-sm mt-1">
+                    {forgotForm.formState.errors.email.message}
+                  </p>
+                )}
+              </div>
+
+              <Button
+                type="submit"
+                className="w-full bg-indigo-600 hover:bg-indigo-700"
+                disabled={forgotPasswordMutation.isPending}
+              >
+                {forgotPasswordMutation.isPending ? "Envoi..." : "Envoyer le lien"}
+              </Button>
+            </form>
+          ) : view === "reset" ? (
+            <form onSubmit={resetForm.handleSubmit((data) => resetPasswordMutation.mutate(data))} className="space-y-4">
+              <div>
+                <Label htmlFor="newPassword">Nouveau mot de passe</Label>
+                <Input
+                  id="newPassword"
+                  type="password"
+                  {...resetForm.register("password")}
+                  placeholder="••••••••"
+                  className="mt-1"
+                />
+                {resetForm.formState.errors.password && (
+                  <p className="text-red-500 text-sm mt-1">
+                    {resetForm.formState.errors.password.message}
+                  </p>
+                )}
+              </div>
+
+              <div>
+                <Label htmlFor="newPasswordConfirm">Confirmer le mot de passe</Label>
+                <Input
+                  id="newPasswordConfirm"
+                  type="password"
+                  {...resetForm.register("confirmPassword")}
+                  placeholder="••••••••"
+                  className="mt-1"
+                />
+                {resetForm.formState.errors.confirmPassword && (
+                  <p className="text-red-500 text-sm mt-1">
+                    {resetForm.formState.errors.confirmPassword.message}
+                  </p>
+                )}
+              </div>
+
+              <Button
+                type="submit"
+                className="w-full bg-indigo-600 hover:bg-indigo-700"
+                disabled={resetPasswordMutation.isPending}
+              >
+                {resetPasswordMutation.isPending ? "Enregistrement..." : "Changer le mot de passe"}
+              </Button>
+            </form>
+          ) : isRegister ? (
             <form onSubmit={registerForm.handleSubmit(onRegisterSubmit)} className="space-y-4">
               <div className="grid grid-cols-2 gap-4">
                 <div>
@@ -281,6 +560,16 @@ export default function Login() {
                     {loginForm.formState.errors.password.message}
                   </p>
                 )}
+                <div className="text-right mt-1">
+                  <Button
+                    type="button"
+                    variant="link"
+                    className="p-0 h-auto text-sm text-indigo-600"
+                    onClick={() => setView("forgot")}
+                  >
+                    Mot de passe oublié ?
+                  </Button>
+                </div>
               </div>
 
               <Button
@@ -295,13 +584,13 @@ export default function Login() {
 
           <div className="text-center">
             <p className="text-gray-600">
-              {isRegister ? "Déjà un compte ?" : "Pas encore de compte ?"}{" "}
+              {view === "login" ? "Pas encore de compte ?" : "Déjà un compte ?"}{" "}
               <Button
                 variant="link"
                 className="p-0 h-auto text-indigo-600 font-semibold"
-                onClick={() => setIsRegister(!isRegister)}
+                onClick={() => setView(view === "login" ? "register" : "login")}
               >
-                {isRegister ? "Se connecter" : "S'inscrire"}
+                {view === "login" ? "S'inscrire" : "Se connecter"}
               </Button>
             </p>
           </div>
@@ -0,0 +1,434 @@
+import { useState, useEffect, useRef, useCallback } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { useAuth } from "@/lib/auth";
+import Navbar from "@/components/navbar";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { Users, Play, Clock, Trophy, Crown, Medal, CheckCircle, XCircle, LogIn } from "lucide-react";
+import AnswerInput, { describeAnswer, isAnswerComplete, isSingleClickQuestion } from "@/components/answer-input";
+import type { QuizRewards, AnswerValue } from "@shared/schema";
+import { flattenThemeTree, indentedThemeName, type ThemeNode } from "@shared/themes";
+import type {
+  ClientMessage,
+  QuestionResultMessage,
+  RankingEntry,
+  RoomQuestionMessage,
+  RoomStateMessage,
+  ServerEnvelope,
+} from "@shared/multiplayer";
+
+type Phase = "menu" | "lobby" | "question" | "results" | "podium";
+
+export default function Multiplayer() {
+  const { user, isAuthenticated } = useAuth();
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const socketRef = useRef<WebSocket | null>(null);
+  // Décalage entre l'horloge du serveur et celle du navigateur
+  const clockOffsetRef = useRef(0);
+
+  const [phase, setPhase] = useState<Phase>("menu");
+  const [room, setRoom] = useState<RoomStateMessage | null>(null);
+  const [selectedThemeId, setSelectedThemeId] = useState<string>("");
+  const [joinCode, setJoinCode] = useState("");
+  const [currentQuestion, setCurrentQuestion] = useState<RoomQuestionMessage | null>(null);
+  const [selectedAnswer, setSelectedAnswer] = useState<AnswerValue | undefined>(undefined);
+  const [answerSent, setAnswerSent] = useState(false);
+  const [answeredCount, setAnsweredCount] = useState({ answered: 0, total: 0 });
+  const [lastResult, setLastResult] = useState<QuestionResultMessage | null>(null);
+  const [finalRankings, setFinalRankings] = useState<RankingEntry[]>([]);
+  const [rewards, setRewards] = useState<QuizRewards | null>(null);
+  const [timeRemaining, setTimeRemaining] = useState(0);
+
+  // Redirect to login if not authenticated
+  if (!isAuthenticated) {
+    setLocation("/login");
+    return null;
+  }
+
+  const { data: themeTree } = useQuery<ThemeNode[]>({
+    queryKey: ["/api/themes"],
+  });
+  const themes = themeTree && flattenThemeTree(themeTree);
+
+  const handleServerMessage = useCallback((message: ServerEnvelope) => {
+    clockOffsetRef.current = message.serverTime - Date.now();
+
+    switch (message.type) {
+      case "room":
+        setRoom(message);
+        if (message.status === "lobby") setPhase("lobby");
+        break;
+      case "question":
+        setCurrentQuestion(message);
+        setSelectedAnswer(undefined);
+        setAnswerSent(false);
+        setAnsweredCount({ answered: 0, total: 0 });
+        setPhase("question");
+        break;
+      case "answer_count":
+        setAnsweredCount({ answered: message.answered, total: message.total });
+        break;
+      case "question_result":
+        setLastResult(message);
+        setPhase("results");
+        break;
+      case "podium":
+        setFinalRankings(message.rankings);
+        setPhase("podium");
+        break;
+      case "session":
+        setRewards(message.rewards);
+        queryClient.invalidateQueries({ queryKey: ["/api/auth/me"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/users/me/stats"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/leaderboard/global"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/leaderboard/me"] });
+        break;
+      case "closed":
+        toast({ title: "Partie terminée", description: message.message });
+        setRoom(null);
+        setPhase("menu");
+        break;
+      case "error":
+        toast({ title: "Erreur", description: message.message, variant: "destructive" });
+        break;
+    }
+  }, [queryClient, toast]);
+
+  const connect = useCallback((onOpen: (socket: WebSocket) => void) => {
+    socketRef.current?.close();
+    const protocol = window.location.protocol === "https:" ? "wss" : "ws";
+    const socket = new WebSocket(`${protocol}://${window.location.host}/ws/rooms`);
+    socket.onopen = () => onOpen(socket);
+    socket.onmessage = (event) => handleServerMessage(JSON.parse(event.data) as ServerEnvelope);
+    socket.onerror = () => {
+      toast({ title: "Erreur", description: "Connexion au serveur de jeu impossible", variant: "destructive" });
+    };
+    socketRef.current = socket;
+  }, [handleServerMessage, toast]);
+
+  useEffect(() => {
+    return () => socketRef.current?.close();
+  }, []);
+
+  // Compte à rebours synchronisé sur l'échéance envoyée par le serveur
+  useEffect(() => {
+    if (phase !== "question" || !currentQuestion) return;
+
+    const tick = () => {
+      const now = Date.now() + clockOffsetRef.current;
+      setTimeRemaining(Math.max(0, Math.ceil((currentQuestion.deadline - now) / 1000)));
+    };
+    tick();
+    const timer = setInterval(tick, 250);
+    return () => clearInterval(timer);
+  }, [phase, currentQuestion]);
+
+  const send = (message: ClientMessage) => {
+    socketRef.current?.send(JSON.stringify(message));
+  };
+
+  const createRoom = () => {
+    if (!selectedThemeId) return;
+    const message: ClientMessage = { type: "create", themeId: parseInt(selectedThemeId) };
+    connect((socket) => socket.send(JSON.stringify(message)));
+  };
+
+  const joinRoom = () => {
+    if (!joinCode.trim()) return;
+    const message: ClientMessage = { type: "join", code: joinCode.trim().toUpperCase() };
+    connect((socket) => socket.send(JSON.stringify(message)));
+  };
+
+  const leaveRoom = () => {
+    send({ type: "leave" });
+    socketRef.current?.close();
+    socketRef.current = null;
+    setRoom(null);
+    setRewards(null);
+    setPhase("menu");
+  };
+
+  const sendAnswer = (answer: AnswerValue) => {
+    if (!currentQuestion || answerSent) return;
+    setAnswerSent(true);
+    send({ type: "answer", index: currentQuestion.index, answer });
+  };
+
+  const selectAnswer = useCallback((answer: AnswerValue) => {
+    setSelectedAnswer(answer);
+  }, []);
+
+  const isHost = room?.hostId === user?.id;
+  const roomTheme = themes?.find(t => t.id === room?.themeId);
+
+  const renderRankings = (rankings: RankingEntry[]) => (
+    <div className="space-y-2">
+      {rankings.map((entry) => (
+        <div
+          key={entry.userId}
+          className={`flex items-center justify-between p-3 rounded-lg ${
+            entry.userId === user?.id ? 'bg-indigo-50 border border-indigo-200' : 'bg-gray-50'
+          }`}
+        >
+          <div className="flex items-center space-x-3">
+            <div className="w-8 h-8 rounded-full bg-gray-300 text-gray-700 flex items-center justify-center font-bold text-sm">
+              {entry.rank}
+            </div>
+            <span className="font-medium text-gray-900">
+              {entry.userId === user?.id ? 'Vous' : entry.username}
+            </span>
+          </div>
+          <div className="text-right">
+            <div className="font-bold text-gray-900">{entry.points} pts</div>
+            <div className="text-xs text-gray-500">{entry.score} bonne{entry.score > 1 ? 's' : ''} réponse{entry.score > 1 ? 's' : ''}</div>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Navbar />
+
+      <main className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Multijoueur</h1>
+          <p className="text-gray-600">Affrontez d'autres joueurs en temps réel</p>
+        </div>
+
+        {phase === "menu" && (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center space-x-2">
+                  <Crown className="w-5 h-5" />
+                  <span>Héberger une partie</span>
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div>
+                  <Label>Thème</Label>
+                  <Select value={selectedThemeId} onValueChange={setSelectedThemeId}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Choisir un thème" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {themes?.map((theme) => (
+                        <SelectItem key={theme.id} value={theme.id.toString()}>
+                          {indentedThemeName(theme)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <Button
+                  onClick={createRoom}
+                  disabled={!selectedThemeId}
+                  className="w-full bg-indigo-600 hover:bg-indigo-700"
+                >
+                  <Play className="w-4 h-4 mr-2" />
+                  Créer la salle
+                </Button>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center space-x-2">
+                  <LogIn className="w-5 h-5" />
+                  <span>Rejoindre une partie</span>
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div>
+                  <Label htmlFor="code">Code de la partie</Label>
+                  <Input
+                    id="code"
+                    value={joinCode}
+                    onChange={(e) => setJoinCode(e.target.value.toUpperCase())}
+                    placeholder="ABC123"
+                    maxLength={6}
+                    className="uppercase tracking-widest"
+                  />
+                </div>
+                <Button onClick={joinRoom} disabled={!joinCode.trim()} className="w-full">
+                  Rejoindre
+                </Button>
+              </CardContent>
+            </Card>
+          </div>
+        )}
+
+        {phase === "lobby" && room && (
+          <Card>
+            <CardContent className="p-8 text-center">
+              <p className="text-gray-600 mb-2">Code de la partie</p>
+              <div className="text-5xl font-bold tracking-widest text-indigo-600 mb-4">{room.code}</div>
+              <p className="text-gray-600 mb-8">
+                Quiz {roomTheme?.name} - {room.questionCount} questions
+              </p>
+
+              <div className="text-left mb-8">
+                <h3 className="font-semibold text-gray-900 mb-3 flex items-center space-x-2">
+                  <Users className="w-4 h-4" />
+                  <span>Joueurs ({room.players.length})</span>
+                </h3>
+                {room.players.length > 0 ? (
+                  <div className="flex flex-wrap gap-2">
+                    {room.players.map((player) => (
+                      <Badge key={player.userId} variant="secondary">{player.username}</Badge>
+                    ))}
+                  </div>
+                ) : (
+                  <p className="text-gray-500">En attente de joueurs...</p>
+                )}
+              </div>
+
+              <div className="flex justify-center space-x-4">
+                <Button variant="outline" onClick={leaveRoom}>Quitter</Button>
+                {isHost ? (
+                  <Button
+                    onClick={() => send({ type: "start" })}
+                    disabled={room.players.length === 0}
+                    className="bg-indigo-600 hover:bg-indigo-700"
+                  >
+                    Lancer la partie
+                  </Button>
+                ) : (
+                  <p className="text-gray-500 self-center">L'hôte va bientôt lancer la partie</p>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {phase === "question" && currentQuestion && (
+          <Card>
+            <div className="bg-indigo-600 text-white p-6 rounded-t-xl">
+              <div className="flex items-center justify-between mb-4">
+                <span>Question {currentQuestion.index + 1} sur {currentQuestion.total}</span>
+                <div className="bg-white/20 rounded-full px-4 py-2 flex items-center space-x-2">
+                  <Clock className="w-4 h-4" />
+                  <span className="font-bold text-lg">{timeRemaining}s</span>
+                </div>
+              </div>
+              <Progress value={((currentQuestion.index + 1) / currentQuestion.total) * 100} className="h-2" />
+            </div>
+            <CardContent className="p-8">
+              <h3 className="text-2xl font-semibold text-gray-900 mb-8">
+                {currentQuestion.question.question}
+              </h3>
+              <div className="mb-6">
+                <AnswerInput
+                  question={currentQuestion.question}
+                  value={selectedAnswer}
+                  onChange={(answer) => {
+                    selectAnswer(answer);
+                    // Choix unique : le clic vaut réponse, sinon le joueur valide explicitement
+                    if (isSingleClickQuestion(currentQuestion.question)) sendAnswer(answer);
+                  }}
+                  disabled={isHost || answerSent || timeRemaining === 0}
+                />
+                {!isHost && !isSingleClickQuestion(currentQuestion.question) && (
+                  <Button
+                    className="w-full mt-4 bg-indigo-600 hover:bg-indigo-700"
+                    disabled={answerSent || timeRemaining === 0 || !isAnswerComplete(currentQuestion.question, selectedAnswer)}
+                    onClick={() => selectedAnswer !== undefined && sendAnswer(selectedAnswer)}
+                  >
+                    Valider
+                  </Button>
+                )}
+              </div>
+              <p className="text-center text-gray-500">
+                {isHost
+                  ? `${answeredCount.answered}/${answeredCount.total || room?.players.length || 0} réponses reçues`
+                  : answerSent
+                    ? "Réponse enregistrée, en attente des autres joueurs..."
+                    : "Répondez avant la fin du temps imparti"}
+              </p>
+            </CardContent>
+          </Card>
+        )}
+
+        {phase === "results" && lastResult && currentQuestion && (
+          <Card>
+            <CardContent className="p-8">
+              {!isHost && (() => {
+                const mine = lastResult.results.find(r => r.userId === user?.id);
+                return (
+                  <div className={`flex items-center justify-center space-x-2 mb-6 text-xl font-bold ${
+                    mine?.correct ? 'text-green-600' : 'text-red-600'
+                  }`}>
+                    {mine?.correct ? <CheckCircle className="w-6 h-6" /> : <XCircle className="w-6 h-6" />}
+                    <span>{mine?.correct ? `Bonne réponse ! +${mine.pointsEarned} pts` : "Mauvaise réponse"}</span>
+                  </div>
+                );
+              })()}
+              <p className="text-center text-gray-600 mb-6">
+                Réponse correcte : <span className="font-semibold">
+                  {describeAnswer(currentQuestion.question, lastResult.correctAnswer)}
+                </span>
+              </p>
+              <h3 className="font-semibold text-gray-900 mb-3">Classement</h3>
+              {renderRankings(lastResult.rankings)}
+            </CardContent>
+          </Card>
+        )}
+
+        {phase === "podium" && (
+          <Card>
+            <CardContent className="p-8">
+              <div className="text-center mb-8">
+                <Trophy className="w-12 h-12 text-yellow-500 mx-auto mb-4" />
+                <h2 className="text-3xl font-bold text-gray-900">Podium</h2>
+              </div>
+
+              <div className="grid grid-cols-3 gap-4 items-end mb-8">
+                {[1, 0, 2].map((position) => {
+                  const entry = finalRankings[position];
+                  if (!entry) return <div key={position} />;
+                  return (
+                    <div key={position} className="text-center">
+                      <Medal className={`w-8 h-8 mx-auto mb-2 ${
+                        position === 0 ? 'text-yellow-500' : position === 1 ? 'text-gray-400' : 'text-orange-500'
+                      }`} />
+                      <div className="font-semibold text-gray-900">{entry.username}</div>
+                      <div className={`rounded-t-lg mt-2 bg-indigo-100 text-indigo-700 font-bold flex items-center justify-center ${
+                        position === 0 ? 'h-32' : position === 1 ? 'h-24' : 'h-16'
+                      }`}>
+                        {entry.points} pts
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+
+              {renderRankings(finalRankings)}
+
+              {rewards && (
+                <p className="text-center text-green-600 font-medium mt-6">
+                  +{rewards.pointsEarned} points ajoutés à votre profil
+                </p>
+              )}
+
+              <div className="flex justify-center mt-8">
+                <Button onClick={leaveRoom}>Retour</Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -1,13 +1,21 @@
-import { useQuery } from "@tanstack/react-query";
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
 import { useAuth } from "@/lib/auth";
 import { useLocation } from "wouter";
 import Navbar from "@/components/navbar";
+import ActiveSessionsCard from "@/components/active-sessions-card";
+import TwoFactorCard from "@/components/two-factor-card";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Progress } from "@/components/ui/progress";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
 import { 
   User, 
   Trophy, 
@@ -23,13 +31,21 @@ import {
   FlaskConical,
   Landmark,
   Globe,
-  Calculator
+  Calculator,
+  EyeOff,
+  MailWarning
 } from "lucide-react";
-import type { Theme, UserStats, QuizSession } from "@shared/schema";
+import type { UserStats, QuizSession, UpdateProfileData } from "@shared/schema";
+import { flattenThemeTree, type ThemeNode } from "@shared/themes";
+import type { LeaderboardPosition } from "@shared/leaderboard";
+import { roleLabels } from "@shared/permissions";
 
 export default function Profile() {
-  const { user, isAuthenticated } = useAuth();
+  const { user, login, isAuthenticated } = useAuth();
   const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [avatarUrl, setAvatarUrl] = useState(user?.avatarUrl ?? "");
 
   // Redirect to login if not authenticated
   if (!isAuthenticated) {
@@ -37,9 +53,10 @@ export default function Profile() {
     return null;
   }
 
-  const { data: themes } = useQuery<Theme[]>({
+  const { data: themeTree } = useQuery<ThemeNode[]>({
     queryKey: ["/api/themes"],
   });
+  const themes = themeTree && flattenThemeTree(themeTree);
 
   const { data: userStatsData, isLoading: statsLoading } = useQuery<{
     stats: UserStats[];
@@ -49,8 +66,38 @@ export default function Profile() {
     queryKey: ["/api/users/me/stats"],
   });
 
-  const { data: globalLeaderboard } = useQuery<Array<any>>({
-    queryKey: ["/api/leaderboard/global"],
+  const { data: leaderboardPosition } = useQuery<LeaderboardPosition>({
+    queryKey: ["/api/leaderboard/me", { window: "all", neighbours: 0 }],
+  });
+
+  const updateProfileMutation = useMutation({
+    mutationFn: async (data: UpdateProfileData) => {
+      const response = await apiRequest("PATCH", "/api/users/me", data);
+      return response.json();
+    },
+    onSuccess: (data) => {
+      login(data.user);
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/me"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/leaderboard/global"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/leaderboard/me"] });
+      toast({ title: "Profil mis à jour" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Erreur", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const resendVerificationMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/auth/verify-email/resend");
+      return response.json();
+    },
+    onSuccess: (data) => {
+      toast({ title: "Email envoyé", description: data.message });
+    },
+    onError: (error: any) => {
+      toast({ title: "Erreur", description: error.message, variant: "destructive" });
+    },
   });
 
   if (statsLoading) {
@@ -88,13 +135,14 @@ export default function Profile() {
   const totalTimeSpent = userStats.reduce((sum, stat) => sum + stat.totalTimeSpent, 0);
   const totalTimeHours = Math.round(totalTimeSpent / 3600);
   
-  // Find user rank in global leaderboard
-  const userRank = globalLeaderboard?.findIndex(u => u.id === user?.id) + 1 || 0;
+  const userRank = leaderboardPosition?.me?.rank ?? 0;
 
   const getBadgeInfo = (badge: string) => {
     const badgeMap: Record<string, { name: string; icon: any; color: string }> = {
       "first_quiz": { name: "Premier Quiz", icon: Trophy, color: "text-yellow-500 bg-yellow-100" },
+      "perfect_score": { name: "Sans faute", icon: Target, color: "text-green-500 bg-green-100" },
       "streak_7": { name: "Série 7j", icon: Flame, color: "text-orange-500 bg-orange-100" },
+      "streak_30": { name: "Série 30j", icon: Flame, color: "text-red-500 bg-red-100" },
       "expert_it": { name: "Expert IT", icon: Laptop, color: "text-blue-500 bg-blue-100" },
       "admin": { name: "Administrateur", icon: User, color: "text-red-500 bg-red-100" },
       "founder": { name: "Fondateur", icon: Award, color: "text-purple-500 bg-purple-100" },
@@ -138,6 +186,7 @@ export default function Profile() {
               <CardContent className="p-6">
                 <div className="text-center">
                   <Avatar className="w-24 h-24 mx-auto mb-4">
+                    {user?.avatarUrl && <AvatarImage src={user.avatarUrl} alt={user.username} />}
                     <AvatarFallback className="bg-gradient-to-br from-indigo-600 to-purple-600 text-white text-2xl">
                       {user?.firstName.charAt(0)}{user?.lastName.charAt(0)}
                     </AvatarFallback>
@@ -147,6 +196,23 @@ export default function Profile() {
                     {user?.firstName} {user?.lastName}
                   </h3>
                   <p className="text-gray-600 mb-4">{user?.email}</p>
+
+                  {user && !user.emailVerifiedAt && (
+                    <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-3 mb-4 text-sm text-yellow-800">
+                      <div className="flex items-center justify-center space-x-2 mb-2">
+                        <MailWarning className="w-4 h-4" />
+                        <span>Adresse email non confirmée</span>
+                      </div>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => resendVerificationMutation.mutate()}
+                        disabled={resendVerificationMutation.isPending}
+                      >
+                        Renvoyer le lien de vérification
+                      </Button>
+                    </div>
+                  )}
                   
                   <div className="flex items-center justify-center space-x-6 text-sm mb-4">
                     <div className="text-center">
@@ -165,10 +231,10 @@ export default function Profile() {
                     </div>
                   </div>
 
-                  {user?.role === "admin" && (
+                  {user && user.role !== "user" && (
                     <Badge variant="destructive" className="mb-4">
                       <User className="w-3 h-3 mr-1" />
-                      Administrateur
+                      {roleLabels[user.role]}
                     </Badge>
                   )}
                 </div>
@@ -250,6 +316,52 @@ export default function Profile() {
                 </div>
               </CardContent>
             </Card>
+
+            {/* Privacy */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center space-x-2">
+                  <EyeOff className="w-5 h-5" />
+                  <span>Confidentialité</span>
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="leaderboardVisible" className="text-sm text-gray-600">
+                    Apparaître dans les classements publics
+                  </Label>
+                  <Switch
+                    id="leaderboardVisible"
+                    checked={!user?.leaderboardOptOut}
+                    disabled={updateProfileMutation.isPending}
+                    onCheckedChange={(checked) => updateProfileMutation.mutate({ leaderboardOptOut: !checked })}
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="avatarUrl" className="text-sm text-gray-600">Avatar (URL d'une image)</Label>
+                  <div className="flex space-x-2">
+                    <Input
+                      id="avatarUrl"
+                      value={avatarUrl}
+                      placeholder="https://..."
+                      onChange={(e) => setAvatarUrl(e.target.value)}
+                    />
+                    <Button
+                      variant="outline"
+                      disabled={updateProfileMutation.isPending || avatarUrl === (user?.avatarUrl ?? "")}
+                      onClick={() => updateProfileMutation.mutate({ avatarUrl: avatarUrl.trim() || null })}
+                    >
+                      Enregistrer
+                    </Button>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+
+            <TwoFactorCard />
+
+            <ActiveSessionsCard />
           </div>
 
           {/* Main Content */}
@@ -323,7 +435,12 @@ export default function Profile() {
                       const IconComponent = getThemeIcon(session.themeId);
                       
                       return (
-                        <div key={session.id} className="flex items-center space-x-3 p-3 bg-gray-50 rounded-lg">
+                        <button
+                          key={session.id}
+                          type="button"
+                          onClick={() => setLocation(`/sessions/${session.id}`)}
+                          className="w-full text-left flex items-center space-x-3 p-3 bg-gray-50 rounded-lg hover:bg-gray-100 transition-colors"
+                        >
                           <div className={`p-2 rounded-full ${
                             percentage >= 80 ? 'bg-green-100 text-green-600' :
                             percentage >= 60 ? 'bg-yellow-100 text-yellow-600' :
@@ -342,9 +459,9 @@ export default function Profile() {
                           </div>
                           <div className="text-right">
                             <div className="text-sm font-bold text-gray-900">{percentage}%</div>
-                            <div className="text-xs text-gray-500">+{session.score * 10} pts</div>
+                            <div className="text-xs text-gray-500">+{session.pointsEarned} pts</div>
                           </div>
-                        </div>
+                        </button>
                       );
                     })}
                   </div>
@@ -1,15 +1,21 @@
 import { useState, useEffect } from "react";
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useQuery, useMutation, useQueryClient, keepPreviousData } from "@tanstack/react-query";
 import { useParams, useLocation } from "wouter";
 import { useAuth } from "@/lib/auth";
 import { apiRequest } from "@/lib/queryClient";
 import QuizInterface from "@/components/quiz-interface";
+import { describeAnswer } from "@/components/answer-input";
 import Navbar from "@/components/navbar";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
-import { ArrowLeft, Trophy, Clock, Target } from "lucide-react";
-import type { Theme, Question } from "@shared/schema";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { ArrowLeft, Trophy, Clock, Target, Award, Flame, ListOrdered, TrendingUp, CheckCircle, XCircle, Tag } from "lucide-react";
+import type { Theme, QuizRewards, AnswerValue, QuizMode, LifelineType, QuestionResult } from "@shared/schema";
+import type { PublicQuestion } from "@shared/questions";
+import type { ThemeTagFacets } from "@shared/tags";
 
 export default function Quiz() {
   const { themeId } = useParams<{ themeId: string }>();
@@ -19,17 +25,51 @@ export default function Quiz() {
 
   const [quizState, setQuizState] = useState<{
     isStarted: boolean;
+    attemptId: number | null;
+    mode: QuizMode;
+    practice: boolean;
+    questionCount: number;
+    // Fin de la limite globale du quiz (horodatage ms), null : aucune
+    expiresAt: number | null;
+    attemptQuestions: PublicQuestion[];
     currentQuestionIndex: number;
-    answers: Record<number, number>;
+    answers: Record<number, AnswerValue>;
+    // Jokers proposés par le serveur, ceux déjà utilisés et leurs effets par question
+    lifelines: { type: LifelineType; cost: number }[];
+    usedLifelines: LifelineType[];
+    hints: Record<number, string>;
+    eliminatedOptions: Record<number, number[]>;
+    // Entraînement : correction de la question en cours, reçue avec la réponse
+    feedback: QuestionResult | null;
     startTime: number;
     isCompleted: boolean;
+    // Score et corrections calculés par le serveur à la fin de la tentative
+    result: { sessionId: number; score: number; totalQuestions: number; results: QuestionResult[] } | null;
+    rewards: QuizRewards | null;
   }>({
     isStarted: false,
+    attemptId: null,
+    mode: "standard",
+    practice: false,
+    questionCount: 0,
+    expiresAt: null,
+    attemptQuestions: [],
     currentQuestionIndex: 0,
     answers: {},
+    lifelines: [],
+    usedLifelines: [],
+    hints: {},
+    eliminatedOptions: {},
+    feedback: null,
     startTime: 0,
     isCompleted: false,
+    result: null,
+    rewards: null,
   });
+  const [quizMode, setQuizMode] = useState<QuizMode>("standard");
+  const [timed, setTimed] = useState(true);
+  const [practice, setPractice] = useState(false);
+  const [selectedTags, setSelectedTags] = useState<string[]>([]);
 
   // Redirect to login if not authenticated
   if (!isAuthenticated) {
@@ -42,71 +82,201 @@ export default function Quiz() {
     enabled: !!themeId,
   });
 
-  const { data: questions, isLoading: questionsLoading } = useQuery<Question[]>({
-    queryKey: [`/api/themes/${themeId}/questions`],
+  // Questions du thème et de ses sous-thèmes, et étiquettes permettant de restreindre le quiz
+  const { data: facets, isLoading: facetsLoading } = useQuery<ThemeTagFacets>({
+    queryKey: [`/api/themes/${themeId}/tags`, { tags: selectedTags.join(",") || undefined }],
     enabled: !!themeId,
+    placeholderData: keepPreviousData,
+  });
+
+  const startQuizMutation = useMutation({
+    mutationFn: async (data: { themeId: number; mode: QuizMode; timed: boolean; practice: boolean; tags: string[] }) => {
+      const response = await apiRequest("POST", "/api/quiz/start", data);
+      return response.json();
+    },
+    onSuccess: (data: {
+      attemptId: number;
+      mode: QuizMode;
+      practice: boolean;
+      questionCount: number;
+      expiresAt: string | null;
+      questions: PublicQuestion[];
+      lifelines: { type: LifelineType; cost: number }[];
+    }) => {
+      setQuizState(prev => ({
+        ...prev,
+        isStarted: true,
+        attemptId: data.attemptId,
+        mode: data.mode,
+        practice: data.practice,
+        questionCount: data.questionCount,
+        expiresAt: data.expiresAt ? new Date(data.expiresAt).getTime() : null,
+        attemptQuestions: data.questions,
+        lifelines: data.lifelines,
+        startTime: Date.now(),
+      }));
+    },
+  });
+
+  const submitAnswerMutation = useMutation({
+    mutationFn: async (data: { attemptId: number; questionId: number; answer?: AnswerValue }) => {
+      const response = await apiRequest("POST", `/api/quiz/attempts/${data.attemptId}/answers`, {
+        questionId: data.questionId,
+        answer: data.answer,
+      });
+      // En entraînement, la correction accompagne l'accusé de réception
+      return response.json() as Promise<{ questionId: number; recorded: boolean } & Partial<QuestionResult>>;
+    },
+  });
+
+  const nextAdaptiveQuestionMutation = useMutation({
+    mutationFn: async (attemptId: number) => {
+      const response = await apiRequest("POST", `/api/quiz/attempts/${attemptId}/next`);
+      return response.json() as Promise<{ question: PublicQuestion }>;
+    },
+  });
+
+  const lifelineMutation = useMutation({
+    mutationFn: async (data: { attemptId: number; questionId: number; type: LifelineType }) => {
+      const response = await apiRequest("POST", `/api/quiz/attempts/${data.attemptId}/lifelines`, {
+        questionId: data.questionId,
+        type: data.type,
+      });
+      return response.json() as Promise<{ type: LifelineType; questionId: number; hint?: string; eliminated?: number[] }>;
+    },
   });
 
   const submitQuizMutation = useMutation({
-    mutationFn: async (data: { themeId: number; answers: Record<number, number>; timeSpent: number }) => {
-      const response = await apiRequest("POST", "/api/quiz/submit", data);
+    mutationFn: async (attemptId: number) => {
+      const response = await apiRequest("POST", `/api/quiz/attempts/${attemptId}/finish`);
       return response.json();
     },
-    onSuccess: (data) => {
-      setQuizState(prev => ({ ...prev, isCompleted: true }));
+    onSuccess: (data: { session: { id: number }; score: number; totalQuestions: number; results: QuestionResult[]; rewards: QuizRewards }) => {
+      setQuizState(prev => ({
+        ...prev,
+        isCompleted: true,
+        feedback: null,
+        result: { sessionId: data.session.id, score: data.score, totalQuestions: data.totalQuestions, results: data.results },
+        rewards: data.rewards,
+      }));
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/me"] });
       queryClient.invalidateQueries({ queryKey: ["/api/users/me/stats"] });
       queryClient.invalidateQueries({ queryKey: ["/api/leaderboard/global"] });
-      // Show results or redirect
-      setTimeout(() => {
-        setLocation("/");
-      }, 3000);
+      queryClient.invalidateQueries({ queryKey: ["/api/leaderboard/me"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/review/deck"] });
     },
   });
 
   const startQuiz = () => {
-    setQuizState(prev => ({
-      ...prev,
-      isStarted: true,
-      startTime: Date.now(),
-    }));
+    startQuizMutation.mutate({ themeId: parseInt(themeId!), mode: quizMode, timed, practice, tags: selectedTags });
   };
 
-  const answerQuestion = (questionId: number, answerIndex: number) => {
+  const answerQuestion = (questionId: number, answer: AnswerValue) => {
     setQuizState(prev => ({
       ...prev,
       answers: {
         ...prev.answers,
-        [questionId]: answerIndex,
+        [questionId]: answer,
       },
     }));
   };
 
-  const nextQuestion = () => {
-    if (!questions) return;
-    
-    const nextIndex = quizState.currentQuestionIndex + 1;
+  const isBusy = submitAnswerMutation.isPending || nextAdaptiveQuestionMutation.isPending
+    || lifelineMutation.isPending || submitQuizMutation.isPending;
+
+  const nextQuestion = async () => {
+    const { attemptId, practice, feedback, attemptQuestions, currentQuestionIndex, answers } = quizState;
+    if (!attemptId || isBusy) return;
+
+    // Correction lue : la question est déjà enregistrée
+    if (feedback) {
+      await advance(attemptId);
+      return;
+    }
+
+    // Chaque réponse (ou question passée) est enregistrée sur la tentative avant de passer à la suite :
+    // le délai de la question suivante court à partir de là
+    const currentQuestion = attemptQuestions[currentQuestionIndex];
+    try {
+      const { recorded, ...result } = await submitAnswerMutation.mutateAsync({ attemptId, questionId: currentQuestion.id, answer: answers[currentQuestion.id] });
+      if (practice && result.correctAnswer !== undefined) {
+        setQuizState(prev => ({ ...prev, feedback: result as QuestionResult }));
+        return;
+      }
+    } catch {
+      // Réponse refusée par le serveur (délai dépassé) : la question compte comme non répondue
+    }
+
+    await advance(attemptId);
+  };
+
+  // Question suivante, ou fin de la tentative après la dernière
+  const advance = async (attemptId: number) => {
+    const { mode, questionCount, attemptQuestions, currentQuestionIndex } = quizState;
+    const nextIndex = currentQuestionIndex + 1;
     
-    if (nextIndex >= questions.length) {
-      // Submit quiz
-      const timeSpent = Math.floor((Date.now() - quizState.startTime) / 1000);
-      submitQuizMutation.mutate({
-        themeId: parseInt(themeId!),
-        answers: quizState.answers,
-        timeSpent,
-      });
+    if (nextIndex >= questionCount) {
+      submitQuizMutation.mutate(attemptId);
+    } else if (mode === "adaptive" && nextIndex >= attemptQuestions.length) {
+      // La question suivante dépend de la réponse qui vient d'être enregistrée
+      try {
+        const { question } = await nextAdaptiveQuestionMutation.mutateAsync(attemptId);
+        setQuizState(prev => ({
+          ...prev,
+          attemptQuestions: [...prev.attemptQuestions, question],
+          currentQuestionIndex: nextIndex,
+          feedback: null,
+        }));
+      } catch {
+        submitQuizMutation.mutate(attemptId);
+      }
     } else {
       setQuizState(prev => ({
         ...prev,
         currentQuestionIndex: nextIndex,
+        feedback: null,
       }));
     }
   };
 
+  const applyLifeline = async (type: LifelineType) => {
+    const { attemptId, attemptQuestions, currentQuestionIndex } = quizState;
+    if (!attemptId || isBusy) return;
+
+    const questionId = attemptQuestions[currentQuestionIndex].id;
+    let result;
+    try {
+      result = await lifelineMutation.mutateAsync({ attemptId, questionId, type });
+    } catch {
+      // Joker refusé (déjà utilisé, délai dépassé) : la question reste affichée
+      return;
+    }
+
+    setQuizState(prev => ({
+      ...prev,
+      usedLifelines: [...prev.usedLifelines, type],
+      hints: result.hint ? { ...prev.hints, [questionId]: result.hint } : prev.hints,
+      eliminatedOptions: result.eliminated ? { ...prev.eliminatedOptions, [questionId]: result.eliminated } : prev.eliminatedOptions,
+    }));
+    // La question passée est close côté serveur, sans réponse à envoyer
+    if (type === "skip") await advance(attemptId);
+  };
+
+  // Limite globale atteinte : les réponses ne sont plus acceptées, la tentative est terminée
+  const timeOut = () => {
+    if (!quizState.attemptId || submitQuizMutation.isPending || quizState.isCompleted) return;
+    submitQuizMutation.mutate(quizState.attemptId);
+  };
+
   const goBack = () => {
     setLocation("/");
   };
 
-  if (themeLoading || questionsLoading) {
+  const toggleTag = (slug: string) => {
+    setSelectedTags(selectedTags.includes(slug) ? selectedTags.filter((s) => s !== slug) : [...selectedTags, slug]);
+  };
+
+  if (themeLoading || facetsLoading) {
     return (
       <div className="min-h-screen bg-gray-50">
         <Navbar />
@@ -128,7 +298,7 @@ export default function Quiz() {
     );
   }
 
-  if (!theme || !questions) {
+  if (!theme || !facets) {
     return (
       <div className="min-h-screen bg-gray-50">
         <Navbar />
@@ -149,8 +319,8 @@ export default function Quiz() {
   }
 
   if (quizState.isCompleted) {
-    const score = Object.values(quizState.answers).length;
-    const percentage = Math.round((score / questions.length) * 100);
+    const { sessionId, score, totalQuestions, results } = quizState.result ?? { sessionId: null, score: 0, totalQuestions: 0, results: [] };
+    const percentage = totalQuestions > 0 ? Math.round((score / totalQuestions) * 100) : 0;
     
     return (
       <div className="min-h-screen bg-gray-50">
@@ -164,7 +334,7 @@ export default function Quiz() {
               
               <h1 className="text-3xl font-bold text-gray-900 mb-4">Quiz terminé !</h1>
               <p className="text-xl text-gray-600 mb-8">
-                Votre score : {score}/{questions.length} ({percentage}%)
+                Votre score : {score}/{totalQuestions} ({percentage}%)
               </p>
               
               <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-8">
@@ -183,19 +353,102 @@ export default function Quiz() {
                 <div className="bg-green-50 p-4 rounded-lg">
                   <Trophy className="w-8 h-8 text-green-600 mx-auto mb-2" />
                   <div className="text-sm text-gray-600">Points gagnés</div>
-                  <div className="text-xl font-bold text-green-600">{score * 10}</div>
+                  <div className="text-xl font-bold text-green-600">{quizState.rewards?.pointsEarned ?? 0}</div>
+                  {!!quizState.rewards?.speedBonus && (
+                    <div className="text-xs text-green-700">dont {quizState.rewards.speedBonus} de bonus rapidité</div>
+                  )}
+                  {!!quizState.rewards?.lifelinePenalty && (
+                    <div className="text-xs text-gray-600">{quizState.rewards.lifelinePenalty} points dépensés en jokers</div>
+                  )}
                 </div>
               </div>
-              
-              <p className="text-gray-500">Redirection automatique vers le tableau de bord...</p>
+
+              {quizState.rewards && quizState.rewards.newBadges.length > 0 && (
+                <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 mb-8">
+                  <div className="flex items-center justify-center space-x-2 mb-2">
+                    <Award className="w-5 h-5 text-yellow-600" />
+                    <span className="font-medium text-yellow-800">Nouveaux badges débloqués !</span>
+                  </div>
+                  <div className="flex flex-wrap justify-center gap-2">
+                    {quizState.rewards.newBadges.map((badge) => (
+                      <Badge key={badge} variant="secondary">{badge}</Badge>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {quizState.rewards?.streakExtended && (
+                <p className="text-orange-600 font-medium mb-4 flex items-center justify-center space-x-2">
+                  <Flame className="w-4 h-4" />
+                  <span>Série : {quizState.rewards.streak} jour{quizState.rewards.streak > 1 ? "s" : ""}</span>
+                </p>
+              )}
+
+              <div className="flex flex-wrap justify-center gap-3">
+                <Button onClick={goBack}>
+                  <ArrowLeft className="w-4 h-4 mr-2" />
+                  Retour au tableau de bord
+                </Button>
+                {sessionId !== null && (
+                  <Button variant="outline" onClick={() => setLocation(`/sessions/${sessionId}`)}>
+                    Voir le détail de la session
+                  </Button>
+                )}
+              </div>
             </CardContent>
           </Card>
+
+          <div className="space-y-4 mt-8">
+            {results.map((result, index) => {
+              const question = quizState.attemptQuestions.find((q) => q.id === result.questionId);
+              const answer = quizState.answers[result.questionId];
+              return (
+                <Card key={result.questionId}>
+                  <CardContent className="p-6">
+                    <div className="flex items-start space-x-3">
+                      {result.correct
+                        ? <CheckCircle className="w-6 h-6 text-green-600 mt-0.5 shrink-0" />
+                        : <XCircle className="w-6 h-6 text-red-600 mt-0.5 shrink-0" />}
+                      <div className="flex-1 space-y-2">
+                        <p className="font-semibold text-gray-900">
+                          {index + 1}. {question?.question}
+                        </p>
+
+                        {question && (
+                          <>
+                            <p className="text-sm">
+                              <span className="text-gray-500">Votre réponse : </span>
+                              <span className={result.correct ? "text-green-700" : "text-red-700"}>
+                                {answer === undefined ? "Sans réponse" : describeAnswer(question, answer)}
+                              </span>
+                            </p>
+                            {!result.correct && (
+                              <p className="text-sm">
+                                <span className="text-gray-500">Bonne réponse : </span>
+                                <span className="text-green-700">{describeAnswer(question, result.correctAnswer)}</span>
+                              </p>
+                            )}
+                          </>
+                        )}
+
+                        {result.explanation && (
+                          <p className="text-sm text-gray-600 bg-gray-50 rounded-lg p-3">{result.explanation}</p>
+                        )}
+                      </div>
+                    </div>
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
         </main>
       </div>
     );
   }
 
   if (!quizState.isStarted) {
+    const questionCount = Math.min(theme.questionCount ?? facets.questionCount, facets.questionCount);
+
     return (
       <div className="min-h-screen bg-gray-50">
         <Navbar />
@@ -234,28 +487,97 @@ export default function Quiz() {
                 
                 <h1 className="text-3xl font-bold text-gray-900 mb-4">Quiz {theme.name}</h1>
                 <p className="text-gray-600 mb-8">{theme.description}</p>
+
+                {facets.tags.length > 0 && (
+                  <div className="mb-8">
+                    <div className="flex items-center justify-center space-x-2 text-sm text-gray-600 mb-3">
+                      <Tag className="w-4 h-4" />
+                      <span>Restreindre aux questions étiquetées</span>
+                    </div>
+                    <div className="flex flex-wrap justify-center gap-2">
+                      {facets.tags.map((tag) => (
+                        <Badge
+                          key={tag.id}
+                          variant={selectedTags.includes(tag.slug) ? "default" : "outline"}
+                          className="cursor-pointer"
+                          onClick={() => toggleTag(tag.slug)}
+                        >
+                          {tag.name} ({tag.questionCount})
+                        </Badge>
+                      ))}
+                    </div>
+                  </div>
+                )}
                 
                 <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-8">
                   <div className="bg-gray-50 p-4 rounded-lg">
                     <div className="text-sm text-gray-600">Questions</div>
-                    <div className="text-2xl font-bold text-gray-900">{questions.length}</div>
+                    <div className="text-2xl font-bold text-gray-900">{questionCount}</div>
                   </div>
                   <div className="bg-gray-50 p-4 rounded-lg">
-                    <div className="text-sm text-gray-600">Durée estimée</div>
-                    <div className="text-2xl font-bold text-gray-900">{Math.ceil(questions.length * 0.5)}min</div>
+                    <div className="text-sm text-gray-600">Chronomètre</div>
+                    <div className="text-2xl font-bold text-gray-900">
+                      {!timed || practice || (!theme.quizTimeLimit && !theme.questionTimeLimit)
+                        ? "Libre"
+                        : theme.quizTimeLimit
+                          ? `${Math.ceil(theme.quizTimeLimit / 60)}min`
+                          : `${theme.questionTimeLimit}s / question`}
+                    </div>
                   </div>
                   <div className="bg-gray-50 p-4 rounded-lg">
                     <div className="text-sm text-gray-600">Points max</div>
-                    <div className="text-2xl font-bold text-gray-900">{questions.length * 10}</div>
+                    <div className="text-2xl font-bold text-gray-900">{practice ? 0 : questionCount * 10}</div>
                   </div>
                 </div>
                 
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-8 text-left">
+                  {([
+                    { mode: "standard", icon: ListOrdered, title: "Classique", description: "Questions tirées au hasard, dans toutes les difficultés du thème." },
+                    { mode: "adaptive", icon: TrendingUp, title: "Adaptatif", description: "Chaque question est choisie selon votre niveau estimé sur ce thème." },
+                  ] as const).map(({ mode, icon: Icon, title, description }) => (
+                    <button
+                      key={mode}
+                      type="button"
+                      onClick={() => setQuizMode(mode)}
+                      className={`p-4 rounded-lg border-2 transition-all ${
+                        quizMode === mode ? 'border-indigo-600 bg-indigo-50' : 'border-gray-200 hover:border-indigo-300'
+                      }`}
+                    >
+                      <div className="flex items-center space-x-2 mb-1">
+                        <Icon className="w-5 h-5 text-indigo-600" />
+                        <span className="font-semibold text-gray-900">{title}</span>
+                      </div>
+                      <p className="text-sm text-gray-600">{description}</p>
+                    </button>
+                  ))}
+                </div>
+                
+                {theme.allowUntimed && (
+                  <div className="flex flex-col items-center space-y-3 mb-8">
+                    <div className="flex items-center space-x-3">
+                      <Switch id="practice" checked={practice} onCheckedChange={setPractice} />
+                      <Label htmlFor="practice" className="text-gray-700">
+                        Mode entraînement : correction et explication après chaque question, sans chrono, ni points ni classement
+                      </Label>
+                    </div>
+                    {!practice && (!!theme.quizTimeLimit || !!theme.questionTimeLimit) && (
+                      <div className="flex items-center space-x-3">
+                        <Switch id="untimed" checked={!timed} onCheckedChange={(checked) => setTimed(!checked)} />
+                        <Label htmlFor="untimed" className="text-gray-700">
+                          Entraînement sans chrono (pas de bonus de rapidité)
+                        </Label>
+                      </div>
+                    )}
+                  </div>
+                )}
+                
                 <Button 
                   onClick={startQuiz}
                   size="lg"
                   className="bg-indigo-600 hover:bg-indigo-700"
+                  disabled={startQuizMutation.isPending || questionCount === 0}
                 >
-                  Commencer le quiz
+                  {startQuizMutation.isPending ? "Préparation..." : "Commencer le quiz"}
                 </Button>
               </div>
             </CardContent>
@@ -270,13 +592,23 @@ export default function Quiz() {
       <Navbar />
       <QuizInterface
         theme={theme}
-        questions={questions}
+        questions={quizState.attemptQuestions}
+        totalQuestions={quizState.questionCount}
         currentQuestionIndex={quizState.currentQuestionIndex}
-        selectedAnswer={quizState.answers[questions[quizState.currentQuestionIndex]?.id]}
+        timeLimit={quizState.attemptQuestions[quizState.currentQuestionIndex]?.timeLimit}
+        expiresAt={quizState.expiresAt}
+        onTimeout={timeOut}
+        selectedAnswer={quizState.answers[quizState.attemptQuestions[quizState.currentQuestionIndex]?.id]}
         onAnswerSelect={answerQuestion}
         onNext={nextQuestion}
         onBack={goBack}
-        isSubmitting={submitQuizMutation.isPending}
+        isSubmitting={isBusy}
+        lifelines={quizState.lifelines}
+        usedLifelines={quizState.usedLifelines}
+        onLifeline={applyLifeline}
+        hint={quizState.hints[quizState.attemptQuestions[quizState.currentQuestionIndex]?.id]}
+        eliminatedOptions={quizState.eliminatedOptions[quizState.attemptQuestions[quizState.currentQuestionIndex]?.id]}
+        feedback={quizState.feedback}
       />
     </div>
   );
@@ -0,0 +1,264 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { useAuth } from "@/lib/auth";
+import { apiRequest } from "@/lib/queryClient";
+import QuizInterface from "@/components/quiz-interface";
+import Navbar from "@/components/navbar";
+import { describeAnswer } from "@/components/answer-input";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useToast } from "@/hooks/use-toast";
+import { ArrowLeft, Brain, CheckCircle, XCircle } from "lucide-react";
+import type { AnswerValue } from "@shared/schema";
+import type { ReviewDeck, ReviewQuestion, ReviewResult } from "@shared/questions";
+
+export default function Review() {
+  const [, setLocation] = useLocation();
+  const { isAuthenticated } = useAuth();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const [reviewState, setReviewState] = useState<{
+    isStarted: boolean;
+    // Paquet figé au démarrage : les réponses modifient les échéances côté serveur
+    questions: ReviewQuestion[];
+    currentQuestionIndex: number;
+    answers: Record<number, AnswerValue>;
+    results: ReviewResult[];
+    isCompleted: boolean;
+  }>({
+    isStarted: false,
+    questions: [],
+    currentQuestionIndex: 0,
+    answers: {},
+    results: [],
+    isCompleted: false,
+  });
+
+  // Redirect to login if not authenticated
+  if (!isAuthenticated) {
+    setLocation("/login");
+    return null;
+  }
+
+  const { data: deck, isLoading } = useQuery<ReviewDeck>({
+    queryKey: ["/api/review/deck"],
+  });
+
+  const submitReviewMutation = useMutation({
+    mutationFn: async (data: { questionId: number; answer: AnswerValue }) => {
+      const response = await apiRequest("POST", "/api/review/answers", data);
+      return response.json() as Promise<ReviewResult>;
+    },
+  });
+
+  const startReview = () => {
+    if (!deck?.questions.length) return;
+    setReviewState({
+      isStarted: true,
+      questions: deck.questions,
+      currentQuestionIndex: 0,
+      answers: {},
+      results: [],
+      isCompleted: false,
+    });
+  };
+
+  const answerQuestion = (questionId: number, answer: AnswerValue) => {
+    setReviewState(prev => ({
+      ...prev,
+      answers: {
+        ...prev.answers,
+        [questionId]: answer,
+      },
+    }));
+  };
+
+  const nextQuestion = async () => {
+    const { questions, currentQuestionIndex, answers } = reviewState;
+    if (submitReviewMutation.isPending) return;
+
+    // Une question passée sans réponse reste due et reviendra à la prochaine séance
+    const currentQuestion = questions[currentQuestionIndex];
+    const answer = answers[currentQuestion.id];
+    let result: ReviewResult | undefined;
+    if (answer !== undefined) {
+      try {
+        result = await submitReviewMutation.mutateAsync({ questionId: currentQuestion.id, answer });
+        toast({
+          title: result.correct ? "Bonne réponse !" : "Mauvaise réponse",
+          description: result.correct
+            ? undefined
+            : `Réponse attendue : ${describeAnswer(currentQuestion, result.correctAnswer)}`,
+          variant: result.correct ? "default" : "destructive",
+        });
+      } catch (error: any) {
+        toast({ title: "Erreur", description: error.message, variant: "destructive" });
+      }
+    }
+
+    const isLast = currentQuestionIndex + 1 >= questions.length;
+    setReviewState(prev => ({
+      ...prev,
+      results: result ? [...prev.results, result] : prev.results,
+      currentQuestionIndex: isLast ? prev.currentQuestionIndex : prev.currentQuestionIndex + 1,
+      isCompleted: isLast,
+    }));
+
+    if (isLast) {
+      queryClient.invalidateQueries({ queryKey: ["/api/review/deck"] });
+    }
+  };
+
+  const goBack = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/review/deck"] });
+    setLocation("/");
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <Navbar />
+        <main className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          <Card>
+            <CardContent className="p-8">
+              <Skeleton className="h-8 w-64 mb-4" />
+              <Skeleton className="h-4 w-32 mb-8" />
+              <Skeleton className="h-32 w-full" />
+            </CardContent>
+          </Card>
+        </main>
+      </div>
+    );
+  }
+
+  if (reviewState.isCompleted) {
+    const { questions, results } = reviewState;
+    const correctCount = results.filter((r) => r.correct).length;
+
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <Navbar />
+        <main className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          <Card>
+            <CardContent className="p-8">
+              <div className="text-center mb-8">
+                <div className="bg-indigo-100 p-6 rounded-full w-24 h-24 flex items-center justify-center mx-auto mb-6">
+                  <Brain className="w-12 h-12 text-indigo-600" />
+                </div>
+                <h1 className="text-3xl font-bold text-gray-900 mb-4">Révision terminée !</h1>
+                <p className="text-xl text-gray-600">
+                  {correctCount}/{results.length} question{results.length > 1 ? "s" : ""} retrouvée{correctCount > 1 ? "s" : ""}
+                </p>
+              </div>
+
+              <div className="space-y-3 mb-8">
+                {results.map((result) => {
+                  const question = questions.find((q) => q.id === result.questionId)!;
+                  return (
+                    <div key={result.questionId} className="flex items-start space-x-3 p-3 bg-gray-50 rounded-lg">
+                      {result.correct
+                        ? <CheckCircle className="w-5 h-5 text-green-600 mt-0.5 shrink-0" />
+                        : <XCircle className="w-5 h-5 text-red-600 mt-0.5 shrink-0" />}
+                      <div className="flex-1">
+                        <p className="font-medium text-gray-900">{question.question}</p>
+                        <p className="text-sm text-gray-600">
+                          {describeAnswer(question, result.correctAnswer)}
+                          {result.explanation ? ` — ${result.explanation}` : ""}
+                        </p>
+                      </div>
+                      {result.nextDueAt && (
+                        <span className="text-xs text-gray-500 whitespace-nowrap">
+                          Prochaine révision : {new Date(result.nextDueAt).toLocaleDateString("fr-FR")}
+                        </span>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+
+              <div className="text-center">
+                <Button onClick={goBack}>
+                  <ArrowLeft className="w-4 h-4 mr-2" />
+                  Retour au tableau de bord
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        </main>
+      </div>
+    );
+  }
+
+  if (!reviewState.isStarted) {
+    const dueCount = deck?.dueCount ?? 0;
+
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <Navbar />
+        <main className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          <Card>
+            <CardContent className="p-8">
+              <Button
+                variant="ghost"
+                onClick={goBack}
+                className="mb-6"
+              >
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Retour
+              </Button>
+
+              <div className="text-center">
+                <div className="inline-flex p-4 rounded-full mb-6 bg-indigo-100">
+                  <Brain className="w-8 h-8 text-indigo-600" />
+                </div>
+
+                <h1 className="text-3xl font-bold text-gray-900 mb-4">Révision</h1>
+                {dueCount > 0 ? (
+                  <>
+                    <p className="text-gray-600 mb-8">
+                      {dueCount} question{dueCount > 1 ? "s" : ""} manquée{dueCount > 1 ? "s" : ""} à revoir aujourd'hui.
+                      Chaque bonne réponse espace la prochaine révision, chaque erreur la ramène au lendemain.
+                    </p>
+                    <Button
+                      onClick={startReview}
+                      size="lg"
+                      className="bg-indigo-600 hover:bg-indigo-700"
+                    >
+                      Réviser {deck!.questions.length} question{deck!.questions.length > 1 ? "s" : ""}
+                    </Button>
+                  </>
+                ) : (
+                  <p className="text-gray-600">
+                    Aucune question à réviser pour le moment. Les questions manquées pendant vos quiz apparaîtront ici.
+                  </p>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        </main>
+      </div>
+    );
+  }
+
+  const currentQuestion = reviewState.questions[reviewState.currentQuestionIndex];
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Navbar />
+      <QuizInterface
+        theme={currentQuestion.theme ?? { name: "Révision", icon: "fas fa-brain", color: "indigo" }}
+        title={currentQuestion.theme ? `Révision · ${currentQuestion.theme.name}` : "Révision"}
+        questions={reviewState.questions}
+        currentQuestionIndex={reviewState.currentQuestionIndex}
+        selectedAnswer={reviewState.answers[currentQuestion.id]}
+        onAnswerSelect={answerQuestion}
+        onNext={nextQuestion}
+        onBack={goBack}
+        isSubmitting={submitReviewMutation.isPending}
+      />
+    </div>
+  );
+}
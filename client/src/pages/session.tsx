@@ -0,0 +1,176 @@
+import { useQuery } from "@tanstack/react-query";
+import { useParams, useLocation } from "wouter";
+import { useAuth } from "@/lib/auth";
+import Navbar from "@/components/navbar";
+import { describeAnswer } from "@/components/answer-input";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ArrowLeft, CheckCircle, XCircle, Clock, Target, Trophy } from "lucide-react";
+import type { SessionDetail } from "@shared/questions";
+
+export default function Session() {
+  const { id } = useParams<{ id: string }>();
+  const [, setLocation] = useLocation();
+  const { isAuthenticated } = useAuth();
+
+  // Redirect to login if not authenticated
+  if (!isAuthenticated) {
+    setLocation("/login");
+    return null;
+  }
+
+  const { data, isLoading } = useQuery<SessionDetail>({
+    queryKey: [`/api/sessions/${id}`],
+    enabled: !!id,
+  });
+
+  const goBack = () => {
+    setLocation("/profile");
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <Navbar />
+        <main className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          <Card>
+            <CardContent className="p-8">
+              <Skeleton className="h-8 w-64 mb-4" />
+              <Skeleton className="h-4 w-32 mb-8" />
+              <div className="space-y-4">
+                {[...Array(4)].map((_, i) => (
+                  <Skeleton key={i} className="h-20 w-full" />
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        </main>
+      </div>
+    );
+  }
+
+  if (!data) {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <Navbar />
+        <main className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          <Card>
+            <CardContent className="p-8 text-center">
+              <h1 className="text-2xl font-bold text-gray-900 mb-4">Session non trouvée</h1>
+              <p className="text-gray-600 mb-6">Cette session n'existe pas ou ne vous appartient pas.</p>
+              <Button onClick={goBack}>
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Retour au profil
+              </Button>
+            </CardContent>
+          </Card>
+        </main>
+      </div>
+    );
+  }
+
+  const { session, theme, answers } = data;
+  const percentage = session.totalQuestions > 0 ? Math.round((session.score / session.totalQuestions) * 100) : 0;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Navbar />
+
+      <main className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <Button variant="ghost" onClick={goBack} className="mb-6">
+          <ArrowLeft className="w-4 h-4 mr-2" />
+          Retour au profil
+        </Button>
+
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Quiz {theme?.name ?? "supprimé"}</h1>
+          <p className="text-gray-600">
+            Terminé le {new Date(session.completedAt).toLocaleDateString("fr-FR")} à{" "}
+            {new Date(session.completedAt).toLocaleTimeString("fr-FR", { hour: "2-digit", minute: "2-digit" })}
+          </p>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-8">
+          <div className="bg-blue-50 p-4 rounded-lg text-center">
+            <Target className="w-8 h-8 text-blue-600 mx-auto mb-2" />
+            <div className="text-sm text-gray-600">Score</div>
+            <div className="text-xl font-bold text-blue-600">
+              {session.score}/{session.totalQuestions} ({percentage}%)
+            </div>
+          </div>
+          <div className="bg-purple-50 p-4 rounded-lg text-center">
+            <Clock className="w-8 h-8 text-purple-600 mx-auto mb-2" />
+            <div className="text-sm text-gray-600">Temps</div>
+            <div className="text-xl font-bold text-purple-600">
+              {Math.floor(session.timeSpent / 60)}min {session.timeSpent % 60}s
+            </div>
+          </div>
+          <div className="bg-green-50 p-4 rounded-lg text-center">
+            <Trophy className="w-8 h-8 text-green-600 mx-auto mb-2" />
+            <div className="text-sm text-gray-600">Points gagnés</div>
+            <div className="text-xl font-bold text-green-600">{session.pointsEarned}</div>
+          </div>
+        </div>
+
+        <div className="space-y-4">
+          {answers.length === 0 && (
+            <Card>
+              <CardContent className="p-6 text-center text-gray-500">
+                Le détail des réponses n'est pas disponible pour cette session.
+              </CardContent>
+            </Card>
+          )}
+
+          {answers.map((answer) => (
+            <Card key={answer.position}>
+              <CardContent className="p-6">
+                <div className="flex items-start space-x-3">
+                  {answer.correct
+                    ? <CheckCircle className="w-6 h-6 text-green-600 mt-0.5 shrink-0" />
+                    : <XCircle className="w-6 h-6 text-red-600 mt-0.5 shrink-0" />}
+                  <div className="flex-1 space-y-2">
+                    <div className="flex items-start justify-between gap-4">
+                      <p className="font-semibold text-gray-900">
+                        {answer.position + 1}. {answer.question?.question ?? "Question supprimée"}
+                      </p>
+                      {answer.timeTaken !== null && (
+                        <Badge variant="outline" className="whitespace-nowrap">{answer.timeTaken}s</Badge>
+                      )}
+                    </div>
+
+                    {answer.question && (
+                      <>
+                        <p className="text-sm">
+                          <span className="text-gray-500">Votre réponse : </span>
+                          <span className={answer.correct ? "text-green-700" : "text-red-700"}>
+                            {answer.answer === null ? "Sans réponse" : describeAnswer(answer.question, answer.answer)}
+                          </span>
+                        </p>
+                        {!answer.correct && answer.correctAnswer !== null && (
+                          <p className="text-sm">
+                            <span className="text-gray-500">Bonne réponse : </span>
+                            <span className="text-green-700">{describeAnswer(answer.question, answer.correctAnswer)}</span>
+                          </p>
+                        )}
+                      </>
+                    )}
+
+                    {answer.explanation && (
+                      <p className="text-sm text-gray-600 bg-gray-50 rounded-lg p-3">{answer.explanation}</p>
+                    )}
+
+                    {answer.revisedSince && (
+                      <p className="text-xs text-gray-400">Cette question a été modifiée depuis : elle est affichée telle qu'elle vous a été posée.</p>
+                    )}
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      </main>
+    </div>
+  );
+}
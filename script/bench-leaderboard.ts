@@ -0,0 +1,121 @@
+// Compare le calcul du classement par parcours complet des sessions (ancienne implémentation)
+// à l'index maintenu à chaque session (RankingIndex), sur un jeu de sessions synthétique.
+// Usage : npm run bench:leaderboard -- [sessions] [joueurs]
+import { performance } from "perf_hooks";
+import { RankingIndex } from "../server/leaderboard-index";
+import { periodKey, periodKeys } from "../server/leaderboard";
+
+const sessionCount = Number(process.argv[2] ?? 100_000);
+const userCount = Number(process.argv[3] ?? 10_000);
+const themeCount = 12;
+const days = 60;
+const lookups = 200;
+
+interface BenchSession {
+  userId: number;
+  themeId: number;
+  pointsEarned: number;
+  completedAt: Date;
+  periods: string[];
+}
+
+// Générateur pseudo-aléatoire déterministe (mulberry32) pour des mesures reproductibles
+function random(seed: number) {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const rand = random(42);
+const now = new Date();
+// Les clés de période sont calculées une fois pour toutes : seules les structures sont mesurées
+const periodsByDay = new Map<number, string[]>();
+const sessions: BenchSession[] = Array.from({ length: sessionCount }, () => {
+  const day = Math.floor(rand() * days);
+  if (!periodsByDay.has(day)) periodsByDay.set(day, periodKeys(new Date(now.getTime() - day * 86400000)));
+  return {
+    userId: 1 + Math.floor(rand() * userCount),
+    themeId: 1 + Math.floor(rand() * themeCount),
+    pointsEarned: Math.floor(rand() * 150),
+    completedAt: new Date(now.getTime() - day * 86400000),
+    periods: periodsByDay.get(day)!,
+  };
+});
+sessions.sort((a, b) => a.completedAt.getTime() - b.completedAt.getTime());
+
+function time(run: () => void, repeat = 1): number {
+  const start = performance.now();
+  for (let i = 0; i < repeat; i++) run();
+  return (performance.now() - start) / repeat;
+}
+
+// Ancienne implémentation : agrégation de toutes les sessions puis tri, à chaque requête
+function scanScores(themeId: number | undefined, period: string) {
+  const scores = new Map<number, number>();
+  for (const session of sessions) {
+    if (themeId !== undefined && session.themeId !== themeId) continue;
+    if (!session.periods.includes(period)) continue;
+    scores.set(session.userId, (scores.get(session.userId) ?? 0) + session.pointsEarned);
+  }
+  return Array.from(scores.entries())
+    .map(([userId, score]) => ({ userId, score }))
+    .sort((a, b) => b.score - a.score || a.userId - b.userId);
+}
+
+const indexes = new Map<string, RankingIndex>();
+const buildMs = time(() => {
+  for (const session of sessions) {
+    for (const period of session.periods) {
+      for (const themeId of [0, session.themeId]) {
+        const key = `${themeId}-${period}`;
+        let index = indexes.get(key);
+        if (!index) {
+          index = new RankingIndex();
+          indexes.set(key, index);
+        }
+        index.add(session.userId, session.pointsEarned, true);
+      }
+    }
+  }
+});
+
+const boards = [
+  { label: "global / all", themeId: undefined, period: periodKey("all", now) },
+  { label: "global / weekly", themeId: undefined, period: periodKey("weekly", now) },
+  { label: "thème 1 / monthly", themeId: 1, period: periodKey("monthly", now) },
+];
+
+const users = Array.from({ length: lookups }, () => 1 + Math.floor(rand() * userCount));
+const results = boards.map(({ label, themeId, period }) => {
+  const index = indexes.get(`${themeId ?? 0}-${period}`) ?? new RankingIndex();
+
+  const scanTop = time(() => scanScores(themeId, period).slice(0, 20), 5);
+  const indexTop = time(() => index.slice({ limit: 20 }), lookups);
+
+  const scanRank = time(() => {
+    const rows = scanScores(themeId, period);
+    rows.findIndex((row) => row.userId === users[0]);
+  }, 5);
+  const indexRank = time(() => {
+    for (const userId of users) {
+      const score = index.scoreOf(userId);
+      if (score !== undefined) index.countAhead({ score, userId });
+    }
+  }) / lookups;
+
+  return {
+    classement: label,
+    joueurs: index.size,
+    "top 20 parcours (ms)": scanTop.toFixed(3),
+    "top 20 index (ms)": indexTop.toFixed(4),
+    "rang parcours (ms)": scanRank.toFixed(3),
+    "rang index (ms)": indexRank.toFixed(4),
+  };
+});
+
+console.log(`${sessionCount} sessions, ${userCount} joueurs, ${themeCount} thèmes sur ${days} jours`);
+console.log(`Construction incrémentale des index : ${buildMs.toFixed(0)} ms (${(buildMs * 1000 / sessionCount).toFixed(1)} µs par session)`);
+console.table(results);
@@ -0,0 +1,63 @@
+import type { Question, UserStats } from "@shared/schema";
+import { questionRating } from "@shared/questions";
+import type { IStorage } from "./storage";
+
+// Modèle de type Elo / Rasch : la probabilité de bonne réponse dépend de l'écart entre
+// le niveau du joueur et la difficulté de la question, sur une même échelle logistique.
+export const adaptiveConfig = {
+  questionCount: 10,
+  // Probabilité de réussite visée pour la question suivante
+  targetSuccess: 0.7,
+  // Nombre de questions proches de la cible parmi lesquelles tirer au hasard
+  candidatePool: 3,
+  // Pas d'ajustement du niveau, dégressif avec le nombre de réponses du joueur
+  initialAbilityStep: 0.6,
+  minAbilityStep: 0.15,
+  // Pas d'ajustement de la difficulté d'une question
+  initialRatingStep: 0.4,
+  minRatingStep: 0.05,
+};
+
+export function expectedSuccess(ability: number, rating: number): number {
+  return 1 / (1 + Math.exp(rating - ability));
+}
+
+// Pas d'apprentissage décroissant : les premières réponses déplacent davantage l'estimation
+function step(initial: number, min: number, count: number): number {
+  return Math.max(min, initial / Math.sqrt(1 + count / 5));
+}
+
+// Met à jour le niveau du joueur et la calibration de la question après une réponse
+export async function recordAbilityAnswer(
+  storage: IStorage,
+  userId: number,
+  question: Question,
+  correct: boolean,
+): Promise<UserStats> {
+  const stats = await storage.getUserStatsByTheme(userId, question.themeId);
+  const ability = stats?.ability ?? 0;
+  const abilityAnswers = stats?.abilityAnswers ?? 0;
+  const rating = questionRating(question);
+
+  const surprise = (correct ? 1 : 0) - expectedSuccess(ability, rating);
+
+  await storage.updateQuestion(question.id, {
+    rating: rating - step(adaptiveConfig.initialRatingStep, adaptiveConfig.minRatingStep, question.answerCount) * surprise,
+    answerCount: question.answerCount + 1,
+    correctCount: question.correctCount + (correct ? 1 : 0),
+  });
+
+  return storage.updateUserStats(userId, question.themeId, {
+    ability: ability + step(adaptiveConfig.initialAbilityStep, adaptiveConfig.minAbilityStep, abilityAnswers) * surprise,
+    abilityAnswers: abilityAnswers + 1,
+  });
+}
+
+// Choisit, parmi les questions non encore posées, l'une des plus proches de la difficulté visée
+export function pickAdaptiveQuestion(candidates: Question[], ability: number, random: () => number = Math.random): Question | undefined {
+  const target = ability - Math.log(adaptiveConfig.targetSuccess / (1 - adaptiveConfig.targetSuccess));
+  const closest = [...candidates]
+    .sort((a, b) => Math.abs(questionRating(a) - target) - Math.abs(questionRating(b) - target))
+    .slice(0, adaptiveConfig.candidatePool);
+  return closest[Math.floor(random() * closest.length)];
+}
@@ -0,0 +1,68 @@
+import { createHash, randomBytes } from "crypto";
+import type { AuthTokenPurpose, User } from "@shared/schema";
+import type { IStorage } from "./storage";
+import { mailConfig, type MailTransport } from "./mail";
+
+export const authTokenConfig = {
+  // Durée de validité des liens envoyés par email
+  ttlMs: {
+    verify_email: 48 * 60 * 60 * 1000,
+    reset_password: 60 * 60 * 1000,
+  } as Record<AuthTokenPurpose, number>,
+};
+
+const hashToken = (token: string) => createHash("sha256").update(token).digest("hex");
+
+// Crée un jeton à usage unique et renvoie sa valeur en clair, qui n'est transmise que par email.
+// Les jetons précédents du même usage sont révoqués : seul le dernier lien envoyé fonctionne.
+export async function issueAuthToken(storage: IStorage, userId: number, purpose: AuthTokenPurpose): Promise<string> {
+  await storage.revokeAuthTokens(userId, purpose);
+
+  const token = randomBytes(32).toString("base64url");
+  await storage.createAuthToken({
+    userId,
+    purpose,
+    tokenHash: hashToken(token),
+    expiresAt: new Date(Date.now() + authTokenConfig.ttlMs[purpose]),
+  });
+  return token;
+}
+
+// Utilisateur auquel le jeton a été délivré, s'il est valable ; le jeton est alors consommé
+export async function consumeAuthToken(storage: IStorage, token: string, purpose: AuthTokenPurpose): Promise<number | undefined> {
+  const consumed = await storage.consumeAuthToken(hashToken(token), purpose, new Date());
+  return consumed?.userId;
+}
+
+export async function sendVerificationEmail(storage: IStorage, mailer: MailTransport, user: User) {
+  const token = await issueAuthToken(storage, user.id, "verify_email");
+  await mailer.send({
+    to: user.email,
+    subject: "Confirmez votre adresse email",
+    text: [
+      `Bonjour ${user.firstName},`,
+      "",
+      "Pour confirmer votre adresse email sur QuizMaster, suivez ce lien :",
+      `${mailConfig.appUrl}/login?verify=${token}`,
+      "",
+      "Ce lien est valable 48 heures.",
+    ].join("\n"),
+  });
+}
+
+export async function sendPasswordResetEmail(storage: IStorage, mailer: MailTransport, user: User) {
+  const token = await issueAuthToken(storage, user.id, "reset_password");
+  await mailer.send({
+    to: user.email,
+    subject: "Réinitialisation de votre mot de passe",
+    text: [
+      `Bonjour ${user.firstName},`,
+      "",
+      "Une réinitialisation du mot de passe de votre compte QuizMaster a été demandée.",
+      "Pour choisir un nouveau mot de passe, suivez ce lien :",
+      `${mailConfig.appUrl}/login?reset=${token}`,
+      "",
+      "Ce lien est valable une heure. Si vous n'êtes pas à l'origine de cette demande, ignorez cet email.",
+    ].join("\n"),
+  });
+}
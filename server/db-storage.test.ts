@@ -0,0 +1,144 @@
+import { before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createRequire } from "node:module";
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import * as schema from "@shared/schema";
+import { DrizzleStorage } from "./db-storage";
+
+// La version ESM de drizzle-kit/api ne se charge pas (require dynamique) : on passe par sa version CommonJS
+const { generateDrizzleJson, generateMigration } = createRequire(import.meta.url)("drizzle-kit/api") as typeof import("drizzle-kit/api");
+
+// DrizzleStorage testé contre une base PostgreSQL embarquée (pglite), créée à partir de shared/schema.ts
+async function createTestStorage() {
+  const db = drizzle(new PGlite(), { schema });
+  for (const statement of await generateMigration(generateDrizzleJson({}), generateDrizzleJson(schema))) {
+    await db.execute(statement);
+  }
+  return new DrizzleStorage(db);
+}
+
+describe("DrizzleStorage", () => {
+  let storage: DrizzleStorage;
+
+  before(async () => {
+    storage = await createTestStorage();
+    await storage.seedIfEmpty();
+  });
+
+  it("seeds an empty database once", async () => {
+    const users = await storage.getAllUsers();
+    assert.deepEqual(users.map((u) => u.email), ["admin@quizmaster.com", "john.doe@email.com"]);
+    assert.ok((await storage.validatePassword("john.doe@email.com", "user123")) !== null);
+
+    const themes = await storage.getAllThemes();
+    assert.ok(themes.length > 0);
+    assert.ok((await storage.getQuestionsByTheme(themes[0].id)).length > 0);
+
+    await storage.seedIfEmpty();
+    assert.equal(await storage.countUsers(), 2);
+    assert.equal((await storage.getAllThemes()).length, themes.length);
+  });
+
+  it("aggregates user stats when quiz sessions are saved concurrently", async () => {
+    const user = (await storage.getUserByEmail("john.doe@email.com"))!;
+    const [theme] = await storage.getAllThemes();
+
+    await Promise.all([60, 80, 100].map((score) => storage.createQuizSession({
+      userId: user.id,
+      themeId: theme.id,
+      score,
+      totalQuestions: 10,
+      timeSpent: 30,
+      pointsEarned: score,
+    })));
+
+    const stats = await storage.getUserStatsByTheme(user.id, theme.id);
+    assert.equal(stats?.totalQuizzes, 3);
+    assert.equal(stats?.averageScore, 80);
+    assert.equal(stats?.bestScore, 100);
+    assert.equal(stats?.totalTimeSpent, 90);
+  });
+
+  it("records a completed quiz with its answers and rewards, or nothing at all", async () => {
+    const user = (await storage.getUserByEmail("admin@quizmaster.com"))!;
+    const [theme] = await storage.getAllThemes();
+    const [question] = await storage.getQuestionsByTheme(theme.id);
+    const insertSession = { userId: user.id, themeId: theme.id, score: 1, totalQuestions: 1, timeSpent: 12, pointsEarned: 25 };
+    const answers = [{ questionId: question.id, position: 0, answer: 0, correct: true, timeTaken: 12, questionRevision: question.revision }];
+    const sessionsBefore = await storage.countQuizSessions();
+
+    await assert.rejects(storage.completeQuizSession(insertSession, answers, () => {
+      throw new Error("échec du calcul des récompenses");
+    }));
+    assert.equal(await storage.countQuizSessions(), sessionsBefore);
+    assert.equal((await storage.getUser(user.id))?.points, user.points);
+
+    const { session, user: updated } = await storage.completeQuizSession(insertSession, answers, (current, _session, themeStats) => ({
+      streak: current.streak + 1,
+      badges: [...current.badges, `quizzes_${themeStats?.totalQuizzes}`],
+      lastQuizAt: new Date(),
+    }));
+    assert.equal(updated?.points, user.points + 25);
+    assert.equal(updated?.streak, user.streak + 1);
+    assert.ok(updated?.badges.includes("quizzes_1"));
+    assert.equal((await storage.getSessionQuizAnswers(session.id)).length, 1);
+  });
+
+  it("keeps practice sessions out of stats, leaderboards and rewards", async () => {
+    const user = (await storage.getUserByEmail("admin@quizmaster.com"))!;
+    const [, theme] = await storage.getAllThemes();
+
+    const { session, user: after } = await storage.completeQuizSession(
+      { userId: user.id, themeId: theme.id, score: 5, totalQuestions: 5, timeSpent: 40, pointsEarned: 0, practice: true },
+      [],
+      null,
+    );
+    assert.equal(session.practice, true);
+    assert.equal(after?.points, user.points);
+    assert.equal(await storage.getUserStatsByTheme(user.id, theme.id), undefined);
+    assert.equal(await storage.getLeaderboardScore({ themeId: theme.id, period: "all" }, user.id), undefined);
+  });
+
+  it("adds points atomically", async () => {
+    const user = (await storage.getUserByEmail("john.doe@email.com"))!;
+    await Promise.all([10, 20, 30].map((amount) => storage.incrementUserPoints(user.id, amount)));
+    assert.equal((await storage.getUser(user.id))?.points, user.points + 60);
+  });
+
+  it("keeps a single open report per player and question", async () => {
+    const user = (await storage.getUserByEmail("john.doe@email.com"))!;
+    const [theme] = await storage.getAllThemes();
+    const [question] = await storage.getQuestionsByTheme(theme.id);
+    const report = { questionId: question.id, questionRevision: question.revision, reporterId: user.id, reason: "typo" as const };
+
+    const created = await Promise.all([1, 2, 3].map(() => storage.createQuestionReport(report)));
+    assert.equal(created.filter(Boolean).length, 1);
+
+    await storage.resolveQuestionReports(question.id, { status: "dismissed", resolution: null, resolvedBy: null, resolvedAt: new Date() });
+    assert.ok(await storage.createQuestionReport(report));
+  });
+
+  it("finishes a quiz attempt only once", async () => {
+    const user = (await storage.getUserByEmail("john.doe@email.com"))!;
+    const [theme] = await storage.getAllThemes();
+    const attempt = await storage.createQuizAttempt({ userId: user.id, themeId: theme.id, questionIds: [] });
+
+    const finished = await Promise.all([1, 2, 3].map(() => storage.finishQuizAttempt(attempt.id, new Date())));
+    assert.equal(finished.filter(Boolean).length, 1);
+  });
+
+  it("counts concurrent login attempts until the key is blocked", async () => {
+    const now = new Date();
+    const blockedUntil = new Date(now.getTime() + 60_000);
+    const results = await Promise.all(Array.from({ length: 6 }, () => storage.reserveLoginAttempt(
+      "account:john.doe@email.com",
+      now,
+      new Date(now.getTime() - 60_000),
+      (failures) => failures >= 3 ? blockedUntil : null,
+    )));
+
+    assert.equal(results.filter((r) => r.counted).length, 3);
+    assert.equal(Math.max(...results.map((r) => r.throttle.failures)), 3);
+  });
+});
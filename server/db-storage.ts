@@ -0,0 +1,892 @@
+import { users, themes, questions, quizSessions, quizAnswers, quizAttempts, userStats, questionReviews, leaderboardScores, authTokens, questionRevisions, twoFactorSecrets, recoveryCodes, loginThrottles, loginAttempts, contentReviews, questionSubmissions, questionReports, tags, questionTags, type User, type InsertUser, type Theme, type InsertTheme, type Question, type InsertQuestion, type QuizSession, type InsertQuizSession, type QuizAnswer, type InsertQuizAnswer, type QuizAttempt, type InsertQuizAttempt, type UserStats, type QuestionReview, type AuthToken, type InsertAuthToken, type AuthTokenPurpose, type LoginThrottle, type LoginAttempt, type InsertLoginAttempt, type TwoFactorSecret, type QuestionRevision, type ContentStatus, type ContentKind, type ContentReview, type InsertContentReview, type QuestionSubmission, type InsertQuestionSubmission, type SubmissionStatus, type QuestionReport, type InsertQuestionReport, type ReportStatus, type Tag, type InsertTag, type QuestionTag, type AnswerValue, type LifelineUse } from "@shared/schema";
+import { questionFieldsOf, questionInputToFields, type QuestionFields } from "@shared/questions";
+import { and, asc, count, desc, eq, gt, inArray, isNull, lt, or, sql } from "drizzle-orm";
+import bcrypt from "bcrypt";
+import type { Database } from "./db";
+import { seedUsers, unknownUserPasswordHash, type IStorage, type QuizRewardUpdate, type LeaderboardBoard, type LeaderboardScore } from "./storage";
+import type { RankingKey } from "./leaderboard-index";
+import { periodKeys } from "./leaderboard";
+import { loadQuestionPack } from "./importer";
+import type { QuestionPack } from "./question-formats";
+import seedPack from "./seed/questions.json";
+
+// Implémentation PostgreSQL de IStorage, basée sur les tables Drizzle de shared/schema.ts.
+// Le client Drizzle est injecté pour pouvoir utiliser node-postgres en production
+// et une base embarquée (pglite) dans les tests.
+export class DrizzleStorage implements IStorage {
+  constructor(private db: Database) {}
+
+  // Une base vide reçoit les mêmes données de démonstration que MemStorage
+  async seedIfEmpty(): Promise<void> {
+    if (await this.countUsers() > 0) return;
+
+    for (const { password, ...seedUser } of seedUsers) {
+      await this.db
+        .insert(users)
+        .values({ ...seedUser, password: await bcrypt.hash(password, 10), emailVerifiedAt: new Date() });
+    }
+    await loadQuestionPack(this, seedPack as QuestionPack);
+  }
+
+  // User operations
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getAllUsers(): Promise<User[]> {
+    return this.db.select().from(users).orderBy(asc(users.id));
+  }
+
+  async countUsers(): Promise<number> {
+    const [{ total }] = await this.db.select({ total: count() }).from(users);
+    return total;
+  }
+
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.email, email));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const hashedPassword = await bcrypt.hash(insertUser.password, 10);
+    const [user] = await this.db
+      .insert(users)
+      .values({ ...insertUser, password: hashedPassword, role: insertUser.role ?? 'user' })
+      .returning();
+    return user;
+  }
+
+  async updateUser(id: number, updates: Partial<User>): Promise<User | undefined> {
+    const { id: _id, ...values } = updates;
+    if (Object.keys(values).length === 0) return this.getUser(id);
+
+    const [user] = await this.db.update(users).set(values).where(eq(users.id, id)).returning();
+    return user;
+  }
+
+  async incrementUserPoints(id: number, amount: number): Promise<User | undefined> {
+    const [user] = await this.db
+      .update(users)
+      .set({ points: sql`${users.points} + ${amount}` })
+      .where(eq(users.id, id))
+      .returning();
+    return user;
+  }
+
+  async updatePassword(id: number, password: string): Promise<User | undefined> {
+    const hashedPassword = await bcrypt.hash(password, 10);
+    return this.updateUser(id, { password: hashedPassword });
+  }
+
+  async validatePassword(email: string, password: string): Promise<User | null> {
+    const user = await this.getUserByEmail(email);
+    if (!user) {
+      await bcrypt.compare(password, unknownUserPasswordHash);
+      return null;
+    }
+
+    const isValid = await bcrypt.compare(password, user.password);
+    return isValid ? user : null;
+  }
+
+  // Theme operations
+  async getAllThemes(statuses: readonly ContentStatus[] = ["published"]): Promise<Theme[]> {
+    return this.db
+      .select()
+      .from(themes)
+      .where(and(eq(themes.isActive, true), inArray(themes.status, [...statuses])))
+      .orderBy(asc(themes.id));
+  }
+
+  async getTheme(id: number): Promise<Theme | undefined> {
+    const [theme] = await this.db.select().from(themes).where(eq(themes.id, id));
+    return theme;
+  }
+
+  async getChildThemes(parentId: number): Promise<Theme[]> {
+    return this.db.select().from(themes).where(eq(themes.parentId, parentId)).orderBy(asc(themes.id));
+  }
+
+  async createTheme(insertTheme: InsertTheme): Promise<Theme> {
+    const [theme] = await this.db.insert(themes).values(insertTheme).returning();
+    return theme;
+  }
+
+  async updateTheme(id: number, updates: Partial<Theme>): Promise<Theme | undefined> {
+    const { id: _id, ...values } = updates;
+    if (Object.keys(values).length === 0) return this.getTheme(id);
+
+    const [theme] = await this.db.update(themes).set(values).where(eq(themes.id, id)).returning();
+    return theme;
+  }
+
+  async deleteTheme(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(themes).where(eq(themes.id, id)).returning({ id: themes.id });
+    return deleted.length > 0;
+  }
+
+  // Question operations
+  async getQuestionsByTheme(themeId: number, statuses: readonly ContentStatus[] = ["published"]): Promise<Question[]> {
+    return this.db
+      .select()
+      .from(questions)
+      .where(and(eq(questions.themeId, themeId), inArray(questions.status, [...statuses])))
+      .orderBy(asc(questions.id));
+  }
+
+  async getQuestion(id: number): Promise<Question | undefined> {
+    const [question] = await this.db.select().from(questions).where(eq(questions.id, id));
+    return question;
+  }
+
+  async createQuestion(insertQuestion: InsertQuestion, authorId: number | null = null): Promise<Question> {
+    return this.db.transaction(async (tx) => {
+      const [question] = await tx.insert(questions).values(insertQuestion).returning();
+      await tx.insert(questionRevisions).values({
+        questionId: question.id,
+        revision: question.revision,
+        authorId,
+        content: questionFieldsOf(question),
+      });
+      return question;
+    });
+  }
+
+  async updateQuestion(id: number, updates: Partial<Question>): Promise<Question | undefined> {
+    const { id: _id, ...values } = updates;
+    if (Object.keys(values).length === 0) return this.getQuestion(id);
+
+    const [question] = await this.db.update(questions).set(values).where(eq(questions.id, id)).returning();
+    return question;
+  }
+
+  async deleteQuestion(id: number): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      await tx.delete(questionTags).where(eq(questionTags.questionId, id));
+      const deleted = await tx.delete(questions).where(eq(questions.id, id)).returning({ id: questions.id });
+      return deleted.length > 0;
+    });
+  }
+
+  // Question revision operations
+  // La question est verrouillée le temps de la transaction : deux modifications simultanées
+  // obtiennent des numéros de révision distincts
+  async reviseQuestion(id: number, fields: QuestionFields, authorId: number | null, revertedFrom: number | null = null): Promise<Question | undefined> {
+    return this.db.transaction(async (tx) => {
+      const [current] = await tx.select().from(questions).where(eq(questions.id, id)).for("update");
+      if (!current) return undefined;
+
+      // Questions créées avant l'historique : leur version d'origine est conservée comme révision
+      await tx
+        .insert(questionRevisions)
+        .values({ questionId: id, revision: current.revision, authorId: null, content: questionFieldsOf(current) })
+        .onConflictDoNothing();
+
+      const [question] = await tx
+        .update(questions)
+        .set({ ...questionFieldsOf(fields), revision: current.revision + 1 })
+        .where(eq(questions.id, id))
+        .returning();
+      await tx.insert(questionRevisions).values({
+        questionId: id,
+        revision: question.revision,
+        authorId,
+        content: questionFieldsOf(question),
+        revertedFrom,
+      });
+      return question;
+    });
+  }
+
+  async getQuestionRevisions(questionId: number): Promise<QuestionRevision[]> {
+    return this.db
+      .select()
+      .from(questionRevisions)
+      .where(eq(questionRevisions.questionId, questionId))
+      .orderBy(desc(questionRevisions.revision));
+  }
+
+  async getQuestionRevision(questionId: number, revision: number): Promise<QuestionRevision | undefined> {
+    const [record] = await this.db
+      .select()
+      .from(questionRevisions)
+      .where(and(eq(questionRevisions.questionId, questionId), eq(questionRevisions.revision, revision)));
+    return record;
+  }
+
+  // Content review operations
+  // Changement d'état conditionnel : de deux décisions simultanées, seule la première s'applique
+  async transitionContent(review: InsertContentReview): Promise<ContentReview | undefined> {
+    return this.db.transaction(async (tx) => {
+      const table = review.contentKind === "theme" ? themes : questions;
+      const updated = await tx
+        .update(table)
+        .set({ status: review.toStatus })
+        .where(and(eq(table.id, review.contentId), eq(table.status, review.fromStatus)))
+        .returning({ id: table.id });
+      if (updated.length === 0) return undefined;
+
+      const [record] = await tx.insert(contentReviews).values(review).returning();
+      return record;
+    });
+  }
+
+  async getContentReviews(kind: ContentKind, contentId: number): Promise<ContentReview[]> {
+    return this.db
+      .select()
+      .from(contentReviews)
+      .where(and(eq(contentReviews.contentKind, kind), eq(contentReviews.contentId, contentId)))
+      .orderBy(desc(contentReviews.createdAt), desc(contentReviews.id));
+  }
+
+  // Question submission operations
+  async createQuestionSubmission(insertSubmission: InsertQuestionSubmission): Promise<QuestionSubmission> {
+    const [submission] = await this.db.insert(questionSubmissions).values(insertSubmission).returning();
+    return submission;
+  }
+
+  async getQuestionSubmission(id: number): Promise<QuestionSubmission | undefined> {
+    const [submission] = await this.db.select().from(questionSubmissions).where(eq(questionSubmissions.id, id));
+    return submission;
+  }
+
+  async getQuestionSubmissions(filter: { status?: SubmissionStatus; submitterId?: number }): Promise<QuestionSubmission[]> {
+    return this.db
+      .select()
+      .from(questionSubmissions)
+      .where(and(
+        filter.status ? eq(questionSubmissions.status, filter.status) : undefined,
+        filter.submitterId !== undefined ? eq(questionSubmissions.submitterId, filter.submitterId) : undefined,
+      ))
+      .orderBy(desc(questionSubmissions.createdAt), desc(questionSubmissions.id));
+  }
+
+  async updateQuestionSubmission(id: number, updates: Partial<QuestionSubmission>): Promise<QuestionSubmission | undefined> {
+    const { id: _id, ...values } = updates;
+    if (Object.keys(values).length === 0) return this.getQuestionSubmission(id);
+
+    const [submission] = await this.db.update(questionSubmissions).set(values).where(eq(questionSubmissions.id, id)).returning();
+    return submission;
+  }
+
+  // Mise à jour conditionnelle : de deux décisions simultanées, seule la première s'applique
+  async decideQuestionSubmission(
+    id: number,
+    decision: Pick<QuestionSubmission, "status" | "reviewerId" | "rejectionReason" | "reviewedAt">,
+  ): Promise<QuestionSubmission | undefined> {
+    const [submission] = await this.db
+      .update(questionSubmissions)
+      .set(decision)
+      .where(and(eq(questionSubmissions.id, id), eq(questionSubmissions.status, "pending")))
+      .returning();
+    return submission;
+  }
+
+  // Une seule transaction : si la création de la question échoue, la proposition reste en attente
+  async acceptQuestionSubmission(id: number, reviewerId: number, reviewedAt: Date, pointsAwarded: number): Promise<QuestionSubmission | undefined> {
+    return this.db.transaction(async (tx) => {
+      const [pending] = await tx
+        .select()
+        .from(questionSubmissions)
+        .where(and(eq(questionSubmissions.id, id), eq(questionSubmissions.status, "pending")))
+        .for("update");
+      if (!pending) return undefined;
+
+      const [question] = await tx
+        .insert(questions)
+        .values({
+          ...questionInputToFields(pending.content),
+          themeId: pending.themeId,
+          status: "in_review",
+          contributorId: pending.submitterId,
+        })
+        .returning();
+      await tx.insert(questionRevisions).values({
+        questionId: question.id,
+        revision: question.revision,
+        authorId: reviewerId,
+        content: questionFieldsOf(question),
+      });
+
+      const credited = await tx
+        .update(users)
+        .set({ points: sql`${users.points} + ${pointsAwarded}` })
+        .where(eq(users.id, pending.submitterId))
+        .returning({ id: users.id });
+
+      const [submission] = await tx
+        .update(questionSubmissions)
+        .set({
+          status: "accepted",
+          reviewerId,
+          rejectionReason: null,
+          reviewedAt,
+          questionId: question.id,
+          pointsAwarded: credited.length > 0 ? pointsAwarded : 0,
+        })
+        .where(eq(questionSubmissions.id, id))
+        .returning();
+      return submission;
+    });
+  }
+
+  // Tag operations
+  async getAllTags(): Promise<Tag[]> {
+    return this.db.select().from(tags).orderBy(asc(tags.name));
+  }
+
+  async getTag(id: number): Promise<Tag | undefined> {
+    const [tag] = await this.db.select().from(tags).where(eq(tags.id, id));
+    return tag;
+  }
+
+  async getTagBySlug(slug: string): Promise<Tag | undefined> {
+    const [tag] = await this.db.select().from(tags).where(eq(tags.slug, slug));
+    return tag;
+  }
+
+  async createTag(insertTag: InsertTag): Promise<Tag> {
+    const [tag] = await this.db.insert(tags).values(insertTag).returning();
+    return tag;
+  }
+
+  async updateTag(id: number, updates: Partial<Tag>): Promise<Tag | undefined> {
+    const { id: _id, ...values } = updates;
+    if (Object.keys(values).length === 0) return this.getTag(id);
+
+    const [tag] = await this.db.update(tags).set(values).where(eq(tags.id, id)).returning();
+    return tag;
+  }
+
+  async deleteTag(id: number): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      await tx.delete(questionTags).where(eq(questionTags.tagId, id));
+      const deleted = await tx.delete(tags).where(eq(tags.id, id)).returning({ id: tags.id });
+      return deleted.length > 0;
+    });
+  }
+
+  async getQuestionTags(filter: { questionIds?: number[]; tagIds?: number[] }): Promise<QuestionTag[]> {
+    if (filter.questionIds?.length === 0 || filter.tagIds?.length === 0) return [];
+    return this.db
+      .select()
+      .from(questionTags)
+      .where(and(
+        filter.questionIds ? inArray(questionTags.questionId, filter.questionIds) : undefined,
+        filter.tagIds ? inArray(questionTags.tagId, filter.tagIds) : undefined,
+      ));
+  }
+
+  async addQuestionTags(links: QuestionTag[]): Promise<void> {
+    if (links.length === 0) return;
+    await this.db.insert(questionTags).values(links).onConflictDoNothing();
+  }
+
+  async removeQuestionTags(questionIds: number[], tagIds: number[]): Promise<void> {
+    if (questionIds.length === 0 || tagIds.length === 0) return;
+    await this.db
+      .delete(questionTags)
+      .where(and(inArray(questionTags.questionId, questionIds), inArray(questionTags.tagId, tagIds)));
+  }
+
+  // Question report operations
+  async createQuestionReport(insertReport: InsertQuestionReport): Promise<QuestionReport | undefined> {
+    const [report] = await this.db
+      .insert(questionReports)
+      .values(insertReport)
+      .onConflictDoNothing({
+        target: [questionReports.questionId, questionReports.reporterId],
+        where: sql`${questionReports.status} = 'open'`,
+      })
+      .returning();
+    return report;
+  }
+
+  async getQuestionReports(filter: { questionId?: number; reporterId?: number; status?: ReportStatus }): Promise<QuestionReport[]> {
+    return this.db
+      .select()
+      .from(questionReports)
+      .where(and(
+        filter.questionId !== undefined ? eq(questionReports.questionId, filter.questionId) : undefined,
+        filter.reporterId !== undefined ? eq(questionReports.reporterId, filter.reporterId) : undefined,
+        filter.status ? eq(questionReports.status, filter.status) : undefined,
+      ))
+      .orderBy(desc(questionReports.createdAt), desc(questionReports.id));
+  }
+
+  // Mise à jour conditionnelle : un signalement déjà clos n'est ni modifié ni renvoyé une seconde fois
+  async resolveQuestionReports(
+    questionId: number,
+    decision: Pick<QuestionReport, "status" | "resolution" | "resolvedBy" | "resolvedAt">,
+  ): Promise<QuestionReport[]> {
+    return this.db
+      .update(questionReports)
+      .set(decision)
+      .where(and(eq(questionReports.questionId, questionId), eq(questionReports.status, "open")))
+      .returning();
+  }
+
+  async markQuestionReportsNotified(ids: number[], notifiedAt: Date): Promise<void> {
+    if (ids.length === 0) return;
+    await this.db.update(questionReports).set({ notifiedAt }).where(inArray(questionReports.id, ids));
+  }
+
+  // Quiz session operations
+  // Une seule transaction : la session n'est jamais enregistrée sans ses statistiques ni ses classements
+  async createQuizSession(insertSession: InsertQuizSession): Promise<QuizSession> {
+    return this.db.transaction((tx) => this.insertQuizSession(tx, insertSession));
+  }
+
+  // Le joueur est verrouillé le temps de la transaction : série et badges sont calculés sur son état
+  // courant, et un échec n'enregistre ni la session ni une partie des récompenses
+  async completeQuizSession(
+    insertSession: InsertQuizSession,
+    answers: Array<Omit<InsertQuizAnswer, "sessionId">>,
+    reward: QuizRewardUpdate | null,
+  ): Promise<{ session: QuizSession; user: User | undefined }> {
+    return this.db.transaction(async (tx) => {
+      const session = await this.insertQuizSession(tx, insertSession);
+      if (answers.length > 0) {
+        await tx.insert(quizAnswers).values(answers.map((answer) => ({ ...answer, sessionId: session.id })));
+      }
+
+      const [user] = await tx.select().from(users).where(eq(users.id, session.userId)).for("update");
+      if (!user || !reward) return { session, user };
+      const [themeStats] = await tx
+        .select()
+        .from(userStats)
+        .where(and(eq(userStats.userId, session.userId), eq(userStats.themeId, session.themeId)));
+
+      const [updated] = await tx
+        .update(users)
+        .set({ ...reward(user, session, themeStats), points: sql`${users.points} + ${session.pointsEarned}` })
+        .where(eq(users.id, user.id))
+        .returning();
+      return { session, user: updated };
+    });
+  }
+
+  private async insertQuizSession(db: Database, insertSession: InsertQuizSession): Promise<QuizSession> {
+    const [session] = await db.insert(quizSessions).values(insertSession).returning();
+
+    if (!session.practice) {
+      await this.updateUserStatsAfterQuiz(db, session);
+      await this.updateLeaderboardsAfterQuiz(db, session);
+    }
+
+    return session;
+  }
+
+  async getQuizSession(id: number): Promise<QuizSession | undefined> {
+    const [session] = await this.db.select().from(quizSessions).where(eq(quizSessions.id, id));
+    return session;
+  }
+
+  async getUserQuizSessions(userId: number): Promise<QuizSession[]> {
+    return this.db.select().from(quizSessions).where(eq(quizSessions.userId, userId)).orderBy(asc(quizSessions.id));
+  }
+
+  async getThemeQuizSessions(themeId: number): Promise<QuizSession[]> {
+    return this.db.select().from(quizSessions).where(eq(quizSessions.themeId, themeId)).orderBy(asc(quizSessions.id));
+  }
+
+  async countQuizSessions(): Promise<number> {
+    const [{ total }] = await this.db.select({ total: count() }).from(quizSessions);
+    return total;
+  }
+
+  // Quiz answer operations
+  async createQuizAnswers(insertAnswers: InsertQuizAnswer[]): Promise<QuizAnswer[]> {
+    if (insertAnswers.length === 0) return [];
+    return this.db.insert(quizAnswers).values(insertAnswers).returning();
+  }
+
+  async getSessionQuizAnswers(sessionId: number): Promise<QuizAnswer[]> {
+    return this.db.select().from(quizAnswers).where(eq(quizAnswers.sessionId, sessionId)).orderBy(asc(quizAnswers.position));
+  }
+
+  // Quiz attempt operations
+  async createQuizAttempt(insertAttempt: InsertQuizAttempt): Promise<QuizAttempt> {
+    const [attempt] = await this.db.insert(quizAttempts).values(insertAttempt).returning();
+    return attempt;
+  }
+
+  async getQuizAttempt(id: number): Promise<QuizAttempt | undefined> {
+    const [attempt] = await this.db.select().from(quizAttempts).where(eq(quizAttempts.id, id));
+    return attempt;
+  }
+
+  async updateQuizAttempt(id: number, updates: Partial<QuizAttempt>): Promise<QuizAttempt | undefined> {
+    const { id: _id, ...values } = updates;
+    if (Object.keys(values).length === 0) return this.getQuizAttempt(id);
+
+    const [attempt] = await this.db.update(quizAttempts).set(values).where(eq(quizAttempts.id, id)).returning();
+    return attempt;
+  }
+
+  // La tentative est verrouillée le temps de la transaction : deux réponses ou jokers simultanés
+  // sont appliqués l'un après l'autre, sans perdre la première écriture
+  private async changeQuizAttempt(id: number, change: (attempt: QuizAttempt) => Partial<QuizAttempt> | null): Promise<QuizAttempt | undefined> {
+    return this.db.transaction(async (tx) => {
+      const [current] = await tx.select().from(quizAttempts).where(eq(quizAttempts.id, id)).for("update");
+      if (!current || current.finishedAt) return undefined;
+
+      const updates = change(current);
+      if (!updates) return undefined;
+      const [attempt] = await tx.update(quizAttempts).set(updates).where(eq(quizAttempts.id, id)).returning();
+      return attempt;
+    });
+  }
+
+  async recordAttemptAnswer(id: number, questionId: number, answer: AnswerValue | undefined, answeredAt: number): Promise<QuizAttempt | undefined> {
+    return this.changeQuizAttempt(id, (attempt) => questionId in attempt.answerTimes ? null : {
+      answers: answer !== undefined ? { ...attempt.answers, [questionId]: answer } : attempt.answers,
+      answerTimes: { ...attempt.answerTimes, [questionId]: answeredAt },
+    });
+  }
+
+  async recordAttemptLifeline(id: number, use: LifelineUse, closedAt: number | null): Promise<QuizAttempt | undefined> {
+    return this.changeQuizAttempt(id, (attempt) => attempt.lifelinesUsed.some((used) => used.type === use.type) ? null : {
+      lifelinesUsed: [...attempt.lifelinesUsed, use],
+      answerTimes: closedAt !== null ? { ...attempt.answerTimes, [use.questionId]: closedAt } : attempt.answerTimes,
+    });
+  }
+
+  // Mise à jour conditionnelle : de deux fins simultanées, seule la première obtient la ligne
+  async finishQuizAttempt(id: number, finishedAt: Date): Promise<QuizAttempt | undefined> {
+    const [attempt] = await this.db
+      .update(quizAttempts)
+      .set({ finishedAt })
+      .where(and(eq(quizAttempts.id, id), isNull(quizAttempts.finishedAt)))
+      .returning();
+    return attempt;
+  }
+
+  // User stats operations
+  async getUserStats(userId: number): Promise<UserStats[]> {
+    return this.db.select().from(userStats).where(eq(userStats.userId, userId)).orderBy(asc(userStats.id));
+  }
+
+  async getUserStatsByTheme(userId: number, themeId: number): Promise<UserStats | undefined> {
+    const [stats] = await this.db
+      .select()
+      .from(userStats)
+      .where(and(eq(userStats.userId, userId), eq(userStats.themeId, themeId)));
+    return stats;
+  }
+
+  async updateUserStats(userId: number, themeId: number, statsUpdate: Partial<UserStats>): Promise<UserStats> {
+    const { id: _id, userId: _userId, themeId: _themeId, ...values } = statsUpdate;
+
+    // Upsert sur la contrainte unique (user_id, theme_id)
+    const [stats] = await this.db
+      .insert(userStats)
+      .values({ userId, themeId, ...values })
+      .onConflictDoUpdate({
+        target: [userStats.userId, userStats.themeId],
+        set: { userId, themeId, ...values },
+      })
+      .returning();
+    return stats;
+  }
+
+  // Upsert calculé par Postgres à partir de la ligne existante : deux quiz terminés en même temps
+  // sur le même thème sont tous deux comptés
+  private async updateUserStatsAfterQuiz(db: Database, session: QuizSession) {
+    await db
+      .insert(userStats)
+      .values({
+        userId: session.userId,
+        themeId: session.themeId,
+        totalQuizzes: 1,
+        bestScore: session.score,
+        averageScore: session.score,
+        totalTimeSpent: session.timeSpent,
+      })
+      .onConflictDoUpdate({
+        target: [userStats.userId, userStats.themeId],
+        set: {
+          totalQuizzes: sql`${userStats.totalQuizzes} + 1`,
+          averageScore: sql`round((${userStats.averageScore} * ${userStats.totalQuizzes} + excluded.average_score)::numeric / (${userStats.totalQuizzes} + 1))`,
+          bestScore: sql`greatest(${userStats.bestScore}, excluded.best_score)`,
+          totalTimeSpent: sql`${userStats.totalTimeSpent} + excluded.total_time_spent`,
+        },
+      });
+  }
+
+  // Question review operations
+  async getQuestionReview(userId: number, questionId: number): Promise<QuestionReview | undefined> {
+    const [review] = await this.db
+      .select()
+      .from(questionReviews)
+      .where(and(eq(questionReviews.userId, userId), eq(questionReviews.questionId, questionId)));
+    return review;
+  }
+
+  async getQuestionReviews(userId: number): Promise<QuestionReview[]> {
+    return this.db.select().from(questionReviews).where(eq(questionReviews.userId, userId)).orderBy(asc(questionReviews.id));
+  }
+
+  async updateQuestionReview(userId: number, questionId: number, updates: Partial<QuestionReview>): Promise<QuestionReview> {
+    const { id: _id, userId: _userId, questionId: _questionId, ...values } = updates;
+
+    // Upsert sur la contrainte unique (user_id, question_id)
+    const [review] = await this.db
+      .insert(questionReviews)
+      .values({ userId, questionId, ...values })
+      .onConflictDoUpdate({
+        target: [questionReviews.userId, questionReviews.questionId],
+        set: { userId, questionId, ...values },
+      })
+      .returning();
+    return review;
+  }
+
+  // Auth token operations
+  async createAuthToken(insertToken: InsertAuthToken): Promise<AuthToken> {
+    const [token] = await this.db.insert(authTokens).values(insertToken).returning();
+    return token;
+  }
+
+  // Une seule requête conditionnelle : deux utilisations concurrentes du même jeton ne peuvent pas réussir toutes les deux
+  async consumeAuthToken(tokenHash: string, purpose: AuthTokenPurpose, now: Date): Promise<AuthToken | undefined> {
+    const [token] = await this.db
+      .update(authTokens)
+      .set({ usedAt: now })
+      .where(and(
+        eq(authTokens.tokenHash, tokenHash),
+        eq(authTokens.purpose, purpose),
+        isNull(authTokens.usedAt),
+        gt(authTokens.expiresAt, now),
+      ))
+      .returning();
+    return token;
+  }
+
+  async revokeAuthTokens(userId: number, purpose: AuthTokenPurpose): Promise<void> {
+    await this.db
+      .update(authTokens)
+      .set({ usedAt: new Date() })
+      .where(and(eq(authTokens.userId, userId), eq(authTokens.purpose, purpose), isNull(authTokens.usedAt)));
+  }
+
+  // Two-factor operations
+  async getTwoFactorSecret(userId: number): Promise<TwoFactorSecret | undefined> {
+    const [record] = await this.db.select().from(twoFactorSecrets).where(eq(twoFactorSecrets.userId, userId));
+    return record;
+  }
+
+  async saveTwoFactorSecret(userId: number, secret: string): Promise<TwoFactorSecret> {
+    const [record] = await this.db
+      .insert(twoFactorSecrets)
+      .values({ userId, secret })
+      .onConflictDoUpdate({
+        target: twoFactorSecrets.userId,
+        set: { secret, enabledAt: null, lastUsedStep: null, createdAt: new Date() },
+      })
+      .returning();
+    return record;
+  }
+
+  async enableTwoFactor(userId: number, step: number, now: Date): Promise<TwoFactorSecret | undefined> {
+    const [record] = await this.db
+      .update(twoFactorSecrets)
+      .set({ enabledAt: now, lastUsedStep: step })
+      .where(eq(twoFactorSecrets.userId, userId))
+      .returning();
+    return record;
+  }
+
+  // Mise à jour conditionnelle : deux connexions simultanées avec le même code ne peuvent pas réussir toutes les deux
+  async useTwoFactorStep(userId: number, step: number): Promise<boolean> {
+    const updated = await this.db
+      .update(twoFactorSecrets)
+      .set({ lastUsedStep: step })
+      .where(and(
+        eq(twoFactorSecrets.userId, userId),
+        or(isNull(twoFactorSecrets.lastUsedStep), lt(twoFactorSecrets.lastUsedStep, step)),
+      ))
+      .returning({ userId: twoFactorSecrets.userId });
+    return updated.length > 0;
+  }
+
+  async deleteTwoFactor(userId: number): Promise<void> {
+    await this.db.transaction(async (tx) => {
+      await tx.delete(recoveryCodes).where(eq(recoveryCodes.userId, userId));
+      await tx.delete(twoFactorSecrets).where(eq(twoFactorSecrets.userId, userId));
+    });
+  }
+
+  async replaceRecoveryCodes(userId: number, codeHashes: string[]): Promise<void> {
+    await this.db.transaction(async (tx) => {
+      await tx.delete(recoveryCodes).where(eq(recoveryCodes.userId, userId));
+      if (codeHashes.length > 0) {
+        await tx.insert(recoveryCodes).values(codeHashes.map(codeHash => ({ userId, codeHash })));
+      }
+    });
+  }
+
+  async consumeRecoveryCode(userId: number, codeHash: string, now: Date): Promise<boolean> {
+    const used = await this.db
+      .update(recoveryCodes)
+      .set({ usedAt: now })
+      .where(and(eq(recoveryCodes.userId, userId), eq(recoveryCodes.codeHash, codeHash), isNull(recoveryCodes.usedAt)))
+      .returning({ id: recoveryCodes.id });
+    return used.length > 0;
+  }
+
+  async countRecoveryCodes(userId: number): Promise<number> {
+    const [{ total }] = await this.db
+      .select({ total: count() })
+      .from(recoveryCodes)
+      .where(and(eq(recoveryCodes.userId, userId), isNull(recoveryCodes.usedAt)));
+    return total;
+  }
+
+  // Login throttle operations
+  async getLoginThrottles(keys: string[]): Promise<LoginThrottle[]> {
+    if (keys.length === 0) return [];
+    return this.db.select().from(loginThrottles).where(inArray(loginThrottles.key, keys));
+  }
+
+  // La ligne est verrouillée le temps de la transaction : des tentatives simultanées sont comptées
+  // l'une après l'autre, et chacune voit le blocage posé par les précédentes
+  async reserveLoginAttempt(key: string, now: Date, resetBefore: Date, blockFor: (failures: number) => Date | null): Promise<{ throttle: LoginThrottle; counted: boolean }> {
+    return this.db.transaction(async (tx) => {
+      await tx.insert(loginThrottles).values({ key }).onConflictDoNothing({ target: loginThrottles.key });
+      const [existing] = await tx.select().from(loginThrottles).where(eq(loginThrottles.key, key)).for("update");
+      if (existing.blockedUntil && existing.blockedUntil > now) {
+        return { throttle: existing, counted: false };
+      }
+
+      const stale = !existing.lastFailureAt || existing.lastFailureAt < resetBefore;
+      const failures = stale ? 1 : existing.failures + 1;
+      const [throttle] = await tx
+        .update(loginThrottles)
+        .set({ failures, lastFailureAt: now, blockedUntil: blockFor(failures) ?? existing.blockedUntil })
+        .where(eq(loginThrottles.key, key))
+        .returning();
+      return { throttle, counted: true };
+    });
+  }
+
+  async releaseLoginAttempt(key: string): Promise<void> {
+    await this.db
+      .update(loginThrottles)
+      .set({ failures: sql`greatest(${loginThrottles.failures} - 1, 0)` })
+      .where(eq(loginThrottles.key, key));
+  }
+
+  async clearLoginThrottle(key: string): Promise<boolean> {
+    const deleted = await this.db.delete(loginThrottles).where(eq(loginThrottles.key, key)).returning({ id: loginThrottles.id });
+    return deleted.length > 0;
+  }
+
+  async getBlockedLoginThrottles(now: Date): Promise<LoginThrottle[]> {
+    return this.db
+      .select()
+      .from(loginThrottles)
+      .where(gt(loginThrottles.blockedUntil, now))
+      .orderBy(desc(loginThrottles.blockedUntil));
+  }
+
+  async recordLoginAttempt(insertAttempt: InsertLoginAttempt): Promise<LoginAttempt> {
+    const [attempt] = await this.db.insert(loginAttempts).values(insertAttempt).returning();
+    return attempt;
+  }
+
+  async getRecentLoginAttempts(limit: number): Promise<LoginAttempt[]> {
+    return this.db.select().from(loginAttempts).orderBy(desc(loginAttempts.createdAt), desc(loginAttempts.id)).limit(limit);
+  }
+
+  // Leaderboard operations
+  // Lectures servies par l'index (theme_id, period, score desc, user_id) de leaderboard_scores
+  private boardFilter(board: LeaderboardBoard) {
+    return and(
+      eq(leaderboardScores.themeId, board.themeId ?? 0),
+      eq(leaderboardScores.period, board.period),
+      eq(users.leaderboardOptOut, false),
+    );
+  }
+
+  // Lignes classées strictement avant la clé, dans l'ordre (score décroissant, id croissant)
+  private aheadOf(key: RankingKey) {
+    return or(
+      gt(leaderboardScores.score, key.score),
+      and(eq(leaderboardScores.score, key.score), lt(leaderboardScores.userId, key.userId)),
+    );
+  }
+
+  private behind(key: RankingKey) {
+    return or(
+      lt(leaderboardScores.score, key.score),
+      and(eq(leaderboardScores.score, key.score), gt(leaderboardScores.userId, key.userId)),
+    );
+  }
+
+  async getLeaderboardRows(board: LeaderboardBoard, options: { after?: RankingKey; before?: RankingKey; limit: number }): Promise<LeaderboardScore[]> {
+    const query = this.db
+      .select({ user: users, score: leaderboardScores.score })
+      .from(leaderboardScores)
+      .innerJoin(users, eq(users.id, leaderboardScores.userId));
+
+    if (options.before) {
+      // Parcours à rebours depuis la clé, puis remise dans l'ordre du classement
+      const rows = await query
+        .where(and(this.boardFilter(board), this.aheadOf(options.before)))
+        .orderBy(asc(leaderboardScores.score), desc(leaderboardScores.userId))
+        .limit(options.limit);
+      return rows.reverse();
+    }
+
+    return query
+      .where(and(this.boardFilter(board), options.after ? this.behind(options.after) : undefined))
+      .orderBy(desc(leaderboardScores.score), asc(leaderboardScores.userId))
+      .limit(options.limit);
+  }
+
+  async countLeaderboardAhead(board: LeaderboardBoard, key: RankingKey): Promise<number> {
+    const [{ total }] = await this.db
+      .select({ total: count() })
+      .from(leaderboardScores)
+      .innerJoin(users, eq(users.id, leaderboardScores.userId))
+      .where(and(this.boardFilter(board), this.aheadOf(key)));
+    return total;
+  }
+
+  async getLeaderboardScore(board: LeaderboardBoard, userId: number): Promise<number | undefined> {
+    const [row] = await this.db
+      .select({ score: leaderboardScores.score })
+      .from(leaderboardScores)
+      .where(and(
+        eq(leaderboardScores.userId, userId),
+        eq(leaderboardScores.themeId, board.themeId ?? 0),
+        eq(leaderboardScores.period, board.period),
+      ));
+    return row?.score;
+  }
+
+  private async updateLeaderboardsAfterQuiz(db: Database, session: QuizSession) {
+    const rows = periodKeys(session.completedAt).flatMap((period) => [0, session.themeId].map((themeId) => ({
+      userId: session.userId,
+      themeId,
+      period,
+      score: session.pointsEarned,
+    })));
+
+    // Upsert sur la contrainte unique (user_id, theme_id, period) : les points s'ajoutent au cumul
+    await db
+      .insert(leaderboardScores)
+      .values(rows)
+      .onConflictDoUpdate({
+        target: [leaderboardScores.userId, leaderboardScores.themeId, leaderboardScores.period],
+        set: { score: sql`${leaderboardScores.score} + excluded.score` },
+      });
+  }
+}
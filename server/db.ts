@@ -0,0 +1,16 @@
+import pg from "pg";
+import { drizzle } from "drizzle-orm/node-postgres";
+import type { PgDatabase, PgQueryResultHKT } from "drizzle-orm/pg-core";
+import * as schema from "@shared/schema";
+
+// Type commun à tous les drivers Drizzle Postgres (node-postgres, pglite, neon...)
+// afin que DrizzleStorage puisse être testé contre une base embarquée.
+export type Database = PgDatabase<PgQueryResultHKT, typeof schema>;
+
+export function createPool(connectionString: string) {
+  return new pg.Pool({ connectionString });
+}
+
+export function createDb(pool: pg.Pool): Database {
+  return drizzle(pool, { schema });
+}
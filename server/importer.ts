@@ -0,0 +1,131 @@
+import { contentStatuses, questionInputSchema, type ContentStatus, type Question, type QuestionInput } from "@shared/schema";
+import { questionInputToFields, questionToInput, type ImportReport, type ImportRowReport, type QuestionFileFormat } from "@shared/questions";
+import { z } from "zod";
+import type { IStorage } from "./storage";
+import { normalizeText } from "./questions";
+import { parseQuestionFile, serializeQuestionFile, type ParsedQuestion, type QuestionPack, type SerializedQuestions } from "./question-formats";
+
+export interface ImportOptions {
+  dryRun?: boolean;
+  authorId?: number | null;
+  // État des questions créées : brouillon par défaut, à soumettre à relecture
+  status?: ContentStatus;
+}
+
+// Énoncé d'une ligne invalide, repris dans le rapport s'il est lisible
+const questionTextSchema = z.object({ question: z.string() });
+
+// Valide chaque question lue puis la crée dans le thème, sauf en simulation (dryRun)
+export async function importParsedQuestions(
+  storage: IStorage,
+  themeId: number,
+  format: QuestionFileFormat,
+  parsed: ParsedQuestion[],
+  options: ImportOptions = {},
+): Promise<ImportReport> {
+  const dryRun = options.dryRun ?? false;
+
+  // Doublons : même énoncé (casse, accents et ponctuation ignorés) dans le thème, quel que soit
+  // son état, ou plus haut dans le fichier
+  const existing = new Map<string, number>();
+  for (const question of await storage.getQuestionsByTheme(themeId, contentStatuses)) {
+    existing.set(normalizeText(question.question), question.id);
+  }
+  const seenRows = new Map<string, number>();
+
+  const rows: ImportRowReport[] = [];
+  for (const { row, data, error } of parsed) {
+    if (error) {
+      rows.push({ row, status: "invalid", errors: [error] });
+      continue;
+    }
+
+    const result = questionInputSchema.safeParse(data);
+    if (!result.success) {
+      rows.push({
+        row,
+        status: "invalid",
+        question: questionTextSchema.safeParse(data).data?.question,
+        errors: result.error.errors.map((issue) => (issue.path.length ? `${issue.path.join(".")} : ${issue.message}` : issue.message)),
+      });
+      continue;
+    }
+
+    const input = result.data;
+    const key = normalizeText(input.question);
+    const report = { row, question: input.question, type: input.type };
+
+    if (existing.has(key)) {
+      rows.push({ ...report, status: "duplicate", duplicateOf: existing.get(key) });
+      continue;
+    }
+    if (seenRows.has(key)) {
+      rows.push({ ...report, status: "duplicate", duplicateOfRow: seenRows.get(key) });
+      continue;
+    }
+    seenRows.set(key, row);
+
+    if (dryRun) {
+      rows.push({ ...report, status: "valid" });
+    } else {
+      await storage.createQuestion(
+        { ...questionInputToFields(input), themeId, status: options.status ?? "draft" },
+        options.authorId ?? null,
+      );
+      rows.push({ ...report, status: "created" });
+    }
+  }
+
+  const count = (status: ImportRowReport["status"]) => rows.filter((r) => r.status === status).length;
+  return {
+    format,
+    dryRun,
+    total: rows.length,
+    created: count("created"),
+    valid: count("valid"),
+    duplicates: count("duplicate"),
+    invalid: count("invalid"),
+    rows,
+  };
+}
+
+export async function importQuestions(
+  storage: IStorage,
+  themeId: number,
+  format: QuestionFileFormat,
+  content: string,
+  options: ImportOptions = {},
+): Promise<ImportReport> {
+  return importParsedQuestions(storage, themeId, format, parseQuestionFile(format, content), options);
+}
+
+export async function exportQuestions(storage: IStorage, themeId: number, format: QuestionFileFormat): Promise<SerializedQuestions | undefined> {
+  const theme = await storage.getTheme(themeId);
+  if (!theme) return undefined;
+
+  const questions = await storage.getQuestionsByTheme(themeId, contentStatuses);
+  return serializeQuestionFile(
+    format,
+    { name: theme.name, description: theme.description, icon: theme.icon, color: theme.color },
+    questions.map((question: Question): QuestionInput => questionToInput(question)),
+  );
+}
+
+// Charge un pack JSON (thèmes et questions) via l'import, par exemple les données initiales,
+// directement publié
+export async function loadQuestionPack(storage: IStorage, pack: QuestionPack) {
+  for (const { questions, ...themeData } of pack.themes) {
+    const theme = await storage.createTheme({ ...themeData, isActive: true, status: "published" });
+    const report = await importParsedQuestions(
+      storage,
+      theme.id,
+      "json",
+      questions.map((data, index) => ({ row: index + 1, data })),
+      { status: "published" },
+    );
+
+    if (report.invalid > 0 || report.duplicates > 0) {
+      console.warn(`Question pack "${theme.name}": ${report.invalid} invalid and ${report.duplicates} duplicate questions skipped`);
+    }
+  }
+}
@@ -3,6 +3,10 @@ import { registerRoutes } from "./routes";
 import { log } from "./vite"; // Nous n'avons besoin que de 'log' ici, 'setupVite' et 'serveStatic' sont supprimés car le backend ne gère pas le frontend sur Render.
 
 const app = express();
+// Derrière un proxy (Render, load balancer), req.ip doit être l'adresse du client pour la limitation des connexions
+if (process.env.TRUST_PROXY) {
+  app.set("trust proxy", Number(process.env.TRUST_PROXY) || process.env.TRUST_PROXY);
+}
 app.use(express.json());
 app.use(express.urlencoded({ extended: false }));
 
@@ -39,7 +43,7 @@ app.use((req, res, next) => {
 (async () => {
   // `registerRoutes` est appelé ici. Il est supposé configurer 'app' et peut-être retourner une instance de serveur HTTP si nécessaire.
   // En général avec Express, `app.listen` est suffisant.
-  await registerRoutes(app);
+  const server = await registerRoutes(app);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
     const status = err.status || err.statusCode || 500;
@@ -59,8 +63,9 @@ app.use((req, res, next) => {
   // Écoute sur toutes les interfaces réseau pour être accessible par Render.
   const hostname = '0.0.0.0';
 
-  // Le serveur Express écoute directement sur le port et le hostname spécifiés.
-  app.listen(port, hostname, () => {
+  // Le serveur HTTP retourné par registerRoutes écoute sur le port et le hostname spécifiés
+  // (il porte aussi le serveur WebSocket des parties multijoueur).
+  server.listen(port, hostname, () => {
     log(`serving on port ${port}`);
   });
 
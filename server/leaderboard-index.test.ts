@@ -0,0 +1,105 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { RankingIndex, type RankingKey } from "./leaderboard-index";
+
+// Générateur pseudo-aléatoire déterministe (mulberry32), comme script/bench-leaderboard.ts :
+// un échec se reproduit à l'identique
+function random(seed: number) {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Référence naïve : tous les scores, triés à chaque lecture
+class SortedReference {
+  private scores = new Map<number, number>();
+  private hidden = new Set<number>();
+
+  add(userId: number, points: number, visible: boolean) {
+    this.scores.set(userId, (this.scores.get(userId) ?? 0) + points);
+    if (visible) this.hidden.delete(userId);
+    else this.hidden.add(userId);
+  }
+
+  setVisible(userId: number, visible: boolean) {
+    if (!this.scores.has(userId)) return;
+    if (visible) this.hidden.delete(userId);
+    else this.hidden.add(userId);
+  }
+
+  entries(): RankingKey[] {
+    return Array.from(this.scores)
+      .filter(([userId]) => !this.hidden.has(userId))
+      .map(([userId, score]) => ({ score, userId }))
+      .sort((a, b) => b.score - a.score || a.userId - b.userId);
+  }
+}
+
+describe("RankingIndex", () => {
+  it("orders by score, then by id for ties", () => {
+    const index = new RankingIndex();
+    index.add(3, 10, true);
+    index.add(1, 10, true);
+    index.add(2, 30, true);
+    index.add(4, 5, false);
+
+    assert.deepEqual(index.slice({ limit: 10 }), [
+      { score: 30, userId: 2 },
+      { score: 10, userId: 1 },
+      { score: 10, userId: 3 },
+    ]);
+    assert.equal(index.size, 3);
+    assert.equal(index.countAhead({ score: 10, userId: 0 }), 1);
+    assert.equal(index.scoreOf(4), 5);
+  });
+
+  it("matches a sorted-array reference under random updates", () => {
+    for (let round = 0; round < 50; round++) {
+      const rand = random(round + 1);
+      const index = new RankingIndex();
+      const reference = new SortedReference();
+      const userCount = 5 + Math.floor(rand() * 60);
+
+      for (let operation = 0; operation < 400; operation++) {
+        const userId = 1 + Math.floor(rand() * userCount);
+        const visible = rand() < 0.85;
+        if (rand() < 0.8) {
+          // Petits écarts de points : beaucoup d'ex aequo
+          const points = Math.floor(rand() * 6);
+          index.add(userId, points, visible);
+          reference.add(userId, points, visible);
+        } else {
+          index.setVisible(userId, visible);
+          reference.setVisible(userId, visible);
+        }
+
+        const expected = reference.entries();
+        const context = `tour ${round}, opération ${operation}`;
+        assert.equal(index.size, expected.length, context);
+        assert.deepEqual(index.slice({ limit: expected.length + 1 }), expected, context);
+
+        const key = { score: Math.floor(rand() * 40), userId: Math.floor(rand() * (userCount + 2)) };
+        const ahead = expected.filter((e) => e.score > key.score || (e.score === key.score && e.userId < key.userId)).length;
+        assert.equal(index.countAhead(key), ahead, context);
+
+        if (expected.length === 0) continue;
+        const position = Math.floor(rand() * expected.length);
+        const limit = 1 + Math.floor(rand() * 8);
+        assert.deepEqual(index.slice({ limit }), expected.slice(0, limit), context);
+        assert.deepEqual(
+          index.slice({ after: expected[position], limit }),
+          expected.slice(position + 1, position + 1 + limit),
+          context,
+        );
+        assert.deepEqual(
+          index.slice({ before: expected[position], limit }),
+          expected.slice(Math.max(0, position - limit), position),
+          context,
+        );
+      }
+    }
+  });
+});
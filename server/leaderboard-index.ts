@@ -0,0 +1,177 @@
+// Clé d'ordre du classement : score décroissant, puis id croissant pour départager les ex aequo
+export interface RankingKey {
+  score: number;
+  userId: number;
+}
+
+function comesBefore(a: RankingKey, b: RankingKey): boolean {
+  return a.score > b.score || (a.score === b.score && a.userId < b.userId);
+}
+
+// Liste à enjambements indexée : chaque lien mémorise le nombre d'entrées qu'il saute,
+// ce qui donne le rang d'une clé et l'entrée à une position donnée en O(log n)
+interface SkipNode {
+  key: RankingKey;
+  next: Array<SkipNode | null>;
+  span: number[];
+}
+
+const maxLevel = 32;
+
+function randomLevel(): number {
+  let level = 1;
+  while (level < maxLevel && Math.random() < 0.25) level++;
+  return level;
+}
+
+// Classement d'un thème (ou global) sur une période, tenu trié à chaque session enregistrée.
+// Lectures (rang, page, voisins) et mises à jour sont en O(log n).
+export class RankingIndex {
+  // Score de chaque joueur, y compris ceux masqués des classements publics
+  private scores = new Map<number, number>();
+  private hidden = new Set<number>();
+  // Joueurs visibles uniquement, dans l'ordre du classement
+  private head: SkipNode = { key: { score: Infinity, userId: 0 }, next: [null], span: [0] };
+  private level = 1;
+  private length = 0;
+
+  get size(): number {
+    return this.length;
+  }
+
+  // Nombre d'entrées visibles classées strictement avant la clé
+  countAhead(key: RankingKey): number {
+    let node = this.head;
+    let rank = 0;
+    for (let i = this.level - 1; i >= 0; i--) {
+      while (node.next[i] && comesBefore(node.next[i]!.key, key)) {
+        rank += node.span[i];
+        node = node.next[i]!;
+      }
+    }
+    return rank;
+  }
+
+  scoreOf(userId: number): number | undefined {
+    return this.scores.get(userId);
+  }
+
+  // Entrées strictement après `after` (ou depuis le début), ou strictement avant `before`
+  slice(options: { after?: RankingKey; before?: RankingKey; limit: number }): RankingKey[] {
+    let start = 0;
+    let end = this.length;
+    if (options.before) {
+      end = this.countAhead(options.before);
+      start = Math.max(0, end - options.limit);
+    } else if (options.after) {
+      start = this.countAhead(options.after);
+      const first = this.nodeAt(start);
+      if (first?.key.userId === options.after.userId && first.key.score === options.after.score) start++;
+    }
+    end = Math.min(end, start + options.limit);
+
+    const entries: RankingKey[] = [];
+    for (let node = this.nodeAt(start); node && entries.length < end - start; node = node.next[0]) {
+      entries.push(node.key);
+    }
+    return entries;
+  }
+
+  add(userId: number, points: number, visible: boolean) {
+    const previous = this.scores.get(userId);
+    if (previous !== undefined && !this.hidden.has(userId)) this.remove({ score: previous, userId });
+
+    const score = (previous ?? 0) + points;
+    this.scores.set(userId, score);
+    if (visible) {
+      this.hidden.delete(userId);
+      this.insert({ score, userId });
+    } else {
+      this.hidden.add(userId);
+    }
+  }
+
+  setVisible(userId: number, visible: boolean) {
+    const score = this.scores.get(userId);
+    if (score === undefined || visible === !this.hidden.has(userId)) return;
+
+    if (visible) {
+      this.hidden.delete(userId);
+      this.insert({ score, userId });
+    } else {
+      this.hidden.add(userId);
+      this.remove({ score, userId });
+    }
+  }
+
+  // Entrée à la position donnée (0 : la première), null au-delà de la fin
+  private nodeAt(position: number): SkipNode | null {
+    let node = this.head;
+    let traversed = 0;
+    for (let i = this.level - 1; i >= 0; i--) {
+      while (node.next[i] && traversed + node.span[i] <= position + 1) {
+        traversed += node.span[i];
+        node = node.next[i]!;
+      }
+      if (traversed === position + 1) return node;
+    }
+    return null;
+  }
+
+  // Dernier nœud classé avant la clé à chaque niveau, et son rang
+  private predecessors(key: RankingKey): { update: SkipNode[]; rank: number[] } {
+    const update: SkipNode[] = [];
+    const rank: number[] = [];
+    let node = this.head;
+    for (let i = this.level - 1; i >= 0; i--) {
+      rank[i] = i === this.level - 1 ? 0 : rank[i + 1];
+      while (node.next[i] && comesBefore(node.next[i]!.key, key)) {
+        rank[i] += node.span[i];
+        node = node.next[i]!;
+      }
+      update[i] = node;
+    }
+    return { update, rank };
+  }
+
+  private insert(key: RankingKey) {
+    const { update, rank } = this.predecessors(key);
+    const level = randomLevel();
+    for (let i = this.level; i < level; i++) {
+      rank[i] = 0;
+      update[i] = this.head;
+      this.head.next[i] = null;
+      this.head.span[i] = this.length;
+    }
+    this.level = Math.max(this.level, level);
+
+    const node: SkipNode = { key, next: [], span: [] };
+    for (let i = 0; i < level; i++) {
+      node.next[i] = update[i].next[i];
+      update[i].next[i] = node;
+      node.span[i] = update[i].span[i] - (rank[0] - rank[i]);
+      update[i].span[i] = rank[0] - rank[i] + 1;
+    }
+    for (let i = level; i < this.level; i++) {
+      update[i].span[i]++;
+    }
+    this.length++;
+  }
+
+  private remove(key: RankingKey) {
+    const { update } = this.predecessors(key);
+    const node = update[0].next[0];
+    if (node?.key.userId !== key.userId) return;
+
+    for (let i = 0; i < this.level; i++) {
+      if (update[i].next[i] === node) {
+        update[i].span[i] += node.span[i] - 1;
+        update[i].next[i] = node.next[i];
+      } else {
+        update[i].span[i]--;
+      }
+    }
+    while (this.level > 1 && !this.head.next[this.level - 1]) this.level--;
+    this.length--;
+  }
+}
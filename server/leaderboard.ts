@@ -0,0 +1,132 @@
+import type { User } from "@shared/schema";
+import { leaderboardWindows, type LeaderboardEntry, type LeaderboardPage, type LeaderboardPosition, type LeaderboardWindow } from "@shared/leaderboard";
+import type { IStorage, LeaderboardBoard, LeaderboardScore } from "./storage";
+import type { RankingKey } from "./leaderboard-index";
+import { dayKey, rewardsConfig } from "./rewards";
+
+export const leaderboardConfig = {
+  defaultLimit: 20,
+  maxLimit: 100,
+  // Nombre de voisins affichés au-dessus et au-dessous du joueur
+  defaultNeighbours: 2,
+  maxNeighbours: 10,
+};
+
+export class LeaderboardCursorError extends Error {}
+
+// Clé de la période calendaire (jour, semaine commençant le lundi, mois) contenant `date`,
+// dans le fuseau des récompenses : c'est sous cette clé que les classements sont indexés
+export function periodKey(window: LeaderboardWindow, date: Date, timezone = rewardsConfig.timezone): string {
+  if (window === "all") return "all";
+
+  const key = dayKey(date, timezone);
+  if (window === "daily") return `daily:${key}`;
+  if (window === "monthly") return `monthly:${key.slice(0, 7)}`;
+
+  const monday = new Date(Date.parse(key));
+  monday.setUTCDate(monday.getUTCDate() - ((monday.getUTCDay() + 6) % 7));
+  return `weekly:${monday.toISOString().slice(0, 10)}`;
+}
+
+// Toutes les périodes auxquelles une session terminée à `date` contribue
+export function periodKeys(date: Date, timezone = rewardsConfig.timezone): string[] {
+  return leaderboardWindows.map((window) => periodKey(window, date, timezone));
+}
+
+export function displayName(user: Pick<User, "firstName" | "lastName">): string {
+  return user.lastName ? `${user.firstName} ${user.lastName.charAt(0)}.` : user.firstName;
+}
+
+function toEntry({ user, score }: LeaderboardScore, rank: number): LeaderboardEntry {
+  return { rank, username: user.username, displayName: displayName(user), avatarUrl: user.avatarUrl, score };
+}
+
+// Classement « standard » : les ex aequo partagent le même rang (1, 2, 2, 4).
+// `offset` est la position absolue de la première ligne ; seul le rang de celle-ci
+// demande une requête, les suivantes s'en déduisent.
+async function rankRows(
+  storage: IStorage,
+  board: LeaderboardBoard,
+  rows: LeaderboardScore[],
+  offset: number,
+): Promise<LeaderboardEntry[]> {
+  if (rows.length === 0) return [];
+
+  let rank = offset === 0 ? 1 : await storage.countLeaderboardAhead(board, { score: rows[0].score, userId: 0 }) + 1;
+  return rows.map((row, index) => {
+    if (index > 0 && row.score !== rows[index - 1].score) rank = offset + index + 1;
+    return toEntry(row, rank);
+  });
+}
+
+// Le curseur désigne la dernière ligne renvoyée, dans l'ordre (score décroissant, id croissant)
+function encodeCursor(row: LeaderboardScore): string {
+  return Buffer.from(JSON.stringify({ score: row.score, userId: row.user.id })).toString("base64url");
+}
+
+function decodeCursor(cursor: string): RankingKey {
+  try {
+    const { score, userId } = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    if (typeof score === "number" && typeof userId === "number") return { score, userId };
+  } catch {
+    // Curseur illisible : signalé ci-dessous
+  }
+  throw new LeaderboardCursorError("Curseur de pagination invalide");
+}
+
+export async function getLeaderboardPage(
+  storage: IStorage,
+  options: { window: LeaderboardWindow; themeId?: number; cursor?: string; limit?: number },
+  now: Date,
+): Promise<LeaderboardPage> {
+  const limit = Math.min(Math.max(1, options.limit ?? leaderboardConfig.defaultLimit), leaderboardConfig.maxLimit);
+  const board = { themeId: options.themeId, period: periodKey(options.window, now) };
+  const after = options.cursor ? decodeCursor(options.cursor) : undefined;
+
+  // Une ligne de plus que demandé pour savoir s'il reste une page
+  const rows = await storage.getLeaderboardRows(board, { after, limit: limit + 1 });
+  const page = rows.slice(0, limit);
+  const offset = after && page.length > 0
+    ? await storage.countLeaderboardAhead(board, { score: page[0].score, userId: page[0].user.id })
+    : 0;
+
+  return {
+    window: options.window,
+    entries: await rankRows(storage, board, page, offset),
+    nextCursor: rows.length > limit ? encodeCursor(page[page.length - 1]) : null,
+  };
+}
+
+export async function getLeaderboardPosition(
+  storage: IStorage,
+  user: User,
+  options: { window: LeaderboardWindow; themeId?: number; neighbours?: number },
+  now: Date,
+): Promise<LeaderboardPosition> {
+  const neighbours = Math.min(Math.max(0, options.neighbours ?? leaderboardConfig.defaultNeighbours), leaderboardConfig.maxNeighbours);
+  if (user.leaderboardOptOut) {
+    return { window: options.window, me: null, optedOut: true, above: [], below: [] };
+  }
+
+  const board = { themeId: options.themeId, period: periodKey(options.window, now) };
+  const score = await storage.getLeaderboardScore(board, user.id);
+  if (score === undefined) {
+    return { window: options.window, me: null, optedOut: false, above: [], below: [] };
+  }
+
+  const key = { score, userId: user.id };
+  const [index, above, below] = await Promise.all([
+    storage.countLeaderboardAhead(board, key),
+    neighbours > 0 ? storage.getLeaderboardRows(board, { before: key, limit: neighbours }) : [],
+    neighbours > 0 ? storage.getLeaderboardRows(board, { after: key, limit: neighbours }) : [],
+  ]);
+
+  const entries = await rankRows(storage, board, [...above, { user, score }, ...below], index - above.length);
+  return {
+    window: options.window,
+    me: entries[above.length],
+    optedOut: false,
+    above: entries.slice(0, above.length),
+    below: entries.slice(above.length + 1),
+  };
+}
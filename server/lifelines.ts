@@ -0,0 +1,33 @@
+import type { LifelineType, Question } from "@shared/schema";
+import { shuffle } from "./questions";
+import { optionOrder, seededRandom } from "./sampling";
+
+export const lifelineConfig = {
+  // Points retirés du total de la tentative pour chaque joker utilisé
+  costs: { hint: 5, fifty_fifty: 10, skip: 15 } as Record<LifelineType, number>,
+};
+
+export function isLifelineAvailable(type: LifelineType, question: Question): boolean {
+  switch (type) {
+    case "hint":
+      return !!question.hint;
+    case "fifty_fifty":
+      return question.type === "single_choice" && question.options.length > 2;
+    case "skip":
+      return true;
+  }
+}
+
+// Options écartées par le 50/50, en positions affichées : la moitié des options, toutes fausses,
+// tirées à partir de la graine de la tentative pour rester reproductibles
+export function fiftyFiftyEliminated(question: Question, seed: number): number[] {
+  const order = optionOrder(question, seed) ?? question.options.map((_, i) => i);
+  const wrong = order
+    .map((original, shown) => ({ original, shown }))
+    .filter(({ original }) => original !== question.correctAnswer)
+    .map(({ shown }) => shown);
+
+  return shuffle(wrong, seededRandom(seed ^ question.id))
+    .slice(0, Math.floor(question.options.length / 2))
+    .sort((a, b) => a - b);
+}
@@ -0,0 +1,85 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import MemStorage from "./storage";
+import { blockedUntilAfter, loginGuardConfig, recordLoginSuccess, reserveLoginAttempt } from "./login-guard";
+
+const now = new Date("2026-01-15T10:00:00Z");
+const delayAfter = (failures: number, limits = loginGuardConfig.account) =>
+  blockedUntilAfter(failures, limits, now)?.getTime() ?? null;
+const ms = (delay: number) => now.getTime() + delay;
+
+describe("login guard", () => {
+  describe("blockedUntilAfter", () => {
+    it("lets the free attempts through without delay", () => {
+      for (let failures = 0; failures <= loginGuardConfig.account.freeAttempts; failures++) {
+        assert.equal(delayAfter(failures), null);
+      }
+    });
+
+    it("doubles the delay after each further failure", () => {
+      const { freeAttempts } = loginGuardConfig.account;
+      assert.equal(delayAfter(freeAttempts + 1), ms(loginGuardConfig.backoffBaseMs));
+      assert.equal(delayAfter(freeAttempts + 2), ms(2 * loginGuardConfig.backoffBaseMs));
+      assert.equal(delayAfter(freeAttempts + 3), ms(4 * loginGuardConfig.backoffBaseMs));
+    });
+
+    it("caps the delay", () => {
+      const limits = { freeAttempts: 0, lockoutAfter: 1000, lockoutMs: 0 };
+      assert.equal(delayAfter(40, limits), ms(loginGuardConfig.backoffMaxMs));
+    });
+
+    it("locks the key out from the threshold on", () => {
+      const { lockoutAfter, lockoutMs } = loginGuardConfig.account;
+      assert.ok(delayAfter(lockoutAfter - 1)! < ms(lockoutMs));
+      assert.equal(delayAfter(lockoutAfter), ms(lockoutMs));
+      assert.equal(delayAfter(lockoutAfter + 5), ms(lockoutMs));
+    });
+  });
+
+  describe("reserveLoginAttempt", () => {
+    const storage = MemStorage.getInstance();
+    // Clés propres à chaque test : le stockage en mémoire est partagé
+    let nextKey = 0;
+    const keys = () => ({ ip: `ip:test-${nextKey}`, account: `account:test-${nextKey++}@example.com` });
+
+    it("blocks the account once its free attempts are used up", async () => {
+      const target = keys();
+      for (let i = 0; i < loginGuardConfig.account.freeAttempts + 1; i++) {
+        assert.equal(await reserveLoginAttempt(storage, target, now), 0);
+      }
+      assert.equal(await reserveLoginAttempt(storage, target, now), loginGuardConfig.backoffBaseMs);
+      // Le refus n'est pas compté : le délai ne s'allonge pas
+      assert.equal(await reserveLoginAttempt(storage, target, now), loginGuardConfig.backoffBaseMs);
+    });
+
+    it("starts counting again after the reset window", async () => {
+      const target = keys();
+      for (let i = 0; i < loginGuardConfig.account.freeAttempts + 1; i++) {
+        await reserveLoginAttempt(storage, target, now);
+      }
+      const later = new Date(now.getTime() + loginGuardConfig.resetAfterMs + 1);
+      assert.equal(await reserveLoginAttempt(storage, target, later), 0);
+      assert.equal((await storage.getLoginThrottles([target.account]))[0].failures, 1);
+    });
+
+    it("releases the account attempt when the address is blocked", async () => {
+      const target = keys();
+      const ipOnly = { ...keys(), ip: target.ip };
+      // Un essai par compte : seule l'adresse épuise ses essais libres
+      for (let i = 0; i < loginGuardConfig.ip.freeAttempts + 1; i++) {
+        assert.equal(await reserveLoginAttempt(storage, { ...keys(), ip: target.ip }, now), 0);
+      }
+      assert.equal(await reserveLoginAttempt(storage, ipOnly, now), loginGuardConfig.backoffBaseMs);
+      assert.equal((await storage.getLoginThrottles([ipOnly.account]))[0].failures, 0);
+    });
+
+    it("clears the account counter after a successful login", async () => {
+      const target = keys();
+      await reserveLoginAttempt(storage, target, now);
+      await reserveLoginAttempt(storage, target, now);
+      await recordLoginSuccess(storage, target);
+      assert.deepEqual(await storage.getLoginThrottles([target.account]), []);
+      assert.equal((await storage.getLoginThrottles([target.ip]))[0].failures, 1);
+    });
+  });
+});
@@ -0,0 +1,91 @@
+import type { Request } from "express";
+import type { LoginFailureReason } from "@shared/schema";
+import type { IStorage } from "./storage";
+
+interface ThrottleLimits {
+  // Échecs tolérés avant d'imposer un délai entre deux essais
+  freeAttempts: number;
+  // Échecs au-delà desquels la clé est verrouillée pour lockoutMs
+  lockoutAfter: number;
+  lockoutMs: number;
+}
+
+export const loginGuardConfig = {
+  // Un compteur repart de zéro après cette durée sans échec (supérieure aux verrouillages)
+  resetAfterMs: 60 * 60 * 1000,
+  // Délai après chaque échec au-delà des essais libres : base × 2^(échecs - essais libres - 1), plafonné
+  backoffBaseMs: 1000,
+  backoffMaxMs: 15 * 60 * 1000,
+  // Un compte est visé par un seul email : on le protège plus tôt qu'une adresse IP, qui peut être partagée
+  account: { freeAttempts: 3, lockoutAfter: 10, lockoutMs: 30 * 60 * 1000 } as ThrottleLimits,
+  ip: { freeAttempts: 10, lockoutAfter: 50, lockoutMs: 30 * 60 * 1000 } as ThrottleLimits,
+};
+
+export interface LoginThrottleKeys {
+  ip: string;
+  account: string;
+}
+
+export function loginThrottleKeys(req: Request, email: string): LoginThrottleKeys {
+  return {
+    ip: `ip:${req.ip ?? "unknown"}`,
+    account: `account:${email.trim().toLowerCase()}`,
+  };
+}
+
+// Fin du blocage après `failures` échecs consécutifs, null tant que les essais libres ne sont pas épuisés
+export function blockedUntilAfter(failures: number, limits: ThrottleLimits, now: Date): Date | null {
+  if (failures >= limits.lockoutAfter) {
+    return new Date(now.getTime() + limits.lockoutMs);
+  }
+  if (failures <= limits.freeAttempts) return null;
+
+  const delay = loginGuardConfig.backoffBaseMs * 2 ** (failures - limits.freeAttempts - 1);
+  return new Date(now.getTime() + Math.min(delay, loginGuardConfig.backoffMaxMs));
+}
+
+// Compte la tentative comme un échec avant de vérifier le mot de passe ou le code : des essais
+// simultanés ne passent pas tous avant le premier échec enregistré. Renvoie les millisecondes à
+// attendre si une clé est bloquée (rien n'est alors compté), 0 si la vérification peut avoir lieu
+export async function reserveLoginAttempt(storage: IStorage, keys: LoginThrottleKeys, now: Date): Promise<number> {
+  const resetBefore = new Date(now.getTime() - loginGuardConfig.resetAfterMs);
+  // Le compte d'abord : sa limite est la plus basse
+  const targets: [string, ThrottleLimits][] = [
+    [keys.account, loginGuardConfig.account],
+    [keys.ip, loginGuardConfig.ip],
+  ];
+
+  const reserved: string[] = [];
+  for (const [key, limits] of targets) {
+    const { throttle, counted } = await storage.reserveLoginAttempt(key, now, resetBefore, (failures) => blockedUntilAfter(failures, limits, now));
+    if (!counted) {
+      await Promise.all(reserved.map((key) => storage.releaseLoginAttempt(key)));
+      return Math.max(1, throttle.blockedUntil!.getTime() - now.getTime());
+    }
+    reserved.push(key);
+  }
+  return 0;
+}
+
+// Identifiants valides : la tentative réservée n'était pas un échec
+export async function releaseLoginAttempt(storage: IStorage, keys: LoginThrottleKeys) {
+  await Promise.all([storage.releaseLoginAttempt(keys.account), storage.releaseLoginAttempt(keys.ip)]);
+}
+
+// Après une connexion réussie, seul le compteur du compte est remis à zéro : un compte valide
+// ne doit pas permettre de relancer les essais depuis la même adresse
+export async function recordLoginSuccess(storage: IStorage, keys: LoginThrottleKeys) {
+  await Promise.all([storage.clearLoginThrottle(keys.account), storage.releaseLoginAttempt(keys.ip)]);
+}
+
+// Journal des refus, pour les administrateurs ; userId est renseigné si l'email correspond à un compte
+export async function auditLoginFailure(storage: IStorage, req: Request, email: string, reason: LoginFailureReason) {
+  const user = await storage.getUserByEmail(email);
+  await storage.recordLoginAttempt({
+    email: email.slice(0, 320),
+    userId: user?.id ?? null,
+    ip: req.ip ?? null,
+    userAgent: req.get("user-agent")?.slice(0, 300) ?? null,
+    reason,
+  });
+}
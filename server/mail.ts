@@ -0,0 +1,71 @@
+import { mkdir, writeFile } from "fs/promises";
+import path from "path";
+import nodemailer, { type Transporter } from "nodemailer";
+
+export const mailConfig = {
+  from: process.env.MAIL_FROM || "QuizMaster <no-reply@quizmaster.local>",
+  // Adresse du client web, utilisée pour construire les liens envoyés par email
+  appUrl: (process.env.APP_URL || "http://localhost:5000").replace(/\/$/, ""),
+};
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+// Moyen d'envoi des emails : SMTP en production, fichiers ou console en local
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+export class SmtpTransport implements MailTransport {
+  private transporter: Transporter;
+
+  // url au format smtp(s)://utilisateur:motdepasse@hôte:port
+  constructor(url: string, private from = mailConfig.from) {
+    this.transporter = nodemailer.createTransport(url);
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transporter.sendMail({ from: this.from, ...message });
+  }
+}
+
+// Pour le développement : chaque email est écrit dans un fichier .eml du dossier donné,
+// ou affiché dans la console si aucun dossier n'est configuré
+export class FileTransport implements MailTransport {
+  constructor(private directory: string | null, private from = mailConfig.from) {}
+
+  async send(message: MailMessage): Promise<void> {
+    const content = [
+      `From: ${this.from}`,
+      `To: ${message.to}`,
+      `Subject: ${message.subject}`,
+      `Date: ${new Date().toUTCString()}`,
+      "Content-Type: text/plain; charset=utf-8",
+      "",
+      message.text,
+    ].join("\r\n");
+
+    if (!this.directory) {
+      console.log(`[mail] ----------\n${content}\n[mail] ----------`);
+      return;
+    }
+
+    await mkdir(this.directory, { recursive: true });
+    const name = `${Date.now()}-${message.to.replace(/[^a-zA-Z0-9.@-]/g, "_")}.eml`;
+    await writeFile(path.join(this.directory, name), content, "utf-8");
+  }
+}
+
+// SMTP_URL défini : envoi réel ; sinon MAIL_DIR (fichiers) ou la console.
+// Obligatoire en production : les emails contiennent les liens de vérification et de
+// réinitialisation, qui ne doivent pas finir dans les journaux du serveur
+export function createMailTransport(env: NodeJS.ProcessEnv = process.env): MailTransport {
+  if (env.SMTP_URL) return new SmtpTransport(env.SMTP_URL);
+  if (env.NODE_ENV === "production") {
+    throw new Error("SMTP_URL doit être défini en production");
+  }
+  return new FileTransport(env.MAIL_DIR || null);
+}
@@ -0,0 +1,405 @@
+import type { IncomingMessage, Server } from "http";
+import type { Request, RequestHandler, Response } from "express";
+import { randomInt } from "crypto";
+import { WebSocketServer, WebSocket } from "ws";
+import { answerValueSchema, type AnswerValue, type Question } from "@shared/schema";
+import type { ClientMessage, RankingEntry, RoomStateMessage, RoomStatus, ServerEnvelope, ServerMessage } from "@shared/multiplayer";
+import type { IStorage } from "./storage";
+import { recordQuizSession, type GradedQuestion } from "./rewards";
+import { toPublicQuestion, gradeAnswer, correctAnswerOf } from "./questions";
+import { quizQuestionPool } from "./themes";
+import { newSeed, sampleQuestions } from "./sampling";
+
+// Paramètres des parties multijoueur
+export const multiplayerConfig = {
+  path: "/ws/rooms",
+  secondsPerQuestion: 20,
+  pauseBetweenQuestionsMs: 5000,
+  maxPointsPerQuestion: 1000,
+  defaultQuestionCount: 10,
+  // Durée de conservation d'une salle terminée avant suppression
+  finishedRoomTtlMs: 5 * 60 * 1000,
+};
+
+const CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+
+interface RoomPlayer {
+  userId: number;
+  username: string;
+  socket: WebSocket | null;
+  score: number;
+  points: number;
+  graded: GradedQuestion[];
+}
+
+interface Room {
+  code: string;
+  hostId: number;
+  hostSocket: WebSocket | null;
+  themeId: number;
+  questionCount: number;
+  status: RoomStatus;
+  players: Map<number, RoomPlayer>;
+  questions: Question[];
+  currentIndex: number;
+  questionStartedAt: number;
+  deadline: number;
+  answers: Map<number, { answer: AnswerValue; at: number }>;
+  startedAt: number;
+  timer: NodeJS.Timeout | null;
+}
+
+function send(socket: WebSocket | null, message: ServerMessage) {
+  if (socket && socket.readyState === WebSocket.OPEN) {
+    const envelope: ServerEnvelope = { ...message, serverTime: Date.now() };
+    socket.send(JSON.stringify(envelope));
+  }
+}
+
+export function setupMultiplayer(server: Server, storage: IStorage, sessionMiddleware: RequestHandler) {
+  const rooms = new Map<string, Room>();
+  const wss = new WebSocketServer({ noServer: true });
+
+  const generateCode = () => {
+    let code: string;
+    do {
+      code = Array.from({ length: 6 }, () => CODE_ALPHABET[randomInt(CODE_ALPHABET.length)]).join("");
+    } while (rooms.has(code));
+    return code;
+  };
+
+  const broadcast = (room: Room, message: ServerMessage) => {
+    send(room.hostSocket, message);
+    room.players.forEach((player) => send(player.socket, message));
+  };
+
+  const rankings = (room: Room): RankingEntry[] =>
+    Array.from(room.players.values())
+      .map((p) => ({ userId: p.userId, username: p.username, score: p.score, points: p.points }))
+      .sort((a, b) => b.points - a.points || b.score - a.score)
+      .map((entry, index) => ({ ...entry, rank: index + 1 }));
+
+  const roomState = (room: Room): RoomStateMessage => ({
+    type: "room",
+    code: room.code,
+    hostId: room.hostId,
+    themeId: room.themeId,
+    status: room.status,
+    questionCount: room.questionCount,
+    players: Array.from(room.players.values()).map((p) => ({
+      userId: p.userId,
+      username: p.username,
+      connected: p.socket !== null,
+    })),
+  });
+
+  const closeRoom = (room: Room, reason: string) => {
+    if (room.timer) clearTimeout(room.timer);
+    broadcast(room, { type: "closed", message: reason });
+    rooms.delete(room.code);
+  };
+
+  const sendQuestion = (room: Room) => {
+    const question = room.questions[room.currentIndex];
+    room.status = "question";
+    room.answers = new Map();
+    room.questionStartedAt = Date.now();
+    room.deadline = room.questionStartedAt + multiplayerConfig.secondsPerQuestion * 1000;
+
+    broadcast(room, {
+      type: "question",
+      index: room.currentIndex,
+      total: room.questions.length,
+      question: toPublicQuestion(question),
+      deadline: room.deadline,
+    });
+
+    room.timer = setTimeout(() => endQuestion(room), room.deadline - Date.now());
+  };
+
+  const endQuestion = (room: Room) => {
+    if (room.status !== "question") return;
+    if (room.timer) clearTimeout(room.timer);
+    room.status = "results";
+
+    const question = room.questions[room.currentIndex];
+    const questionResults: Array<{ userId: number; correct: boolean; pointsEarned: number }> = [];
+
+    room.players.forEach((player) => {
+      const entry = room.answers.get(player.userId);
+      const correct = entry !== undefined && gradeAnswer(question, entry.answer);
+      let pointsEarned = 0;
+
+      if (correct) {
+        // Plus la réponse est rapide, plus elle rapporte (au minimum la moitié des points)
+        const remaining = Math.max(0, room.deadline - entry.at) / (room.deadline - room.questionStartedAt);
+        pointsEarned = Math.round(multiplayerConfig.maxPointsPerQuestion * (0.5 + 0.5 * remaining));
+        player.score++;
+        player.points += pointsEarned;
+      }
+
+      player.graded.push({
+        questionId: question.id,
+        difficulty: question.difficulty,
+        answer: entry?.answer ?? null,
+        correct,
+        timeTaken: entry ? Math.round((entry.at - room.questionStartedAt) / 1000) : null,
+        timeLimit: multiplayerConfig.secondsPerQuestion,
+      });
+      questionResults.push({ userId: player.userId, correct, pointsEarned });
+    });
+
+    broadcast(room, {
+      type: "question_result",
+      index: room.currentIndex,
+      correctAnswer: correctAnswerOf(question),
+      explanation: question.explanation,
+      results: questionResults,
+      rankings: rankings(room),
+    });
+
+    room.timer = setTimeout(() => {
+      room.currentIndex++;
+      if (room.currentIndex < room.questions.length) {
+        sendQuestion(room);
+      } else {
+        finishGame(room).catch((error) => console.error("Error finishing multiplayer game:", error));
+      }
+    }, multiplayerConfig.pauseBetweenQuestionsMs);
+  };
+
+  const finishGame = async (room: Room) => {
+    room.status = "finished";
+    room.timer = null;
+    const finalRankings = rankings(room);
+
+    broadcast(room, { type: "podium", podium: finalRankings.slice(0, 3), rankings: finalRankings });
+
+    // Chaque joueur obtient une session de quiz classique, avec ses récompenses ; l'échec
+    // d'un enregistrement n'empêche ni ceux des autres joueurs ni la suppression de la salle
+    const timeSpent = Math.round((Date.now() - room.startedAt) / 1000);
+    try {
+      for (const player of Array.from(room.players.values())) {
+        try {
+          const { session, rewards } = await recordQuizSession(storage, {
+            userId: player.userId,
+            themeId: room.themeId,
+            score: player.score,
+            totalQuestions: room.questions.length,
+            timeSpent,
+          }, player.graded);
+          send(player.socket, { type: "session", session, rewards });
+        } catch (error) {
+          console.error("Error recording multiplayer session:", error);
+          send(player.socket, { type: "error", message: "Erreur lors de l'enregistrement de votre partie" });
+        }
+      }
+    } finally {
+      room.timer = setTimeout(() => rooms.delete(room.code), multiplayerConfig.finishedRoomTtlMs);
+    }
+  };
+
+  const handleMessage = async (socket: WebSocket, userId: number, message: ClientMessage, current: { room: Room | null }) => {
+    switch (message.type) {
+      case "create": {
+        // Une nouvelle partie remplace celle en cours : l'ancienne est quittée (et fermée si elle n'a pas commencé)
+        if (current.room) handleDisconnect(socket, userId, current);
+
+        const theme = await storage.getTheme(Number(message.themeId));
+        if (!theme || !theme.isActive || theme.status !== "published") {
+          return send(socket, { type: "error", message: "Thème non trouvé" });
+        }
+        const questionCount = Math.max(1, Math.min(Number(message.questionCount) || multiplayerConfig.defaultQuestionCount, 50));
+        const room: Room = {
+          code: generateCode(),
+          hostId: userId,
+          hostSocket: socket,
+          themeId: theme.id,
+          questionCount,
+          status: "lobby",
+          players: new Map(),
+          questions: [],
+          currentIndex: 0,
+          questionStartedAt: 0,
+          deadline: 0,
+          answers: new Map(),
+          startedAt: 0,
+          timer: null,
+        };
+        rooms.set(room.code, room);
+        current.room = room;
+        return send(socket, roomState(room));
+      }
+
+      case "join": {
+        const room = rooms.get(String(message.code).toUpperCase());
+        if (!room) {
+          return send(socket, { type: "error", message: "Aucune partie avec ce code" });
+        }
+        if (room.hostId === userId) {
+          return send(socket, { type: "error", message: "Vous êtes l'hôte de cette partie" });
+        }
+
+        if (current.room && current.room !== room) handleDisconnect(socket, userId, current);
+
+        const existing = room.players.get(userId);
+        if (existing) {
+          // Reconnexion d'un joueur déjà inscrit
+          existing.socket = socket;
+        } else {
+          if (room.status !== "lobby") {
+            return send(socket, { type: "error", message: "La partie a déjà commencé" });
+          }
+          const user = await storage.getUser(userId);
+          if (!user) {
+            return send(socket, { type: "error", message: "Utilisateur non trouvé" });
+          }
+          // La partie a pu être lancée ou fermée pendant la lecture de l'utilisateur
+          if (rooms.get(room.code) !== room || room.status !== "lobby") {
+            return send(socket, { type: "error", message: "La partie a déjà commencé" });
+          }
+          room.players.set(userId, { userId, username: user.username, socket, score: 0, points: 0, graded: [] });
+        }
+        current.room = room;
+        return broadcast(room, roomState(room));
+      }
+
+      case "start": {
+        const room = current.room;
+        if (!room || room.hostId !== userId) {
+          return send(socket, { type: "error", message: "Seul l'hôte peut lancer la partie" });
+        }
+        if (room.status !== "lobby") {
+          return send(socket, { type: "error", message: "La partie a déjà commencé" });
+        }
+        if (room.players.size === 0) {
+          return send(socket, { type: "error", message: "Il faut au moins un joueur pour commencer" });
+        }
+
+        // Statut posé avant le tirage : un second lancement ou une inscription pendant l'attente sont refusés
+        room.status = "starting";
+        const questions = await quizQuestionPool(storage, room.themeId);
+        // L'hôte a pu quitter la salle pendant le tirage
+        if (rooms.get(room.code) !== room || room.status !== "starting") return;
+        if (questions.length === 0 || room.players.size === 0) {
+          room.status = "lobby";
+          broadcast(room, roomState(room));
+          return send(socket, {
+            type: "error",
+            message: questions.length === 0 ? "Ce thème ne contient aucune question" : "Il faut au moins un joueur pour commencer",
+          });
+        }
+        // Même tirage stratifié que les quiz en solo
+        room.questions = sampleQuestions(questions, room.questionCount, newSeed());
+        room.startedAt = Date.now();
+        broadcast(room, roomState(room));
+        return sendQuestion(room);
+      }
+
+      case "answer": {
+        const room = current.room;
+        const player = room?.players.get(userId);
+        if (!room || !player) {
+          return send(socket, { type: "error", message: "Vous ne participez pas à cette partie" });
+        }
+        const now = Date.now();
+        if (room.status !== "question" || message.index !== room.currentIndex || now > room.deadline) {
+          return send(socket, { type: "error", message: "Le temps de réponse est écoulé" });
+        }
+        if (room.answers.has(userId)) {
+          return send(socket, { type: "error", message: "Vous avez déjà répondu à cette question" });
+        }
+
+        const parsed = answerValueSchema.safeParse(message.answer);
+        if (!parsed.success) {
+          return send(socket, { type: "error", message: "Réponse invalide" });
+        }
+
+        room.answers.set(userId, { answer: parsed.data, at: now });
+        send(socket, { type: "answer_ack", index: message.index });
+        broadcast(room, { type: "answer_count", index: room.currentIndex, answered: room.answers.size, total: room.players.size });
+
+        // Tous les joueurs connectés ont répondu : inutile d'attendre la fin du compte à rebours
+        const connected = Array.from(room.players.values()).filter((p) => p.socket !== null);
+        if (connected.every((p) => room.answers.has(p.userId))) {
+          endQuestion(room);
+        }
+        return;
+      }
+
+      case "leave": {
+        return handleDisconnect(socket, userId, current);
+      }
+
+      default:
+        return send(socket, { type: "error", message: "Message inconnu" });
+    }
+  };
+
+  // Seule la connexion en cours d'un joueur le déconnecte : la fermeture tardive d'un ancien onglet,
+  // après une reconnexion, ne touche pas à la nouvelle
+  const handleDisconnect = (socket: WebSocket, userId: number, current: { room: Room | null }) => {
+    const room = current.room;
+    current.room = null;
+    if (!room) return;
+    // Tant que la première question n'est pas envoyée, la partie n'a pas commencé
+    const notStarted = room.status === "lobby" || room.status === "starting";
+
+    if (room.hostId === userId) {
+      if (room.hostSocket !== socket) return;
+      room.hostSocket = null;
+      if (notStarted) {
+        closeRoom(room, "L'hôte a quitté la partie");
+      }
+      return;
+    }
+
+    const player = room.players.get(userId);
+    if (!player || player.socket !== socket) return;
+
+    if (notStarted) {
+      room.players.delete(userId);
+    } else {
+      player.socket = null;
+    }
+    broadcast(room, roomState(room));
+  };
+
+  wss.on("connection", (socket: WebSocket, req: IncomingMessage & { session?: Request["session"] }) => {
+    const userId = req.session!.userId!;
+    const current: { room: Room | null } = { room: null };
+
+    socket.on("message", (raw) => {
+      let message: ClientMessage;
+      try {
+        message = JSON.parse(raw.toString());
+      } catch {
+        return send(socket, { type: "error", message: "Message invalide" });
+      }
+      handleMessage(socket, userId, message, current).catch((error) => {
+        console.error("Error handling multiplayer message:", error);
+        send(socket, { type: "error", message: "Erreur serveur" });
+      });
+    });
+
+    socket.on("close", () => handleDisconnect(socket, userId, current));
+  });
+
+  // Authentification de la connexion WebSocket via la session express
+  server.on("upgrade", (req: IncomingMessage, socket, head) => {
+    const { pathname } = new URL(req.url ?? "/", "http://localhost");
+    if (pathname !== multiplayerConfig.path) return;
+
+    sessionMiddleware(req as Request, {} as Response, () => {
+      const session = (req as Request).session;
+      if (!session?.userId) {
+        socket.write("HTTP/1.1 401 Unauthorized\r\n\r\n");
+        socket.destroy();
+        return;
+      }
+      wss.handleUpgrade(req, socket, head, (ws) => wss.emit("connection", ws, req));
+    });
+  });
+
+  return wss;
+}
@@ -0,0 +1,705 @@
+import type { QuestionInput } from "@shared/schema";
+import type { QuestionFileFormat } from "@shared/questions";
+
+// Erreur de lecture d'un fichier entier (syntaxe JSON ou XML invalide, en-tête CSV manquant...)
+export class ImportFormatError extends Error {}
+
+// Question lue dans un fichier, avant validation par questionInputSchema
+export interface ParsedQuestion {
+  row: number;
+  data?: unknown;
+  error?: string;
+}
+
+export interface ThemeMetadata {
+  name: string;
+  description: string;
+  icon: string;
+  color: string;
+}
+
+// Pack JSON QuizMaster : thèmes et questions, utilisé pour l'export JSON et les données initiales
+export interface QuestionPack {
+  format: "quizmaster";
+  version: 1;
+  themes: Array<ThemeMetadata & { questions: QuestionInput[] }>;
+}
+
+export interface SerializedQuestions {
+  content: string;
+  contentType: string;
+  extension: string;
+}
+
+const difficulties = ["easy", "medium", "hard"];
+
+function parseNumber(text: string): number {
+  return text.trim() === "" ? NaN : Number(text.trim().replace(",", "."));
+}
+
+function letterToIndex(text: string, options: string[]): number {
+  const value = text.trim();
+  if (/^[A-Za-z]$/.test(value)) return value.toUpperCase().charCodeAt(0) - 65;
+  if (/^\d+$/.test(value)) return parseInt(value) - 1;
+  return options.indexOf(value);
+}
+
+const indexToLetter = (index: number) => String.fromCharCode(65 + index);
+
+// --- JSON ---
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// Liste { questions: [...] } d'un objet ; le contenu de chaque question est validé à l'import
+const questionListOf = (value: unknown): unknown[] | null =>
+  isRecord(value) && Array.isArray(value.questions) ? value.questions : null;
+
+function parseJson(content: string): ParsedQuestion[] {
+  let document: unknown;
+  try {
+    document = JSON.parse(content);
+  } catch {
+    throw new ImportFormatError("Fichier JSON invalide");
+  }
+
+  // Pack complet, objet { questions } ou simple tableau de questions
+  const questions = Array.isArray(document)
+    ? document
+    : isRecord(document) && Array.isArray(document.themes)
+      ? document.themes.flatMap((theme: unknown) => questionListOf(theme) ?? [])
+      : questionListOf(document);
+
+  if (!questions) {
+    throw new ImportFormatError("Le fichier JSON doit contenir une liste de questions");
+  }
+  return questions.map((data, index) => ({ row: index + 1, data }));
+}
+
+function serializeJson(theme: ThemeMetadata, questions: QuestionInput[]): string {
+  const pack: QuestionPack = { format: "quizmaster", version: 1, themes: [{ ...theme, questions }] };
+  return JSON.stringify(pack, null, 2) + "\n";
+}
+
+// --- CSV ---
+// Une question par ligne. Les listes (options, réponses acceptées, associations) sont séparées par "|",
+// échappé en "\|" à l'intérieur d'un élément.
+
+const CSV_COLUMNS = ["type", "question", "options", "answer", "tolerance", "unit", "difficulty", "explanation", "hint", "time_limit"] as const;
+const LIST_SEPARATOR = "|";
+
+function splitList(text: string | undefined): string[] {
+  return splitUnescaped(text ?? "", LIST_SEPARATOR)
+    .map((part) => part.text.replace(/\\\|/g, LIST_SEPARATOR).trim())
+    .filter(Boolean);
+}
+
+const joinList = (items: string[]) => items.map((item) => item.replace(/\|/g, "\\|")).join(LIST_SEPARATOR);
+
+// Lecture RFC 4180 : champs entre guillemets, guillemets doublés, retours à la ligne dans les champs
+function readCsvRecords(content: string, delimiter: string): Array<{ line: number; fields: string[] }> {
+  const records: Array<{ line: number; fields: string[] }> = [];
+  let fields: string[] = [];
+  let field = "";
+  let quoted = false;
+  let line = 1;
+  let recordLine = 1;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === "\n") line++;
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      fields.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && content[i + 1] === "\n") i++;
+      fields.push(field);
+      records.push({ line: recordLine, fields });
+      fields = [];
+      field = "";
+      line++;
+      recordLine = line;
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || fields.length > 0) {
+    fields.push(field);
+    records.push({ line: recordLine, fields });
+  }
+
+  return records.filter((record) => record.fields.some((value) => value.trim() !== ""));
+}
+
+function csvRowToInput(row: Record<string, string>): unknown {
+  const type = row.type?.trim() || "single_choice";
+  const options = splitList(row.options);
+  const answer = row.answer ?? "";
+  const base = {
+    type,
+    question: row.question?.trim(),
+    difficulty: row.difficulty?.trim() || "medium",
+    explanation: row.explanation?.trim() || undefined,
+    hint: row.hint?.trim() || undefined,
+    timeLimit: row.time_limit?.trim() ? parseNumber(row.time_limit) : undefined,
+  };
+
+  switch (type) {
+    case "single_choice":
+      return { ...base, options, correctAnswer: letterToIndex(answer, options) };
+    case "multiple_choice":
+      return { ...base, options, correctAnswers: splitList(answer).map((item) => letterToIndex(item, options)) };
+    case "true_false": {
+      const value = answer.trim().toLowerCase();
+      return {
+        ...base,
+        correctAnswer: ["vrai", "true", "v", "t", "1"].includes(value) ? true : ["faux", "false", "f", "0"].includes(value) ? false : value,
+      };
+    }
+    case "free_text":
+      return { ...base, acceptedAnswers: splitList(answer), fuzzy: true };
+    case "numeric":
+      return {
+        ...base,
+        value: parseNumber(answer),
+        tolerance: row.tolerance?.trim() ? parseNumber(row.tolerance) : 0,
+        unit: row.unit?.trim() || undefined,
+      };
+    case "ordering":
+      return { ...base, items: options };
+    case "matching": {
+      const rights = splitList(answer);
+      return { ...base, pairs: options.map((left, i) => ({ left, right: rights[i] ?? "" })) };
+    }
+    default:
+      return base;
+  }
+}
+
+function parseCsv(content: string): ParsedQuestion[] {
+  const firstLine = content.slice(0, content.search(/\r?\n|$/));
+  // Les tableurs français exportent souvent avec des points-virgules
+  const delimiter = (firstLine.match(/;/g)?.length ?? 0) > (firstLine.match(/,/g)?.length ?? 0) ? ";" : ",";
+  const [header, ...records] = readCsvRecords(content, delimiter);
+
+  const columns = header?.fields.map((name) => name.trim().toLowerCase()) ?? [];
+  if (!columns.includes("question")) {
+    throw new ImportFormatError(`En-tête CSV invalide : colonnes attendues ${CSV_COLUMNS.join(", ")}`);
+  }
+
+  return records.map(({ line, fields }) => {
+    const row: Record<string, string> = {};
+    columns.forEach((name, i) => {
+      row[name] = fields[i] ?? "";
+    });
+    return { row: line, data: csvRowToInput(row) };
+  });
+}
+
+function csvField(value: string | number | undefined): string {
+  const text = value === undefined ? "" : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function serializeCsv(questions: QuestionInput[]): string {
+  const lines = questions.map((input) => {
+    const row: Record<(typeof CSV_COLUMNS)[number], string | number | undefined> = {
+      type: input.type,
+      question: input.question,
+      options: "",
+      answer: "",
+      tolerance: "",
+      unit: "",
+      difficulty: input.difficulty,
+      explanation: input.explanation,
+      hint: input.hint,
+      time_limit: input.timeLimit ?? undefined,
+    };
+
+    switch (input.type) {
+      case "single_choice":
+        row.options = joinList(input.options);
+        row.answer = indexToLetter(input.correctAnswer);
+        break;
+      case "multiple_choice":
+        row.options = joinList(input.options);
+        row.answer = input.correctAnswers.map(indexToLetter).join(LIST_SEPARATOR);
+        break;
+      case "true_false":
+        row.answer = input.correctAnswer ? "vrai" : "faux";
+        break;
+      case "free_text":
+        row.answer = joinList(input.acceptedAnswers);
+        break;
+      case "numeric":
+        row.answer = input.value;
+        row.tolerance = input.tolerance;
+        row.unit = input.unit;
+        break;
+      case "ordering":
+        row.options = joinList(input.items);
+        break;
+      case "matching":
+        row.options = joinList(input.pairs.map((pair) => pair.left));
+        row.answer = joinList(input.pairs.map((pair) => pair.right));
+        break;
+    }
+    return CSV_COLUMNS.map((column) => csvField(row[column])).join(",");
+  });
+
+  return [CSV_COLUMNS.join(","), ...lines].join("\r\n") + "\r\n";
+}
+
+// --- GIFT (Moodle) ---
+// La difficulté et l'unité, absentes du format, sont portées par des commentaires "// difficulty: ..." et "// unit: ...".
+
+const GIFT_SPECIAL = /[~=#{}:]/g;
+
+const giftEscape = (text: string) => text.replace(/\\/g, "\\\\").replace(GIFT_SPECIAL, (char) => `\\${char}`).replace(/\n/g, "\\n");
+
+const giftUnescape = (text: string) =>
+  text.replace(/\\(.)/g, (_, char: string) => (char === "n" ? "\n" : char)).trim();
+
+// Découpe sur les caractères non échappés
+function splitUnescaped(text: string, separators: string): Array<{ separator: string; text: string }> {
+  const parts: Array<{ separator: string; text: string }> = [];
+  let current = { separator: "", text: "" };
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char === "\\" && i + 1 < text.length) {
+      current.text += char + text[i + 1];
+      i++;
+    } else if (separators.includes(char)) {
+      parts.push(current);
+      current = { separator: char, text: "" };
+    } else {
+      current.text += char;
+    }
+  }
+  parts.push(current);
+  return parts;
+}
+
+function indexOfUnescaped(text: string, search: string, from = 0): number {
+  for (let i = from; i < text.length; i++) {
+    if (text[i] === "\\") i++;
+    else if (text.startsWith(search, i)) return i;
+  }
+  return -1;
+}
+
+function parseGiftAnswers(body: string, base: Record<string, unknown>, unit?: string): unknown {
+  // Commentaire général : "####texte"
+  const feedbackAt = indexOfUnescaped(body, "####");
+  const explanation = feedbackAt >= 0 ? giftUnescape(body.slice(feedbackAt + 4)) : undefined;
+  const answers = (feedbackAt >= 0 ? body.slice(0, feedbackAt) : body).trim();
+  const withExplanation = { ...base, explanation: explanation || undefined };
+
+  const trueFalse = answers.match(/^(T|TRUE|F|FALSE)\s*(#[\s\S]*)?$/i);
+  if (trueFalse) {
+    return { ...withExplanation, type: "true_false", correctAnswer: trueFalse[1].toUpperCase().startsWith("T") };
+  }
+
+  if (answers.startsWith("#")) {
+    // Numérique : "#valeur:tolérance" ou "#min..max" (seule la première réponse est retenue)
+    const first = splitUnescaped(answers.slice(1).replace(/^\s*=/, ""), "=")[0].text.split("#")[0].replace(/^%-?\d+(\.\d+)?%/, "").trim();
+    const range = first.match(/^(-?[\d.,]+)\s*\.\.\s*(-?[\d.,]+)$/);
+    if (range) {
+      const min = parseNumber(range[1]);
+      const max = parseNumber(range[2]);
+      return { ...withExplanation, type: "numeric", value: (min + max) / 2, tolerance: (max - min) / 2, unit };
+    }
+    const [value, tolerance] = first.split(":");
+    return { ...withExplanation, type: "numeric", value: parseNumber(value), tolerance: tolerance ? parseNumber(tolerance) : 0, unit };
+  }
+
+  const choices = splitUnescaped(answers, "=~")
+    .filter((part) => part.separator !== "")
+    .map((part) => {
+      // Pondération "%50%" et commentaire de réponse "#..."
+      const weightMatch = part.text.trim().match(/^%(-?\d+(?:\.\d+)?)%/);
+      const text = weightMatch ? part.text.trim().slice(weightMatch[0].length) : part.text;
+      const feedbackAt = indexOfUnescaped(text, "#");
+      return {
+        correct: part.separator === "=",
+        weight: weightMatch ? parseFloat(weightMatch[1]) : undefined,
+        text: feedbackAt >= 0 ? text.slice(0, feedbackAt) : text,
+      };
+    });
+
+  if (choices.length === 0) {
+    return { ...withExplanation, type: "free_text", acceptedAnswers: [] };
+  }
+
+  if (choices.every((choice) => choice.correct)) {
+    if (choices.some((choice) => indexOfUnescaped(choice.text, "->") >= 0)) {
+      return {
+        ...withExplanation,
+        type: "matching",
+        pairs: choices.map((choice) => {
+          const arrowAt = indexOfUnescaped(choice.text, "->");
+          return { left: giftUnescape(choice.text.slice(0, Math.max(arrowAt, 0))), right: giftUnescape(choice.text.slice(arrowAt + 2)) };
+        }),
+      };
+    }
+    // Réponse courte : toutes les réponses acceptées
+    return { ...withExplanation, type: "free_text", acceptedAnswers: choices.map((choice) => giftUnescape(choice.text)), fuzzy: true };
+  }
+
+  const options = choices.map((choice) => giftUnescape(choice.text));
+  if (choices.some((choice) => choice.weight !== undefined)) {
+    return {
+      ...withExplanation,
+      type: "multiple_choice",
+      options,
+      correctAnswers: choices.flatMap((choice, index) => ((choice.weight ?? (choice.correct ? 100 : 0)) > 0 ? [index] : [])),
+    };
+  }
+  return { ...withExplanation, type: "single_choice", options, correctAnswer: choices.findIndex((choice) => choice.correct) };
+}
+
+function parseGift(content: string): ParsedQuestion[] {
+  const lines = content.replace(/^\uFEFF/, "").split(/\r?\n/);
+  const questions: ParsedQuestion[] = [];
+  let block: string[] = [];
+  let blockLine = 0;
+  let difficulty: string | undefined;
+  let unit: string | undefined;
+
+  const flush = () => {
+    const text = block.join("\n").trim();
+    block = [];
+    if (!text) return;
+
+    const row = blockLine;
+    const metadata = { difficulty: difficulty ?? "medium" };
+    const questionUnit = unit;
+    difficulty = undefined;
+    unit = undefined;
+
+    // Titre facultatif "::titre::"
+    let body = text;
+    if (body.startsWith("::")) {
+      const end = indexOfUnescaped(body, "::", 2);
+      body = end >= 0 ? body.slice(end + 2) : body;
+    }
+    body = body.replace(/^\s*\[(html|moodle|plain|markdown)\]/, "");
+
+    const open = indexOfUnescaped(body, "{");
+    const close = open >= 0 ? indexOfUnescaped(body, "}", open) : -1;
+    if (open < 0 || close < 0) {
+      questions.push({ row, error: "Bloc de réponses { ... } introuvable" });
+      return;
+    }
+
+    // Format "mot manquant" : le texte après les réponses fait partie de la question
+    const after = body.slice(close + 1).trim();
+    const question = giftUnescape(body.slice(0, open)) + (after ? ` _____ ${giftUnescape(after)}` : "");
+    questions.push({ row, data: parseGiftAnswers(body.slice(open + 1, close), { ...metadata, question }, questionUnit) });
+  };
+
+  lines.forEach((line, index) => {
+    const trimmed = line.trim();
+    if (trimmed.startsWith("//")) {
+      const meta = trimmed.match(/^\/\/\s*(difficulty|unit)\s*:\s*(.+)$/i);
+      if (meta && meta[1].toLowerCase() === "difficulty") difficulty = meta[2].trim();
+      if (meta && meta[1].toLowerCase() === "unit") unit = meta[2].trim();
+      return;
+    }
+    if (trimmed.startsWith("$CATEGORY:")) return;
+    if (trimmed === "") {
+      flush();
+      return;
+    }
+    if (block.length === 0) blockLine = index + 1;
+    block.push(line);
+  });
+  flush();
+
+  return questions;
+}
+
+function serializeGift(questions: QuestionInput[]): string {
+  const blocks = questions.map((input, index) => {
+    const header = [`// difficulty: ${input.difficulty}`];
+    const title = `::Q${index + 1}:: ${giftEscape(input.question)}`;
+    let answers: string[];
+
+    switch (input.type) {
+      case "single_choice":
+        answers = input.options.map((option, i) => `${i === input.correctAnswer ? "=" : "~"}${giftEscape(option)}`);
+        break;
+      case "multiple_choice": {
+        const weight = Math.round((100 / input.correctAnswers.length) * 100000) / 100000;
+        answers = input.options.map((option, i) => `~%${input.correctAnswers.includes(i) ? weight : -100}%${giftEscape(option)}`);
+        break;
+      }
+      case "true_false":
+        answers = [input.correctAnswer ? "TRUE" : "FALSE"];
+        break;
+      case "free_text":
+        answers = input.acceptedAnswers.map((answer) => `=${giftEscape(answer)}`);
+        break;
+      case "numeric":
+        if (input.unit) header.push(`// unit: ${input.unit}`);
+        answers = [`#${input.value}:${input.tolerance}`];
+        break;
+      case "matching":
+        answers = input.pairs.map((pair) => `=${giftEscape(pair.left)} -> ${giftEscape(pair.right)}`);
+        break;
+      case "ordering":
+        // Pas d'équivalent GIFT : la question est signalée et ignorée
+        return `// Question ignorée (remise en ordre non prise en charge par GIFT) : ${input.question.replace(/\n/g, " ")}`;
+    }
+
+    if (input.explanation) answers.push(`####${giftEscape(input.explanation)}`);
+    return [...header, `${title} {`, ...answers.map((answer) => `  ${answer}`), "}"].join("\n");
+  });
+
+  return blocks.join("\n\n") + "\n";
+}
+
+// --- XML (Moodle) ---
+
+interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: Array<XmlElement | string>;
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos|nbsp);/gi, (_, entity: string) => {
+    const lower = entity.toLowerCase();
+    if (lower.startsWith("#x")) return String.fromCodePoint(parseInt(lower.slice(2), 16));
+    if (lower.startsWith("#")) return String.fromCodePoint(parseInt(lower.slice(1), 10));
+    return ({ amp: "&", lt: "<", gt: ">", quot: '"', apos: "'", nbsp: " " } as Record<string, string>)[lower];
+  });
+}
+
+const xmlEscape = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+// Analyseur XML minimal, suffisant pour les exports Moodle (pas de DTD ni d'espaces de noms)
+function parseXmlDocument(content: string): XmlElement {
+  const root: XmlElement = { name: "#document", attributes: {}, children: [] };
+  const stack = [root];
+  const token = /<!\[CDATA\[([\s\S]*?)\]\]>|<!--[\s\S]*?-->|<\?[\s\S]*?\?>|<!DOCTYPE[^>]*>|<\/([\w:.-]+)\s*>|<([\w:.-]+)((?:\s+[\w:.-]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>|([^<]+)/g;
+  let match: RegExpExecArray | null;
+  let position = 0;
+
+  while ((match = token.exec(content)) !== null) {
+    if (match.index !== position) break;
+    position = token.lastIndex;
+    const current = stack[stack.length - 1];
+    const [, cdata, closing, opening, attributes, selfClosing, text] = match;
+
+    if (cdata !== undefined) {
+      current.children.push(cdata);
+    } else if (closing) {
+      if (current.name !== closing) throw new ImportFormatError(`Fichier XML invalide : </${closing}> inattendu`);
+      stack.pop();
+    } else if (opening) {
+      const element: XmlElement = { name: opening, attributes: {}, children: [] };
+      for (const attribute of Array.from(attributes.matchAll(/([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g))) {
+        element.attributes[attribute[1]] = decodeEntities(attribute[2] ?? attribute[3]);
+      }
+      current.children.push(element);
+      if (!selfClosing) stack.push(element);
+    } else if (text !== undefined) {
+      current.children.push(decodeEntities(text));
+    }
+  }
+
+  if (position !== content.length || stack.length !== 1) {
+    throw new ImportFormatError("Fichier XML invalide");
+  }
+  return root;
+}
+
+const xmlChildren = (element: XmlElement | undefined, name: string) =>
+  (element?.children ?? []).filter((child): child is XmlElement => typeof child !== "string" && child.name === name);
+
+const xmlChild = (element: XmlElement | undefined, name: string) => xmlChildren(element, name)[0];
+
+function xmlText(element: XmlElement | undefined): string {
+  return (element?.children ?? []).map((child) => (typeof child === "string" ? child : xmlText(child))).join("");
+}
+
+// Texte d'un élément Moodle <x format="..."><text>...</text></x>, sans balises HTML
+function moodleText(element: XmlElement | undefined): string {
+  const text = xmlText(xmlChild(element, "text") ?? element);
+  if (element?.attributes.format && element.attributes.format !== "html") return text.trim();
+  return decodeEntities(text.replace(/<br\s*\/?>/gi, "\n").replace(/<[^>]+>/g, "")).trim();
+}
+
+function moodleQuestionToInput(element: XmlElement): unknown {
+  const type = element.attributes.type;
+  const tags = xmlChildren(xmlChild(element, "tags"), "tag").map((tag) => moodleText(tag));
+  const difficulty = tags.map((tag) => tag.match(/^difficulty:(\w+)$/)?.[1]).find((value) => value && difficulties.includes(value));
+  const base = {
+    question: moodleText(xmlChild(element, "questiontext")),
+    difficulty: difficulty ?? "medium",
+    explanation: moodleText(xmlChild(element, "generalfeedback")) || undefined,
+  };
+  const answers = xmlChildren(element, "answer").map((answer) => ({
+    text: moodleText(answer),
+    fraction: parseFloat(answer.attributes.fraction ?? "0"),
+    element: answer,
+  }));
+
+  switch (type) {
+    case "multichoice": {
+      const options = answers.map((answer) => answer.text);
+      const single = ["true", "1"].includes(xmlText(xmlChild(element, "single")).trim());
+      return single
+        ? { ...base, type: "single_choice", options, correctAnswer: answers.findIndex((answer) => answer.fraction === 100) }
+        : {
+            ...base,
+            type: "multiple_choice",
+            options,
+            correctAnswers: answers.flatMap((answer, index) => (answer.fraction > 0 ? [index] : [])),
+          };
+    }
+    case "truefalse":
+      return { ...base, type: "true_false", correctAnswer: answers.find((answer) => answer.fraction === 100)?.text.toLowerCase() === "true" };
+    case "shortanswer":
+      return { ...base, type: "free_text", acceptedAnswers: answers.filter((answer) => answer.fraction > 0).map((answer) => answer.text), fuzzy: true };
+    case "numerical": {
+      const answer = answers.find((a) => a.fraction === 100) ?? answers[0];
+      const unit = xmlChildren(xmlChild(element, "units"), "unit")
+        .find((u) => parseFloat(xmlText(xmlChild(u, "multiplier")) || "1") === 1);
+      return {
+        ...base,
+        type: "numeric",
+        value: answer ? parseNumber(answer.text) : NaN,
+        tolerance: answer ? parseNumber(xmlText(xmlChild(answer.element, "tolerance")) || "0") : 0,
+        unit: unit ? xmlText(xmlChild(unit, "unit_name")).trim() || undefined : undefined,
+      };
+    }
+    case "matching":
+      return {
+        ...base,
+        type: "matching",
+        pairs: xmlChildren(element, "subquestion").map((sub) => ({ left: moodleText(sub), right: moodleText(xmlChild(sub, "answer")) })),
+      };
+    case "ordering":
+      return { ...base, type: "ordering", items: answers.map((answer) => answer.text) };
+    default:
+      return { ...base, type };
+  }
+}
+
+function parseXml(content: string): ParsedQuestion[] {
+  const document = parseXmlDocument(content.replace(/^\uFEFF/, "").trim());
+  const quiz = xmlChild(document, "quiz");
+  if (!quiz) {
+    throw new ImportFormatError("Fichier XML Moodle invalide : élément <quiz> introuvable");
+  }
+
+  return xmlChildren(quiz, "question")
+    .filter((question) => question.attributes.type !== "category")
+    .map((question, index) => {
+      const data = moodleQuestionToInput(question);
+      const type = question.attributes.type;
+      return ["multichoice", "truefalse", "shortanswer", "numerical", "matching", "ordering"].includes(type)
+        ? { row: index + 1, data }
+        : { row: index + 1, error: `Type de question Moodle non pris en charge : ${type}` };
+    });
+}
+
+function serializeXml(questions: QuestionInput[]): string {
+  const text = (value: string) => `<text>${xmlEscape(value)}</text>`;
+  const answer = (fraction: number, value: string, extra = "") =>
+    `    <answer fraction="${fraction}" format="plain_text">${text(value)}${extra}</answer>`;
+
+  const blocks = questions.map((input, index) => {
+    const lines: string[] = [];
+    const open = (type: string) => {
+      lines.push(`  <question type="${type}">`);
+      lines.push(`    <name>${text(`Q${index + 1}`)}</name>`);
+      lines.push(`    <questiontext format="plain_text">${text(input.question)}</questiontext>`);
+      lines.push(`    <generalfeedback format="plain_text">${text(input.explanation ?? "")}</generalfeedback>`);
+      lines.push(`    <tags><tag>${text(`difficulty:${input.difficulty}`)}</tag></tags>`);
+    };
+
+    switch (input.type) {
+      case "single_choice":
+      case "multiple_choice": {
+        const correct = input.type === "single_choice" ? [input.correctAnswer] : input.correctAnswers;
+        const weight = Math.round((100 / correct.length) * 100000) / 100000;
+        open("multichoice");
+        lines.push(`    <single>${input.type === "single_choice"}</single>`);
+        lines.push(`    <shuffleanswers>true</shuffleanswers>`);
+        input.options.forEach((option, i) => lines.push(answer(correct.includes(i) ? weight : 0, option)));
+        break;
+      }
+      case "true_false":
+        open("truefalse");
+        lines.push(answer(input.correctAnswer ? 100 : 0, "true"));
+        lines.push(answer(input.correctAnswer ? 0 : 100, "false"));
+        break;
+      case "free_text":
+        open("shortanswer");
+        input.acceptedAnswers.forEach((accepted) => lines.push(answer(100, accepted)));
+        break;
+      case "numeric":
+        open("numerical");
+        lines.push(answer(100, String(input.value), `<tolerance>${input.tolerance}</tolerance>`));
+        if (input.unit) {
+          lines.push(`    <units><unit><multiplier>1</multiplier><unit_name>${xmlEscape(input.unit)}</unit_name></unit></units>`);
+        }
+        break;
+      case "ordering":
+        open("ordering");
+        input.items.forEach((item, i) => lines.push(answer(i + 1, item)));
+        break;
+      case "matching":
+        open("matching");
+        input.pairs.forEach((pair) =>
+          lines.push(`    <subquestion format="plain_text">${text(pair.left)}<answer>${text(pair.right)}</answer></subquestion>`),
+        );
+        break;
+    }
+    lines.push("  </question>");
+    return lines.join("\n");
+  });
+
+  return `<?xml version="1.0" encoding="UTF-8"?>\n<quiz>\n${blocks.join("\n")}\n</quiz>\n`;
+}
+
+export function parseQuestionFile(format: QuestionFileFormat, content: string): ParsedQuestion[] {
+  switch (format) {
+    case "json":
+      return parseJson(content);
+    case "csv":
+      return parseCsv(content.replace(/^\uFEFF/, ""));
+    case "gift":
+      return parseGift(content);
+    case "xml":
+      return parseXml(content);
+  }
+}
+
+export function serializeQuestionFile(format: QuestionFileFormat, theme: ThemeMetadata, questions: QuestionInput[]): SerializedQuestions {
+  switch (format) {
+    case "json":
+      return { content: serializeJson(theme, questions), contentType: "application/json", extension: "json" };
+    case "csv":
+      return { content: serializeCsv(questions), contentType: "text/csv", extension: "csv" };
+    case "gift":
+      return { content: serializeGift(questions), contentType: "text/plain", extension: "gift.txt" };
+    case "xml":
+      return { content: serializeXml(questions), contentType: "application/xml", extension: "xml" };
+  }
+}
@@ -0,0 +1,131 @@
+import type { AnswerValue, Question } from "@shared/schema";
+import type { PublicQuestion } from "@shared/questions";
+
+export function shuffle<T>(items: T[], random: () => number = Math.random): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+// Question telle qu'envoyée aux joueurs, sans la réponse ni l'explication
+export function toPublicQuestion(question: Question, random: () => number = Math.random): PublicQuestion {
+  const base = {
+    id: question.id,
+    themeId: question.themeId,
+    type: question.type,
+    question: question.question,
+    difficulty: question.difficulty,
+    hasHint: !!question.hint,
+  };
+  const key = question.answerKey;
+
+  switch (question.type) {
+    case "ordering":
+      // Les éléments sont stockés dans le bon ordre : on ne les envoie que mélangés
+      return { ...base, options: [], choices: shuffle(question.options.map((label, id) => ({ id, label })), random) };
+    case "matching":
+      return {
+        ...base,
+        options: question.options,
+        choices: shuffle((key?.type === "matching" ? key.matches : []).map((label, id) => ({ id, label })), random),
+      };
+    case "numeric":
+      return { ...base, options: [], unit: key?.type === "numeric" ? key.unit : undefined };
+    default:
+      return { ...base, options: question.options };
+  }
+}
+
+// Texte normalisé pour la comparaison des réponses libres : casse, accents, ponctuation et espaces
+export function normalizeText(text: string): string {
+  return text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+export function levenshtein(a: string, b: string): number {
+  const previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0];
+    previous[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j];
+      previous[j] = Math.min(
+        previous[j] + 1,
+        previous[j - 1] + 1,
+        diagonal + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+      diagonal = above;
+    }
+  }
+  return previous[b.length];
+}
+
+function matchesFreeText(answer: string, accepted: string[], fuzzy: boolean): boolean {
+  const given = normalizeText(answer);
+  if (!given) return false;
+
+  return accepted.some((candidate) => {
+    const expected = normalizeText(candidate);
+    if (given === expected) return true;
+    // Tolérance aux fautes de frappe : environ une erreur pour cinq caractères, rien sur les mots courts
+    const maxDistance = Math.floor(expected.length / 5);
+    return fuzzy && maxDistance > 0 && levenshtein(given, expected) <= maxDistance;
+  });
+}
+
+function sameIndexes(a: number[], b: number[]): boolean {
+  return a.length === b.length && a.every((value, i) => value === b[i]);
+}
+
+export function gradeAnswer(question: Question, answer: AnswerValue | undefined): boolean {
+  if (answer === undefined) return false;
+  const key = question.answerKey;
+
+  switch (question.type) {
+    case "multiple_choice": {
+      if (!Array.isArray(answer) || key?.type !== "multiple_choice") return false;
+      const given = Array.from(new Set(answer)).sort((a, b) => a - b);
+      return sameIndexes(given, key.correctAnswers);
+    }
+    case "free_text":
+      return typeof answer === "string" && key?.type === "free_text" && matchesFreeText(answer, key.acceptedAnswers, key.fuzzy);
+    case "numeric": {
+      const value = typeof answer === "string" ? parseFloat(answer.replace(",", ".")) : answer;
+      return typeof value === "number" && !isNaN(value) && key?.type === "numeric" && Math.abs(value - key.value) <= key.tolerance;
+    }
+    case "ordering":
+      // Réponse : index d'origine des éléments dans l'ordre choisi par le joueur
+      return Array.isArray(answer) && sameIndexes(answer, question.options.map((_, i) => i));
+    case "matching":
+      // Réponse : pour chaque élément de gauche, l'index de l'élément associé
+      return Array.isArray(answer) && sameIndexes(answer, question.options.map((_, i) => i));
+    default:
+      return answer === question.correctAnswer;
+  }
+}
+
+// Bonne réponse, dans le même format que les réponses des joueurs
+export function correctAnswerOf(question: Question): AnswerValue {
+  const key = question.answerKey;
+
+  switch (question.type) {
+    case "multiple_choice":
+      return key?.type === "multiple_choice" ? key.correctAnswers : [question.correctAnswer];
+    case "free_text":
+      return key?.type === "free_text" ? key.acceptedAnswers[0] ?? "" : "";
+    case "numeric":
+      return key?.type === "numeric" ? key.value : 0;
+    case "ordering":
+    case "matching":
+      return question.options.map((_, i) => i);
+    default:
+      return question.correctAnswer;
+  }
+}
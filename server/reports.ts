@@ -0,0 +1,129 @@
+import { reportReasons, type Question, type QuestionReport, type ReportReason, type ReportStatus } from "@shared/schema";
+import { reportReasonLabels, type ReportedQuestion, type ReportEntry } from "@shared/reports";
+import type { IStorage } from "./storage";
+import { mailConfig, type MailTransport } from "./mail";
+
+export const reportConfig = {
+  // Joueurs distincts ayant un signalement ouvert sur une question publiée : au-delà, elle est dépubliée
+  autoUnpublishThreshold: 3,
+};
+
+// Retire une question publiée dès que le seuil de signalements ouverts est atteint ; elle repasse
+// en brouillon et doit être relue avant d'être republiée. true si elle vient d'être dépubliée.
+export async function applyReportThreshold(storage: IStorage, question: Question): Promise<boolean> {
+  if (question.status !== "published") return false;
+
+  const openReports = await storage.getQuestionReports({ questionId: question.id, status: "open" });
+  const reporters = new Set(openReports.map((report) => report.reporterId));
+  if (reporters.size < reportConfig.autoUnpublishThreshold) return false;
+
+  const review = await storage.transitionContent({
+    contentKind: "question",
+    contentId: question.id,
+    authorId: null,
+    action: "unpublish",
+    fromStatus: "published",
+    toStatus: "draft",
+    comment: `Dépubliée automatiquement après ${reporters.size} signalements`,
+  });
+  return review !== undefined;
+}
+
+// Prévient chaque joueur que son signalement a été traité ; un échec d'envoi n'empêche pas les autres
+export async function notifyReporters(
+  storage: IStorage,
+  mailer: MailTransport,
+  reports: QuestionReport[],
+  question: Question | undefined,
+  now: Date,
+): Promise<void> {
+  const notified: number[] = [];
+  for (const report of reports) {
+    const reporter = await storage.getUser(report.reporterId);
+    if (!reporter) continue;
+
+    try {
+      await mailer.send({
+        to: reporter.email,
+        subject: "Votre signalement a été traité",
+        text: [
+          `Bonjour ${reporter.firstName},`,
+          "",
+          `Merci pour votre signalement (${reportReasonLabels[report.reason].toLowerCase()}) du ${new Date(report.createdAt).toLocaleDateString("fr-FR")}`
+            + (question ? ` sur la question « ${question.question} ».` : "."),
+          report.status === "resolved"
+            ? "L'équipe de modération l'a examiné et la question a été corrigée."
+            : "L'équipe de modération l'a examiné et n'a pas retenu de problème.",
+          ...(report.resolution ? ["", `Note de la modération : ${report.resolution}`] : []),
+          "",
+          `${mailConfig.appUrl}/`,
+        ].join("\n"),
+      });
+      notified.push(report.id);
+    } catch (mailError) {
+      console.error("Error sending report notification:", mailError);
+    }
+  }
+  await storage.markQuestionReportsNotified(notified, now);
+}
+
+export async function reportEntries(storage: IStorage, reports: QuestionReport[]): Promise<ReportEntry[]> {
+  const users = new Map<number, { id: number; username: string } | null>();
+  const userRef = async (id: number | null) => {
+    if (id === null) return null;
+    if (!users.has(id)) {
+      const user = await storage.getUser(id);
+      users.set(id, user ? { id: user.id, username: user.username } : null);
+    }
+    return users.get(id) ?? null;
+  };
+
+  const entries: ReportEntry[] = [];
+  for (const report of reports) {
+    entries.push({
+      id: report.id,
+      reporter: await userRef(report.reporterId),
+      reason: report.reason,
+      comment: report.comment,
+      questionRevision: report.questionRevision,
+      status: report.status,
+      resolution: report.resolution,
+      resolvedBy: await userRef(report.resolvedBy),
+      createdAt: new Date(report.createdAt).toISOString(),
+      resolvedAt: report.resolvedAt ? new Date(report.resolvedAt).toISOString() : null,
+    });
+  }
+  return entries;
+}
+
+// Vue de tri : les signalements dans l'état donné, regroupés par question, les plus signalées d'abord
+export async function reportTriage(storage: IStorage, status: ReportStatus): Promise<ReportedQuestion[]> {
+  const byQuestion = new Map<number, QuestionReport[]>();
+  for (const report of await storage.getQuestionReports({ status })) {
+    byQuestion.set(report.questionId, [...(byQuestion.get(report.questionId) ?? []), report]);
+  }
+
+  const themes = new Map<number, { id: number; name: string } | null>();
+  const triage: ReportedQuestion[] = [];
+  for (const [questionId, reports] of Array.from(byQuestion)) {
+    const question = await storage.getQuestion(questionId);
+    if (question && !themes.has(question.themeId)) {
+      const theme = await storage.getTheme(question.themeId);
+      themes.set(question.themeId, theme ? { id: theme.id, name: theme.name } : null);
+    }
+
+    const reasons = Object.fromEntries(reportReasons.map((reason) => [reason, 0])) as Record<ReportReason, number>;
+    for (const report of reports) reasons[report.reason]++;
+
+    triage.push({
+      questionId,
+      question: question ? { id: question.id, question: question.question, status: question.status, revision: question.revision } : null,
+      theme: question ? themes.get(question.themeId) ?? null : null,
+      reasons,
+      reports: await reportEntries(storage, reports),
+      lastReportedAt: new Date(reports[0].createdAt).toISOString(),
+    });
+  }
+
+  return triage.sort((a, b) => b.reports.length - a.reports.length || b.lastReportedAt.localeCompare(a.lastReportedAt));
+}
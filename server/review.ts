@@ -0,0 +1,89 @@
+import type { Question, QuestionReview } from "@shared/schema";
+import type { IStorage } from "./storage";
+import { dayKey } from "./rewards";
+
+// Paramètres du paquet de révision (algorithme SM-2)
+export const reviewConfig = {
+  // Nombre maximal de questions proposées par séance de révision
+  deckSize: 20,
+  initialEaseFactor: 2.5,
+  minEaseFactor: 1.3,
+  // Qualité de rappel SM-2 (0 à 5) attribuée à une bonne et à une mauvaise réponse
+  correctQuality: 4,
+  incorrectQuality: 1,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type ReviewSchedule = Pick<QuestionReview, "easeFactor" | "intervalDays" | "repetitions" | "dueAt">;
+
+// Prochaine échéance SM-2 après une révision de qualité quality (0 à 5)
+export function scheduleReview(review: ReviewSchedule, quality: number, now: Date): ReviewSchedule {
+  const easeFactor = Math.max(
+    reviewConfig.minEaseFactor,
+    review.easeFactor + 0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02),
+  );
+
+  if (quality < 3) {
+    // Oubli : la question revient dès le lendemain et la série repart de zéro
+    return { easeFactor, intervalDays: 1, repetitions: 0, dueAt: new Date(now.getTime() + DAY_MS) };
+  }
+
+  const repetitions = review.repetitions + 1;
+  const intervalDays = repetitions === 1 ? 1 : repetitions === 2 ? 6 : Math.round(review.intervalDays * easeFactor);
+  return { easeFactor, intervalDays, repetitions, dueAt: new Date(now.getTime() + intervalDays * DAY_MS) };
+}
+
+// Enregistre une réponse à une question, en quiz ou en révision, et planifie sa prochaine révision
+export async function recordQuestionAnswer(
+  storage: IStorage,
+  userId: number,
+  questionId: number,
+  correct: boolean,
+  now: Date,
+): Promise<QuestionReview> {
+  const existing = await storage.getQuestionReview(userId, questionId);
+  const history = {
+    timesAnswered: (existing?.timesAnswered ?? 0) + 1,
+    timesCorrect: (existing?.timesCorrect ?? 0) + (correct ? 1 : 0),
+    lastCorrect: correct,
+    lastAnsweredAt: now,
+  };
+
+  // Une question jamais manquée reste hors du paquet ; une erreur l'y fait entrer immédiatement
+  if (!existing?.dueAt) {
+    return storage.updateQuestionReview(userId, questionId, correct ? history : {
+      ...history,
+      easeFactor: existing?.easeFactor ?? reviewConfig.initialEaseFactor,
+      intervalDays: 0,
+      repetitions: 0,
+      dueAt: now,
+    });
+  }
+
+  const quality = correct ? reviewConfig.correctQuality : reviewConfig.incorrectQuality;
+  return storage.updateQuestionReview(userId, questionId, { ...history, ...scheduleReview(existing, quality, now) });
+}
+
+// Révisions à faire aujourd'hui (jour calendaire du fuseau des récompenses), les plus en retard d'abord
+export function dueReviews(reviews: QuestionReview[], now: Date): QuestionReview[] {
+  const today = dayKey(now);
+  return reviews
+    .filter((review) => review.dueAt && dayKey(new Date(review.dueAt)) <= today)
+    .sort((a, b) => new Date(a.dueAt!).getTime() - new Date(b.dueAt!).getTime());
+}
+
+export async function buildReviewDeck(storage: IStorage, userId: number, now: Date) {
+  const due = dueReviews(await storage.getQuestionReviews(userId), now);
+
+  const questions: Question[] = [];
+  for (const review of due) {
+    if (questions.length >= reviewConfig.deckSize) break;
+    const question = await storage.getQuestion(review.questionId);
+    const theme = question && await storage.getTheme(question.themeId);
+    // Les questions supprimées ou retirées de la publication, ou dont le thème est désactivé, sont ignorées
+    if (question?.status === "published" && theme?.isActive && theme.status === "published") questions.push(question);
+  }
+
+  return { dueCount: due.length, questions };
+}
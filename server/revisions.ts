@@ -0,0 +1,48 @@
+import type { Question, QuizAttempt } from "@shared/schema";
+import { diffQuestionFields, type QuestionRevisionEntry } from "@shared/questions";
+import type { IStorage } from "./storage";
+
+// Question dans la version donnée (par défaut, celle en vigueur). Seul le contenu change :
+// identifiant, thème et calibration restent ceux de la question actuelle.
+export async function questionAtRevision(storage: IStorage, question: Question, revision?: number | null): Promise<Question> {
+  if (revision == null || revision === question.revision) return question;
+
+  const snapshot = await storage.getQuestionRevision(question.id, revision);
+  return snapshot ? { ...question, ...snapshot.content, revision } : question;
+}
+
+// Question telle que servie dans la tentative : une modification en cours de partie ne change
+// ni l'énoncé présenté ni la notation
+export async function getAttemptQuestion(storage: IStorage, attempt: QuizAttempt, questionId: number): Promise<Question | undefined> {
+  const question = await storage.getQuestion(questionId);
+  return question && questionAtRevision(storage, question, attempt.questionRevisions[questionId]);
+}
+
+export const servedRevisions = (questions: Question[]): Record<number, number> =>
+  Object.fromEntries(questions.map((question) => [question.id, question.revision]));
+
+// Historique d'une question, de la révision la plus récente à la plus ancienne
+export async function questionHistory(storage: IStorage, question: Question): Promise<QuestionRevisionEntry[]> {
+  const revisions = await storage.getQuestionRevisions(question.id);
+
+  const authors = new Map<number, { id: number; username: string } | null>();
+  for (const { authorId } of revisions) {
+    if (authorId !== null && !authors.has(authorId)) {
+      const author = await storage.getUser(authorId);
+      authors.set(authorId, author ? { id: author.id, username: author.username } : null);
+    }
+  }
+
+  return revisions.map((revision, index) => {
+    const previous = revisions[index + 1];
+    return {
+      revision: revision.revision,
+      current: revision.revision === question.revision,
+      author: revision.authorId !== null ? authors.get(revision.authorId) ?? null : null,
+      revertedFrom: revision.revertedFrom,
+      createdAt: new Date(revision.createdAt).toISOString(),
+      content: revision.content,
+      changes: previous ? diffQuestionFields(previous.content, revision.content) : [],
+    };
+  });
+}
@@ -0,0 +1,153 @@
+import type { AnswerValue, InsertQuizSession, QuizRewards, QuizSession, Theme, User, UserStats } from "@shared/schema";
+import type { IStorage } from "./storage";
+
+// Configuration du moteur de récompenses (surchargeable par variables d'environnement)
+export const rewardsConfig = {
+  // Fuseau horaire utilisé pour découper les journées des séries
+  timezone: process.env.REWARDS_TIMEZONE || "Europe/Paris",
+  pointsByDifficulty: { easy: 10, medium: 20, hard: 30 } as Record<string, number>,
+  // Bonus maximal (en proportion des points de la question) pour une réponse instantanée,
+  // réduit proportionnellement au temps consommé sur le délai de la question
+  maxSpeedBonus: 0.5,
+};
+
+export interface GradedQuestion {
+  questionId: number;
+  difficulty: string;
+  answer: AnswerValue | null;
+  correct: boolean;
+  timeTaken: number | null; // in seconds
+  timeLimit: number | null; // secondes accordées ; null : sans limite, donc sans bonus de rapidité
+  revision?: number; // révision de la question sur laquelle la réponse a été notée
+}
+
+interface BadgeContext {
+  user: User;
+  session: QuizSession;
+  theme: Theme | undefined;
+  themeStats: UserStats | undefined;
+  streak: number;
+  accuracy: number;
+}
+
+interface BadgeRule {
+  key: string;
+  earned: (ctx: BadgeContext) => boolean;
+}
+
+// Règles déclaratives d'attribution des badges (clés reprises par getBadgeInfo dans profile.tsx)
+export const badgeRules: BadgeRule[] = [
+  { key: "first_quiz", earned: () => true },
+  { key: "perfect_score", earned: ({ accuracy, session }) => session.totalQuestions > 0 && accuracy === 1 },
+  { key: "streak_7", earned: ({ streak }) => streak >= 7 },
+  { key: "streak_30", earned: ({ streak }) => streak >= 30 },
+  {
+    key: "expert_it",
+    earned: ({ theme, themeStats, accuracy }) =>
+      theme?.name === "Informatique" && (themeStats?.totalQuizzes ?? 0) >= 5 && accuracy >= 0.8,
+  },
+];
+
+// Les jokers consommés sont déduits du total, qui ne descend pas sous zéro
+export function computeQuizPoints(graded: GradedQuestion[], lifelinePenalty = 0) {
+  let basePoints = 0;
+  let bonus = 0;
+  for (const q of graded) {
+    if (!q.correct) continue;
+
+    const points = rewardsConfig.pointsByDifficulty[q.difficulty] ?? rewardsConfig.pointsByDifficulty.medium;
+    basePoints += points;
+    if (q.timeLimit && q.timeTaken !== null) {
+      bonus += points * rewardsConfig.maxSpeedBonus * Math.max(0, 1 - q.timeTaken / q.timeLimit);
+    }
+  }
+
+  const speedBonus = Math.round(bonus);
+  return { basePoints, speedBonus, lifelinePenalty, pointsEarned: Math.max(0, basePoints + speedBonus - lifelinePenalty) };
+}
+
+// Jour calendaire (AAAA-MM-JJ) d'une date dans le fuseau configuré
+export function dayKey(date: Date, timezone = rewardsConfig.timezone): string {
+  return new Intl.DateTimeFormat("en-CA", {
+    timeZone: timezone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).format(date);
+}
+
+function daysBetween(fromKey: string, toKey: string): number {
+  return Math.round((Date.parse(toKey) - Date.parse(fromKey)) / 86400000);
+}
+
+export function computeStreak(user: User, now: Date): { streak: number; streakExtended: boolean } {
+  if (!user.lastQuizAt) {
+    return { streak: 1, streakExtended: true };
+  }
+
+  const gap = daysBetween(dayKey(new Date(user.lastQuizAt)), dayKey(now));
+  if (gap <= 0) {
+    return { streak: Math.max(user.streak, 1), streakExtended: user.streak === 0 };
+  }
+  if (gap === 1) {
+    return { streak: user.streak + 1, streakExtended: true };
+  }
+  return { streak: 1, streakExtended: true };
+}
+
+// Crée la session de quiz et son détail par question, puis met à jour points, série et badges de l'utilisateur
+// (sauf pour une session d'entraînement)
+export async function recordQuizSession(
+  storage: IStorage,
+  insertSession: Omit<InsertQuizSession, "pointsEarned">,
+  graded: GradedQuestion[],
+  lifelinePenalty = 0,
+): Promise<{ session: QuizSession; rewards: QuizRewards }> {
+  // Entraînement : la correction est affichée après chaque réponse, la session ne rapporte rien
+  if (insertSession.practice) lifelinePenalty = 0;
+  const { basePoints, speedBonus, pointsEarned } = insertSession.practice
+    ? { basePoints: 0, speedBonus: 0, pointsEarned: 0 }
+    : computeQuizPoints(graded, lifelinePenalty);
+
+  const theme = await storage.getTheme(insertSession.themeId);
+  let streak = 0;
+  let streakExtended = false;
+  let newBadges: string[] = [];
+
+  // Série et badges sont calculés par le stockage, sur le joueur et ses statistiques à jour,
+  // dans la même opération que la session : rien n'est enregistré à moitié
+  const { session, user } = await storage.completeQuizSession(
+    { ...insertSession, pointsEarned },
+    graded.map((q, position) => ({
+      questionId: q.questionId,
+      position,
+      answer: q.answer,
+      correct: q.correct,
+      timeTaken: q.timeTaken,
+      questionRevision: q.revision ?? null,
+    })),
+    insertSession.practice ? null : (user, session, themeStats) => {
+      const now = new Date(session.completedAt);
+      ({ streak, streakExtended } = computeStreak(user, now));
+
+      const ctx: BadgeContext = {
+        user,
+        session,
+        theme,
+        themeStats,
+        streak,
+        accuracy: session.totalQuestions > 0 ? session.score / session.totalQuestions : 0,
+      };
+      newBadges = badgeRules
+        .filter((rule) => !user.badges.includes(rule.key) && rule.earned(ctx))
+        .map((rule) => rule.key);
+
+      return { streak, badges: [...user.badges, ...newBadges], lastQuizAt: now };
+    },
+  );
+
+  if (session.practice) {
+    streak = user?.streak ?? 0;
+  }
+  return { session, rewards: { pointsEarned, basePoints, speedBonus, lifelinePenalty, streak, streakExtended, newBadges } };
+}
@@ -1,461 +1,2023 @@
-import type { Express, Request, Response, NextFunction } from "express";
+import express, { type Express, type Request, type Response, type NextFunction } from "express";
 import { createServer, type Server } from "http";
-import MemStorage from "./storage"; // Modifié ici
-import session from "express-session";
-import MemoryStore from "memorystore";
-import { loginSchema, registerSchema, type Question, type QuizSession, type Theme } from "@shared/schema";
+import MemStorage, { type IStorage } from "./storage"; // Modifié ici
+import { DrizzleStorage } from "./db-storage";
+import { createDb, createPool } from "./db";
+import { recordQuizSession, type GradedQuestion } from "./rewards";
+import { setupMultiplayer } from "./multiplayer";
+import { toPublicQuestion, gradeAnswer, correctAnswerOf } from "./questions";
+import { importQuestions, exportQuestions } from "./importer";
+import { getAttemptQuestion, questionAtRevision, questionHistory, servedRevisions } from "./revisions";
+import { contentReviewHistory, statusesForFilter } from "./workflow";
+import { acceptSubmission, contributorNames, findDuplicateQuestion, findPendingDuplicate, submissionConfig, submissionEntries } from "./submissions";
+import { applyReportThreshold, notifyReporters, reportEntries, reportTriage } from "./reports";
+import { buildThemeTree, isValidParent, quizQuestionPool } from "./themes";
+import { ensureTags, questionTagMap, resolveTagSlugs, setQuestionTags, tagSummaries } from "./tags";
+import { adaptiveConfig, pickAdaptiveQuestion, recordAbilityAnswer } from "./adaptive";
+import { ImportFormatError } from "./question-formats";
+import { buildReviewDeck, dueReviews, recordQuestionAnswer } from "./review";
+import { getLeaderboardPage, getLeaderboardPosition, LeaderboardCursorError } from "./leaderboard";
+import { attemptDeadline, attemptSchedule, attemptTimeLimits, timingConfig } from "./timing";
+import { fiftyFiftyEliminated, isLifelineAvailable, lifelineConfig } from "./lifelines";
+import { fromPresentedAnswer, newSeed, presentQuestion, sampleQuestions, seededRandom, toPresentedAnswer } from "./sampling";
+import { consumeAuthToken, sendPasswordResetEmail, sendVerificationEmail } from "./auth-tokens";
+import { createMailTransport } from "./mail";
+import { confirmTwoFactorSetup, getTwoFactorStatus, isTwoFactorEnabled, isTwoFactorRequired, issueRecoveryCodes, startTwoFactorSetup, twoFactorConfig, verifySecondFactor } from "./two-factor";
+import { auditLoginFailure, loginThrottleKeys, recordLoginSuccess, releaseLoginAttempt, reserveLoginAttempt } from "./login-guard";
+import {
+  createSessionMiddleware,
+  listActiveSessions,
+  MemorySessionDirectory,
+  PgSessionDirectory,
+  revokeSession,
+  revokeUserSessions,
+  startUserSession,
+  trackSessionActivity,
+  type SessionDirectory,
+} from "./sessions";
+import { loginSchema, twoFactorLoginSchema, twoFactorCodeSchema, passwordConfirmationSchema, registerSchema, verifyEmailSchema, requestPasswordResetSchema, resetPasswordSchema, updateUserRoleSchema, updateProfileSchema, submitAnswerSchema, useLifelineSchema, lifelineTypes, startQuizSchema, questionInputSchema, themeInputSchema, contentStatuses, rejectSubmissionSchema, submissionStatuses, reportQuestionSchema, resolveReportsSchema, reportStatuses, tagInputSchema, questionTagsSchema, bulkTagSchema, type ContentKind, type Question, type QuestionResult, type QuizSession, type Theme } from "@shared/schema";
+import { diffQuestionFields, questionFieldsOf, questionInputToFields, questionFileFormats, type SessionAnswerDetail } from "@shared/questions";
+import { hasPermission, type Permission } from "@shared/permissions";
+import { canApplyContentAction, canViewUnpublished, contentStatusQuerySchema, contentTransitions, contentTransitionSchema, contentWritePermission } from "@shared/workflow";
+import { leaderboardQuerySchema, leaderboardPositionQuerySchema } from "@shared/leaderboard";
+import { tagSlug } from "@shared/tags";
 import { z } from "zod";
 
-// Obtenez l'instance du stockage MemStorage
-const storage = MemStorage.getInstance(); // Ajouté ici
+// Choix du stockage : PostgreSQL si DATABASE_URL est défini, sinon MemStorage
+const pool = process.env.DATABASE_URL ? createPool(process.env.DATABASE_URL) : null;
+const db = pool ? createDb(pool) : null;
+const storage: IStorage = db ? new DrizzleStorage(db) : MemStorage.getInstance();
 
-declare module "express-session" {
-  interface SessionData {
-    userId: number;
-  }
-}
+// Les sessions suivent le même choix : en base, elles survivent aux redémarrages
+const sessionDirectory: SessionDirectory = pool && db ? new PgSessionDirectory(pool, db) : new MemorySessionDirectory();
 
-const MemoryStoreSession = MemoryStore(session);
+// Envoi des emails : SMTP si SMTP_URL est défini, sinon fichiers (MAIL_DIR) ou console
+const mailer = createMailTransport();
 
 export async function registerRoutes(app: Express): Promise<Server> {
-  app.use(
-    session({
-      store: new MemoryStoreSession({
-        checkPeriod: 86400000,
-      }),
-      secret: process.env.SESSION_SECRET || "quiz-master-secret-key",
-      resave: false,
-      saveUninitialized: false,
-      cookie: {
-        secure: process.env.NODE_ENV === "production",
-        httpOnly: true,
-        maxAge: 24 * 60 * 60 * 1000,
-      },
-    })
-  );
-
-  const requireAuth = (req: Request, res: Response, next: NextFunction) => {
-    if (!req.session?.userId) {
-      return res.status(401).json({ message: "Non autorisé" });
-    }
-    next();
-  };
-
-  const requireAdmin = async (req: Request, res: Response, next: NextFunction) => {
-    if (!req.session?.userId) {
-      return res.status(401).json({ message: "Non autorisé" });
-    }
-
-    const userId = req.session.userId;
-    const user = await storage.getUser(userId);
-    if (!user || user.role !== "admin") {
-      return res.status(403).json({ message: "Accès refusé - Admin requis" });
-    }
-
-    next();
-  };
-
-  // Auth routes
-  app.post("/api/auth/register", async (req, res) => {
-    try {
-      const data = registerSchema.parse(req.body);
-
-      const existingUser = await storage.getUserByEmail(data.email);
-      if (existingUser) {
-        return res.status(400).json({ message: "Un utilisateur avec cet email existe déjà" });
-      }
-
-      const existingUsername = await storage.getUserByUsername(data.username);
-      if (existingUsername) {
-        return res.status(400).json({ message: "Ce nom d'utilisateur est déjà pris" });
-      }
-
-      const user = await storage.createUser({
-        username: data.username,
-        email: data.email,
-        password: data.password,
-        firstName: data.firstName,
-        lastName: data.lastName,
-        role: data.role || "user",
-      });
-
-      req.session.userId = user.id;
-
-      const { password, ...userWithoutPassword } = user;
-      res.json({ user: userWithoutPassword });
-    } catch (error) {
-      if (error instanceof z.ZodError) {
-        console.error("Validation error during registration:", error.errors);
-        return res.status(400).json({ message: "Données invalides", errors: error.errors });
-      }
-      console.error("Server error during registration:", error);
-      res.status(500).json({ message: "Erreur serveur" });
-    }
-  });
-
-  app.post("/api/auth/login", async (req, res) => {
-    try {
-      const data = loginSchema.parse(req.body);
-
-      const user = await storage.validatePassword(data.email, data.password);
-      if (!user) {
-        return res.status(401).json({ message: "Email ou mot de passe incorrect" });
-      }
-
-      req.session.userId = user.id;
-
-      const { password, ...userWithoutPassword } = user;
-      res.json({ user: userWithoutPassword });
-    } catch (error) {
-      if (error instanceof z.ZodError) {
-        console.error("Validation error during login:", error.errors);
-        return res.status(400).json({ message: "Données invalides" });
-      }
-      console.error("Server error during login:", error);
-      res.status(500).json({ message: "Erreur serveur" });
-    }
-  });
-
-  app.post("/api/auth/logout", (req, res) => {
-    req.session.destroy((err) => {
-      if (err) {
-        console.error("Error destroying session:", err);
-        return res.status(500).json({ message: "Erreur lors de la déconnexion" });
-      }
-      res.json({ message: "Déconnexion réussie" });
-    });
-  });
-
-  app.get("/api/auth/me", async (req, res) => {
-    if (!req.session.userId) {
-      return res.status(401).json({ message: "Non connecté" });
-    }
-
-    const user = await storage.getUser(req.session.userId);
-    if (!user) {
-      return res.status(404).json({ message: "Utilisateur non trouvé" });
-    }
-
-    const { password, ...userWithoutPassword } = user;
-    res.json({ user: userWithoutPassword });
-  });
-
-  // Theme routes
-  app.get("/api/themes", async (req, res) => {
-    try {
-      const themes = await storage.getAllThemes();
-      res.json(themes);
-    } catch (error) {
-      console.error("Error getting all themes:", error);
-      res.status(500).json({ message: "Erreur lors de la récupération des thèmes" });
-    }
-  });
-
-  app.get("/api/themes/:id", async (req, res) => {
-    try {
-      const id = parseInt(req.params.id);
-      if (isNaN(id)) {
-        return res.status(400).json({ message: "ID de thème invalide" });
-      }
-      const theme = await storage.getTheme(id);
-
-      if (!theme) {
-        return res.status(404).json({ message: "Thème non trouvé" });
-      }
-
-      res.json(theme);
-    } catch (error) {
-      console.error("Error getting theme by ID:", error);
-      res.status(500).json({ message: "Erreur lors de la récupération du thème" });
-    }
-  });
-
-  app.post("/api/themes", requireAdmin, async (req, res) => {
-    try {
-      const theme = await storage.createTheme(req.body);
-      res.json(theme);
-    } catch (error) {
-      console.error("Error creating theme:", error);
-      res.status(500).json({ message: "Erreur lors de la création du thème" });
-    }
-  });
-
-  app.put("/api/themes/:id", requireAdmin, async (req, res) => {
-    try {
-      const id = parseInt(req.params.id);
-      if (isNaN(id)) {
-        return res.status(400).json({ message: "ID de thème invalide" });
-      }
-      const theme = await storage.updateTheme(id, req.body);
-
-      if (!theme) {
-        return res.status(404).json({ message: "Thème non trouvé" });
-      }
-
-      res.json(theme);
-    } catch (error) {
-      console.error("Error updating theme:", error);
-      res.status(500).json({ message: "Erreur lors de la mise à jour du thème" });
-    }
-  });
-
-  app.delete("/api/themes/:id", requireAdmin, async (req, res) => {
-    try {
-      const id = parseInt(req.params.id);
-      if (isNaN(id)) {
-        return res.status(400).json({ message: "ID de thème invalide" });
-      }
-      const success = await storage.deleteTheme(id);
-
-      if (!success) {
-        return res.status(404).json({ message: "Thème non trouvé" });
-      }
-
-      res.json({ message: "Thème supprimé avec succès" });
-    } catch (error) {
-      console.error("Error deleting theme:", error);
-      res.status(500).json({ message: "Erreur lors de la suppression du thème" });
-    }
-  });
-
-  // Question routes
-  app.get("/api/themes/:themeId/questions", requireAuth, async (req, res) => {
-    try {
-      const themeId = parseInt(req.params.themeId);
-      if (isNaN(themeId)) {
-        return res.status(400).json({ message: "ID de thème invalide" });
-      }
-      const questions = await storage.getQuestionsByTheme(themeId);
-
-      // Vérification explicite de userId
-      if (!req.session.userId) {
-        return res.status(401).json({ message: "Non autorisé" });
-      }
-      const user = await storage.getUser(req.session.userId);
-      if (!user) {
-        return res.status(404).json({ message: "Utilisateur non trouvé" });
-      }
-
-      if (user.role !== "admin") {
-        const questionsWithoutAnswers = questions.map((q: Question) => {
-          const { correctAnswer, explanation, ...questionWithoutAnswer } = q;
-          return questionWithoutAnswer;
-        });
-        return res.json(questionsWithoutAnswers);
-      }
-
-      res.json(questions);
-    } catch (error) {
-      console.error("Error getting questions by theme:", error);
-      res.status(500).json({ message: "Erreur lors de la récupération des questions" });
-    }
-  });
-
-  app.post("/api/themes/:themeId/questions", requireAdmin, async (req, res) => {
-    try {
-      const themeId = parseInt(req.params.themeId);
-      if (isNaN(themeId)) {
-        return res.status(400).json({ message: "ID de thème invalide" });
-      }
-      const question = await storage.createQuestion({
-        ...req.body,
-        themeId,
-      });
-      res.json(question);
-    } catch (error) {
-      console.error("Error creating question:", error);
-      res.status(500).json({ message: "Erreur lors de la création de la question" });
-    }
-  });
-
-  app.put("/api/questions/:id", requireAdmin, async (req, res) => {
-    try {
-      const id = parseInt(req.params.id);
-      if (isNaN(id)) {
-        return res.status(400).json({ message: "ID de question invalide" });
-      }
-      const question = await storage.updateQuestion(id, req.body);
-
-      if (!question) {
-        return res.status(404).json({ message: "Question non trouvée" });
-      }
-
-      res.json(question);
-    } catch (error) {
-      console.error("Error updating question:", error);
-      res.status(500).json({ message: "Erreur lors de la mise à jour de la question" });
-    }
-  });
-
-  app.delete("/api/questions/:id", requireAdmin, async (req, res) => {
-    try {
-      const id = parseInt(req.params.id);
-      if (isNaN(id)) {
-        return res.status(400).json({ message: "ID de question invalide" });
-      }
-      const success = await storage.deleteQuestion(id);
-
-      if (!success) {
-        return res.status(404).json({ message: "Question non trouvée" });
-      }
-
-      res.json({ message: "Question supprimée avec succès" });
-    } catch (error) {
-      console.error("Error deleting question:", error);
-      res.status(500).json({ message: "Erreur lors de la suppression de la question" });
-    }
-  });
-
-  // Quiz routes
-  app.post("/api/quiz/submit", requireAuth, async (req, res) => {
-    try {
-      // Vérification explicite de userId
-      if (!req.session.userId) {
-        return res.status(401).json({ message: "Non autorisé" });
-      }
-      const userId = req.session.userId;
-      const { themeId, answers, timeSpent } = req.body;
-
-      if (!themeId || !answers || typeof timeSpent !== "number") {
-        return res.status(400).json({ message: "Données manquantes ou incorrectes pour le quiz" });
-      }
-
-      const questions = await storage.getQuestionsByTheme(themeId);
-      let score = 0;
-      const results: Array<{ questionId: number; correct: boolean; correctAnswer: number }> = [];
-
-      questions.forEach((question: Question) => {
-        const userAnswer = typeof answers[question.id] === "number" ? answers[question.id] : -1;
-        const isCorrect = userAnswer === question.correctAnswer;
-
-        if (isCorrect) {
-          score++;
-        }
-
-        results.push({
-          questionId: question.id,
-          correct: isCorrect,
-          correctAnswer: question.correctAnswer,
-        });
-      });
-
-      const session = await storage.createQuizSession({
-        userId,
-        themeId,
-        score,
-        totalQuestions: questions.length,
-        timeSpent,
-      });
-
-      res.json({
-        session,
-        score,
-        totalQuestions: questions.length,
-        results,
-      });
-    } catch (error) {
-      console.error("Error submitting quiz:", error);
-      res.status(500).json({ message: "Erreur lors de la soumission du quiz" });
-    }
-  });
-
-  // User stats routes
-  app.get("/api/users/me/stats", requireAuth, async (req, res) => {
-    try {
-      // Vérification explicite de userId
-      if (!req.session.userId) {
-        return res.status(401).json({ message: "Non autorisé" });
-      }
-      const stats = await storage.getUserStats(req.session.userId);
-      const sessions = await storage.getUserQuizSessions(req.session.userId);
-
-      res.json({
-        stats,
-        totalQuizzes: sessions.length,
-        recentSessions: sessions.slice(-5).reverse(),
-      });
-    } catch (error) {
-      console.error("Error getting user stats:", error);
-      res.status(500).json({ message: "Erreur lors de la récupération des statistiques" });
-    }
-  });
-
-  app.get("/api/users/me/stats/:themeId", requireAuth, async (req, res) => {
-    try {
-      const themeId = parseInt(req.params.themeId);
-      if (isNaN(themeId)) {
-        return res.status(400).json({ message: "ID de thème invalide" });
-      }
-      // Vérification explicite de userId
-      if (!req.session.userId) {
-        return res.status(401).json({ message: "Non autorisé" });
-      }
-      const stats = await storage.getUserStatsByTheme(req.session.userId, themeId);
-      const sessions = await storage.getUserQuizSessions(req.session.userId);
-      const themeSessions = sessions.filter((s: QuizSession) => s.themeId === themeId);
-
-      res.json({
-        stats,
-        sessions: themeSessions.reverse(),
-      });
-    } catch (error) {
-      console.error("Error getting theme stats:", error);
-      res.status(500).json({ message: "Erreur lors de la récupération des statistiques du thème" });
-    }
-  });
-
-  // Leaderboard routes
-  app.get("/api/leaderboard/global", async (req, res) => {
-    try {
-      const leaderboard = await storage.getGlobalLeaderboard();
-      res.json(leaderboard);
-    } catch (error) {
-      console.error("Error getting global leaderboard:", error);
-      res.status(500).json({ message: "Erreur lors de la récupération du classement global" });
-    }
-  });
-
-  app.get("/api/leaderboard/theme/:themeId", async (req, res) => {
-    try {
-      const themeId = parseInt(req.params.themeId);
-      if (isNaN(themeId)) {
-        return res.status(400).json({ message: "ID de thème invalide" });
-      }
-      const leaderboard = await storage.getThemeLeaderboard(themeId);
-      res.json(leaderboard);
-    } catch (error) {
-      console.error("Error getting theme leaderboard:", error);
-      res.status(500).json({ message: "Erreur lors de la récupération du classement du thème" });
-    }
-  });
-
-  // Admin routes
-  app.get("/api/admin/stats", requireAdmin, async (req, res) => {
-    try {
-      const users = await storage.getGlobalLeaderboard();
-      const themes = await storage.getAllThemes();
-
-      const totalUsers = users.length;
-      const totalThemes = themes.length;
-
-      let totalSessions = 0;
-      for (const user of users) {
-        const sessions = await storage.getUserQuizSessions(user.id);
-        totalSessions += sessions.length;
-      }
-
-      res.json({
-        totalUsers,
-        totalThemes,
-        totalSessions,
-        activeThemes: themes.filter((t: Theme) => t.isActive).length,
-      });
-    } catch (error) {
-      console.error("Error getting admin stats:", error);
-      res.status(500).json({ message: "Erreur lors de la récupération des statistiques admin" });
-    }
-  });
-
-  const httpServer = createServer(app);
-  return httpServer;
+  if (storage instanceof DrizzleStorage) {
+    await storage.seedIfEmpty();
+  }
+
+  // Middleware conservé pour authentifier aussi les connexions WebSocket
+  const sessionMiddleware = createSessionMiddleware(sessionDirectory);
+  app.use(sessionMiddleware);
+  app.use(trackSessionActivity);
+
+  const requireAuth = (req: Request, res: Response, next: NextFunction) => {
+    if (!req.session?.userId) {
+      return res.status(401).json({ message: "Non autorisé" });
+    }
+    next();
+  };
+
+  // Le rôle est relu à chaque requête (et non figé dans la session) : un changement
+  // de rôle ou un retrait de droits s'applique immédiatement. Une seule des permissions suffit.
+  const requireAnyPermission = (...required: Permission[]) => async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.session?.userId) {
+      return res.status(401).json({ message: "Non autorisé" });
+    }
+
+    const user = await storage.getUser(req.session.userId);
+    if (!user || !required.some((permission) => hasPermission(user.role, permission))) {
+      return res.status(403).json({ message: "Accès refusé - Permission requise" });
+    }
+
+    // Double authentification obligatoire pour certains rôles : pas de droits tant qu'elle n'est pas activée
+    if (isTwoFactorRequired(user.role) && !(await isTwoFactorEnabled(storage, user.id))) {
+      return res.status(403).json({
+        message: "Activez la double authentification pour accéder à l'administration",
+        code: "two_factor_setup_required",
+      });
+    }
+
+    next();
+  };
+
+  const requirePermission = (permission: Permission) => requireAnyPermission(permission);
+
+  // États demandés par ?status= ; les contenus non publiés sont réservés aux auteurs et relecteurs
+  const requestedStatuses = async (req: Request) => {
+    const { status } = contentStatusQuerySchema.parse(req.query);
+    const statuses = statusesForFilter(status);
+    if (statuses.length === 1 && statuses[0] === "published") return statuses;
+
+    const user = req.session.userId ? await storage.getUser(req.session.userId) : undefined;
+    return canViewUnpublished(user?.role) ? statuses : null;
+  };
+
+  const sendLoginThrottled = (res: Response, retryAfterMs: number) => {
+    const retryAfter = Math.ceil(retryAfterMs / 1000);
+    res.set("Retry-After", String(retryAfter));
+    res.status(429).json({
+      message: `Trop de tentatives de connexion. Réessayez dans ${retryAfter < 60 ? `${retryAfter} s` : `${Math.ceil(retryAfter / 60)} min`}.`,
+      retryAfter,
+    });
+  };
+
+  // Auth routes
+  app.post("/api/auth/register", async (req, res) => {
+    try {
+      const data = registerSchema.parse(req.body);
+
+      const existingUser = await storage.getUserByEmail(data.email);
+      if (existingUser) {
+        return res.status(400).json({ message: "Un utilisateur avec cet email existe déjà" });
+      }
+
+      const existingUsername = await storage.getUserByUsername(data.username);
+      if (existingUsername) {
+        return res.status(400).json({ message: "Ce nom d'utilisateur est déjà pris" });
+      }
+
+      const user = await storage.createUser({
+        username: data.username,
+        email: data.email,
+        password: data.password,
+        firstName: data.firstName,
+        lastName: data.lastName,
+        role: "user",
+      });
+
+      await startUserSession(req, user.id);
+
+      // Un échec d'envoi ne bloque pas l'inscription : le lien peut être redemandé
+      try {
+        await sendVerificationEmail(storage, mailer, user);
+      } catch (mailError) {
+        console.error("Error sending verification email:", mailError);
+      }
+
+      const { password, ...userWithoutPassword } = user;
+      res.json({ user: userWithoutPassword });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        console.error("Validation error during registration:", error.errors);
+        return res.status(400).json({ message: "Données invalides", errors: error.errors });
+      }
+      console.error("Server error during registration:", error);
+      res.status(500).json({ message: "Erreur serveur" });
+    }
+  });
+
+  app.post("/api/auth/login", async (req, res) => {
+    try {
+      const data = loginSchema.parse(req.body);
+      const keys = loginThrottleKeys(req, data.email);
+      const now = new Date();
+
+      // Même réponse que le compte existe ou non : seul le nombre d'échecs compte
+      const retryAfterMs = await reserveLoginAttempt(storage, keys, now);
+      if (retryAfterMs > 0) {
+        await auditLoginFailure(storage, req, data.email, "throttled");
+        return sendLoginThrottled(res, retryAfterMs);
+      }
+
+      const user = await storage.validatePassword(data.email, data.password);
+      if (!user) {
+        await auditLoginFailure(storage, req, data.email, "invalid_credentials");
+        return res.status(401).json({ message: "Email ou mot de passe incorrect" });
+      }
+
+      // Double authentification : la connexion n'aboutit qu'avec le code (/api/auth/login/2fa), et le
+      // compteur d'échecs n'est remis à zéro qu'à ce moment
+      if (await isTwoFactorEnabled(storage, user.id)) {
+        await releaseLoginAttempt(storage, keys);
+        delete req.session.userId;
+        req.session.pendingTwoFactor = {
+          userId: user.id,
+          expiresAt: Date.now() + twoFactorConfig.pendingLoginTtlMs,
+          attempts: 0,
+        };
+        return res.json({ twoFactorRequired: true });
+      }
+
+      await recordLoginSuccess(storage, keys);
+      await startUserSession(req, user.id);
+
+      const { password, ...userWithoutPassword } = user;
+      res.json({ user: userWithoutPassword, twoFactorSetupRequired: isTwoFactorRequired(user.role) });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        console.error("Validation error during login:", error.errors);
+        return res.status(400).json({ message: "Données invalides" });
+      }
+      console.error("Server error during login:", error);
+      res.status(500).json({ message: "Erreur serveur" });
+    }
+  });
+
+  // Seconde étape de connexion : code de l'application d'authentification ou code de secours
+  app.post("/api/auth/login/2fa", async (req, res) => {
+    try {
+      const { code } = twoFactorLoginSchema.parse(req.body);
+
+      const pending = req.session.pendingTwoFactor;
+      if (!pending || pending.expiresAt <= Date.now()) {
+        delete req.session.pendingTwoFactor;
+        return res.status(401).json({ message: "Délai dépassé, reconnectez-vous" });
+      }
+
+      const user = await storage.getUser(pending.userId);
+      if (!user) {
+        delete req.session.pendingTwoFactor;
+        return res.status(401).json({ message: "Délai dépassé, reconnectez-vous" });
+      }
+
+      const keys = loginThrottleKeys(req, user.email);
+      const now = new Date();
+      const retryAfterMs = await reserveLoginAttempt(storage, keys, now);
+      if (retryAfterMs > 0) {
+        await auditLoginFailure(storage, req, user.email, "throttled");
+        return sendLoginThrottled(res, retryAfterMs);
+      }
+
+      if (!(await verifySecondFactor(storage, user.id, code))) {
+        await auditLoginFailure(storage, req, user.email, "invalid_second_factor");
+
+        // Trop d'essais : le mot de passe doit être ressaisi
+        pending.attempts++;
+        if (pending.attempts >= twoFactorConfig.maxLoginAttempts) {
+          delete req.session.pendingTwoFactor;
+          return res.status(401).json({ message: "Trop de codes incorrects, reconnectez-vous" });
+        }
+        return res.status(400).json({ message: "Code incorrect" });
+      }
+
+      await recordLoginSuccess(storage, keys);
+      await startUserSession(req, user.id);
+
+      const { password, ...userWithoutPassword } = user;
+      res.json({ user: userWithoutPassword });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Données invalides", errors: error.errors });
+      }
+      console.error("Server error during two-factor login:", error);
+      res.status(500).json({ message: "Erreur serveur" });
+    }
+  });
+
+  app.post("/api/auth/logout", (req, res) => {
+    req.session.destroy((err) => {
+      if (err) {
+        console.error("Error destroying session:", err);
+        return res.status(500).json({ message: "Erreur lors de la déconnexion" });
+      }
+      res.json({ message: "Déconnexion réussie" });
+    });
+  });
+
+  app.post("/api/auth/verify-email", async (req, res) => {
+    try {
+      const { token } = verifyEmailSchema.parse(req.body);
+
+      const userId = await consumeAuthToken(storage, token, "verify_email");
+      if (!userId) {
+        return res.status(400).json({ message: "Lien de vérification invalide ou expiré" });
+      }
+
+      await storage.updateUser(userId, { emailVerifiedAt: new Date() });
+      res.json({ message: "Adresse email confirmée" });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Données invalides", errors: error.errors });
+      }
+      console.error("Error verifying email:", error);
+      res.status(500).json({ message: "Erreur serveur" });
+    }
+  });
+
+  app.post("/api/auth/verify-email/resend", requireAuth, async (req, res) => {
+    try {
+      const user = await storage.getUser(req.session.userId!);
+      if (!user) {
+        return res.status(404).json({ message: "Utilisateur non trouvé" });
+      }
+      if (user.emailVerifiedAt) {
+        return res.status(409).json({ message: "Cette adresse email est déjà confirmée" });
+      }
+
+      await sendVerificationEmail(storage, mailer, user);
+      res.json({ message: "Un nouveau lien de vérification a été envoyé" });
+    } catch (error) {
+      console.error("Error resending verification email:", error);
+      res.status(500).json({ message: "Erreur lors de l'envoi de l'email" });
+    }
+  });
+
+  // La réponse est la même que le compte existe ou non, pour ne pas révéler les adresses inscrites
+  app.post("/api/auth/password-reset", async (req, res) => {
+    try {
+      const { email } = requestPasswordResetSchema.parse(req.body);
+
+      // Envoi non attendu : le temps de réponse ne dépend pas non plus de l'existence du compte
+      const user = await storage.getUserByEmail(email);
+      if (user) {
+        sendPasswordResetEmail(storage, mailer, user).catch((mailError) => {
+          console.error("Error sending password reset email:", mailError);
+        });
+      }
+
+      res.json({ message: "Si un compte correspond à cette adresse, un email de réinitialisation a été envoyé" });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Données invalides", errors: error.errors });
+      }
+      console.error("Error requesting password reset:", error);
+      res.status(500).json({ message: "Erreur lors de l'envoi de l'email" });
+    }
+  });
+
+  app.post("/api/auth/password-reset/confirm", async (req, res) => {
+    try {
+      const data = resetPasswordSchema.parse(req.body);
+
+      const userId = await consumeAuthToken(storage, data.token, "reset_password");
+      if (!userId) {
+        return res.status(400).json({ message: "Lien de réinitialisation invalide ou expiré" });
+      }
+
+      // Le lien a été reçu sur l'adresse du compte : elle est confirmée du même coup
+      const user = await storage.updatePassword(userId, data.password);
+      if (user && !user.emailVerifiedAt) {
+        await storage.updateUser(userId, { emailVerifiedAt: new Date() });
+      }
+      // Les sessions ouvertes avec l'ancien mot de passe sont fermées
+      await revokeUserSessions(sessionDirectory, userId);
+
+      res.json({ message: "Mot de passe modifié, vous pouvez vous connecter" });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Données invalides", errors: error.errors });
+      }
+      console.error("Error resetting password:", error);
+      res.status(500).json({ message: "Erreur serveur" });
+    }
+  });
+
+  // Double authentification du compte connecté
+  app.get("/api/auth/2fa", requireAuth, async (req, res) => {
+    try {
+      const user = await storage.getUser(req.session.userId!);
+      if (!user) {
+        return res.status(404).json({ message: "Utilisateur non trouvé" });
+      }
+      res.json(await getTwoFactorStatus(storage, user));
+    } catch (error) {
+      console.error("Error getting two-factor status:", error);
+      res.status(500).json({ message: "Erreur lors de la récupération de la double authentification" });
+    }
+  });
+
+  app.post("/api/auth/2fa/setup", requireAuth, async (req, res) => {
+    try {
+      const user = await storage.getUser(req.session.userId!);
+      if (!user) {
+        return res.status(404).json({ message: "Utilisateur non trouvé" });
+      }
+      if (await isTwoFactorEnabled(storage, user.id)) {
+        return res.status(409).json({ message: "La double authentification est déjà activée" });
+      }
+
+      res.json(await startTwoFactorSetup(storage, user));
+    } catch (error) {
+      console.error("Error starting two-factor setup:", error);
+      res.status(500).json({ message: "Erreur lors de l'activation de la double authentification" });
+    }
+  });
+
+  app.post("/api/auth/2fa/enable", requireAuth, async (req, res) => {
+    try {
+      const { code } = twoFactorCodeSchema.parse(req.body);
+      const userId = req.session.userId!;
+
+      if (await isTwoFactorEnabled(storage, userId)) {
+        return res.status(409).json({ message: "La double authentification est déjà activée" });
+      }
+
+      const recoveryCodes = await confirmTwoFactorSetup(storage, userId, code);
+      if (!recoveryCodes) {
+        return res.status(400).json({ message: "Code incorrect" });
+      }
+      res.json({ recoveryCodes });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Données invalides", errors: error.errors });
+      }
+      console.error("Error enabling two-factor:", error);
+      res.status(500).json({ message: "Erreur lors de l'activation de la double authentification" });
+    }
+  });
+
+  // Les actions qui affaiblissent la protection du compte demandent le mot de passe
+  app.post("/api/auth/2fa/recovery-codes", requireAuth, async (req, res) => {
+    try {
+      const { password } = passwordConfirmationSchema.parse(req.body);
+      const user = await storage.getUser(req.session.userId!);
+      if (!user) {
+        return res.status(404).json({ message: "Utilisateur non trouvé" });
+      }
+      if (!(await storage.validatePassword(user.email, password))) {
+        return res.status(400).json({ message: "Mot de passe incorrect" });
+      }
+      if (!(await isTwoFactorEnabled(storage, user.id))) {
+        return res.status(409).json({ message: "La double authentification n'est pas activée" });
+      }
+
+      res.json({ recoveryCodes: await issueRecoveryCodes(storage, user.id) });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Données invalides", errors: error.errors });
+      }
+      console.error("Error regenerating recovery codes:", error);
+      res.status(500).json({ message: "Erreur lors de la génération des codes de secours" });
+    }
+  });
+
+  app.post("/api/auth/2fa/disable", requireAuth, async (req, res) => {
+    try {
+      const { password } = passwordConfirmationSchema.parse(req.body);
+      const user = await storage.getUser(req.session.userId!);
+      if (!user) {
+        return res.status(404).json({ message: "Utilisateur non trouvé" });
+      }
+      if (!(await storage.validatePassword(user.email, password))) {
+        return res.status(400).json({ message: "Mot de passe incorrect" });
+      }
+      if (isTwoFactorRequired(user.role)) {
+        return res.status(403).json({ message: "La double authentification est obligatoire pour votre rôle" });
+      }
+      if (!(await isTwoFactorEnabled(storage, user.id))) {
+        return res.status(409).json({ message: "La double authentification n'est pas activée" });
+      }
+
+      await storage.deleteTwoFactor(user.id);
+      res.json({ message: "Double authentification désactivée" });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Données invalides", errors: error.errors });
+      }
+      console.error("Error disabling two-factor:", error);
+      res.status(500).json({ message: "Erreur lors de la désactivation de la double authentification" });
+    }
+  });
+
+  // Sessions actives de l'utilisateur connecté (appareils, adresses, dernière activité)
+  app.get("/api/auth/sessions", requireAuth, async (req, res) => {
+    try {
+      res.json(await listActiveSessions(sessionDirectory, req.session.userId!, req.session));
+    } catch (error) {
+      console.error("Error listing sessions:", error);
+      res.status(500).json({ message: "Erreur lors de la récupération des sessions" });
+    }
+  });
+
+  app.delete("/api/auth/sessions/:id", requireAuth, async (req, res) => {
+    try {
+      const revoked = await revokeSession(sessionDirectory, req.session.userId!, req.params.id);
+      if (!revoked) {
+        return res.status(404).json({ message: "Session non trouvée" });
+      }
+      res.json({ message: "Session révoquée" });
+    } catch (error) {
+      console.error("Error revoking session:", error);
+      res.status(500).json({ message: "Erreur lors de la révocation de la session" });
+    }
+  });
+
+  // Déconnexion partout, y compris sur l'appareil courant
+  app.delete("/api/auth/sessions", requireAuth, async (req, res) => {
+    try {
+      const count = await revokeUserSessions(sessionDirectory, req.session.userId!, req.sessionID);
+      req.session.destroy((err) => {
+        if (err) {
+          console.error("Error destroying session:", err);
+          return res.status(500).json({ message: "Erreur lors de la déconnexion" });
+        }
+        res.json({ message: "Déconnexion de toutes les sessions réussie", revoked: count + 1 });
+      });
+    } catch (error) {
+      console.error("Error revoking sessions:", error);
+      res.status(500).json({ message: "Erreur lors de la révocation des sessions" });
+    }
+  });
+
+  app.get("/api/auth/me", async (req, res) => {
+    if (!req.session.userId) {
+      return res.status(401).json({ message: "Non connecté" });
+    }
+
+    const user = await storage.getUser(req.session.userId);
+    if (!user) {
+      return res.status(404).json({ message: "Utilisateur non trouvé" });
+    }
+
+    const { password, ...userWithoutPassword } = user;
+    res.json({ user: userWithoutPassword });
+  });
+
+  // Theme routes
+  app.get("/api/themes", async (req, res) => {
+    try {
+      const statuses = await requestedStatuses(req);
+      if (!statuses) {
+        return res.status(403).json({ message: "Accès refusé - Permission requise" });
+      }
+
+      const themes = await storage.getAllThemes(statuses);
+      res.json(buildThemeTree(themes));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Données invalides", errors: error.errors });
+      }
+      console.error("Error getting all themes:", error);
+      res.status(500).json({ message: "Erreur lors de la récupération des thèmes" });
+    }
+  });
+
+  app.get("/api/themes/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "ID de thème invalide" });
+      }
+      const theme = await storage.getTheme(id);
+
+      if (!theme) {
+        return res.status(404).json({ message: "Thème non trouvé" });
+      }
+      if (theme.status !== "published") {
+        const user = req.session.userId ? await storage.getUser(req.session.userId) : undefined;
+        if (!canViewUnpublished(user?.role)) {
+          return res.status(404).json({ message: "Thème non trouvé" });
+        }
+      }
+
+      res.json(theme);
+    } catch (error) {
+      console.error("Error getting theme by ID:", error);
+      res.status(500).json({ message: "Erreur lors de la récupération du thème" });
+    }
+  });
+
+  app.post("/api/themes", requirePermission("theme:write"), async (req, res) => {
+    try {
+      // Un nouveau thème reste en brouillon jusqu'à sa publication
+      const data = themeInputSchema.parse(req.body);
+      if (data.parentId != null && !(await isValidParent(storage, null, data.parentId))) {
+        return res.status(400).json({ message: "Thème parent invalide" });
+      }
+      const theme = await storage.createTheme({ ...data, status: "draft" });
+      res.json(theme);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Données invalides", errors: error.errors });
+      }
+      console.error("Error creating theme:", error);
+      res.status(500).json({ message: "Erreur lors de la création du thème" });
+    }
+  });
+
+  app.put("/api/themes/:id", requirePermission("theme:write"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "ID de thème invalide" });
+      }
+      const data = themeInputSchema.partial().parse(req.body);
+      // Pas de cycle : un thème ne peut pas être rangé sous lui-même ou sous l'un de ses sous-thèmes
+      if (data.parentId != null && !(await isValidParent(storage, id, data.parentId))) {
+        return res.status(400).json({ message: "Thème parent invalide" });
+      }
+      const theme = await storage.updateTheme(id, data);
+
+      if (!theme) {
+        return res.status(404).json({ message: "Thème non trouvé" });
+      }
+
+      res.json(theme);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Données invalides", errors: error.errors });
+      }
+      console.error("Error updating theme:", error);
+      res.status(500).json({ message: "Erreur lors de la mise à jour du thème" });
+    }
+  });
+
+  app.delete("/api/themes/:id", requirePermission("theme:write"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "ID de thème invalide" });
+      }
+      if ((await storage.getChildThemes(id)).length > 0) {
+        return res.status(409).json({ message: "Ce thème contient des sous-thèmes : déplacez-les ou supprimez-les d'abord" });
+      }
+      const success = await storage.deleteTheme(id);
+
+      if (!success) {
+        return res.status(404).json({ message: "Thème non trouvé" });
+      }
+
+      res.json({ message: "Thème supprimé avec succès" });
+    } catch (error) {
+      console.error("Error deleting theme:", error);
+      res.status(500).json({ message: "Erreur lors de la suppression du thème" });
+    }
+  });
+
+  // Question routes
+  app.get("/api/themes/:themeId/questions", requireAuth, async (req, res) => {
+    try {
+      const themeId = parseInt(req.params.themeId);
+      if (isNaN(themeId)) {
+        return res.status(400).json({ message: "ID de thème invalide" });
+      }
+      const statuses = await requestedStatuses(req);
+      if (!statuses) {
+        return res.status(403).json({ message: "Accès refusé - Permission requise" });
+      }
+      const questions = await storage.getQuestionsByTheme(themeId, statuses);
+
+      // Vérification explicite de userId
+      if (!req.session.userId) {
+        return res.status(401).json({ message: "Non autorisé" });
+      }
+      const user = await storage.getUser(req.session.userId);
+      if (!user) {
+        return res.status(404).json({ message: "Utilisateur non trouvé" });
+      }
+
+      // Seuls les auteurs de contenu voient les bonnes réponses
+      if (!hasPermission(user.role, "question:write")) {
+        return res.json(questions.map((question) => toPublicQuestion(question)));
+      }
+
+      const tags = await questionTagMap(storage, questions);
+      res.json(questions.map((question) => ({ ...question, tags: tags[question.id] })));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Données invalides", errors: error.errors });
+      }
+      console.error("Error getting questions by theme:", error);
+      res.status(500).json({ message: "Erreur lors de la récupération des questions" });
+    }
+  });
+
+  app.post("/api/themes/:themeId/questions", requirePermission("question:write"), async (req, res) => {
+    try {
+      const themeId = parseInt(req.params.themeId);
+      if (isNaN(themeId)) {
+        return res.status(400).json({ message: "ID de thème invalide" });
+      }
+      const data = questionInputSchema.parse(req.body);
+      // Brouillon : la question n'est servie aux joueurs qu'après relecture et publication
+      const question = await storage.createQuestion({
+        ...questionInputToFields(data),
+        themeId,
+        status: "draft",
+      }, req.session.userId!);
+      res.json(question);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Données invalides", errors: error.errors });
+      }
+      console.error("Error creating question:", error);
+      res.status(500).json({ message: "Erreur lors de la création de la question" });
+    }
+  });
+
+  app.put("/api/questions/:id", requirePermission("question:write"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "ID de question invalide" });
+      }
+      const data = questionInputSchema.parse(req.body);
+      const current = await storage.getQuestion(id);
+      if (!current) {
+        return res.status(404).json({ message: "Question non trouvée" });
+      }
+
+      // Chaque modification effective est conservée comme révision, avec son auteur
+      const fields = questionInputToFields(data);
+      if (diffQuestionFields(questionFieldsOf(current), fields).length === 0) {
+        return res.json(current);
+      }
+
+      // Sans droit de relecture, modifier une question publiée la retire du jeu :
+      // elle repasse en brouillon et doit être relue avant d'être republiée
+      const user = await storage.getUser(req.session.userId!);
+      if (current.status === "published" && !hasPermission(user?.role, "content:review")) {
+        const review = await storage.transitionContent({
+          contentKind: "question",
+          contentId: id,
+          authorId: req.session.userId!,
+          action: "unpublish",
+          fromStatus: "published",
+          toStatus: "draft",
+          comment: "Modifiée après publication : à relire avant republication",
+        });
+        if (!review) {
+          return res.status(409).json({ message: "Le contenu a changé d'état entre-temps, rechargez la page" });
+        }
+      }
+      const question = await storage.reviseQuestion(id, fields, req.session.userId!);
+
+      if (!question) {
+        return res.status(404).json({ message: "Question non trouvée" });
+      }
+
+      res.json(question);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Données invalides", errors: error.errors });
+      }
+      console.error("Error updating question:", error);
+      res.status(500).json({ message: "Erreur lors de la mise à jour de la question" });
+    }
+  });
+
+  // Import en masse : le fichier est envoyé tel quel dans le corps de la requête
+  app.post(
+    "/api/themes/:themeId/questions/import",
+    requirePermission("question:write"),
+    express.text({ type: () => true, limit: "5mb" }),
+    async (req, res) => {
+      try {
+        const themeId = parseInt(req.params.themeId);
+        if (isNaN(themeId)) {
+          return res.status(400).json({ message: "ID de thème invalide" });
+        }
+        const format = z.enum(questionFileFormats).safeParse(req.query.format);
+        if (!format.success) {
+          return res.status(400).json({ message: `Format invalide (formats acceptés : ${questionFileFormats.join(", ")})` });
+        }
+        // Un fichier JSON envoyé en application/json a déjà été décodé par express.json()
+        const content = typeof req.body === "string" ? req.body : format.data === "json" ? JSON.stringify(req.body) : "";
+        if (!content.trim()) {
+          return res.status(400).json({ message: "Fichier vide" });
+        }
+
+        const theme = await storage.getTheme(themeId);
+        if (!theme) {
+          return res.status(404).json({ message: "Thème non trouvé" });
+        }
+
+        const report = await importQuestions(storage, themeId, format.data, content, {
+          dryRun: req.query.dryRun === "true",
+          authorId: req.session.userId!,
+        });
+        res.json(report);
+      } catch (error) {
+        if (error instanceof ImportFormatError) {
+          return res.status(400).json({ message: error.message });
+        }
+        console.error("Error importing questions:", error);
+        res.status(500).json({ message: "Erreur lors de l'import des questions" });
+      }
+    },
+  );
+
+  app.get("/api/themes/:themeId/questions/export", requirePermission("question:write"), async (req, res) => {
+    try {
+      const themeId = parseInt(req.params.themeId);
+      if (isNaN(themeId)) {
+        return res.status(400).json({ message: "ID de thème invalide" });
+      }
+      const format = z.enum(questionFileFormats).safeParse(req.query.format ?? "json");
+      if (!format.success) {
+        return res.status(400).json({ message: `Format invalide (formats acceptés : ${questionFileFormats.join(", ")})` });
+      }
+
+      const file = await exportQuestions(storage, themeId, format.data);
+      if (!file) {
+        return res.status(404).json({ message: "Thème non trouvé" });
+      }
+
+      res.setHeader("Content-Type", `${file.contentType}; charset=utf-8`);
+      res.setHeader("Content-Disposition", `attachment; filename="questions-theme-${themeId}.${file.extension}"`);
+      res.send(file.content);
+    } catch (error) {
+      console.error("Error exporting questions:", error);
+      res.status(500).json({ message: "Erreur lors de l'export des questions" });
+    }
+  });
+
+  // Historique des révisions d'une question, avec les champs modifiés à chaque étape
+  app.get("/api/questions/:id/revisions", requirePermission("question:write"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "ID de question invalide" });
+      }
+      const question = await storage.getQuestion(id);
+      if (!question) {
+        return res.status(404).json({ message: "Question non trouvée" });
+      }
+
+      res.json(await questionHistory(storage, question));
+    } catch (error) {
+      console.error("Error getting question revisions:", error);
+      res.status(500).json({ message: "Erreur lors de la récupération de l'historique" });
+    }
+  });
+
+  // Retour à une version antérieure : son contenu est republié comme nouvelle révision
+  app.post("/api/questions/:id/revisions/:revision/revert", requirePermission("question:write"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const revision = parseInt(req.params.revision);
+      if (isNaN(id) || isNaN(revision)) {
+        return res.status(400).json({ message: "ID de question ou de révision invalide" });
+      }
+
+      const question = await storage.getQuestion(id);
+      const target = question && await storage.getQuestionRevision(id, revision);
+      if (!question || !target) {
+        return res.status(404).json({ message: "Révision non trouvée" });
+      }
+      if (diffQuestionFields(questionFieldsOf(question), target.content).length === 0) {
+        return res.status(409).json({ message: "Cette révision correspond déjà à la version en vigueur" });
+      }
+
+      const reverted = await storage.reviseQuestion(id, target.content, req.session.userId!, revision);
+      res.json(reverted);
+    } catch (error) {
+      console.error("Error reverting question:", error);
+      res.status(500).json({ message: "Erreur lors de la restauration de la révision" });
+    }
+  });
+
+  app.delete("/api/questions/:id", requirePermission("question:write"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "ID de question invalide" });
+      }
+      const success = await storage.deleteQuestion(id);
+
+      if (!success) {
+        return res.status(404).json({ message: "Question non trouvée" });
+      }
+
+      res.json({ message: "Question supprimée avec succès" });
+    } catch (error) {
+      console.error("Error deleting question:", error);
+      res.status(500).json({ message: "Erreur lors de la suppression de la question" });
+    }
+  });
+
+  // Cycle de publication (brouillon → relecture → publié → archivé), commun aux thèmes et aux questions
+  const findContent = (kind: ContentKind, id: number) => (kind === "theme" ? storage.getTheme(id) : storage.getQuestion(id));
+  const contentNotFound = (kind: ContentKind) => (kind === "theme" ? "Thème non trouvé" : "Question non trouvée");
+
+  const transitionContent = (kind: ContentKind) => async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "ID invalide" });
+      }
+      const { action, comment } = contentTransitionSchema.parse(req.body);
+
+      const user = await storage.getUser(req.session.userId!);
+      if (!canApplyContentAction(user?.role, kind, action)) {
+        return res.status(403).json({ message: "Accès refusé - Permission requise" });
+      }
+
+      const content = await findContent(kind, id);
+      if (!content) {
+        return res.status(404).json({ message: contentNotFound(kind) });
+      }
+      const transition = contentTransitions[action];
+      if (!transition.from.includes(content.status)) {
+        return res.status(409).json({ message: "Cette action n'est pas possible dans l'état actuel du contenu" });
+      }
+
+      const review = await storage.transitionContent({
+        contentKind: kind,
+        contentId: id,
+        authorId: user!.id,
+        action,
+        fromStatus: content.status,
+        toStatus: transition.to,
+        comment: comment || null,
+      });
+      // Le contenu a changé d'état entre la lecture et la mise à jour (décision concurrente)
+      if (!review) {
+        return res.status(409).json({ message: "Le contenu a changé d'état entre-temps, rechargez la page" });
+      }
+
+      res.json(await findContent(kind, id));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Données invalides", errors: error.errors });
+      }
+      console.error(`Error changing ${kind} status:`, error);
+      res.status(500).json({ message: "Erreur lors du changement d'état" });
+    }
+  };
+
+  const listContentReviews = (kind: ContentKind) => async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "ID invalide" });
+      }
+      if (!(await findContent(kind, id))) {
+        return res.status(404).json({ message: contentNotFound(kind) });
+      }
+
+      res.json(await contentReviewHistory(storage, kind, id));
+    } catch (error) {
+      console.error(`Error getting ${kind} reviews:`, error);
+      res.status(500).json({ message: "Erreur lors de la récupération du suivi de relecture" });
+    }
+  };
+
+  app.post("/api/themes/:id/status", requireAnyPermission(contentWritePermission("theme"), "content:review"), transitionContent("theme"));
+  app.post("/api/questions/:id/status", requireAnyPermission(contentWritePermission("question"), "content:review"), transitionContent("question"));
+  app.get("/api/themes/:id/reviews", requireAnyPermission(contentWritePermission("theme"), "content:review"), listContentReviews("theme"));
+  app.get("/api/questions/:id/reviews", requireAnyPermission(contentWritePermission("question"), "content:review"), listContentReviews("question"));
+
+  // Tag routes
+  // Filtre d'étiquettes d'un quiz : questions restantes et étiquettes encore disponibles
+  app.get("/api/themes/:id/tags", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "ID de thème invalide" });
+      }
+      const { tags: slugs } = z.object({ tags: z.string().optional() }).parse(req.query);
+
+      const theme = await storage.getTheme(id);
+      if (!theme || !theme.isActive || theme.status !== "published") {
+        return res.status(404).json({ message: "Thème non trouvé" });
+      }
+
+      const { tagIds, unknown } = await resolveTagSlugs(storage, slugs?.split(",").filter(Boolean) ?? []);
+      if (unknown.length > 0) {
+        return res.status(400).json({ message: `Étiquette inconnue : ${unknown.join(", ")}` });
+      }
+      const questions = await quizQuestionPool(storage, id, tagIds);
+      res.json({ questionCount: questions.length, tags: await tagSummaries(storage, questions) });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Données invalides", errors: error.errors });
+      }
+      console.error("Error getting theme tags:", error);
+      res.status(500).json({ message: "Erreur lors de la récupération des étiquettes" });
+    }
+  });
+
+  app.get("/api/tags", requirePermission("question:write"), async (req, res) => {
+    try {
+      res.json(await tagSummaries(storage));
+    } catch (error) {
+      console.error("Error getting tags:", error);
+      res.status(500).json({ message: "Erreur lors de la récupération des étiquettes" });
+    }
+  });
+
+  app.post("/api/tags", requirePermission("question:write"), async (req, res) => {
+    try {
+      const { name } = tagInputSchema.parse(req.body);
+      const slug = tagSlug(name);
+      if (!slug) {
+        return res.status(400).json({ message: "Le nom de l'étiquette doit contenir des lettres ou des chiffres" });
+      }
+      if (await storage.getTagBySlug(slug)) {
+        return res.status(409).json({ message: "Cette étiquette existe déjà" });
+      }
+
+      res.json(await storage.createTag({ name, slug }));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Données invalides", errors: error.errors });
+      }
+      console.error("Error creating tag:", error);
+      res.status(500).json({ message: "Erreur lors de la création de l'étiquette" });
+    }
+  });
+
+  app.put("/api/tags/:id", requirePermission("question:write"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "ID d'étiquette invalide" });
+      }
+      const { name } = tagInputSchema.parse(req.body);
+      const slug = tagSlug(name);
+      if (!slug) {
+        return res.status(400).json({ message: "Le nom de l'étiquette doit contenir des lettres ou des chiffres" });
+      }
+      const existing = await storage.getTagBySlug(slug);
+      if (existing && existing.id !== id) {
+        return res.status(409).json({ message: "Une autre étiquette porte déjà ce nom" });
+      }
+
+      const tag = await storage.updateTag(id, { name, slug });
+      if (!tag) {
+        return res.status(404).json({ message: "Étiquette non trouvée" });
+      }
+      res.json(tag);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Données invalides", errors: error.errors });
+      }
+      console.error("Error updating tag:", error);
+      res.status(500).json({ message: "Erreur lors de la mise à jour de l'étiquette" });
+    }
+  });
+
+  app.delete("/api/tags/:id", requirePermission("question:write"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "ID d'étiquette invalide" });
+      }
+      if (!(await storage.deleteTag(id))) {
+        return res.status(404).json({ message: "Étiquette non trouvée" });
+      }
+      res.json({ message: "Étiquette supprimée avec succès" });
+    } catch (error) {
+      console.error("Error deleting tag:", error);
+      res.status(500).json({ message: "Erreur lors de la suppression de l'étiquette" });
+    }
+  });
+
+  app.put("/api/questions/:id/tags", requirePermission("question:write"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "ID de question invalide" });
+      }
+      const { tags } = questionTagsSchema.parse(req.body);
+
+      if (!(await storage.getQuestion(id))) {
+        return res.status(404).json({ message: "Question non trouvée" });
+      }
+      res.json(await setQuestionTags(storage, id, tags));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Données invalides", errors: error.errors });
+      }
+      console.error("Error updating question tags:", error);
+      res.status(500).json({ message: "Erreur lors de la mise à jour des étiquettes" });
+    }
+  });
+
+  // Étiquetage en masse : ajoute et retire des étiquettes sur une sélection de questions
+  app.post("/api/questions/bulk-tags", requirePermission("question:write"), async (req, res) => {
+    try {
+      const { questionIds, add, remove } = bulkTagSchema.parse(req.body);
+
+      const existing: number[] = [];
+      for (const id of Array.from(new Set(questionIds))) {
+        if (await storage.getQuestion(id)) existing.push(id);
+      }
+      if (existing.length === 0) {
+        return res.status(404).json({ message: "Aucune des questions sélectionnées n'existe" });
+      }
+
+      const added = await ensureTags(storage, add);
+      await storage.addQuestionTags(existing.flatMap((questionId) => added.map((tag) => ({ questionId, tagId: tag.id }))));
+      await storage.removeQuestionTags(existing, remove.filter((tagId) => !added.some((tag) => tag.id === tagId)));
+
+      res.json({ updated: existing.length, added });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Données invalides", errors: error.errors });
+      }
+      console.error("Error bulk tagging questions:", error);
+      res.status(500).json({ message: "Erreur lors de l'étiquetage des questions" });
+    }
+  });
+
+  // Propositions de questions par les joueurs, traitées dans la file de modération
+  app.post("/api/themes/:themeId/submissions", requireAuth, async (req, res) => {
+    try {
+      const themeId = parseInt(req.params.themeId);
+      if (isNaN(themeId)) {
+        return res.status(400).json({ message: "ID de thème invalide" });
+      }
+      const content = questionInputSchema.parse(req.body);
+      const userId = req.session.userId!;
+
+      const theme = await storage.getTheme(themeId);
+      if (!theme || !theme.isActive || theme.status !== "published") {
+        return res.status(404).json({ message: "Thème non trouvé" });
+      }
+
+      const pending = await storage.getQuestionSubmissions({ status: "pending", submitterId: userId });
+      if (pending.length >= submissionConfig.maxPendingPerUser) {
+        return res.status(429).json({
+          message: `Vous avez déjà ${pending.length} propositions en attente : patientez jusqu'à leur modération`,
+        });
+      }
+      if (await findDuplicateQuestion(storage, themeId, content.question)) {
+        return res.status(409).json({ message: "Cette question existe déjà dans le thème" });
+      }
+      if (await findPendingDuplicate(storage, themeId, content.question)) {
+        return res.status(409).json({ message: "Cette question a déjà été proposée et attend sa modération" });
+      }
+
+      const submission = await storage.createQuestionSubmission({ themeId, submitterId: userId, content });
+      const [entry] = await submissionEntries(storage, [submission]);
+      res.json(entry);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Données invalides", errors: error.errors });
+      }
+      console.error("Error submitting question:", error);
+      res.status(500).json({ message: "Erreur lors de l'envoi de la proposition" });
+    }
+  });
+
+  app.get("/api/submissions", requireAuth, async (req, res) => {
+    try {
+      const submissions = await storage.getQuestionSubmissions({ submitterId: req.session.userId! });
+      res.json(await submissionEntries(storage, submissions));
+    } catch (error) {
+      console.error("Error getting user submissions:", error);
+      res.status(500).json({ message: "Erreur lors de la récupération de vos propositions" });
+    }
+  });
+
+  app.get("/api/admin/submissions", requirePermission("question:moderate"), async (req, res) => {
+    try {
+      const { status } = z.object({ status: z.enum(submissionStatuses).default("pending") }).parse(req.query);
+      const submissions = await storage.getQuestionSubmissions({ status });
+      // File d'attente : les plus anciennes propositions d'abord
+      res.json(await submissionEntries(storage, status === "pending" ? submissions.reverse() : submissions));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Données invalides", errors: error.errors });
+      }
+      console.error("Error getting submissions:", error);
+      res.status(500).json({ message: "Erreur lors de la récupération des propositions" });
+    }
+  });
+
+  app.put("/api/admin/submissions/:id", requirePermission("question:moderate"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "ID de proposition invalide" });
+      }
+      const content = questionInputSchema.parse(req.body);
+
+      const submission = await storage.getQuestionSubmission(id);
+      if (!submission) {
+        return res.status(404).json({ message: "Proposition non trouvée" });
+      }
+      if (submission.status !== "pending") {
+        return res.status(409).json({ message: "Cette proposition a déjà été traitée" });
+      }
+
+      const updated = await storage.updateQuestionSubmission(id, { content });
+      const [entry] = await submissionEntries(storage, [updated!]);
+      res.json(entry);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Données invalides", errors: error.errors });
+      }
+      console.error("Error updating submission:", error);
+      res.status(500).json({ message: "Erreur lors de la modification de la proposition" });
+    }
+  });
+
+  app.post("/api/admin/submissions/:id/accept", requirePermission("question:moderate"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "ID de proposition invalide" });
+      }
+
+      const submission = await storage.getQuestionSubmission(id);
+      if (!submission) {
+        return res.status(404).json({ message: "Proposition non trouvée" });
+      }
+      if (!(await storage.getTheme(submission.themeId))) {
+        return res.status(409).json({ message: "Le thème de cette proposition n'existe plus" });
+      }
+
+      const accepted = await acceptSubmission(storage, submission, req.session.userId!, new Date());
+      if (!accepted) {
+        return res.status(409).json({ message: "Cette proposition a déjà été traitée" });
+      }
+
+      const [entry] = await submissionEntries(storage, [accepted]);
+      res.json(entry);
+    } catch (error) {
+      console.error("Error accepting submission:", error);
+      res.status(500).json({ message: "Erreur lors de l'acceptation de la proposition" });
+    }
+  });
+
+  app.post("/api/admin/submissions/:id/reject", requirePermission("question:moderate"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "ID de proposition invalide" });
+      }
+      const { reason } = rejectSubmissionSchema.parse(req.body);
+
+      if (!(await storage.getQuestionSubmission(id))) {
+        return res.status(404).json({ message: "Proposition non trouvée" });
+      }
+      const rejected = await storage.decideQuestionSubmission(id, {
+        status: "rejected",
+        reviewerId: req.session.userId!,
+        rejectionReason: reason,
+        reviewedAt: new Date(),
+      });
+      if (!rejected) {
+        return res.status(409).json({ message: "Cette proposition a déjà été traitée" });
+      }
+
+      const [entry] = await submissionEntries(storage, [rejected]);
+      res.json(entry);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Données invalides", errors: error.errors });
+      }
+      console.error("Error rejecting submission:", error);
+      res.status(500).json({ message: "Erreur lors du refus de la proposition" });
+    }
+  });
+
+  // Signalements des joueurs : un seul signalement ouvert par joueur et par question
+  app.post("/api/questions/:id/reports", requireAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "ID de question invalide" });
+      }
+      const { reason, comment } = reportQuestionSchema.parse(req.body);
+      const userId = req.session.userId!;
+
+      const question = await storage.getQuestion(id);
+      if (!question || question.status !== "published") {
+        return res.status(404).json({ message: "Question non trouvée" });
+      }
+      const report = await storage.createQuestionReport({
+        questionId: id,
+        questionRevision: question.revision,
+        reporterId: userId,
+        reason,
+        comment: comment || null,
+      });
+      if (!report) {
+        return res.status(409).json({ message: "Vous avez déjà signalé cette question ; la modération va l'examiner" });
+      }
+      await applyReportThreshold(storage, question);
+
+      const [entry] = await reportEntries(storage, [report]);
+      res.json(entry);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Données invalides", errors: error.errors });
+      }
+      console.error("Error reporting question:", error);
+      res.status(500).json({ message: "Erreur lors de l'envoi du signalement" });
+    }
+  });
+
+  app.get("/api/admin/reports", requirePermission("question:moderate"), async (req, res) => {
+    try {
+      const { status } = z.object({ status: z.enum(reportStatuses).default("open") }).parse(req.query);
+      res.json(await reportTriage(storage, status));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Données invalides", errors: error.errors });
+      }
+      console.error("Error getting reports:", error);
+      res.status(500).json({ message: "Erreur lors de la récupération des signalements" });
+    }
+  });
+
+  // Clôt d'un coup tous les signalements ouverts d'une question ; leurs auteurs sont prévenus par email
+  app.post("/api/admin/reports/:questionId/resolve", requirePermission("question:moderate"), async (req, res) => {
+    try {
+      const questionId = parseInt(req.params.questionId);
+      if (isNaN(questionId)) {
+        return res.status(400).json({ message: "ID de question invalide" });
+      }
+      const { status, resolution } = resolveReportsSchema.parse(req.body);
+
+      const now = new Date();
+      const resolved = await storage.resolveQuestionReports(questionId, {
+        status,
+        resolution: resolution || null,
+        resolvedBy: req.session.userId!,
+        resolvedAt: now,
+      });
+      if (resolved.length === 0) {
+        return res.status(404).json({ message: "Aucun signalement ouvert pour cette question" });
+      }
+
+      await notifyReporters(storage, mailer, resolved, await storage.getQuestion(questionId), now);
+      res.json(await reportEntries(storage, resolved));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Données invalides", errors: error.errors });
+      }
+      console.error("Error resolving reports:", error);
+      res.status(500).json({ message: "Erreur lors du traitement des signalements" });
+    }
+  });
+
+  // Quiz routes
+  app.post("/api/quiz/start", requireAuth, async (req, res) => {
+    try {
+      // Vérification explicite de userId
+      if (!req.session.userId) {
+        return res.status(401).json({ message: "Non autorisé" });
+      }
+      const themeId = typeof req.body.themeId === "number" ? req.body.themeId : parseInt(req.body.themeId);
+      if (isNaN(themeId)) {
+        return res.status(400).json({ message: "ID de thème invalide" });
+      }
+      const { mode, practice, tags, questionCount: requestedCount, ...options } = startQuizSchema.parse({ ...req.body, themeId });
+      // La correction se lit entre deux questions : un entraînement n'est jamais chronométré
+      const timed = options.timed && !practice;
+
+      const theme = await storage.getTheme(themeId);
+      if (!theme || !theme.isActive || theme.status !== "published") {
+        return res.status(404).json({ message: "Thème non trouvé" });
+      }
+      if (!timed && !theme.allowUntimed) {
+        return res.status(400).json({ message: "Ce thème ne propose pas d'entraînement sans chrono" });
+      }
+
+      const { tagIds, unknown } = await resolveTagSlugs(storage, tags);
+      if (unknown.length > 0) {
+        return res.status(400).json({ message: `Étiquette inconnue : ${unknown.join(", ")}` });
+      }
+
+      // Questions du thème et de ses sous-thèmes, restreintes aux étiquettes demandées
+      const questions = await quizQuestionPool(storage, themeId, tagIds);
+      if (questions.length === 0) {
+        return res.status(400).json({
+          message: tagIds.length > 0 ? "Aucune question de ce thème ne porte ces étiquettes" : "Ce thème ne contient aucune question",
+        });
+      }
+
+      const questionCount = Math.min(
+        requestedCount ?? theme.questionCount ?? (mode === "adaptive" ? adaptiveConfig.questionCount : questions.length),
+        questions.length,
+      );
+
+      // Mode adaptatif : une seule question au départ, choisie selon le niveau estimé du joueur ;
+      // sinon, tirage stratifié par difficulté
+      const seed = newSeed();
+      const served = mode === "adaptive"
+        ? [pickAdaptiveQuestion(questions, (await storage.getUserStatsByTheme(req.session.userId, themeId))?.ability ?? 0, seededRandom(seed))!]
+        : sampleQuestions(questions, questionCount, seed);
+
+      // Le jeu de questions et leurs délais sont figés : seules ces questions seront notées
+      const attempt = await storage.createQuizAttempt({
+        userId: req.session.userId,
+        themeId,
+        mode,
+        practice,
+        questionIds: served.map((q: Question) => q.id),
+        questionCount,
+        seed,
+        timed,
+        timeLimit: timed ? theme.quizTimeLimit : null,
+        questionTimeLimits: attemptTimeLimits(theme, served, timed),
+        questionRevisions: servedRevisions(served),
+        tagIds,
+      });
+
+      const deadline = attemptDeadline(attempt);
+      const contributors = await contributorNames(storage, served);
+      res.json({
+        attemptId: attempt.id,
+        startedAt: attempt.startedAt,
+        mode: attempt.mode,
+        practice: attempt.practice,
+        questionCount: attempt.questionCount,
+        timed: attempt.timed,
+        expiresAt: deadline !== null ? new Date(deadline) : null,
+        lifelines: lifelineTypes.map((type) => ({ type, cost: lifelineConfig.costs[type] })),
+        questions: served.map((q: Question) => ({
+          ...presentQuestion(q, seed),
+          timeLimit: attempt.questionTimeLimits[q.id] ?? null,
+          contributor: contributors[q.id] ?? null,
+        })),
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Données invalides", errors: error.errors });
+      }
+      console.error("Error starting quiz:", error);
+      res.status(500).json({ message: "Erreur lors du démarrage du quiz" });
+    }
+  });
+
+  app.post("/api/quiz/attempts/:id/answers", requireAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "ID de tentative invalide" });
+      }
+      const data = submitAnswerSchema.parse(req.body);
+
+      const attempt = await storage.getQuizAttempt(id);
+      if (!attempt || attempt.userId !== req.session.userId) {
+        return res.status(404).json({ message: "Tentative non trouvée" });
+      }
+      if (attempt.finishedAt) {
+        return res.status(409).json({ message: "Cette tentative est déjà terminée" });
+      }
+      if (!attempt.questionIds.includes(data.questionId)) {
+        return res.status(400).json({ message: "Cette question ne fait pas partie de la tentative" });
+      }
+      if (data.questionId in attempt.answerTimes) {
+        return res.status(409).json({ message: "Une réponse a déjà été enregistrée pour cette question" });
+      }
+
+      // Les questions se succèdent : on ne répond qu'à la question en cours, avant son délai
+      const now = Date.now();
+      const window = attemptSchedule(attempt, now).find((w) => w.questionId === data.questionId)!;
+      if (window.openedAt === null) {
+        return res.status(409).json({ message: "Cette question n'a pas encore été posée" });
+      }
+      if (window.deadline !== null && now > window.deadline + timingConfig.graceMs) {
+        return res.status(409).json({ message: "Temps écoulé pour cette question" });
+      }
+
+      // Les index d'options reçus portent sur l'ordre mélangé présenté au joueur :
+      // la réponse est enregistrée dans l'ordre stocké, celui de la notation
+      const question = await getAttemptQuestion(storage, attempt, data.questionId);
+      const answer = question && data.answer !== undefined
+        ? fromPresentedAnswer(question, attempt.seed, data.answer)
+        : data.answer;
+
+      // Une question passée est seulement close : elle compte comme non répondue. L'écriture échoue si
+      // une autre requête a répondu ou terminé la tentative entre-temps
+      if (!(await storage.recordAttemptAnswer(id, data.questionId, answer, now))) {
+        return res.status(409).json({ message: "Une réponse a déjà été enregistrée pour cette question" });
+      }
+
+      // Chaque réponse affine le niveau du joueur et la calibration de la question
+      const correct = !!question && answer !== undefined && gradeAnswer(question, answer);
+      if (question && answer !== undefined) {
+        await recordAbilityAnswer(storage, attempt.userId, question, correct);
+      }
+
+      // Entraînement : correction immédiate, la question étant désormais close
+      if (attempt.practice && question) {
+        const result: QuestionResult = {
+          questionId: data.questionId,
+          correct,
+          correctAnswer: toPresentedAnswer(question, attempt.seed, correctAnswerOf(question)),
+          explanation: question.explanation,
+        };
+        return res.json({ ...result, recorded: true });
+      }
+
+      res.json({ questionId: data.questionId, recorded: true });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Données invalides", errors: error.errors });
+      }
+      console.error("Error submitting answer:", error);
+      res.status(500).json({ message: "Erreur lors de l'enregistrement de la réponse" });
+    }
+  });
+
+  // Joker sur la question en cours : indice, 50/50 ou question passée sans pénalité, contre des points
+  app.post("/api/quiz/attempts/:id/lifelines", requireAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "ID de tentative invalide" });
+      }
+      const data = useLifelineSchema.parse(req.body);
+
+      const attempt = await storage.getQuizAttempt(id);
+      if (!attempt || attempt.userId !== req.session.userId) {
+        return res.status(404).json({ message: "Tentative non trouvée" });
+      }
+      if (attempt.finishedAt) {
+        return res.status(409).json({ message: "Cette tentative est déjà terminée" });
+      }
+      if (!attempt.questionIds.includes(data.questionId)) {
+        return res.status(400).json({ message: "Cette question ne fait pas partie de la tentative" });
+      }
+      if (attempt.lifelinesUsed.some((use) => use.type === data.type)) {
+        return res.status(409).json({ message: "Ce joker a déjà été utilisé" });
+      }
+
+      const now = Date.now();
+      const window = attemptSchedule(attempt, now).find((w) => w.questionId === data.questionId)!;
+      if (window.openedAt === null || window.closedAt !== null) {
+        return res.status(409).json({ message: "Cette question n'est pas la question en cours" });
+      }
+
+      const question = await getAttemptQuestion(storage, attempt, data.questionId);
+      if (!question || !isLifelineAvailable(data.type, question)) {
+        return res.status(400).json({ message: "Ce joker n'est pas disponible pour cette question" });
+      }
+
+      const cost = lifelineConfig.costs[data.type];
+      // La question passée est close sans réponse ; elle sera exclue de la notation
+      const recorded = await storage.recordAttemptLifeline(id, { type: data.type, questionId: question.id, cost }, data.type === "skip" ? now : null);
+      if (!recorded) {
+        return res.status(409).json({ message: "Ce joker a déjà été utilisé" });
+      }
+
+      res.json({
+        type: data.type,
+        questionId: question.id,
+        cost,
+        hint: data.type === "hint" ? question.hint : undefined,
+        eliminated: data.type === "fifty_fifty" ? fiftyFiftyEliminated(question, attempt.seed) : undefined,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Données invalides", errors: error.errors });
+      }
+      console.error("Error using lifeline:", error);
+      res.status(500).json({ message: "Erreur lors de l'utilisation du joker" });
+    }
+  });
+
+  // Mode adaptatif : question suivante, choisie d'après le niveau mis à jour par les réponses précédentes
+  app.post("/api/quiz/attempts/:id/next", requireAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "ID de tentative invalide" });
+      }
+
+      const attempt = await storage.getQuizAttempt(id);
+      if (!attempt || attempt.userId !== req.session.userId) {
+        return res.status(404).json({ message: "Tentative non trouvée" });
+      }
+      if (attempt.mode !== "adaptive") {
+        return res.status(400).json({ message: "Cette tentative n'est pas en mode adaptatif" });
+      }
+      if (attempt.finishedAt || attempt.questionIds.length >= attempt.questionCount) {
+        return res.status(409).json({ message: "Toutes les questions de cette tentative ont été posées" });
+      }
+
+      const remaining = (await quizQuestionPool(storage, attempt.themeId, attempt.tagIds)).filter((q) => !attempt.questionIds.includes(q.id));
+      const stats = await storage.getUserStatsByTheme(attempt.userId, attempt.themeId);
+      // Un tirage par rang de question, dérivé de la graine de la tentative
+      const question = pickAdaptiveQuestion(remaining, stats?.ability ?? 0, seededRandom(attempt.seed + attempt.questionIds.length));
+      if (!question) {
+        return res.status(409).json({ message: "Plus aucune question disponible pour ce thème" });
+      }
+
+      const theme = await storage.getTheme(attempt.themeId);
+      const limits = theme ? attemptTimeLimits(theme, [question], attempt.timed) : {};
+      await storage.updateQuizAttempt(id, {
+        questionIds: [...attempt.questionIds, question.id],
+        questionTimeLimits: { ...attempt.questionTimeLimits, ...limits },
+        questionRevisions: { ...attempt.questionRevisions, ...servedRevisions([question]) },
+      });
+
+      res.json({
+        index: attempt.questionIds.length,
+        questionCount: attempt.questionCount,
+        question: {
+          ...presentQuestion(question, attempt.seed),
+          timeLimit: limits[question.id] ?? null,
+          contributor: (await contributorNames(storage, [question]))[question.id] ?? null,
+        },
+      });
+    } catch (error) {
+      console.error("Error selecting next question:", error);
+      res.status(500).json({ message: "Erreur lors du choix de la question suivante" });
+    }
+  });
+
+  app.post("/api/quiz/attempts/:id/finish", requireAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "ID de tentative invalide" });
+      }
+
+      const current = await storage.getQuizAttempt(id);
+      if (!current || current.userId !== req.session.userId) {
+        return res.status(404).json({ message: "Tentative non trouvée" });
+      }
+
+      // La tentative est close avant la notation : une fin simultanée ne crée pas de seconde session,
+      // et la notation porte sur les dernières réponses enregistrées
+      const finishedAt = new Date();
+      const attempt = await storage.finishQuizAttempt(id, finishedAt);
+      if (!attempt) {
+        return res.status(409).json({ message: "Cette tentative est déjà terminée" });
+      }
+
+      const startedAt = new Date(attempt.startedAt).getTime();
+      const schedule = attemptSchedule(attempt, finishedAt.getTime());
+      let score = 0;
+      const results: QuestionResult[] = [];
+      const graded: GradedQuestion[] = [];
+
+      // Les questions passées avec le joker ne comptent pas dans le score
+      const skipped = new Set(attempt.lifelinesUsed.filter((use) => use.type === "skip").map((use) => use.questionId));
+      const lifelinePenalty = attempt.lifelinesUsed.reduce((sum, use) => sum + use.cost, 0);
+
+      for (const questionId of attempt.questionIds) {
+        const question = await getAttemptQuestion(storage, attempt, questionId);
+        if (!question || skipped.has(questionId)) continue;
+
+        const isCorrect = gradeAnswer(question, attempt.answers[questionId]);
+
+        if (isCorrect) {
+          score++;
+        }
+
+        // Bonne réponse exprimée dans l'ordre des options présenté au joueur
+        results.push({
+          questionId: question.id,
+          correct: isCorrect,
+          correctAnswer: toPresentedAnswer(question, attempt.seed, correctAnswerOf(question)),
+          explanation: question.explanation,
+        });
+
+        // Temps de réponse mesuré depuis l'ouverture de la question ; le bonus dépend du délai restant
+        const window = schedule.find((w) => w.questionId === questionId)!;
+        const answered = questionId in attempt.answers && window.openedAt !== null;
+        graded.push({
+          questionId: question.id,
+          difficulty: question.difficulty,
+          answer: attempt.answers[questionId] ?? null,
+          correct: isCorrect,
+          timeTaken: answered ? Math.round((attempt.answerTimes[questionId] - window.openedAt!) / 1000) : null,
+          timeLimit: answered && window.deadline !== null ? Math.round((window.deadline - window.openedAt!) / 1000) : null,
+          revision: question.revision,
+        });
+
+        // Les questions manquées (ou laissées sans réponse) entrent dans le paquet de révision
+        await recordQuestionAnswer(storage, attempt.userId, question.id, isCorrect, finishedAt);
+      }
+
+      // La durée est calculée côté serveur à partir de l'heure de démarrage
+      const timeSpent = Math.round((finishedAt.getTime() - startedAt) / 1000);
+
+      let recorded: Awaited<ReturnType<typeof recordQuizSession>>;
+      try {
+        recorded = await recordQuizSession(storage, {
+          userId: attempt.userId,
+          themeId: attempt.themeId,
+          score,
+          totalQuestions: results.length,
+          timeSpent,
+          practice: attempt.practice,
+        }, graded, lifelinePenalty);
+      } catch (error) {
+        // Rien n'a été enregistré : la tentative est rouverte pour que le joueur puisse la soumettre à nouveau
+        await storage.updateQuizAttempt(id, { finishedAt: null });
+        throw error;
+      }
+      const { session, rewards } = recorded;
+
+      await storage.updateQuizAttempt(id, { sessionId: session.id });
+
+      res.json({
+        session,
+        score,
+        totalQuestions: results.length,
+        results,
+        rewards,
+      });
+    } catch (error) {
+      console.error("Error finishing quiz:", error);
+      res.status(500).json({ message: "Erreur lors de la soumission du quiz" });
+    }
+  });
+
+  // Détail d'une session terminée : réponse donnée, bonne réponse et explication pour chaque question
+  app.get("/api/sessions/:id", requireAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "ID de session invalide" });
+      }
+
+      const session = await storage.getQuizSession(id);
+      const user = await storage.getUser(req.session.userId!);
+      if (!session || (session.userId !== user?.id && !hasPermission(user?.role, "user:manage"))) {
+        return res.status(404).json({ message: "Session non trouvée" });
+      }
+
+      const theme = await storage.getTheme(session.themeId);
+      const answers = await storage.getSessionQuizAnswers(id);
+
+      const details: SessionAnswerDetail[] = [];
+      for (const answer of answers) {
+        // Question affichée dans la version sur laquelle la réponse a été notée
+        const current = await storage.getQuestion(answer.questionId);
+        const question = current && await questionAtRevision(storage, current, answer.questionRevision);
+        details.push({
+          position: answer.position,
+          questionId: answer.questionId,
+          question: question ? toPublicQuestion(question) : null,
+          answer: answer.answer,
+          correct: answer.correct,
+          timeTaken: answer.timeTaken,
+          correctAnswer: question ? correctAnswerOf(question) : null,
+          explanation: question?.explanation ?? null,
+          revisedSince: !!current && answer.questionRevision !== null && answer.questionRevision !== current.revision,
+        });
+      }
+
+      res.json({
+        session,
+        theme: theme ? { id: theme.id, name: theme.name, icon: theme.icon, color: theme.color } : null,
+        answers: details,
+      });
+    } catch (error) {
+      console.error("Error fetching session:", error);
+      res.status(500).json({ message: "Erreur lors de la récupération de la session" });
+    }
+  });
+
+  // Review routes : révision espacée des questions manquées
+  app.get("/api/review/deck", requireAuth, async (req, res) => {
+    try {
+      const { dueCount, questions } = await buildReviewDeck(storage, req.session.userId!, new Date());
+
+      const themes = new Map<number, Theme | undefined>();
+      for (const question of questions) {
+        if (!themes.has(question.themeId)) themes.set(question.themeId, await storage.getTheme(question.themeId));
+      }
+
+      res.json({
+        dueCount,
+        questions: questions.map((question) => {
+          const theme = themes.get(question.themeId);
+          return {
+            ...toPublicQuestion(question),
+            theme: theme ? { id: theme.id, name: theme.name, icon: theme.icon, color: theme.color } : null,
+          };
+        }),
+      });
+    } catch (error) {
+      console.error("Error fetching review deck:", error);
+      res.status(500).json({ message: "Erreur lors de la récupération des révisions" });
+    }
+  });
+
+  app.post("/api/review/answers", requireAuth, async (req, res) => {
+    try {
+      const data = submitAnswerSchema.parse(req.body);
+      const userId = req.session.userId!;
+      const now = new Date();
+
+      const review = await storage.getQuestionReview(userId, data.questionId);
+      if (!review || dueReviews([review], now).length === 0) {
+        return res.status(409).json({ message: "Cette question n'est pas à réviser aujourd'hui" });
+      }
+      const question = await storage.getQuestion(data.questionId);
+      if (!question || question.status !== "published") {
+        return res.status(404).json({ message: "Question non trouvée" });
+      }
+
+      const correct = gradeAnswer(question, data.answer);
+      const updated = await recordQuestionAnswer(storage, userId, question.id, correct, now);
+
+      res.json({
+        questionId: question.id,
+        correct,
+        correctAnswer: correctAnswerOf(question),
+        explanation: question.explanation,
+        nextDueAt: updated.dueAt,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Données invalides", errors: error.errors });
+      }
+      console.error("Error submitting review answer:", error);
+      res.status(500).json({ message: "Erreur lors de l'enregistrement de la révision" });
+    }
+  });
+
+  // Préférences du profil : avatar et visibilité dans les classements publics
+  app.patch("/api/users/me", requireAuth, async (req, res) => {
+    try {
+      const data = updateProfileSchema.parse(req.body);
+      const user = await storage.updateUser(req.session.userId!, data);
+      if (!user) {
+        return res.status(404).json({ message: "Utilisateur non trouvé" });
+      }
+
+      const { password, ...userWithoutPassword } = user;
+      res.json({ user: userWithoutPassword });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Données invalides", errors: error.errors });
+      }
+      console.error("Error updating profile:", error);
+      res.status(500).json({ message: "Erreur lors de la mise à jour du profil" });
+    }
+  });
+
+  // User stats routes
+  app.get("/api/users/me/stats", requireAuth, async (req, res) => {
+    try {
+      // Vérification explicite de userId
+      if (!req.session.userId) {
+        return res.status(401).json({ message: "Non autorisé" });
+      }
+      const stats = await storage.getUserStats(req.session.userId);
+      const sessions = await storage.getUserQuizSessions(req.session.userId);
+
+      res.json({
+        stats,
+        totalQuizzes: sessions.length,
+        recentSessions: sessions.slice(-5).reverse(),
+      });
+    } catch (error) {
+      console.error("Error getting user stats:", error);
+      res.status(500).json({ message: "Erreur lors de la récupération des statistiques" });
+    }
+  });
+
+  app.get("/api/users/me/stats/:themeId", requireAuth, async (req, res) => {
+    try {
+      const themeId = parseInt(req.params.themeId);
+      if (isNaN(themeId)) {
+        return res.status(400).json({ message: "ID de thème invalide" });
+      }
+      // Vérification explicite de userId
+      if (!req.session.userId) {
+        return res.status(401).json({ message: "Non autorisé" });
+      }
+      const stats = await storage.getUserStatsByTheme(req.session.userId, themeId);
+      const sessions = await storage.getUserQuizSessions(req.session.userId);
+      const themeSessions = sessions.filter((s: QuizSession) => s.themeId === themeId);
+
+      res.json({
+        stats,
+        sessions: themeSessions.reverse(),
+      });
+    } catch (error) {
+      console.error("Error getting theme stats:", error);
+      res.status(500).json({ message: "Erreur lors de la récupération des statistiques du thème" });
+    }
+  });
+
+  // Leaderboard routes : projection publique des joueurs, paginée par curseur
+  app.get("/api/leaderboard/global", requireAuth, async (req, res) => {
+    try {
+      const query = leaderboardQuerySchema.parse(req.query);
+      res.json(await getLeaderboardPage(storage, query, new Date()));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Données invalides", errors: error.errors });
+      }
+      if (error instanceof LeaderboardCursorError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error getting global leaderboard:", error);
+      res.status(500).json({ message: "Erreur lors de la récupération du classement global" });
+    }
+  });
+
+  app.get("/api/leaderboard/theme/:themeId", requireAuth, async (req, res) => {
+    try {
+      const themeId = parseInt(req.params.themeId);
+      if (isNaN(themeId)) {
+        return res.status(400).json({ message: "ID de thème invalide" });
+      }
+      const query = leaderboardQuerySchema.parse(req.query);
+      res.json(await getLeaderboardPage(storage, { ...query, themeId }, new Date()));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Données invalides", errors: error.errors });
+      }
+      if (error instanceof LeaderboardCursorError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error getting theme leaderboard:", error);
+      res.status(500).json({ message: "Erreur lors de la récupération du classement du thème" });
+    }
+  });
+
+  // Rang de l'utilisateur connecté et ses voisins immédiats
+  app.get("/api/leaderboard/me", requireAuth, async (req, res) => {
+    try {
+      const query = leaderboardPositionQuerySchema.parse(req.query);
+      const user = await storage.getUser(req.session.userId!);
+      if (!user) {
+        return res.status(404).json({ message: "Utilisateur non trouvé" });
+      }
+      res.json(await getLeaderboardPosition(storage, user, query, new Date()));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Données invalides", errors: error.errors });
+      }
+      console.error("Error getting leaderboard position:", error);
+      res.status(500).json({ message: "Erreur lors de la récupération du classement" });
+    }
+  });
+
+  // Admin routes
+  app.get("/api/admin/stats", requirePermission("stats:read"), async (req, res) => {
+    try {
+      const [totalUsers, totalSessions, themes] = await Promise.all([
+        storage.countUsers(),
+        storage.countQuizSessions(),
+        storage.getAllThemes(contentStatuses),
+      ]);
+      const totalThemes = themes.length;
+
+      res.json({
+        totalUsers,
+        totalThemes,
+        totalSessions,
+        activeThemes: themes.filter((t: Theme) => t.status === "published").length,
+      });
+    } catch (error) {
+      console.error("Error getting admin stats:", error);
+      res.status(500).json({ message: "Erreur lors de la récupération des statistiques admin" });
+    }
+  });
+
+  app.get("/api/admin/users", requirePermission("user:manage"), async (req, res) => {
+    try {
+      const users = await storage.getAllUsers();
+      res.json(users.map(({ password, ...user }) => user));
+    } catch (error) {
+      console.error("Error getting users:", error);
+      res.status(500).json({ message: "Erreur lors de la récupération des utilisateurs" });
+    }
+  });
+
+  app.put("/api/admin/users/:id/role", requirePermission("user:manage"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "ID d'utilisateur invalide" });
+      }
+      const { role } = updateUserRoleSchema.parse(req.body);
+
+      // Un administrateur ne peut pas se retirer ses propres droits
+      if (id === req.session.userId) {
+        return res.status(400).json({ message: "Vous ne pouvez pas modifier votre propre rôle" });
+      }
+
+      const user = await storage.updateUser(id, { role });
+      if (!user) {
+        return res.status(404).json({ message: "Utilisateur non trouvé" });
+      }
+
+      const { password, ...userWithoutPassword } = user;
+      res.json(userWithoutPassword);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Données invalides", errors: error.errors });
+      }
+      console.error("Error updating user role:", error);
+      res.status(500).json({ message: "Erreur lors de la modification du rôle" });
+    }
+  });
+
+  // Connexions refusées récentes et clés (IP ou compte) actuellement bloquées
+  app.get("/api/admin/login-security", requirePermission("user:manage"), async (req, res) => {
+    try {
+      const [attempts, blocked] = await Promise.all([
+        storage.getRecentLoginAttempts(200),
+        storage.getBlockedLoginThrottles(new Date()),
+      ]);
+      res.json({ attempts, blocked });
+    } catch (error) {
+      console.error("Error getting login security overview:", error);
+      res.status(500).json({ message: "Erreur lors de la récupération des tentatives de connexion" });
+    }
+  });
+
+  // Déblocage manuel d'une adresse IP ou d'un compte
+  app.delete("/api/admin/login-throttles/:key", requirePermission("user:manage"), async (req, res) => {
+    try {
+      const cleared = await storage.clearLoginThrottle(req.params.key);
+      if (!cleared) {
+        return res.status(404).json({ message: "Aucun blocage pour cette clé" });
+      }
+      res.json({ message: "Blocage levé" });
+    } catch (error) {
+      console.error("Error clearing login throttle:", error);
+      res.status(500).json({ message: "Erreur lors du déblocage" });
+    }
+  });
+
+  const httpServer = createServer(app);
+
+  // Parties multijoueur en temps réel
+  setupMultiplayer(httpServer, storage, sessionMiddleware);
+
+  return httpServer;
 }
\ No newline at end of file
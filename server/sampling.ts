@@ -0,0 +1,86 @@
+import { randomInt } from "crypto";
+import type { AnswerValue, Question } from "@shared/schema";
+import type { PublicQuestion } from "@shared/questions";
+import { shuffle, toPublicQuestion } from "./questions";
+
+// Tirage des questions d'une tentative et mélange de leurs options, reproductibles à partir
+// de la graine enregistrée sur la tentative.
+
+export function newSeed(): number {
+  return randomInt(2 ** 31);
+}
+
+// Générateur pseudo-aléatoire mulberry32
+export function seededRandom(seed: number): () => number {
+  let state = seed | 0;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Flux propre à chaque question : son mélange ne dépend ni de l'ordre ni des autres questions tirées
+function questionRandom(seed: number, questionId: number): () => number {
+  return seededRandom(seed ^ Math.imul(questionId, 0x9e3779b1));
+}
+
+// Échantillon stratifié : chaque difficulté garde sa part du thème (méthode du plus fort reste),
+// puis les questions retenues sont présentées dans un ordre aléatoire
+export function sampleQuestions(questions: Question[], count: number, seed: number): Question[] {
+  const random = seededRandom(seed);
+  if (count >= questions.length) return shuffle(questions, random);
+
+  const strata = new Map<string, Question[]>();
+  for (const question of questions) {
+    strata.set(question.difficulty, [...(strata.get(question.difficulty) ?? []), question]);
+  }
+
+  const groups = Array.from(strata.values()).map((group) => {
+    const exact = (count * group.length) / questions.length;
+    return { group, quota: Math.floor(exact), remainder: exact - Math.floor(exact) };
+  });
+  let missing = count - groups.reduce((sum, g) => sum + g.quota, 0);
+  for (const g of [...groups].sort((a, b) => b.remainder - a.remainder)) {
+    if (missing === 0) break;
+    g.quota++;
+    missing--;
+  }
+
+  const sampled = groups.flatMap(({ group, quota }) => shuffle(group, random).slice(0, quota));
+  return shuffle(sampled, random);
+}
+
+// Ordre de présentation des options (index d'origine pour chaque position affichée),
+// pour les questions dont la réponse est un index d'option ; null : options non mélangées
+export function optionOrder(question: Question, seed: number): number[] | null {
+  if (question.type !== "single_choice" && question.type !== "multiple_choice") return null;
+  return shuffle(question.options.map((_, i) => i), questionRandom(seed, question.id));
+}
+
+export function presentQuestion(question: Question, seed: number): PublicQuestion {
+  const order = optionOrder(question, seed);
+  if (!order) return toPublicQuestion(question, questionRandom(seed, question.id));
+  return { ...toPublicQuestion(question), options: order.map((i) => question.options[i]) };
+}
+
+// Réponse donnée sur les options affichées -> réponse sur les options stockées, pour la notation
+export function fromPresentedAnswer(question: Question, seed: number, answer: AnswerValue): AnswerValue {
+  const order = optionOrder(question, seed);
+  if (!order) return answer;
+
+  const original = (shown: number) => order[shown] ?? -1;
+  if (typeof answer === "number") return original(answer);
+  return Array.isArray(answer) ? answer.map(original) : answer;
+}
+
+// Inverse de fromPresentedAnswer : bonne réponse exprimée sur les options affichées
+export function toPresentedAnswer(question: Question, seed: number, answer: AnswerValue): AnswerValue {
+  const order = optionOrder(question, seed);
+  if (!order) return answer;
+
+  const shown = (original: number) => order.indexOf(original);
+  if (typeof answer === "number") return shown(answer);
+  return Array.isArray(answer) ? answer.map(shown).sort((a, b) => a - b) : answer;
+}
@@ -0,0 +1,171 @@
+import { createHash } from "crypto";
+import { promisify } from "util";
+import type { NextFunction, Request, Response } from "express";
+import session, { type SessionData, type Store } from "express-session";
+import MemoryStore from "memorystore";
+import connectPgSimple from "connect-pg-simple";
+import type pg from "pg";
+import { and, gt, sql } from "drizzle-orm";
+import { sessions } from "@shared/schema";
+import type { ActiveSession } from "@shared/sessions";
+import type { Database } from "./db";
+
+declare module "express-session" {
+  interface SessionData {
+    userId: number;
+    // Renseignés à la connexion puis par trackSessionActivity, pour la liste des sessions actives
+    userAgent?: string;
+    ip?: string;
+    createdAt?: number;
+    lastSeenAt?: number;
+    // Mot de passe validé, code de double authentification attendu (userId n'est pas encore renseigné)
+    pendingTwoFactor?: { userId: number; expiresAt: number; attempts: number };
+  }
+}
+
+export const sessionConfig = {
+  maxAgeMs: 24 * 60 * 60 * 1000,
+  // La dernière activité n'est réenregistrée qu'au-delà de ce délai, pour ne pas écrire à chaque requête
+  activityResolutionMs: 60 * 1000,
+};
+
+// Secret de signature des cookies : obligatoire en production, où un secret connu
+// permettrait de forger des cookies de session
+export function sessionSecret(env: NodeJS.ProcessEnv = process.env): string {
+  if (env.SESSION_SECRET) return env.SESSION_SECRET;
+  if (env.NODE_ENV === "production") {
+    throw new Error("SESSION_SECRET doit être défini en production");
+  }
+  console.warn("SESSION_SECRET non défini : utilisation d'un secret de développement");
+  return "quiz-master-dev-secret";
+}
+
+interface StoredSession {
+  sid: string;
+  data: SessionData;
+}
+
+// Store des sessions, avec ce qu'express-session ne fournit pas : retrouver les sessions d'un utilisateur
+export interface SessionDirectory {
+  readonly store: Store;
+  listUserSessions(userId: number): Promise<StoredSession[]>;
+}
+
+export class MemorySessionDirectory implements SessionDirectory {
+  readonly store: Store;
+
+  constructor() {
+    const MemoryStoreSession = MemoryStore(session);
+    this.store = new MemoryStoreSession({ checkPeriod: 86400000 });
+  }
+
+  async listUserSessions(userId: number): Promise<StoredSession[]> {
+    const all = await promisify(this.store.all!.bind(this.store))();
+    return Object.entries(all ?? {})
+      .filter(([, data]) => data.userId === userId)
+      .map(([sid, data]) => ({ sid, data }));
+  }
+}
+
+// Sessions en base : elles survivent aux redémarrages et sont partagées entre instances
+export class PgSessionDirectory implements SessionDirectory {
+  readonly store: Store;
+
+  constructor(pool: pg.Pool, private db: Database) {
+    const PgStore = connectPgSimple(session);
+    this.store = new PgStore({ pool, tableName: "session", createTableIfMissing: true });
+  }
+
+  async listUserSessions(userId: number): Promise<StoredSession[]> {
+    const rows = await this.db
+      .select()
+      .from(sessions)
+      .where(and(sql`${sessions.sess}->>'userId' = ${String(userId)}`, gt(sessions.expire, new Date())));
+    return rows.map((row) => ({ sid: row.sid, data: row.sess as SessionData }));
+  }
+}
+
+export function createSessionMiddleware(directory: SessionDirectory) {
+  return session({
+    store: directory.store,
+    secret: sessionSecret(),
+    resave: false,
+    saveUninitialized: false,
+    cookie: {
+      secure: process.env.NODE_ENV === "production",
+      httpOnly: true,
+      maxAge: sessionConfig.maxAgeMs,
+    },
+  });
+}
+
+function touchSession(req: Request, now: number) {
+  req.session.lastSeenAt = now;
+  req.session.userAgent = req.get("user-agent")?.slice(0, 300);
+  req.session.ip = req.ip;
+}
+
+// Connexion : la session est rattachée à l'utilisateur avec l'appareil qui l'a ouverte. Un nouvel
+// identifiant est émis, pour qu'un identifiant fixé avant la connexion (fixation de session) ne serve à rien ;
+// l'état d'avant la connexion (double authentification en attente) disparaît avec l'ancien
+export async function startUserSession(req: Request, userId: number) {
+  await promisify(req.session.regenerate.bind(req.session))();
+  const now = Date.now();
+  req.session.userId = userId;
+  req.session.createdAt = now;
+  touchSession(req, now);
+}
+
+// Appareil, adresse et dernière activité des sessions connectées
+export function trackSessionActivity(req: Request, _res: Response, next: NextFunction) {
+  if (req.session?.userId) {
+    const now = Date.now();
+    if (!req.session.lastSeenAt || now - req.session.lastSeenAt >= sessionConfig.activityResolutionMs) {
+      touchSession(req, now);
+    }
+  }
+  next();
+}
+
+// Empreinte publique d'une session : l'identifiant réel, porté par le cookie, n'est jamais exposé
+const publicSessionId = (sid: string) => createHash("sha256").update(sid).digest("hex").slice(0, 24);
+
+const isExpired = (data: SessionData, now: number) =>
+  !!data.cookie?.expires && new Date(data.cookie.expires).getTime() <= now;
+
+// La session courante est lue sur la requête : le store n'a pas encore ses dernières modifications
+export async function listActiveSessions(directory: SessionDirectory, userId: number, current: Request["session"]): Promise<ActiveSession[]> {
+  const now = Date.now();
+  const toIso = (timestamp?: number) => (timestamp ? new Date(timestamp).toISOString() : null);
+
+  return (await directory.listUserSessions(userId))
+    .map(({ sid, data }): StoredSession => ({ sid, data: sid === current.id ? { ...data, ...current } : data }))
+    .filter(({ data }) => !isExpired(data, now))
+    .map(({ sid, data }) => ({
+      id: publicSessionId(sid),
+      current: sid === current.id,
+      userAgent: data.userAgent ?? null,
+      ip: data.ip ?? null,
+      createdAt: toIso(data.createdAt),
+      lastSeenAt: toIso(data.lastSeenAt),
+      expiresAt: data.cookie?.expires ? new Date(data.cookie.expires).toISOString() : null,
+    }))
+    .sort((a, b) => (b.lastSeenAt ?? "").localeCompare(a.lastSeenAt ?? ""));
+}
+
+// Révoque la session désignée par son empreinte ; false si elle n'appartient pas à l'utilisateur
+export async function revokeSession(directory: SessionDirectory, userId: number, id: string): Promise<boolean> {
+  const target = (await directory.listUserSessions(userId)).find(({ sid }) => publicSessionId(sid) === id);
+  if (!target) return false;
+
+  await promisify(directory.store.destroy.bind(directory.store))(target.sid);
+  return true;
+}
+
+// Révoque toutes les sessions de l'utilisateur, sauf éventuellement celle donnée ; renvoie leur nombre
+export async function revokeUserSessions(directory: SessionDirectory, userId: number, exceptSid?: string): Promise<number> {
+  const targets = (await directory.listUserSessions(userId)).filter(({ sid }) => sid !== exceptSid);
+  const destroy = promisify(directory.store.destroy.bind(directory.store));
+  await Promise.all(targets.map(({ sid }) => destroy(sid)));
+  return targets.length;
+}
@@ -0,0 +1,82 @@
+import { contentStatuses, type Question, type QuestionSubmission } from "@shared/schema";
+import type { SubmissionEntry } from "@shared/submissions";
+import type { IStorage } from "./storage";
+import { normalizeText } from "./questions";
+
+export const submissionConfig = {
+  // Propositions en attente par joueur : au-delà, il faut attendre la modération
+  maxPendingPerUser: 10,
+  // Points gagnés par le joueur quand sa proposition est acceptée
+  acceptedPoints: 50,
+};
+
+// Question du thème (quel que soit son état) dont l'énoncé est identique, casse et accents ignorés
+export async function findDuplicateQuestion(storage: IStorage, themeId: number, text: string) {
+  const key = normalizeText(text);
+  return (await storage.getQuestionsByTheme(themeId, contentStatuses)).find((question) => normalizeText(question.question) === key);
+}
+
+// Proposition en attente pour le même thème avec le même énoncé
+export async function findPendingDuplicate(storage: IStorage, themeId: number, text: string) {
+  const key = normalizeText(text);
+  return (await storage.getQuestionSubmissions({ status: "pending" })).find(
+    (submission) => submission.themeId === themeId && normalizeText(submission.content.question) === key,
+  );
+}
+
+// Accepte une proposition en attente : la question est créée en relecture et suit ensuite le cycle
+// de publication habituel ; le joueur est crédité et reçoit ses points. undefined si elle a déjà été traitée.
+export async function acceptSubmission(
+  storage: IStorage,
+  submission: QuestionSubmission,
+  reviewerId: number,
+  now: Date,
+): Promise<QuestionSubmission | undefined> {
+  return storage.acceptQuestionSubmission(submission.id, reviewerId, now, submissionConfig.acceptedPoints);
+}
+
+// Pseudo du joueur crédité, par question, pour les questions issues d'une proposition
+export async function contributorNames(storage: IStorage, questions: Question[]): Promise<Record<number, string>> {
+  const names: Record<number, string> = {};
+  for (const question of questions) {
+    if (question.contributorId === null) continue;
+    const contributor = await storage.getUser(question.contributorId);
+    if (contributor) names[question.id] = contributor.username;
+  }
+  return names;
+}
+
+export async function submissionEntries(storage: IStorage, submissions: QuestionSubmission[]): Promise<SubmissionEntry[]> {
+  const users = new Map<number, { id: number; username: string } | null>();
+  const themes = new Map<number, { id: number; name: string } | null>();
+  const userRef = async (id: number | null) => {
+    if (id === null) return null;
+    if (!users.has(id)) {
+      const user = await storage.getUser(id);
+      users.set(id, user ? { id: user.id, username: user.username } : null);
+    }
+    return users.get(id) ?? null;
+  };
+
+  const entries: SubmissionEntry[] = [];
+  for (const submission of submissions) {
+    if (!themes.has(submission.themeId)) {
+      const theme = await storage.getTheme(submission.themeId);
+      themes.set(submission.themeId, theme ? { id: theme.id, name: theme.name } : null);
+    }
+    entries.push({
+      id: submission.id,
+      theme: themes.get(submission.themeId) ?? null,
+      submitter: await userRef(submission.submitterId),
+      reviewer: await userRef(submission.reviewerId),
+      content: submission.content,
+      status: submission.status,
+      rejectionReason: submission.rejectionReason,
+      questionId: submission.questionId,
+      pointsAwarded: submission.pointsAwarded,
+      createdAt: new Date(submission.createdAt).toISOString(),
+      reviewedAt: submission.reviewedAt ? new Date(submission.reviewedAt).toISOString() : null,
+    });
+  }
+  return entries;
+}
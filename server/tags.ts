@@ -0,0 +1,66 @@
+import type { Question, Tag } from "@shared/schema";
+import { tagSlug, type TagSummary } from "@shared/tags";
+import type { IStorage } from "./storage";
+
+// Étiquettes correspondant aux noms donnés, créées si besoin ; doublons (même slug) fusionnés
+export async function ensureTags(storage: IStorage, names: string[]): Promise<Tag[]> {
+  const result = new Map<string, Tag>();
+  for (const name of names) {
+    const slug = tagSlug(name);
+    if (!slug || result.has(slug)) continue;
+    result.set(slug, (await storage.getTagBySlug(slug)) ?? (await storage.createTag({ name: name.trim(), slug })));
+  }
+  return Array.from(result.values());
+}
+
+// Étiquettes désignées par leur slug dans un filtre ; les slugs inconnus sont signalés plutôt qu'ignorés,
+// un filtre sans effet renverrait toutes les questions
+export async function resolveTagSlugs(storage: IStorage, slugs: string[]): Promise<{ tagIds: number[]; unknown: string[] }> {
+  const tagIds: number[] = [];
+  const unknown: string[] = [];
+  for (const slug of slugs) {
+    const tag = await storage.getTagBySlug(slug);
+    if (tag) tagIds.push(tag.id);
+    else unknown.push(slug);
+  }
+  return { tagIds, unknown };
+}
+
+// Remplace les étiquettes d'une question par celles nommées
+export async function setQuestionTags(storage: IStorage, questionId: number, names: string[]): Promise<Tag[]> {
+  const wanted = await ensureTags(storage, names);
+  const current = await storage.getQuestionTags({ questionIds: [questionId] });
+  await storage.removeQuestionTags(
+    [questionId],
+    current.map((link) => link.tagId).filter((tagId) => !wanted.some((tag) => tag.id === tagId)),
+  );
+  await storage.addQuestionTags(wanted.map((tag) => ({ questionId, tagId: tag.id })));
+  return wanted;
+}
+
+// Étiquettes de chaque question, par ordre alphabétique
+export async function questionTagMap(storage: IStorage, questions: Question[]): Promise<Record<number, Tag[]>> {
+  const links = await storage.getQuestionTags({ questionIds: questions.map((q) => q.id) });
+  const tags = new Map((await storage.getAllTags()).map((tag) => [tag.id, tag]));
+
+  const result: Record<number, Tag[]> = Object.fromEntries(questions.map((q) => [q.id, [] as Tag[]]));
+  for (const link of links) {
+    const tag = tags.get(link.tagId);
+    if (tag) result[link.questionId].push(tag);
+  }
+  for (const list of Object.values(result)) list.sort((a, b) => a.name.localeCompare(b.name, "fr"));
+  return result;
+}
+
+// Étiquettes portées par les questions données, les plus fréquentes d'abord ; toutes les
+// étiquettes (même inutilisées) si aucune liste de questions n'est donnée
+export async function tagSummaries(storage: IStorage, questions?: Question[]): Promise<TagSummary[]> {
+  const links = await storage.getQuestionTags(questions ? { questionIds: questions.map((q) => q.id) } : {});
+  const counts = new Map<number, number>();
+  for (const link of links) counts.set(link.tagId, (counts.get(link.tagId) ?? 0) + 1);
+
+  return (await storage.getAllTags())
+    .filter((tag) => !questions || counts.has(tag.id))
+    .map((tag) => ({ id: tag.id, name: tag.name, slug: tag.slug, questionCount: counts.get(tag.id) ?? 0 }))
+    .sort((a, b) => b.questionCount - a.questionCount || a.name.localeCompare(b.name, "fr"));
+}
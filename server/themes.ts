@@ -0,0 +1,56 @@
+import type { Question, Theme } from "@shared/schema";
+import type { ThemeNode } from "@shared/themes";
+import type { IStorage } from "./storage";
+
+// Arbre des thèmes donnés ; un thème dont le parent n'est pas dans la liste (non publié, inactif)
+// est rattaché à la racine
+export function buildThemeTree(themes: Theme[]): ThemeNode[] {
+  const nodes = new Map(themes.map((theme) => [theme.id, { ...theme, children: [] as ThemeNode[] }]));
+  const roots: ThemeNode[] = [];
+  for (const node of Array.from(nodes.values())) {
+    const parent = node.parentId !== null ? nodes.get(node.parentId) : undefined;
+    (parent ? parent.children : roots).push(node);
+  }
+  return roots;
+}
+
+// Le thème et tous ses descendants parmi les thèmes donnés
+export function themeSubtreeIds(themes: Theme[], themeId: number): number[] {
+  const ids = [themeId];
+  for (let i = 0; i < ids.length; i++) {
+    for (const theme of themes) {
+      if (theme.parentId === ids[i] && !ids.includes(theme.id)) ids.push(theme.id);
+    }
+  }
+  return ids;
+}
+
+// Un thème ne peut pas devenir le sous-thème de lui-même ou de l'un de ses descendants
+export async function isValidParent(storage: IStorage, themeId: number | null, parentId: number): Promise<boolean> {
+  const visited = new Set<number>();
+  let ancestor = await storage.getTheme(parentId);
+  if (!ancestor) return false;
+  while (ancestor && !visited.has(ancestor.id)) {
+    if (ancestor.id === themeId) return false;
+    visited.add(ancestor.id);
+    ancestor = ancestor.parentId !== null ? await storage.getTheme(ancestor.parentId) : undefined;
+  }
+  return true;
+}
+
+// Questions jouables dans un quiz sur le thème : les siennes et celles de ses sous-thèmes publiés,
+// restreintes à celles qui portent toutes les étiquettes demandées
+export async function quizQuestionPool(storage: IStorage, themeId: number, tagIds: number[] = []): Promise<Question[]> {
+  const themeIds = themeSubtreeIds(await storage.getAllThemes(), themeId);
+  const questions: Question[] = [];
+  for (const id of themeIds) {
+    questions.push(...await storage.getQuestionsByTheme(id));
+  }
+  if (tagIds.length === 0) return questions;
+
+  const tagCounts = new Map<number, number>();
+  for (const link of await storage.getQuestionTags({ questionIds: questions.map((q) => q.id), tagIds })) {
+    tagCounts.set(link.questionId, (tagCounts.get(link.questionId) ?? 0) + 1);
+  }
+  return questions.filter((question) => tagCounts.get(question.id) === tagIds.length);
+}
@@ -0,0 +1,54 @@
+import type { Question, QuizAttempt, Theme } from "@shared/schema";
+
+export const timingConfig = {
+  // Tolérance accordée à la latence réseau avant de refuser une réponse
+  graceMs: 2000,
+};
+
+// Limite effective d'une question : celle de la question si renseignée, sinon celle du thème
+export function questionTimeLimit(theme: Pick<Theme, "questionTimeLimit">, question: Pick<Question, "timeLimit">): number | null {
+  return question.timeLimit ?? theme.questionTimeLimit;
+}
+
+// Limites figées sur la tentative pour les questions servies (rien pour un entraînement sans chrono)
+export function attemptTimeLimits(theme: Theme, questions: Question[], timed: boolean): Record<number, number> {
+  if (!timed) return {};
+
+  const limits: Record<number, number> = {};
+  for (const question of questions) {
+    const limit = questionTimeLimit(theme, question);
+    if (limit !== null) limits[question.id] = limit;
+  }
+  return limits;
+}
+
+export function attemptDeadline(attempt: Pick<QuizAttempt, "startedAt" | "timeLimit">): number | null {
+  return attempt.timeLimit !== null ? new Date(attempt.startedAt).getTime() + attempt.timeLimit * 1000 : null;
+}
+
+export interface QuestionWindow {
+  questionId: number;
+  openedAt: number | null; // null : question pas encore atteinte
+  deadline: number | null; // null : sans limite
+  closedAt: number | null; // réponse, passage ou expiration du délai ; null : question en cours
+}
+
+// Déroulé d'une tentative : les questions sont posées dans l'ordre, chacune s'ouvrant à la clôture
+// de la précédente. Le délai d'une question ne dépasse jamais la limite globale du quiz.
+export function attemptSchedule(attempt: QuizAttempt, now: number): QuestionWindow[] {
+  const quizDeadline = attemptDeadline(attempt);
+  let openedAt: number | null = new Date(attempt.startedAt).getTime();
+
+  return attempt.questionIds.map((questionId) => {
+    if (openedAt === null) return { questionId, openedAt: null, deadline: null, closedAt: null };
+
+    const limit = attempt.questionTimeLimits[questionId];
+    let deadline = limit !== undefined ? openedAt + limit * 1000 : null;
+    if (quizDeadline !== null) deadline = deadline === null ? quizDeadline : Math.min(deadline, quizDeadline);
+
+    const closedAt = attempt.answerTimes[questionId] ?? (deadline !== null && deadline <= now ? deadline : null);
+    const window = { questionId, openedAt, deadline, closedAt };
+    openedAt = closedAt;
+    return window;
+  });
+}
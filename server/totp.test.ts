@@ -0,0 +1,50 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { base32Decode, base32Encode, totpCode, totpConfig, totpStep, verifyTotp } from "./totp";
+
+// Secret et vecteurs SHA1 de l'annexe B de la RFC 6238 ; les codes à 8 chiffres de la RFC
+// sont tronqués aux 6 chiffres utilisés ici
+const rfcSecret = base32Encode(Buffer.from("12345678901234567890", "ascii"));
+const rfcVectors: Array<[number, string]> = [
+  [59, "94287082"],
+  [1111111109, "07081804"],
+  [1111111111, "14050471"],
+  [1234567890, "89005924"],
+  [2000000000, "69279037"],
+  [20000000000, "65353130"],
+];
+
+const at = (seconds: number) => new Date(seconds * 1000);
+
+describe("totp", () => {
+  it("round-trips base32", () => {
+    const bytes = Buffer.from("12345678901234567890", "ascii");
+    assert.equal(rfcSecret, "GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ");
+    assert.deepEqual(base32Decode(rfcSecret), bytes);
+    assert.deepEqual(base32Decode("gezd gnbv gy3t qojq gezd gnbv gy3t qojq===="), bytes);
+    assert.throws(() => base32Decode("GEZD1"));
+  });
+
+  it("matches the RFC 6238 test vectors", () => {
+    for (const [seconds, expected] of rfcVectors) {
+      assert.equal(totpCode(rfcSecret, totpStep(at(seconds))), expected.slice(-totpConfig.digits), `T = ${seconds}`);
+    }
+  });
+
+  it("accepts codes within one time step of the clock and returns their step", () => {
+    const now = at(1111111111);
+    const current = totpStep(now);
+    for (let offset = -totpConfig.window; offset <= totpConfig.window; offset++) {
+      assert.equal(verifyTotp(rfcSecret, totpCode(rfcSecret, current + offset), now), current + offset);
+    }
+  });
+
+  it("rejects codes outside the window and malformed codes", () => {
+    const now = at(1111111111);
+    const current = totpStep(now);
+    assert.equal(verifyTotp(rfcSecret, totpCode(rfcSecret, current - totpConfig.window - 1), now), null);
+    assert.equal(verifyTotp(rfcSecret, totpCode(rfcSecret, current + totpConfig.window + 1), now), null);
+    assert.equal(verifyTotp(rfcSecret, "", now), null);
+    assert.equal(verifyTotp(rfcSecret, totpCode(rfcSecret, current) + "0", now), null);
+  });
+});
@@ -0,0 +1,92 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+
+// TOTP (RFC 6238) : HMAC-SHA1, codes à 6 chiffres renouvelés toutes les 30 secondes,
+// paramètres par défaut compris par toutes les applications d'authentification
+export const totpConfig = {
+  issuer: "QuizMaster",
+  stepSeconds: 30,
+  digits: 6,
+  // Pas de temps acceptés avant et après l'heure courante, pour tolérer le décalage des horloges
+  window: 1,
+};
+
+const base32Alphabet = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+export function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+  for (const byte of Array.from(buffer)) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += base32Alphabet[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += base32Alphabet[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+export function base32Decode(input: string): Buffer {
+  const clean = input.toUpperCase().replace(/[\s=]/g, "");
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+  for (const char of clean) {
+    const index = base32Alphabet.indexOf(char);
+    if (index === -1) throw new Error(`Caractère base32 invalide : ${char}`);
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+// Secret de 160 bits, la taille recommandée pour HMAC-SHA1
+export function generateTotpSecret(): string {
+  return base32Encode(randomBytes(20));
+}
+
+export const totpStep = (now: Date) => Math.floor(now.getTime() / 1000 / totpConfig.stepSeconds);
+
+export function totpCode(secret: string, step: number): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+  const hmac = createHmac("sha1", base32Decode(secret)).update(counter).digest();
+
+  const offset = hmac[hmac.length - 1] & 15;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+  return String(binary % 10 ** totpConfig.digits).padStart(totpConfig.digits, "0");
+}
+
+// Pas de temps auquel correspond le code, dans la fenêtre tolérée ; null si le code est faux
+export function verifyTotp(secret: string, code: string, now: Date): number | null {
+  const current = totpStep(now);
+  const given = Buffer.from(code);
+  for (let offset = -totpConfig.window; offset <= totpConfig.window; offset++) {
+    const expected = Buffer.from(totpCode(secret, current + offset));
+    if (expected.length === given.length && timingSafeEqual(expected, given)) {
+      return current + offset;
+    }
+  }
+  return null;
+}
+
+// URI lue par les applications d'authentification (format Key Uri de Google Authenticator)
+export function otpauthUri(secret: string, account: string): string {
+  const label = encodeURIComponent(`${totpConfig.issuer}:${account}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer: totpConfig.issuer,
+    algorithm: "SHA1",
+    digits: String(totpConfig.digits),
+    period: String(totpConfig.stepSeconds),
+  });
+  return `otpauth://totp/${label}?${params}`;
+}
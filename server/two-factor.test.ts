@@ -0,0 +1,68 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import MemStorage from "./storage";
+import { generateTotpSecret, totpCode, totpStep } from "./totp";
+import { confirmTwoFactorSetup, isTwoFactorEnabled, issueRecoveryCodes, verifySecondFactor } from "./two-factor";
+
+const storage = MemStorage.getInstance();
+
+// Identifiants propres à chaque test : le stockage en mémoire est partagé
+let nextUserId = 10_000;
+
+async function enrolledUser() {
+  const userId = nextUserId++;
+  const secret = generateTotpSecret();
+  await storage.saveTwoFactorSecret(userId, secret);
+  const step = totpStep(new Date());
+  const recoveryCodes = await confirmTwoFactorSetup(storage, userId, totpCode(secret, step));
+  assert.ok(recoveryCodes);
+  return { userId, secret, step, recoveryCodes };
+}
+
+describe("two-factor", () => {
+  it("enables two-factor only with a valid code", async () => {
+    const userId = nextUserId++;
+    await storage.saveTwoFactorSecret(userId, generateTotpSecret());
+    assert.equal(await confirmTwoFactorSetup(storage, userId, "000000"), undefined);
+    assert.equal(await isTwoFactorEnabled(storage, userId), false);
+
+    const { userId: enrolledId, recoveryCodes } = await enrolledUser();
+    assert.equal(await isTwoFactorEnabled(storage, enrolledId), true);
+    assert.equal(recoveryCodes.length, 10);
+  });
+
+  it("refuses to replay the code used for enrolment or an earlier step", async () => {
+    const { userId, secret, step } = await enrolledUser();
+    assert.equal(await verifySecondFactor(storage, userId, totpCode(secret, step)), false);
+    assert.equal(await verifySecondFactor(storage, userId, totpCode(secret, step - 1)), false);
+  });
+
+  it("accepts each time step once", async () => {
+    const { userId, secret, step } = await enrolledUser();
+    const next = totpCode(secret, step + 1);
+    assert.equal(await verifySecondFactor(storage, userId, next), true);
+    assert.equal(await verifySecondFactor(storage, userId, next), false);
+  });
+
+  it("accepts each recovery code once, whatever its formatting", async () => {
+    const { userId, recoveryCodes } = await enrolledUser();
+    const [first, second] = recoveryCodes;
+
+    assert.equal(await verifySecondFactor(storage, userId, first), true);
+    assert.equal(await verifySecondFactor(storage, userId, first), false);
+    assert.equal(await verifySecondFactor(storage, userId, ` ${second.replace("-", "").toLowerCase()} `), true);
+    assert.equal(await storage.countRecoveryCodes(userId), recoveryCodes.length - 2);
+  });
+
+  it("invalidates previous recovery codes when new ones are issued", async () => {
+    const { userId, recoveryCodes } = await enrolledUser();
+    await issueRecoveryCodes(storage, userId);
+    assert.equal(await verifySecondFactor(storage, userId, recoveryCodes[0]), false);
+  });
+
+  it("rejects codes for accounts without two-factor", async () => {
+    const { userId, secret } = await enrolledUser();
+    await storage.deleteTwoFactor(userId);
+    assert.equal(await verifySecondFactor(storage, userId, totpCode(secret, totpStep(new Date()) + 1)), false);
+  });
+});
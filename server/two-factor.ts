@@ -0,0 +1,81 @@
+import { createHash, randomBytes } from "crypto";
+import QRCode from "qrcode";
+import type { User, UserRole } from "@shared/schema";
+import type { TwoFactorSetup, TwoFactorStatus } from "@shared/two-factor";
+import type { IStorage } from "./storage";
+import { base32Encode, generateTotpSecret, otpauthUri, verifyTotp } from "./totp";
+
+export const twoFactorConfig = {
+  // Rôles pour lesquels la double authentification est obligatoire
+  requiredRoles: ["admin"] as UserRole[],
+  recoveryCodeCount: 10,
+  // Délai pour saisir le code après le mot de passe, et nombre d'essais avant de devoir le ressaisir
+  pendingLoginTtlMs: 5 * 60 * 1000,
+  maxLoginAttempts: 5,
+};
+
+export const isTwoFactorRequired = (role: UserRole) => twoFactorConfig.requiredRoles.includes(role);
+
+export async function isTwoFactorEnabled(storage: IStorage, userId: number): Promise<boolean> {
+  return !!(await storage.getTwoFactorSecret(userId))?.enabledAt;
+}
+
+export async function getTwoFactorStatus(storage: IStorage, user: User): Promise<TwoFactorStatus> {
+  const [enabled, recoveryCodesRemaining] = await Promise.all([
+    isTwoFactorEnabled(storage, user.id),
+    storage.countRecoveryCodes(user.id),
+  ]);
+  return { enabled, required: isTwoFactorRequired(user.role), recoveryCodesRemaining };
+}
+
+// Les codes de secours sont saisis à la main : tirets, espaces et casse sont ignorés
+const normalizeRecoveryCode = (code: string) => code.toUpperCase().replace(/[^A-Z2-7]/g, "");
+
+const hashRecoveryCode = (userId: number, code: string) =>
+  createHash("sha256").update(`${userId}:${normalizeRecoveryCode(code)}`).digest("hex");
+
+// Nouveaux codes de secours, renvoyés en clair une seule fois ; les précédents sont invalidés
+export async function issueRecoveryCodes(storage: IStorage, userId: number): Promise<string[]> {
+  const codes = Array.from({ length: twoFactorConfig.recoveryCodeCount }, () => {
+    const raw = base32Encode(randomBytes(8)).slice(0, 10);
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+  await storage.replaceRecoveryCodes(userId, codes.map(code => hashRecoveryCode(userId, code)));
+  return codes;
+}
+
+// Début de l'enrôlement : un nouveau secret, inactif tant qu'un premier code n'a pas été validé
+export async function startTwoFactorSetup(storage: IStorage, user: User): Promise<TwoFactorSetup> {
+  const secret = generateTotpSecret();
+  await storage.saveTwoFactorSecret(user.id, secret);
+
+  const uri = otpauthUri(secret, user.email);
+  return { secret, otpauthUri: uri, qrCodeDataUrl: await QRCode.toDataURL(uri) };
+}
+
+// Active la double authentification si le code correspond au secret en cours d'enrôlement ;
+// renvoie alors les codes de secours, undefined sinon
+export async function confirmTwoFactorSetup(storage: IStorage, userId: number, code: string): Promise<string[] | undefined> {
+  const record = await storage.getTwoFactorSecret(userId);
+  if (!record) return undefined;
+
+  const now = new Date();
+  const step = verifyTotp(record.secret, code, now);
+  if (step === null) return undefined;
+
+  await storage.enableTwoFactor(userId, step, now);
+  return issueRecoveryCodes(storage, userId);
+}
+
+// Second facteur à la connexion : code à 6 chiffres de l'application, sinon code de secours
+export async function verifySecondFactor(storage: IStorage, userId: number, code: string): Promise<boolean> {
+  const record = await storage.getTwoFactorSecret(userId);
+  if (!record?.enabledAt) return false;
+
+  const now = new Date();
+  if (/^\d{6}$/.test(code)) {
+    const step = verifyTotp(record.secret, code, now);
+    return step !== null && storage.useTwoFactorStep(userId, step);
+  }
+  return storage.consumeRecoveryCode(userId, hashRecoveryCode(userId, code), now);
+}
@@ -0,0 +1,33 @@
+import { contentStatuses, type ContentKind, type ContentStatus } from "@shared/schema";
+import type { ContentAction, ContentReviewEntry, ContentStatusFilter } from "@shared/workflow";
+import type { IStorage } from "./storage";
+
+// États listés pour un filtre d'administration ; sans filtre, seuls les contenus publiés
+export function statusesForFilter(filter: ContentStatusFilter | undefined): readonly ContentStatus[] {
+  if (!filter) return ["published"];
+  return filter === "all" ? contentStatuses : [filter];
+}
+
+// Journal de relecture d'un thème ou d'une question, de la décision la plus récente à la plus ancienne
+export async function contentReviewHistory(storage: IStorage, kind: ContentKind, contentId: number): Promise<ContentReviewEntry[]> {
+  const reviews = await storage.getContentReviews(kind, contentId);
+
+  const authors = new Map<number, { id: number; username: string } | null>();
+  for (const { authorId } of reviews) {
+    if (authorId !== null && !authors.has(authorId)) {
+      const author = await storage.getUser(authorId);
+      authors.set(authorId, author ? { id: author.id, username: author.username } : null);
+    }
+  }
+
+  return reviews.map((review) => ({
+    id: review.id,
+    action: review.action as ContentAction,
+    fromStatus: review.fromStatus,
+    toStatus: review.toStatus,
+    comment: review.comment,
+    author: review.authorId !== null ? authors.get(review.authorId) ?? null : null,
+    automatic: review.authorId === null,
+    createdAt: new Date(review.createdAt).toISOString(),
+  }));
+}
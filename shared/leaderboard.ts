@@ -0,0 +1,49 @@
+import { z } from "zod";
+
+// Classements publics : seule cette projection des utilisateurs est exposée (ni email, ni hash, ni rôle)
+export const leaderboardWindows = ["daily", "weekly", "monthly", "all"] as const;
+export type LeaderboardWindow = typeof leaderboardWindows[number];
+
+export const leaderboardQuerySchema = z.object({
+  window: z.enum(leaderboardWindows).default("all"),
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(100).optional(),
+});
+
+export const leaderboardPositionQuerySchema = z.object({
+  window: z.enum(leaderboardWindows).default("all"),
+  themeId: z.coerce.number().int().optional(),
+  neighbours: z.coerce.number().int().min(0).max(10).optional(),
+});
+
+export const leaderboardWindowLabels: Record<LeaderboardWindow, string> = {
+  daily: "Aujourd'hui",
+  weekly: "Cette semaine",
+  monthly: "Ce mois-ci",
+  all: "Depuis toujours",
+};
+
+export interface LeaderboardEntry {
+  rank: number;
+  username: string;
+  displayName: string;
+  avatarUrl: string | null;
+  // Points gagnés sur la période
+  score: number;
+}
+
+export interface LeaderboardPage {
+  window: LeaderboardWindow;
+  entries: LeaderboardEntry[];
+  // À renvoyer en paramètre cursor pour obtenir la page suivante ; null en fin de classement
+  nextCursor: string | null;
+}
+
+export interface LeaderboardPosition {
+  window: LeaderboardWindow;
+  // null si l'utilisateur n'a pas joué sur la période ou s'est retiré des classements
+  me: LeaderboardEntry | null;
+  optedOut: boolean;
+  above: LeaderboardEntry[];
+  below: LeaderboardEntry[];
+}
@@ -0,0 +1,69 @@
+import type { AnswerValue, QuizRewards, QuizSession } from "./schema";
+import type { PublicQuestion } from "./questions";
+
+// Messages échangés sur la connexion WebSocket des parties multijoueur (server/multiplayer.ts)
+
+// starting : questions en cours de tirage, la salle n'accepte plus ni inscription ni second lancement
+export type RoomStatus = "lobby" | "starting" | "question" | "results" | "finished";
+
+export type ClientMessage =
+  | { type: "create"; themeId: number; questionCount?: number }
+  | { type: "join"; code: string }
+  | { type: "start" }
+  | { type: "answer"; index: number; answer: AnswerValue }
+  | { type: "leave" };
+
+export interface RoomPlayerState {
+  userId: number;
+  username: string;
+  connected: boolean;
+}
+
+export interface RankingEntry {
+  userId: number;
+  username: string;
+  score: number;
+  points: number;
+  rank: number;
+}
+
+export interface RoomStateMessage {
+  type: "room";
+  code: string;
+  hostId: number;
+  themeId: number;
+  status: RoomStatus;
+  questionCount: number;
+  players: RoomPlayerState[];
+}
+
+export interface RoomQuestionMessage {
+  type: "question";
+  index: number;
+  total: number;
+  question: PublicQuestion;
+  deadline: number; // horodatage serveur (ms)
+}
+
+export interface QuestionResultMessage {
+  type: "question_result";
+  index: number;
+  correctAnswer: AnswerValue;
+  explanation: string | null;
+  results: Array<{ userId: number; correct: boolean; pointsEarned: number }>;
+  rankings: RankingEntry[];
+}
+
+export type ServerMessage =
+  | RoomStateMessage
+  | RoomQuestionMessage
+  | QuestionResultMessage
+  | { type: "answer_ack"; index: number }
+  | { type: "answer_count"; index: number; answered: number; total: number }
+  | { type: "podium"; podium: RankingEntry[]; rankings: RankingEntry[] }
+  | { type: "session"; session: QuizSession; rewards: QuizRewards }
+  | { type: "closed"; message: string }
+  | { type: "error"; message: string };
+
+// Chaque message reçu porte l'heure du serveur, pour synchroniser les comptes à rebours
+export type ServerEnvelope = ServerMessage & { serverTime: number };
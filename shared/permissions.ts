@@ -0,0 +1,36 @@
+import type { UserRole } from "./schema";
+
+export const permissions = [
+  "theme:write",
+  "question:write",
+  "question:moderate",
+  "content:review",
+  "stats:read",
+  "user:manage",
+] as const;
+export type Permission = typeof permissions[number];
+
+export const rolePermissions: Record<UserRole, readonly Permission[]> = {
+  user: [],
+  // Auteur de contenu : thèmes et questions
+  editor: ["theme:write", "question:write", "stats:read"],
+  // Modération : correction des questions, relecture avant publication et traitement des contenus signalés
+  moderator: ["question:write", "question:moderate", "content:review", "stats:read"],
+  admin: permissions,
+};
+
+export const roleLabels: Record<UserRole, string> = {
+  user: "Joueur",
+  editor: "Éditeur",
+  moderator: "Modérateur",
+  admin: "Administrateur",
+};
+
+export function hasPermission(role: UserRole | null | undefined, permission: Permission): boolean {
+  return !!role && (rolePermissions[role]?.includes(permission) ?? false);
+}
+
+// Accès à l'espace d'administration : au moins une permission au-delà du simple joueur
+export function canAccessAdmin(role: UserRole | null | undefined): boolean {
+  return !!role && (rolePermissions[role]?.length ?? 0) > 0;
+}
@@ -0,0 +1,310 @@
+import type { AnswerValue, Question, QuestionInput, QuestionType, QuizSession, Theme } from "./schema";
+
+export const TRUE_FALSE_OPTIONS = ["Vrai", "Faux"];
+
+export const questionTypeLabels: Record<QuestionType, string> = {
+  single_choice: "Choix unique",
+  multiple_choice: "Choix multiples",
+  true_false: "Vrai / Faux",
+  free_text: "Réponse libre",
+  numeric: "Valeur numérique",
+  ordering: "Remise en ordre",
+  matching: "Associations",
+};
+
+// Champs d'une question tels que stockés (colonnes de la table questions), figés à chaque révision
+export const questionFieldKeys = ["type", "question", "options", "correctAnswer", "answerKey", "difficulty", "explanation", "hint", "timeLimit"] as const;
+export type QuestionFieldKey = typeof questionFieldKeys[number];
+export type QuestionFields = Pick<Question, QuestionFieldKey>;
+
+export const questionFieldLabels: Record<QuestionFieldKey, string> = {
+  type: "Type",
+  question: "Énoncé",
+  options: "Options",
+  correctAnswer: "Bonne réponse",
+  answerKey: "Corrigé",
+  difficulty: "Difficulté",
+  explanation: "Explication",
+  hint: "Indice",
+  timeLimit: "Temps limite",
+};
+
+export function questionFieldsOf(question: QuestionFields): QuestionFields {
+  return {
+    type: question.type,
+    question: question.question,
+    options: question.options,
+    correctAnswer: question.correctAnswer,
+    answerKey: question.answerKey,
+    difficulty: question.difficulty,
+    explanation: question.explanation,
+    hint: question.hint,
+    timeLimit: question.timeLimit,
+  };
+}
+
+export interface QuestionFieldChange {
+  field: QuestionFieldKey;
+  before: unknown;
+  after: unknown;
+}
+
+// Champs modifiés entre deux versions ; explication vide et absente sont équivalentes
+export function diffQuestionFields(before: QuestionFields, after: QuestionFields): QuestionFieldChange[] {
+  const normalize = (field: QuestionFieldKey, value: unknown) =>
+    JSON.stringify(field === "explanation" || field === "hint" ? value || null : value ?? null);
+
+  return questionFieldKeys
+    .filter((field) => normalize(field, before[field]) !== normalize(field, after[field]))
+    .map((field) => ({ field, before: before[field] ?? null, after: after[field] ?? null }));
+}
+
+// Révision telle que présentée dans l'historique d'une question
+export interface QuestionRevisionEntry {
+  revision: number;
+  current: boolean;
+  author: { id: number; username: string } | null;
+  revertedFrom: number | null;
+  createdAt: string;
+  content: QuestionFields;
+  // Modifications par rapport à la révision précédente (vide pour la première)
+  changes: QuestionFieldChange[];
+}
+
+// Question telle qu'envoyée aux joueurs : sans réponse ni explication. Pour les remises en ordre
+// et les associations, les éléments à manipuler sont mélangés dans choices avec leur index d'origine.
+export interface PublicQuestion {
+  id: number;
+  themeId: number;
+  type: QuestionType;
+  question: string;
+  difficulty: string;
+  options: string[];
+  choices?: Array<{ id: number; label: string }>;
+  unit?: string;
+  // Un indice peut être demandé en joker (son texte n'est envoyé qu'à ce moment)
+  hasHint?: boolean;
+  // Secondes accordées pour répondre dans la tentative en cours ; null : sans limite
+  timeLimit?: number | null;
+  // Pseudo du joueur à l'origine de la question (proposition acceptée)
+  contributor?: string | null;
+}
+
+export function questionInputToFields(input: QuestionInput): QuestionFields {
+  const base = {
+    question: input.question,
+    difficulty: input.difficulty,
+    explanation: input.explanation ?? "",
+    hint: input.hint?.trim() || null,
+    timeLimit: input.timeLimit ?? null,
+  };
+
+  switch (input.type) {
+    case "single_choice":
+      return { ...base, type: input.type, options: input.options, correctAnswer: input.correctAnswer, answerKey: null };
+    case "multiple_choice": {
+      const correctAnswers = Array.from(new Set(input.correctAnswers)).sort((a, b) => a - b);
+      return {
+        ...base,
+        type: input.type,
+        options: input.options,
+        correctAnswer: correctAnswers[0],
+        answerKey: { type: "multiple_choice", correctAnswers },
+      };
+    }
+    case "true_false":
+      return { ...base, type: input.type, options: TRUE_FALSE_OPTIONS, correctAnswer: input.correctAnswer ? 0 : 1, answerKey: null };
+    case "free_text":
+      return {
+        ...base,
+        type: input.type,
+        options: [],
+        correctAnswer: 0,
+        answerKey: { type: "free_text", acceptedAnswers: input.acceptedAnswers, fuzzy: input.fuzzy },
+      };
+    case "numeric":
+      return {
+        ...base,
+        type: input.type,
+        options: [],
+        correctAnswer: 0,
+        answerKey: { type: "numeric", value: input.value, tolerance: input.tolerance, unit: input.unit },
+      };
+    case "ordering":
+      return { ...base, type: input.type, options: input.items, correctAnswer: 0, answerKey: { type: "ordering" } };
+    case "matching":
+      return {
+        ...base,
+        type: input.type,
+        options: input.pairs.map((pair) => pair.left),
+        correctAnswer: 0,
+        answerKey: { type: "matching", matches: input.pairs.map((pair) => pair.right) },
+      };
+  }
+}
+
+export function questionToInput(question: Question): QuestionInput {
+  const base = {
+    question: question.question,
+    difficulty: (question.difficulty as "easy" | "medium" | "hard") ?? "medium",
+    explanation: question.explanation ?? "",
+    hint: question.hint ?? undefined,
+    timeLimit: question.timeLimit,
+  };
+  const key = question.answerKey;
+
+  switch (question.type) {
+    case "multiple_choice":
+      return {
+        ...base,
+        type: "multiple_choice",
+        options: question.options,
+        correctAnswers: key?.type === "multiple_choice" ? key.correctAnswers : [question.correctAnswer],
+      };
+    case "true_false":
+      return { ...base, type: "true_false", correctAnswer: question.correctAnswer === 0 };
+    case "free_text":
+      return {
+        ...base,
+        type: "free_text",
+        acceptedAnswers: key?.type === "free_text" ? key.acceptedAnswers : [],
+        fuzzy: key?.type === "free_text" ? key.fuzzy : true,
+      };
+    case "numeric":
+      return {
+        ...base,
+        type: "numeric",
+        value: key?.type === "numeric" ? key.value : 0,
+        tolerance: key?.type === "numeric" ? key.tolerance : 0,
+        unit: key?.type === "numeric" ? key.unit : undefined,
+      };
+    case "ordering":
+      return { ...base, type: "ordering", items: question.options };
+    case "matching":
+      return {
+        ...base,
+        type: "matching",
+        pairs: question.options.map((left, i) => ({ left, right: key?.type === "matching" ? key.matches[i] ?? "" : "" })),
+      };
+    default:
+      return { ...base, type: "single_choice", options: question.options, correctAnswer: question.correctAnswer };
+  }
+}
+
+// Résumé de la bonne réponse, affiché dans les listes de l'administration
+export function describeCorrectAnswer(input: QuestionInput): string {
+  switch (input.type) {
+    case "single_choice":
+      return String.fromCharCode(65 + input.correctAnswer);
+    case "multiple_choice":
+      return input.correctAnswers.map((index) => String.fromCharCode(65 + index)).join(", ");
+    case "true_false":
+      return input.correctAnswer ? "Vrai" : "Faux";
+    case "free_text":
+      return input.acceptedAnswers.join(" / ");
+    case "numeric":
+      return `${input.value}${input.unit ? ` ${input.unit}` : ""}${input.tolerance ? ` (± ${input.tolerance})` : ""}`;
+    case "ordering":
+      return input.items.join(" → ");
+    case "matching":
+      return input.pairs.map((pair) => `${pair.left} → ${pair.right}`).join(", ");
+  }
+}
+
+// Formats de fichiers acceptés par l'import / export des questions
+export const questionFileFormats = ["json", "csv", "gift", "xml"] as const;
+export type QuestionFileFormat = typeof questionFileFormats[number];
+
+export const questionFileFormatLabels: Record<QuestionFileFormat, string> = {
+  json: "JSON QuizMaster",
+  csv: "CSV",
+  gift: "Moodle GIFT",
+  xml: "Moodle XML",
+};
+
+export interface ImportRowReport {
+  // Ligne (CSV, GIFT) ou position de la question (JSON, XML) dans le fichier
+  row: number;
+  status: "created" | "valid" | "duplicate" | "invalid";
+  question?: string;
+  type?: QuestionType;
+  errors?: string[];
+  // Question existante du thème, ou ligne précédente du fichier, dont celle-ci est le doublon
+  duplicateOf?: number;
+  duplicateOfRow?: number;
+}
+
+export interface ImportReport {
+  format: QuestionFileFormat;
+  dryRun: boolean;
+  total: number;
+  created: number;
+  valid: number;
+  duplicates: number;
+  invalid: number;
+  rows: ImportRowReport[];
+}
+
+// Calibration de la difficulté : positions des libellés sur l'échelle logistique des niveaux
+export const difficultyCalibration = {
+  ratingByDifficulty: { easy: -1, medium: 0, hard: 1 } as Record<string, number>,
+  // Nombre de réponses nécessaires avant de comparer libellé et difficulté observée
+  minAnswers: 20,
+};
+
+export type Difficulty = "easy" | "medium" | "hard";
+
+// Difficulté effective : calibrée si des réponses ont été observées, sinon celle du libellé
+export function questionRating(question: Pick<Question, "rating" | "difficulty">): number {
+  return question.rating ?? difficultyCalibration.ratingByDifficulty[question.difficulty] ?? 0;
+}
+
+// Libellé le plus proche de la difficulté observée, ou null si les données sont insuffisantes
+export function observedDifficulty(question: Pick<Question, "rating" | "answerCount">): Difficulty | null {
+  if (question.rating === null || question.answerCount < difficultyCalibration.minAnswers) return null;
+  const { easy, medium, hard } = difficultyCalibration.ratingByDifficulty;
+  if (question.rating < (easy + medium) / 2) return "easy";
+  if (question.rating > (medium + hard) / 2) return "hard";
+  return "medium";
+}
+
+export type ThemeSummary = Pick<Theme, "id" | "name" | "icon" | "color">;
+
+// Paquet de révision : questions manquées arrivées à échéance, avec leur thème d'origine
+export interface ReviewQuestion extends PublicQuestion {
+  theme: ThemeSummary | null;
+}
+
+export interface ReviewDeck {
+  dueCount: number;
+  questions: ReviewQuestion[];
+}
+
+export interface ReviewResult {
+  questionId: number;
+  correct: boolean;
+  correctAnswer: AnswerValue;
+  explanation: string | null;
+  nextDueAt: string | null;
+}
+
+// Détail d'une session terminée, question par question
+export interface SessionAnswerDetail {
+  position: number;
+  questionId: number;
+  // null si la question a été supprimée depuis
+  question: PublicQuestion | null;
+  answer: AnswerValue | null;
+  correct: boolean;
+  timeTaken: number | null;
+  correctAnswer: AnswerValue | null;
+  explanation: string | null;
+  // Vrai si la question a été modifiée depuis : le détail reste celui de la version notée
+  revisedSince: boolean;
+}
+
+export interface SessionDetail {
+  session: QuizSession;
+  theme: ThemeSummary | null;
+  answers: SessionAnswerDetail[];
+}
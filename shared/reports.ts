@@ -0,0 +1,38 @@
+import type { ContentStatus, ReportReason, ReportStatus } from "./schema";
+
+export const reportReasonLabels: Record<ReportReason, string> = {
+  wrong_answer: "Réponse incorrecte",
+  ambiguous: "Question ambiguë",
+  typo: "Faute de frappe",
+  offensive: "Contenu choquant",
+};
+
+export const reportStatusLabels: Record<ReportStatus, string> = {
+  open: "Ouvert",
+  resolved: "Corrigé",
+  dismissed: "Sans suite",
+};
+
+// Signalement d'un joueur, tel qu'affiché dans la vue de tri de la modération
+export interface ReportEntry {
+  id: number;
+  reporter: { id: number; username: string } | null;
+  reason: ReportReason;
+  comment: string | null;
+  questionRevision: number;
+  status: ReportStatus;
+  resolution: string | null;
+  resolvedBy: { id: number; username: string } | null;
+  createdAt: string;
+  resolvedAt: string | null;
+}
+
+// Signalements regroupés par question, les plus signalées d'abord
+export interface ReportedQuestion {
+  questionId: number;
+  question: { id: number; question: string; status: ContentStatus; revision: number } | null;
+  theme: { id: number; name: string } | null;
+  reasons: Record<ReportReason, number>;
+  reports: ReportEntry[];
+  lastReportedAt: string;
+}
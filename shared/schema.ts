@@ -1,6 +1,12 @@
-import { pgTable, text, serial, integer, boolean, timestamp, json } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, json, real, unique, index, uniqueIndex, varchar, primaryKey } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import type { QuestionFields } from "./questions";
+
+// Rôles par ordre croissant de privilèges (permissions associées : shared/permissions.ts)
+export const userRoles = ["user", "editor", "moderator", "admin"] as const;
+export type UserRole = typeof userRoles[number];
 
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
@@ -9,13 +15,22 @@ export const users = pgTable("users", {
   password: text("password").notNull(),
   firstName: text("first_name").notNull(),
   lastName: text("last_name").notNull(),
-  role: text("role").notNull().default("user"), // "user" | "admin"
+  role: text("role").$type<UserRole>().notNull().default("user"),
   points: integer("points").notNull().default(0),
   streak: integer("streak").notNull().default(0),
   badges: json("badges").$type<string[]>().notNull().default([]),
+  lastQuizAt: timestamp("last_quiz_at"), // sert au calcul de la série (streak)
+  avatarUrl: text("avatar_url"),
+  leaderboardOptOut: boolean("leaderboard_opt_out").notNull().default(false), // masqué des classements publics
+  emailVerifiedAt: timestamp("email_verified_at"), // null tant que le lien de vérification n'a pas été suivi
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
+// Cycle de publication des thèmes et questions (transitions : shared/workflow.ts).
+// Seuls les contenus publiés sont servis aux joueurs.
+export const contentStatuses = ["draft", "in_review", "published", "archived"] as const;
+export type ContentStatus = typeof contentStatuses[number];
+
 export const themes = pgTable("themes", {
   id: serial("id").primaryKey(),
   name: text("name").notNull().unique(),
@@ -23,18 +38,140 @@ export const themes = pgTable("themes", {
   icon: text("icon").notNull(),
   color: text("color").notNull(),
   isActive: boolean("is_active").notNull().default(true),
+  questionCount: integer("question_count"), // questions tirées par quiz ; null : toutes
+  // Chronométrage des quiz (en secondes) ; null : pas de limite
+  questionTimeLimit: integer("question_time_limit").default(30),
+  quizTimeLimit: integer("quiz_time_limit"),
+  allowUntimed: boolean("allow_untimed").notNull().default(true), // entraînement sans chrono, sans bonus de rapidité
+  status: text("status").$type<ContentStatus>().notNull().default("published"),
+  parentId: integer("parent_id"), // sous-thème : un quiz sur le parent inclut ses questions ; null : premier niveau
 });
 
+export const questionTypes = ["single_choice", "multiple_choice", "true_false", "free_text", "numeric", "ordering", "matching"] as const;
+export type QuestionType = typeof questionTypes[number];
+
+// Données de correction des types qui ne se résument pas à un index dans options
+export type AnswerKey =
+  | { type: "multiple_choice"; correctAnswers: number[] }
+  | { type: "free_text"; acceptedAnswers: string[]; fuzzy: boolean }
+  | { type: "numeric"; value: number; tolerance: number; unit?: string }
+  | { type: "ordering" } // options stockées dans le bon ordre
+  | { type: "matching"; matches: string[] }; // matches[i] est associé à options[i]
+
+export const quizModes = ["standard", "adaptive"] as const;
+export type QuizMode = typeof quizModes[number];
+
+// Jokers utilisables pendant un quiz, une fois chacun par tentative (coûts : server/lifelines.ts)
+export const lifelineTypes = ["hint", "fifty_fifty", "skip"] as const;
+export type LifelineType = typeof lifelineTypes[number];
+
+export interface LifelineUse {
+  type: LifelineType;
+  questionId: number;
+  cost: number;
+}
+
 export const questions = pgTable("questions", {
   id: serial("id").primaryKey(),
   themeId: integer("theme_id").notNull(),
+  type: text("type").$type<QuestionType>().notNull().default("single_choice"),
   question: text("question").notNull(),
-  options: json("options").$type<string[]>().notNull(),
-  correctAnswer: integer("correct_answer").notNull(), // 0-3 index
+  options: json("options").$type<string[]>().notNull().default([]),
+  correctAnswer: integer("correct_answer").notNull().default(0), // index pour single_choice / true_false
+  answerKey: json("answer_key").$type<AnswerKey>(),
   difficulty: text("difficulty").notNull().default("medium"), // "easy" | "medium" | "hard"
   explanation: text("explanation").default(""),
+  hint: text("hint"), // indice proposé en joker, qui ne doit pas donner la réponse
+  timeLimit: integer("time_limit"), // en secondes, remplace celle du thème si renseignée
+  // Calibration à partir des réponses observées (échelle logistique, voir server/adaptive.ts)
+  rating: real("rating"), // null tant que personne n'a répondu : on se fie alors à difficulty
+  answerCount: integer("answer_count").notNull().default(0),
+  correctCount: integer("correct_count").notNull().default(0),
+  revision: integer("revision").notNull().default(1), // révision en vigueur (question_revisions)
+  status: text("status").$type<ContentStatus>().notNull().default("published"),
+  contributorId: integer("contributor_id"), // joueur crédité quand la question vient d'une proposition acceptée
 });
 
+// Étiquettes libres posées sur les questions, en plus de leur thème ; un quiz peut être restreint
+// aux questions portant certaines étiquettes
+export const tags = pgTable("tags", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  slug: text("slug").notNull().unique(), // nom normalisé, casse et accents ignorés (shared/tags.ts)
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const questionTags = pgTable("question_tags", {
+  questionId: integer("question_id").notNull(),
+  tagId: integer("tag_id").notNull(),
+}, (table) => [
+  primaryKey({ columns: [table.questionId, table.tagId] }),
+  index("question_tags_tag_idx").on(table.tagId),
+]);
+
+// Questions proposées par les joueurs : file de modération, puis question du thème si acceptée
+export const submissionStatuses = ["pending", "accepted", "rejected"] as const;
+export type SubmissionStatus = typeof submissionStatuses[number];
+
+export const questionSubmissions = pgTable("question_submissions", {
+  id: serial("id").primaryKey(),
+  themeId: integer("theme_id").notNull(),
+  submitterId: integer("submitter_id").notNull(),
+  content: json("content").$type<QuestionInput>().notNull(), // modifiable par la modération tant qu'en attente
+  status: text("status").$type<SubmissionStatus>().notNull().default("pending"),
+  reviewerId: integer("reviewer_id"),
+  rejectionReason: text("rejection_reason"),
+  questionId: integer("question_id"), // question créée à l'acceptation
+  pointsAwarded: integer("points_awarded").notNull().default(0),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  reviewedAt: timestamp("reviewed_at"),
+}, (table) => [
+  index("question_submissions_status_idx").on(table.status, table.createdAt),
+  index("question_submissions_submitter_idx").on(table.submitterId),
+]);
+
+// Signalements de problèmes sur une question, traités par la modération question par question
+export const reportReasons = ["wrong_answer", "ambiguous", "typo", "offensive"] as const;
+export type ReportReason = typeof reportReasons[number];
+
+export const reportStatuses = ["open", "resolved", "dismissed"] as const;
+export type ReportStatus = typeof reportStatuses[number];
+
+export const questionReports = pgTable("question_reports", {
+  id: serial("id").primaryKey(),
+  questionId: integer("question_id").notNull(),
+  questionRevision: integer("question_revision").notNull(), // révision affichée au joueur
+  reporterId: integer("reporter_id").notNull(),
+  reason: text("reason").$type<ReportReason>().notNull(),
+  comment: text("comment"),
+  status: text("status").$type<ReportStatus>().notNull().default("open"),
+  resolution: text("resolution"), // note de la modération, transmise au joueur
+  resolvedBy: integer("resolved_by"),
+  resolvedAt: timestamp("resolved_at"),
+  notifiedAt: timestamp("notified_at"), // email envoyé au joueur après traitement
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("question_reports_question_idx").on(table.questionId, table.status),
+  // Un seul signalement ouvert par joueur et par question, même en cas d'envois simultanés
+  uniqueIndex("question_reports_open_reporter_idx")
+    .on(table.questionId, table.reporterId)
+    .where(sql`${table.status} = 'open'`),
+]);
+
+// Historique des modifications : chaque révision fige le contenu de la question et n'est jamais modifiée.
+// Un retour à une version antérieure crée une nouvelle révision (revertedFrom : révision restaurée).
+export const questionRevisions = pgTable("question_revisions", {
+  id: serial("id").primaryKey(),
+  questionId: integer("question_id").notNull(),
+  revision: integer("revision").notNull(),
+  authorId: integer("author_id"), // null : données initiales ou antérieures à l'historique
+  content: json("content").$type<QuestionFields>().notNull(),
+  revertedFrom: integer("reverted_from"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  unique("question_revisions_question_revision_unique").on(table.questionId, table.revision),
+]);
+
 export const quizSessions = pgTable("quiz_sessions", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").notNull(),
@@ -42,9 +179,48 @@ export const quizSessions = pgTable("quiz_sessions", {
   score: integer("score").notNull(),
   totalQuestions: integer("total_questions").notNull(),
   timeSpent: integer("time_spent").notNull(), // in seconds
+  pointsEarned: integer("points_earned").notNull().default(0),
+  // Entraînement (correction après chaque réponse) : hors statistiques, classements, points et badges
+  practice: boolean("practice").notNull().default(false),
   completedAt: timestamp("completed_at").notNull().defaultNow(),
 });
 
+export const quizAttempts = pgTable("quiz_attempts", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  themeId: integer("theme_id").notNull(),
+  mode: text("mode").$type<QuizMode>().notNull().default("standard"),
+  practice: boolean("practice").notNull().default(false), // correction renvoyée après chaque réponse
+  questionIds: json("question_ids").$type<number[]>().notNull(), // jeu de questions figé au démarrage (mode adaptatif : complété au fil des réponses)
+  questionCount: integer("question_count").notNull().default(0), // nombre de questions visé
+  seed: integer("seed").notNull().default(0), // graine du tirage des questions et du mélange des options (server/sampling.ts)
+  answers: json("answers").$type<Record<number, AnswerValue>>().notNull().default({}), // questionId -> réponse
+  answerTimes: json("answer_times").$type<Record<number, number>>().notNull().default({}), // questionId -> horodatage de la réponse ou du passage (ms)
+  // Limites figées au démarrage (voir server/timing.ts)
+  timed: boolean("timed").notNull().default(true),
+  timeLimit: integer("time_limit"), // limite globale en secondes, null : aucune
+  questionTimeLimits: json("question_time_limits").$type<Record<number, number>>().notNull().default({}), // questionId -> secondes
+  lifelinesUsed: json("lifelines_used").$type<LifelineUse[]>().notNull().default([]),
+  // Révision de chaque question servie : la notation se fait sur la version présentée au joueur
+  questionRevisions: json("question_revisions").$type<Record<number, number>>().notNull().default({}), // questionId -> révision
+  tagIds: json("tag_ids").$type<number[]>().notNull().default([]), // étiquettes exigées des questions (mode adaptatif)
+  startedAt: timestamp("started_at").notNull().defaultNow(),
+  finishedAt: timestamp("finished_at"),
+  sessionId: integer("session_id"), // quizSessions créé à la fin de la tentative
+});
+
+// Détail d'une session : une ligne par question posée
+export const quizAnswers = pgTable("quiz_answers", {
+  id: serial("id").primaryKey(),
+  sessionId: integer("session_id").notNull(),
+  questionId: integer("question_id").notNull(),
+  position: integer("position").notNull(), // rang de la question dans la session
+  answer: json("answer").$type<AnswerValue>(), // null : question passée ou sans réponse
+  correct: boolean("correct").notNull(),
+  timeTaken: integer("time_taken"), // in seconds
+  questionRevision: integer("question_revision"), // révision notée ; null pour les sessions antérieures à l'historique
+});
+
 export const userStats = pgTable("user_stats", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").notNull(),
@@ -53,8 +229,133 @@ export const userStats = pgTable("user_stats", {
   bestScore: integer("best_score").notNull().default(0),
   averageScore: integer("average_score").notNull().default(0),
   totalTimeSpent: integer("total_time_spent").notNull().default(0),
+  // Niveau estimé du joueur sur le thème, sur la même échelle que questions.rating
+  ability: real("ability").notNull().default(0),
+  abilityAnswers: integer("ability_answers").notNull().default(0),
+}, (table) => [
+  unique("user_stats_user_theme_unique").on(table.userId, table.themeId),
+]);
+
+// Suivi des réponses d'un joueur à une question et planification de sa révision (SM-2)
+export const questionReviews = pgTable("question_reviews", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  questionId: integer("question_id").notNull(),
+  timesAnswered: integer("times_answered").notNull().default(0),
+  timesCorrect: integer("times_correct").notNull().default(0),
+  lastCorrect: boolean("last_correct"),
+  lastAnsweredAt: timestamp("last_answered_at"),
+  easeFactor: real("ease_factor").notNull().default(2.5),
+  intervalDays: integer("interval_days").notNull().default(0),
+  repetitions: integer("repetitions").notNull().default(0),
+  dueAt: timestamp("due_at"), // null tant que la question n'a jamais été manquée : hors du paquet de révision
+}, (table) => [
+  unique("question_reviews_user_question_unique").on(table.userId, table.questionId),
+]);
+
+// Classement matérialisé : points cumulés par joueur, thème (0 : tous thèmes) et période,
+// incrémentés à chaque session plutôt que recalculés depuis quiz_sessions à chaque lecture
+export const leaderboardScores = pgTable("leaderboard_scores", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  themeId: integer("theme_id").notNull(),
+  period: text("period").notNull(), // "all", "daily:2026-10-19", "weekly:2026-10-12", "monthly:2026-10"
+  score: integer("score").notNull().default(0),
+}, (table) => [
+  unique("leaderboard_scores_user_theme_period_unique").on(table.userId, table.themeId, table.period),
+  index("leaderboard_scores_ranking_idx").on(table.themeId, table.period, table.score.desc(), table.userId),
+]);
+
+// Jetons envoyés par email (vérification d'adresse, réinitialisation du mot de passe).
+// Seule l'empreinte SHA-256 est stockée ; un jeton ne sert qu'une fois, avant son expiration.
+export const authTokenPurposes = ["verify_email", "reset_password"] as const;
+export type AuthTokenPurpose = typeof authTokenPurposes[number];
+
+export const authTokens = pgTable("auth_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  purpose: text("purpose").$type<AuthTokenPurpose>().notNull(),
+  tokenHash: text("token_hash").notNull().unique(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
+// Journal de relecture : chaque changement d'état d'un thème ou d'une question, avec le commentaire du relecteur
+export const contentKinds = ["theme", "question"] as const;
+export type ContentKind = typeof contentKinds[number];
+
+export const contentReviews = pgTable("content_reviews", {
+  id: serial("id").primaryKey(),
+  contentKind: text("content_kind").$type<ContentKind>().notNull(),
+  contentId: integer("content_id").notNull(),
+  authorId: integer("author_id"), // null : décision automatique (signalements des joueurs)
+  action: text("action").notNull(), // ContentAction (shared/workflow.ts)
+  fromStatus: text("from_status").$type<ContentStatus>().notNull(),
+  toStatus: text("to_status").$type<ContentStatus>().notNull(),
+  comment: text("comment"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("content_reviews_content_idx").on(table.contentKind, table.contentId),
+]);
+
+// Double authentification TOTP (RFC 6238). Le secret est créé au début de l'enrôlement ;
+// enabledAt n'est renseigné qu'une fois un premier code validé.
+export const twoFactorSecrets = pgTable("two_factor_secrets", {
+  userId: integer("user_id").primaryKey(),
+  secret: text("secret").notNull(), // base32
+  enabledAt: timestamp("enabled_at"),
+  lastUsedStep: integer("last_used_step"), // pas de temps du dernier code accepté : un code ne sert qu'une fois
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Codes de secours à usage unique, remis à l'activation ; seule leur empreinte est stockée
+export const recoveryCodes = pgTable("recovery_codes", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  codeHash: text("code_hash").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("recovery_codes_user_idx").on(table.userId),
+]);
+
+// Limitation des tentatives de connexion, par adresse IP ("ip:<adresse>") et par compte ("account:<email>").
+// Le compteur repart de zéro après une période sans échec (server/login-guard.ts).
+export const loginThrottles = pgTable("login_throttles", {
+  id: serial("id").primaryKey(),
+  key: text("key").notNull().unique(),
+  failures: integer("failures").notNull().default(0),
+  lastFailureAt: timestamp("last_failure_at"),
+  blockedUntil: timestamp("blocked_until"), // délai d'attente ou verrouillage en cours
+});
+
+// Journal des connexions refusées, consultable par les administrateurs
+export const loginFailureReasons = ["invalid_credentials", "invalid_second_factor", "throttled"] as const;
+export type LoginFailureReason = typeof loginFailureReasons[number];
+
+export const loginAttempts = pgTable("login_attempts", {
+  id: serial("id").primaryKey(),
+  email: text("email").notNull(),
+  userId: integer("user_id"), // null si aucun compte ne correspond
+  ip: text("ip"),
+  userAgent: text("user_agent"),
+  reason: text("reason").$type<LoginFailureReason>().notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("login_attempts_created_at_idx").on(table.createdAt),
+]);
+
+// Sessions express-session, gérées par connect-pg-simple (structure imposée par sa table.sql).
+// Déclarée ici pour que drizzle-kit la conserve et pour lister les sessions d'un utilisateur.
+export const sessions = pgTable("session", {
+  sid: varchar("sid").primaryKey(),
+  sess: json("sess").notNull(),
+  expire: timestamp("expire", { precision: 6 }).notNull(),
+}, (table) => [
+  index("IDX_session_expire").on(table.expire),
+]);
+
 // Insert schemas
 export const insertUserSchema = createInsertSchema(users).omit({
   id: true,
@@ -62,14 +363,36 @@ export const insertUserSchema = createInsertSchema(users).omit({
   points: true,
   streak: true,
   badges: true,
+  lastQuizAt: true,
+  avatarUrl: true,
+  leaderboardOptOut: true,
+  emailVerifiedAt: true,
+}).extend({
+  role: z.enum(userRoles).optional(),
 });
 
 export const insertThemeSchema = createInsertSchema(themes).omit({
   id: true,
+}).extend({
+  questionCount: z.number().int().min(1).max(100).nullable().optional(),
+  questionTimeLimit: z.number().int().min(5).max(600).nullable().optional(),
+  quizTimeLimit: z.number().int().min(10).max(7200).nullable().optional(),
+  status: z.enum(contentStatuses).optional(),
+  parentId: z.number().int().nullable().optional(),
 });
 
+// Thème saisi dans l'administration : l'état ne change que par le cycle de publication
+export const themeInputSchema = insertThemeSchema.omit({ status: true });
+
 export const insertQuestionSchema = createInsertSchema(questions).omit({
   id: true,
+  rating: true,
+  answerCount: true,
+  correctCount: true,
+  revision: true,
+}).extend({
+  type: z.enum(questionTypes).optional(),
+  status: z.enum(contentStatuses).optional(),
 });
 
 export const insertQuizSessionSchema = createInsertSchema(quizSessions).omit({
@@ -77,10 +400,193 @@ export const insertQuizSessionSchema = createInsertSchema(quizSessions).omit({
   completedAt: true,
 });
 
+export const insertQuizAttemptSchema = createInsertSchema(quizAttempts).omit({
+  id: true,
+  startedAt: true,
+  finishedAt: true,
+  sessionId: true,
+}).extend({
+  mode: z.enum(quizModes).optional(),
+});
+
+export const startQuizSchema = z.object({
+  themeId: z.number().int(),
+  mode: z.enum(quizModes).default("standard"),
+  // Par défaut, celui configuré sur le thème
+  questionCount: z.number().int().min(1).max(100).optional(),
+  // false : entraînement sans chrono, si le thème l'autorise
+  timed: z.boolean().default(true),
+  // Correction après chaque question ; toujours sans chrono
+  practice: z.boolean().default(false),
+  // Slugs d'étiquettes : seules les questions portant toutes ces étiquettes sont tirées
+  tags: z.array(z.string().trim().min(1)).max(10).default([]),
+});
+
+// Réponse d'un joueur : index (choix simple, vrai/faux), valeur numérique, texte libre
+// ou liste d'index (choix multiples, ordre, associations)
+export const answerValueSchema = z.union([
+  z.number(),
+  z.string().max(500),
+  z.array(z.number().int()).max(50),
+]);
+
+export const useLifelineSchema = z.object({
+  questionId: z.number().int(),
+  type: z.enum(lifelineTypes),
+});
+
+export const submitAnswerSchema = z.object({
+  questionId: z.number().int(),
+  answer: answerValueSchema.optional(), // absente : question passée
+});
+
+export const insertQuizAnswerSchema = createInsertSchema(quizAnswers).omit({
+  id: true,
+}).extend({
+  answer: answerValueSchema.nullable().optional(),
+});
+
+const questionBaseSchema = z.object({
+  question: z.string().min(1, "La question est requise"),
+  difficulty: z.enum(["easy", "medium", "hard"]).default("medium"),
+  explanation: z.string().optional(),
+  hint: z.string().optional(),
+  timeLimit: z.number().int().min(5).max(600).nullable().optional(),
+});
+
+const choiceOptionsSchema = z.array(z.string().min(1, "Les options ne peuvent pas être vides")).min(2, "Au moins 2 options sont requises").max(8);
+
+// Modèle typé des questions, tel qu'échangé avec l'éditeur d'administration
+export const questionInputSchema = z.preprocess(
+  // Les anciens clients n'envoient pas de type : il s'agit alors d'un choix simple
+  (value) => value && typeof value === "object" && !("type" in value) ? { ...value, type: "single_choice" } : value,
+  z.discriminatedUnion("type", [
+    questionBaseSchema.extend({
+      type: z.literal("single_choice"),
+      options: choiceOptionsSchema,
+      correctAnswer: z.number().int().min(0),
+    }),
+    questionBaseSchema.extend({
+      type: z.literal("multiple_choice"),
+      options: choiceOptionsSchema,
+      correctAnswers: z.array(z.number().int().min(0)).min(1, "Au moins une bonne réponse est requise"),
+    }),
+    questionBaseSchema.extend({
+      type: z.literal("true_false"),
+      correctAnswer: z.boolean(),
+    }),
+    questionBaseSchema.extend({
+      type: z.literal("free_text"),
+      acceptedAnswers: z.array(z.string().min(1)).min(1, "Au moins une réponse acceptée est requise"),
+      fuzzy: z.boolean().default(true),
+    }),
+    questionBaseSchema.extend({
+      type: z.literal("numeric"),
+      value: z.number(),
+      tolerance: z.number().min(0).default(0),
+      unit: z.string().optional(),
+    }),
+    questionBaseSchema.extend({
+      type: z.literal("ordering"),
+      items: z.array(z.string().min(1)).min(2, "Au moins 2 éléments sont requis"),
+    }),
+    questionBaseSchema.extend({
+      type: z.literal("matching"),
+      pairs: z.array(z.object({ left: z.string().min(1), right: z.string().min(1) })).min(2, "Au moins 2 paires sont requises"),
+    }),
+  ]).superRefine((input, ctx) => {
+    if (input.type === "single_choice" && input.correctAnswer >= input.options.length) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["correctAnswer"], message: "La réponse correcte doit correspondre à une option" });
+    }
+    if (input.type === "multiple_choice" && input.correctAnswers.some((i) => i >= input.options.length)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["correctAnswers"], message: "Les réponses correctes doivent correspondre à des options" });
+    }
+  }),
+);
+
+export const insertQuestionSubmissionSchema = createInsertSchema(questionSubmissions).pick({
+  themeId: true,
+  submitterId: true,
+}).extend({
+  content: questionInputSchema,
+});
+
+export const tagNameSchema = z.string().trim().min(1, "Nom d'étiquette requis").max(40);
+
+export const insertTagSchema = createInsertSchema(tags).pick({
+  name: true,
+  slug: true,
+});
+
+export const tagInputSchema = z.object({
+  name: tagNameSchema,
+});
+
+// Étiquettes d'une question, par nom : celles qui n'existent pas encore sont créées
+export const questionTagsSchema = z.object({
+  tags: z.array(tagNameSchema).max(20),
+});
+
+export const bulkTagSchema = z.object({
+  questionIds: z.array(z.number().int()).min(1).max(500),
+  add: z.array(tagNameSchema).max(20).default([]),
+  remove: z.array(z.number().int()).max(20).default([]), // ids d'étiquettes
+}).refine((data) => data.add.length > 0 || data.remove.length > 0, {
+  message: "Aucune étiquette à ajouter ou à retirer",
+  path: ["add"],
+});
+
+export const insertQuestionReportSchema = createInsertSchema(questionReports).pick({
+  questionId: true,
+  questionRevision: true,
+  reporterId: true,
+  comment: true,
+}).extend({
+  reason: z.enum(reportReasons),
+});
+
+export const reportQuestionSchema = z.object({
+  reason: z.enum(reportReasons),
+  comment: z.string().trim().max(1000).optional(),
+});
+
+export const resolveReportsSchema = z.object({
+  status: z.enum(["resolved", "dismissed"]),
+  resolution: z.string().trim().max(1000).optional(),
+});
+
+export const rejectSubmissionSchema = z.object({
+  reason: z.string().trim().min(3, "Indiquez le motif du refus").max(1000),
+});
+
 export const insertUserStatsSchema = createInsertSchema(userStats).omit({
   id: true,
 });
 
+export const insertAuthTokenSchema = createInsertSchema(authTokens).omit({
+  id: true,
+  usedAt: true,
+  createdAt: true,
+}).extend({
+  purpose: z.enum(authTokenPurposes),
+});
+
+export const insertContentReviewSchema = createInsertSchema(contentReviews).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  contentKind: z.enum(contentKinds),
+  fromStatus: z.enum(contentStatuses),
+  toStatus: z.enum(contentStatuses),
+});
+
+export const insertLoginAttemptSchema = createInsertSchema(loginAttempts).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  reason: z.enum(loginFailureReasons),
+});
+
 // Login schema
 export const loginSchema = z.object({
   email: z.string().email("Email invalide"),
@@ -88,7 +594,8 @@ export const loginSchema = z.object({
 });
 
 // Register schema
-export const registerSchema = insertUserSchema.extend({
+// Le rôle n'est jamais choisi à l'inscription : tout nouveau compte est "user"
+export const registerSchema = insertUserSchema.omit({ role: true }).extend({
   password: z.string().min(6, "Le mot de passe doit contenir au moins 6 caractères"),
   confirmPassword: z.string(),
 }).refine((data) => data.password === data.confirmPassword, {
@@ -96,11 +603,70 @@ export const registerSchema = insertUserSchema.extend({
   path: ["confirmPassword"],
 });
 
+export const verifyEmailSchema = z.object({
+  token: z.string().min(1),
+});
+
+export const requestPasswordResetSchema = z.object({
+  email: z.string().email("Email invalide"),
+});
+
+export const resetPasswordSchema = z.object({
+  token: z.string().min(1),
+  password: z.string().min(6, "Le mot de passe doit contenir au moins 6 caractères"),
+  confirmPassword: z.string(),
+}).refine((data) => data.password === data.confirmPassword, {
+  message: "Les mots de passe ne correspondent pas",
+  path: ["confirmPassword"],
+});
+
+// Code de l'application d'authentification, ou code de secours à l'étape de connexion
+export const twoFactorCodeSchema = z.object({
+  code: z.string().trim().regex(/^\d{6}$/, "Le code doit contenir 6 chiffres"),
+});
+
+export const twoFactorLoginSchema = z.object({
+  code: z.string().trim().min(1, "Code requis").max(32),
+});
+
+// Confirmation par mot de passe des actions sensibles (désactivation de la double authentification…)
+export const passwordConfirmationSchema = z.object({
+  password: z.string().min(1, "Mot de passe requis"),
+});
+
+export const updateUserRoleSchema = z.object({
+  role: z.enum(userRoles),
+});
+
+// Préférences modifiables par l'utilisateur lui-même
+export const updateProfileSchema = z.object({
+  avatarUrl: z.string().url("URL invalide").max(500).nullable().optional(),
+  leaderboardOptOut: z.boolean().optional(),
+});
+
 // Types
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type LoginData = z.infer<typeof loginSchema>;
 export type RegisterData = z.infer<typeof registerSchema>;
+export type UpdateProfileData = z.infer<typeof updateProfileSchema>;
+export type RequestPasswordResetData = z.infer<typeof requestPasswordResetSchema>;
+export type ResetPasswordData = z.infer<typeof resetPasswordSchema>;
+
+export type AuthToken = typeof authTokens.$inferSelect;
+export type InsertAuthToken = z.infer<typeof insertAuthTokenSchema>;
+
+export type TwoFactorSecret = typeof twoFactorSecrets.$inferSelect;
+export type RecoveryCode = typeof recoveryCodes.$inferSelect;
+
+export type LoginThrottle = typeof loginThrottles.$inferSelect;
+export type LoginAttempt = typeof loginAttempts.$inferSelect;
+export type InsertLoginAttempt = z.infer<typeof insertLoginAttemptSchema>;
+
+export type QuestionRevision = typeof questionRevisions.$inferSelect;
+
+export type ContentReview = typeof contentReviews.$inferSelect;
+export type InsertContentReview = z.infer<typeof insertContentReviewSchema>;
 
 export type Theme = typeof themes.$inferSelect;
 export type InsertTheme = z.infer<typeof insertThemeSchema>;
@@ -108,8 +674,53 @@ export type InsertTheme = z.infer<typeof insertThemeSchema>;
 export type Question = typeof questions.$inferSelect;
 export type InsertQuestion = z.infer<typeof insertQuestionSchema>;
 
+export type Tag = typeof tags.$inferSelect;
+export type InsertTag = z.infer<typeof insertTagSchema>;
+export type QuestionTag = typeof questionTags.$inferSelect;
+export type BulkTagData = z.infer<typeof bulkTagSchema>;
+
+export type QuestionReport = typeof questionReports.$inferSelect;
+export type InsertQuestionReport = z.infer<typeof insertQuestionReportSchema>;
+export type ReportQuestionData = z.infer<typeof reportQuestionSchema>;
+export type ResolveReportsData = z.infer<typeof resolveReportsSchema>;
+
+export type QuestionSubmission = typeof questionSubmissions.$inferSelect;
+export type InsertQuestionSubmission = z.infer<typeof insertQuestionSubmissionSchema>;
+
 export type QuizSession = typeof quizSessions.$inferSelect;
 export type InsertQuizSession = z.infer<typeof insertQuizSessionSchema>;
 
+export type QuizAttempt = typeof quizAttempts.$inferSelect;
+export type InsertQuizAttempt = z.infer<typeof insertQuizAttemptSchema>;
+export type AnswerValue = z.infer<typeof answerValueSchema>;
+export type SubmitAnswerData = z.infer<typeof submitAnswerSchema>;
+export type UseLifelineData = z.infer<typeof useLifelineSchema>;
+export type StartQuizData = z.infer<typeof startQuizSchema>;
+export type QuestionInput = z.infer<typeof questionInputSchema>;
+
+export type QuizAnswer = typeof quizAnswers.$inferSelect;
+export type InsertQuizAnswer = z.infer<typeof insertQuizAnswerSchema>;
+
+export interface QuizRewards {
+  pointsEarned: number;
+  basePoints: number;
+  speedBonus: number;
+  lifelinePenalty: number;
+  streak: number;
+  streakExtended: boolean;
+  newBadges: string[];
+}
+
+// Correction d'une question : en fin de tentative, ou après chaque réponse en entraînement.
+// La bonne réponse porte sur les options dans l'ordre présenté au joueur.
+export interface QuestionResult {
+  questionId: number;
+  correct: boolean;
+  correctAnswer: AnswerValue;
+  explanation: string | null;
+}
+
+export type QuestionReview = typeof questionReviews.$inferSelect;
+
 export type UserStats = typeof userStats.$inferSelect;
 export type InsertUserStats = z.infer<typeof insertUserStatsSchema>;
@@ -0,0 +1,11 @@
+// Session de connexion d'un utilisateur, telle qu'affichée dans son profil.
+// L'identifiant est une empreinte de l'identifiant de session : ce dernier, porté par le cookie, n'est jamais exposé.
+export interface ActiveSession {
+  id: string;
+  current: boolean;
+  userAgent: string | null;
+  ip: string | null;
+  createdAt: string | null;
+  lastSeenAt: string | null;
+  expiresAt: string | null;
+}
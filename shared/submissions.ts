@@ -0,0 +1,22 @@
+import type { QuestionInput, SubmissionStatus } from "./schema";
+
+export const submissionStatusLabels: Record<SubmissionStatus, string> = {
+  pending: "En attente",
+  accepted: "Acceptée",
+  rejected: "Refusée",
+};
+
+// Proposition de question, telle qu'affichée au joueur et dans la file de modération
+export interface SubmissionEntry {
+  id: number;
+  theme: { id: number; name: string } | null;
+  submitter: { id: number; username: string } | null;
+  reviewer: { id: number; username: string } | null;
+  content: QuestionInput;
+  status: SubmissionStatus;
+  rejectionReason: string | null;
+  questionId: number | null;
+  pointsAwarded: number;
+  createdAt: string;
+  reviewedAt: string | null;
+}
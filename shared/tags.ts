@@ -0,0 +1,23 @@
+import type { Tag } from "./schema";
+
+// Identifiant d'une étiquette : « Éléments HTML » et « elements html » désignent la même étiquette
+export function tagSlug(name: string): string {
+  return name
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+// Étiquette avec le nombre de questions qui la portent
+export interface TagSummary extends Pick<Tag, "id" | "name" | "slug"> {
+  questionCount: number;
+}
+
+// Questions publiées d'un thème et de ses sous-thèmes restant après le filtre d'étiquettes,
+// et étiquettes encore disponibles pour affiner ce filtre
+export interface ThemeTagFacets {
+  questionCount: number;
+  tags: TagSummary[];
+}
@@ -0,0 +1,19 @@
+import type { Theme } from "./schema";
+
+// Thème et ses sous-thèmes, tel que renvoyé par GET /api/themes
+export interface ThemeNode extends Theme {
+  children: ThemeNode[];
+}
+
+// Parcours en profondeur de l'arbre, pour les listes et sélecteurs à plat
+export function flattenThemeTree(nodes: ThemeNode[], depth = 0): (Theme & { depth: number })[] {
+  return nodes.flatMap(({ children, ...theme }) => [
+    { ...theme, depth },
+    ...flattenThemeTree(children, depth + 1),
+  ]);
+}
+
+// Nom préfixé selon la profondeur, pour les listes déroulantes
+export function indentedThemeName(theme: Pick<Theme, "name"> & { depth: number }): string {
+  return `${"— ".repeat(theme.depth)}${theme.name}`;
+}
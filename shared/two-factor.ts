@@ -0,0 +1,14 @@
+// État de la double authentification d'un utilisateur, tel qu'affiché dans son profil
+export interface TwoFactorStatus {
+  enabled: boolean;
+  // Imposée par le rôle (administrateurs) : elle ne peut alors pas être désactivée
+  required: boolean;
+  recoveryCodesRemaining: number;
+}
+
+// Début de l'enrôlement : secret à saisir dans l'application, ou QR code contenant l'URI otpauth://
+export interface TwoFactorSetup {
+  secret: string;
+  otpauthUri: string;
+  qrCodeDataUrl: string;
+}
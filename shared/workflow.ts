@@ -0,0 +1,94 @@
+import { z } from "zod";
+import { contentStatuses, type ContentKind, type ContentStatus, type UserRole } from "./schema";
+import { hasPermission, type Permission } from "./permissions";
+
+export const contentActions = ["submit", "approve", "request_changes", "unpublish", "archive", "restore"] as const;
+export type ContentAction = typeof contentActions[number];
+
+interface ContentTransition {
+  from: ContentStatus[];
+  to: ContentStatus;
+  // Réservée aux relecteurs (content:review) ; sinon, aux auteurs du type de contenu
+  review: boolean;
+  commentRequired: boolean;
+}
+
+// brouillon → en relecture → publié → archivé ; une demande de modifications renvoie au brouillon
+export const contentTransitions: Record<ContentAction, ContentTransition> = {
+  submit: { from: ["draft"], to: "in_review", review: false, commentRequired: false },
+  approve: { from: ["in_review"], to: "published", review: true, commentRequired: false },
+  request_changes: { from: ["in_review"], to: "draft", review: true, commentRequired: true },
+  // Retrait temporaire, par exemple après des signalements : le contenu repasse par la relecture
+  unpublish: { from: ["published"], to: "draft", review: true, commentRequired: false },
+  archive: { from: ["published"], to: "archived", review: true, commentRequired: false },
+  restore: { from: ["archived"], to: "draft", review: false, commentRequired: false },
+};
+
+export const contentStatusLabels: Record<ContentStatus, string> = {
+  draft: "Brouillon",
+  in_review: "En relecture",
+  published: "Publié",
+  archived: "Archivé",
+};
+
+export const contentActionLabels: Record<ContentAction, string> = {
+  submit: "Soumettre à relecture",
+  approve: "Approuver et publier",
+  request_changes: "Demander des modifications",
+  unpublish: "Dépublier",
+  archive: "Archiver",
+  restore: "Remettre en brouillon",
+};
+
+const writePermissions: Record<ContentKind, Permission> = {
+  theme: "theme:write",
+  question: "question:write",
+};
+
+export const contentWritePermission = (kind: ContentKind): Permission => writePermissions[kind];
+
+// Les contenus non publiés ne sont visibles que des auteurs et des relecteurs
+export function canViewUnpublished(role: UserRole | null | undefined): boolean {
+  return hasPermission(role, "theme:write") || hasPermission(role, "question:write") || hasPermission(role, "content:review");
+}
+
+export function canApplyContentAction(role: UserRole | null | undefined, kind: ContentKind, action: ContentAction): boolean {
+  return hasPermission(role, contentTransitions[action].review ? "content:review" : writePermissions[kind]);
+}
+
+// Actions proposées à l'utilisateur pour un contenu dans l'état donné
+export function availableContentActions(role: UserRole | null | undefined, kind: ContentKind, status: ContentStatus): ContentAction[] {
+  return contentActions.filter(
+    (action) => contentTransitions[action].from.includes(status) && canApplyContentAction(role, kind, action),
+  );
+}
+
+// Filtre des listes de l'administration : un état, ou tous
+export const contentStatusFilters = [...contentStatuses, "all"] as const;
+export type ContentStatusFilter = typeof contentStatusFilters[number];
+
+export const contentStatusQuerySchema = z.object({
+  status: z.enum(contentStatusFilters).optional(),
+});
+
+export const contentTransitionSchema = z.object({
+  action: z.enum(contentActions),
+  comment: z.string().trim().max(2000).optional(),
+}).refine((data) => !contentTransitions[data.action].commentRequired || !!data.comment, {
+  message: "Un commentaire est requis pour demander des modifications",
+  path: ["comment"],
+});
+
+export type ContentTransitionData = z.infer<typeof contentTransitionSchema>;
+
+// Entrée du journal de relecture, avec son auteur
+export interface ContentReviewEntry {
+  id: number;
+  action: ContentAction;
+  fromStatus: ContentStatus;
+  toStatus: ContentStatus;
+  comment: string | null;
+  author: { id: number; username: string } | null;
+  automatic: boolean; // décision prise sans intervention (seuil de signalements atteint)
+  createdAt: string;
+}